@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authService } from '@/services/auth-service'
+import { setSessionCookie } from '@/lib/auth'
+import { z } from 'zod'
+
+const LoginSchema = z.object({
+  email: z.string().min(1),
+  password: z.string().min(1),
+})
+
+/**
+ * POST /api/auth/login
+ * Returns the user and a token; browsers get it as an httpOnly cookie,
+ * other clients can send it as "Authorization: Bearer <token>"
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { email, password } = LoginSchema.parse(body)
+
+    const { user, token, expiresAt } = await authService.login(email, password)
+
+    const response = NextResponse.json({ user, token, expiresAt })
+    setSessionCookie(response, token, expiresAt)
+    return response
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Invalid email or password') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    console.error('Error logging in:', error)
+    return NextResponse.json({ error: 'Failed to log in' }, { status: 500 })
+  }
+}
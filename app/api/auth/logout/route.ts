@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authService } from '@/services/auth-service'
+import { clearSessionCookie, getRequestToken } from '@/lib/auth'
+
+/**
+ * POST /api/auth/logout
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = getRequestToken(request)
+    if (token) {
+      await authService.logout(token)
+    }
+
+    const response = NextResponse.json({ message: 'Logged out' })
+    clearSessionCookie(response)
+    return response
+  } catch (error) {
+    console.error('Error logging out:', error)
+    return NextResponse.json({ error: 'Failed to log out' }, { status: 500 })
+  }
+}
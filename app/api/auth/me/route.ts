@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authService } from '@/services/auth-service'
+
+/**
+ * GET /api/auth/me
+ * The logged-in user, or 401
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await authService.getCurrentUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+    return NextResponse.json(user)
+  } catch (error) {
+    console.error('Error fetching current user:', error)
+    return NextResponse.json({ error: 'Failed to fetch current user' }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authService } from '@/services/auth-service'
+import { setSessionCookie } from '@/lib/auth'
+import { z } from 'zod'
+
+const RegisterSchema = z.object({
+  email: z.string().email().max(200),
+  password: z.string().min(8).max(200),
+  displayName: z.string().min(1).max(100),
+})
+
+/**
+ * POST /api/auth/register
+ * Create an account and log it in (sets the session cookie)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const data = RegisterSchema.parse(body)
+
+    const { user, token, expiresAt } = await authService.register(data)
+
+    const response = NextResponse.json({ user, token, expiresAt }, { status: 201 })
+    setSessionCookie(response, token, expiresAt)
+    return response
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Email is already registered') {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    console.error('Error registering user:', error)
+    return NextResponse.json({ error: 'Failed to register' }, { status: 500 })
+  }
+}
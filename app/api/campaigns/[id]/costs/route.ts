@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
 import { costTrackingService } from '@/services/cost-tracking'
 
 export async function GET(
@@ -7,6 +9,8 @@ export async function GET(
 ) {
   try {
     const { id: campaignId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, campaignId)
     const { searchParams } = new URL(request.url)
     const trendDays = parseInt(searchParams.get('trendDays') || '30', 10)
 
@@ -39,6 +43,12 @@ export async function GET(
         { status: 404 }
       )
     }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error fetching campaign costs:', error)
     return NextResponse.json(
       { error: 'Failed to fetch campaign costs' },
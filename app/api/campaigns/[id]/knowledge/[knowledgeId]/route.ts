@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
 import { knowledgeManagerService } from '@/services/knowledge-manager'
 import { z } from 'zod'
 
@@ -17,6 +19,8 @@ export async function GET(
 ) {
   try {
     const { knowledgeId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireKnowledgeAccess(user.id, knowledgeId)
     const knowledge = await knowledgeManagerService.getKnowledge(knowledgeId)
 
     if (!knowledge) {
@@ -28,6 +32,15 @@ export async function GET(
 
     return NextResponse.json(knowledge)
   } catch (error) {
+    if (error instanceof Error && error.message === 'Knowledge entry not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error fetching knowledge:', error)
     return NextResponse.json(
       { error: 'Failed to fetch knowledge entry' },
@@ -42,6 +55,8 @@ export async function PATCH(
 ) {
   try {
     const { knowledgeId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireKnowledgeAccess(user.id, knowledgeId, 'gm')
     const body = await request.json()
     const data = KnowledgeUpdateSchema.parse(body)
 
@@ -54,6 +69,15 @@ export async function PATCH(
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 })
     }
+    if (error instanceof Error && error.message === 'Knowledge entry not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error updating knowledge:', error)
     return NextResponse.json(
       { error: 'Failed to update knowledge entry' },
@@ -68,9 +92,20 @@ export async function DELETE(
 ) {
   try {
     const { knowledgeId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireKnowledgeAccess(user.id, knowledgeId, 'gm')
     await knowledgeManagerService.deleteKnowledge(knowledgeId)
     return NextResponse.json({ success: true })
   } catch (error) {
+    if (error instanceof Error && error.message === 'Knowledge entry not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error deleting knowledge:', error)
     return NextResponse.json(
       { error: 'Failed to delete knowledge entry' },
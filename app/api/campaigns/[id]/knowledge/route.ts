@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
 import { knowledgeManagerService } from '@/services/knowledge-manager'
 import { z } from 'zod'
 
@@ -23,6 +25,8 @@ export async function GET(
 ) {
   try {
     const { id: campaignId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, campaignId)
     const { searchParams } = new URL(request.url)
     const category = searchParams.get('category')
     const query = searchParams.get('query')
@@ -41,6 +45,12 @@ export async function GET(
     )
     return NextResponse.json(knowledge)
   } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error fetching campaign knowledge:', error)
     return NextResponse.json(
       { error: 'Failed to fetch campaign knowledge' },
@@ -55,6 +65,8 @@ export async function POST(
 ) {
   try {
     const { id: campaignId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, campaignId, 'gm')
     const body = await request.json()
     const data = KnowledgeCreateSchema.parse(body)
 
@@ -68,6 +80,12 @@ export async function POST(
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 })
     }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error creating knowledge:', error)
     return NextResponse.json(
       { error: 'Failed to create knowledge entry' },
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { spatialService } from '@/services/spatial-service'
+import { z } from 'zod'
+
+const PositionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  z: z.number(),
+})
+
+const AreaOfEffectSchema = z.object({
+  shape: z.enum(['SPHERE', 'CUBE', 'CONE', 'LINE', 'CYLINDER']),
+  origin: PositionSchema,
+  size: z.number().positive(),
+  towards: PositionSchema.optional(),
+  width: z.number().positive().optional(),
+  height: z.number().positive().optional(),
+})
+
+/**
+ * POST /api/campaigns/[id]/locations/[locationId]/area-of-effect
+ * Resolve who and what an area effect (fireball, cone of cold, ...) reaches
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; locationId: string }> }
+) {
+  try {
+    const { locationId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireLocationAccess(user.id, locationId)
+    const body = await request.json()
+    const area = AreaOfEffectSchema.parse(body)
+
+    const result = await spatialService.resolveAreaOfEffect(locationId, area)
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Location not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'Area size must be positive' || error.message.endsWith('needs a direction'))
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error resolving area of effect:', error)
+    return NextResponse.json({ error: 'Failed to resolve area of effect' }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { worldService } from '@/services/world-service'
+
+/**
+ * DELETE /api/campaigns/[id]/locations/[locationId]/connections/[connectionId]
+ * Remove a connection from or to the location
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; locationId: string; connectionId: string }> }
+) {
+  try {
+    const { locationId, connectionId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireLocationAccess(user.id, locationId, 'gm')
+    await worldService.deleteConnection(connectionId, locationId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      (error.message === 'Location not found' || error.message === 'Connection not found')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error deleting connection:', error)
+    return NextResponse.json({ error: 'Failed to delete connection' }, { status: 500 })
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { worldService } from '@/services/world-service'
+import { z } from 'zod'
+
+const PositionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  z: z.number(),
+})
+
+const ConnectionCreateSchema = z.object({
+  toLocationId: z.string(),
+  name: z.string().min(1).max(100),
+  type: z.enum(['DOOR', 'STAIRS', 'PASSAGE', 'PATH', 'PORTAL']).optional(),
+  description: z.string().optional(),
+  featureId: z.string().optional(),
+  exitPosition: PositionSchema.optional(),
+  arrivalPosition: PositionSchema.optional(),
+  bidirectional: z.boolean().optional(),
+  travelDistance: z.number().nonnegative().optional(),
+  travelTime: z.number().int().nonnegative().optional(),
+})
+
+/**
+ * GET /api/campaigns/[id]/locations/[locationId]/connections
+ * Exits that can be taken from the location
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; locationId: string }> }
+) {
+  try {
+    const { locationId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireLocationAccess(user.id, locationId)
+    const exits = await worldService.getExits(locationId)
+    return NextResponse.json(exits)
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Location not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error fetching exits:', error)
+    return NextResponse.json({ error: 'Failed to fetch exits' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/campaigns/[id]/locations/[locationId]/connections
+ * Connect the location to another location of the campaign
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; locationId: string }> }
+) {
+  try {
+    const { locationId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireLocationAccess(user.id, locationId, 'gm')
+    const body = await request.json()
+    const data = ConnectionCreateSchema.parse(body)
+
+    const connection = await worldService.createConnection({
+      fromLocationId: locationId,
+      ...data,
+    })
+
+    return NextResponse.json(connection, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Location not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'Locations must belong to the same campaign' ||
+        error.message === 'Exit feature not found in this location' ||
+        error.message === 'An exit needs a position or a feature')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error creating connection:', error)
+    return NextResponse.json({ error: 'Failed to create connection' }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { locationService } from '@/services/location-service'
+import { z } from 'zod'
+
+const MapFormatSchema = z.enum(['dd2vtt', 'tiled'])
+
+/**
+ * GET /api/campaigns/[id]/locations/[locationId]/export?format=dd2vtt|tiled
+ * Download the location as a battle map file (GM only: it shows every feature)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; locationId: string }> }
+) {
+  try {
+    const { locationId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireLocationAccess(user.id, locationId, 'gm')
+    const { searchParams } = new URL(request.url)
+    const format = MapFormatSchema.parse(searchParams.get('format') || 'dd2vtt')
+
+    const file = await locationService.exportMap(locationId, format)
+    const extension = format === 'dd2vtt' ? 'dd2vtt' : 'json'
+    return NextResponse.json(file, {
+      headers: {
+        'Content-Disposition': `attachment; filename="location-${locationId}.${extension}"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Location not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error exporting map:', error)
+    return NextResponse.json({ error: 'Failed to export map' }, { status: 500 })
+  }
+}
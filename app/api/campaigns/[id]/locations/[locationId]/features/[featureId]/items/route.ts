@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { featureService } from '@/services/feature-service'
+import { z } from 'zod'
+
+const ItemCreateSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(2000).optional(),
+  quantity: z.number().int().min(1).max(10000).optional(),
+})
+
+/**
+ * GET /api/campaigns/[id]/locations/[locationId]/features/[featureId]/items
+ * What a container holds (GM only; players find out by opening it)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; locationId: string; featureId: string }> }
+) {
+  try {
+    const { locationId, featureId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireLocationAccess(user.id, locationId, 'gm')
+
+    const items = await featureService.getItems(locationId, featureId)
+    return NextResponse.json(items)
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      (error.message === 'Feature not found' || error.message === 'Location not found')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error fetching items:', error)
+    return NextResponse.json({ error: 'Failed to fetch items' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/campaigns/[id]/locations/[locationId]/features/[featureId]/items
+ * Put an item in a container
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; locationId: string; featureId: string }> }
+) {
+  try {
+    const { locationId, featureId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireLocationAccess(user.id, locationId, 'gm')
+    const body = await request.json()
+    const data = ItemCreateSchema.parse(body)
+
+    const item = await featureService.addItem(locationId, featureId, data)
+    return NextResponse.json(item, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'Feature not found' || error.message === 'Location not found')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error adding item:', error)
+    return NextResponse.json({ error: 'Failed to add item' }, { status: 500 })
+  }
+}
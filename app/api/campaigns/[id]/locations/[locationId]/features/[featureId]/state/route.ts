@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { featureService } from '@/services/feature-service'
+import { z } from 'zod'
+
+// Null clears the setting (a feature without state does not open or close)
+const FeatureStateSchema = z.object({
+  state: z.enum(['OPEN', 'CLOSED', 'LOCKED', 'BROKEN']).nullable().optional(),
+  lockDc: z.number().int().min(1).max(30).nullable().optional(),
+  keyItemId: z.string().nullable().optional(),
+})
+
+/**
+ * PATCH /api/campaigns/[id]/locations/[locationId]/features/[featureId]/state
+ * Set a door or container's state, lock DC or key; doors block movement and
+ * sight according to their state
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; locationId: string; featureId: string }> }
+) {
+  try {
+    const { locationId, featureId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireLocationAccess(user.id, locationId, 'gm')
+    const body = await request.json()
+    const data = FeatureStateSchema.parse(body)
+
+    const feature = await featureService.updateState(locationId, featureId, data)
+    return NextResponse.json(feature)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'Feature not found' ||
+        error.message === 'Location not found' ||
+        error.message === 'Key item not found')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error updating feature state:', error)
+    return NextResponse.json({ error: 'Failed to update feature state' }, { status: 500 })
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { triggerService } from '@/services/trigger-service'
+import { z } from 'zod'
+
+// Null clears an optional setting (e.g. removes the saving throw)
+const TriggerUpdateSchema = z.object({
+  event: z.enum(['ENTER', 'PROXIMITY', 'INTERACT']).optional(),
+  radius: z.number().positive().nullable().optional(),
+  detectionDc: z.number().int().min(1).max(30).nullable().optional(),
+  saveAbility: z.enum(['STR', 'DEX', 'CON', 'INT', 'WIS', 'CHA']).nullable().optional(),
+  saveDc: z.number().int().min(1).max(30).nullable().optional(),
+  halfDamageOnSave: z.boolean().optional(),
+  damageDice: z.string().min(1).max(50).nullable().optional(),
+  damageType: z.string().min(1).max(30).nullable().optional(),
+  condition: z.string().min(1).max(50).nullable().optional(),
+  conditionRounds: z.number().int().positive().nullable().optional(),
+  teleportLocationId: z.string().nullable().optional(),
+  teleportX: z.number().nullable().optional(),
+  teleportY: z.number().nullable().optional(),
+  teleportZ: z.number().nullable().optional(),
+  isArmed: z.boolean().optional(),
+  rearms: z.boolean().optional(),
+})
+
+type TriggerRouteParams = {
+  params: Promise<{ id: string; locationId: string; featureId: string; triggerId: string }>
+}
+
+/**
+ * PATCH /api/campaigns/[id]/locations/[locationId]/features/[featureId]/triggers/[triggerId]
+ * Update a trigger; { isArmed: true } resets a trap that went off
+ */
+export async function PATCH(request: NextRequest, { params }: TriggerRouteParams) {
+  try {
+    const { locationId, featureId, triggerId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireLocationAccess(user.id, locationId, 'gm')
+    const body = await request.json()
+    const data = TriggerUpdateSchema.parse(body)
+
+    const trigger = await triggerService.updateTrigger(locationId, featureId, triggerId, data)
+    return NextResponse.json(trigger)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message.startsWith('Invalid dice expression')) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'Trigger not found' ||
+        error.message === 'Feature not found' ||
+        error.message === 'Location not found' ||
+        error.message === 'Teleport location not found')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error updating trigger:', error)
+    return NextResponse.json({ error: 'Failed to update trigger' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/campaigns/[id]/locations/[locationId]/features/[featureId]/triggers/[triggerId]
+ */
+export async function DELETE(request: NextRequest, { params }: TriggerRouteParams) {
+  try {
+    const { locationId, featureId, triggerId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireLocationAccess(user.id, locationId, 'gm')
+
+    await triggerService.deleteTrigger(locationId, featureId, triggerId)
+    return NextResponse.json({ message: 'Trigger removed' })
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      (error.message === 'Trigger not found' ||
+        error.message === 'Feature not found' ||
+        error.message === 'Location not found')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error removing trigger:', error)
+    return NextResponse.json({ error: 'Failed to remove trigger' }, { status: 500 })
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { triggerService } from '@/services/trigger-service'
+import { z } from 'zod'
+
+const TriggerCreateSchema = z.object({
+  event: z.enum(['ENTER', 'PROXIMITY', 'INTERACT']),
+  radius: z.number().positive().optional(),
+  detectionDc: z.number().int().min(1).max(30).optional(),
+  saveAbility: z.enum(['STR', 'DEX', 'CON', 'INT', 'WIS', 'CHA']).optional(),
+  saveDc: z.number().int().min(1).max(30).optional(),
+  halfDamageOnSave: z.boolean().optional(),
+  damageDice: z.string().min(1).max(50).optional(),
+  damageType: z.string().min(1).max(30).optional(),
+  condition: z.string().min(1).max(50).optional(),
+  conditionRounds: z.number().int().positive().optional(),
+  teleportLocationId: z.string().optional(),
+  teleportX: z.number().optional(),
+  teleportY: z.number().optional(),
+  teleportZ: z.number().optional(),
+  isArmed: z.boolean().optional(),
+  rearms: z.boolean().optional(),
+})
+
+/**
+ * GET /api/campaigns/[id]/locations/[locationId]/features/[featureId]/triggers
+ * GM only: traps stay secret from the players
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; locationId: string; featureId: string }> }
+) {
+  try {
+    const { locationId, featureId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireLocationAccess(user.id, locationId, 'gm')
+
+    const triggers = await triggerService.getTriggers(locationId, featureId)
+    return NextResponse.json(triggers)
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      (error.message === 'Feature not found' || error.message === 'Location not found')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error fetching triggers:', error)
+    return NextResponse.json({ error: 'Failed to fetch triggers' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/campaigns/[id]/locations/[locationId]/features/[featureId]/triggers
+ * Arm a feature: e.g. { event: 'ENTER', detectionDc: 15, saveAbility: 'DEX', saveDc: 13, damageDice: '2d10' }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; locationId: string; featureId: string }> }
+) {
+  try {
+    const { locationId, featureId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireLocationAccess(user.id, locationId, 'gm')
+    const body = await request.json()
+    const data = TriggerCreateSchema.parse(body)
+
+    const trigger = await triggerService.createTrigger(locationId, featureId, data)
+    return NextResponse.json(trigger, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message.startsWith('Invalid dice expression')) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'Feature not found' ||
+        error.message === 'Location not found' ||
+        error.message === 'Teleport location not found')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error creating trigger:', error)
+    return NextResponse.json({ error: 'Failed to create trigger' }, { status: 500 })
+  }
+}
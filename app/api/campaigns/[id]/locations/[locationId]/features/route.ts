@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
 import { locationService } from '@/services/location-service'
 import { z } from 'zod'
 
@@ -16,6 +18,12 @@ const FeatureCreateSchema = z.object({
   blocksVision: z.boolean().optional(),
   providesCover: z.enum(['NONE', 'HALF', 'THREE_QUARTERS', 'FULL']).optional(),
   elevation: z.number().optional(),
+  movementCost: z.number().min(1).optional(),
+  movementMode: z.enum(['WALK', 'SWIM', 'CLIMB', 'FLY']).optional(),
+  brightLight: z.number().nonnegative().optional(),
+  dimLight: z.number().nonnegative().optional(),
+  state: z.enum(['OPEN', 'CLOSED', 'LOCKED', 'BROKEN']).optional(),
+  lockDc: z.number().int().min(1).max(30).optional(),
   metadata: z.record(z.any()).optional(),
 })
 
@@ -25,6 +33,8 @@ export async function POST(
 ) {
   try {
     const { locationId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireLocationAccess(user.id, locationId, 'gm')
     const body = await request.json()
     const data = FeatureCreateSchema.parse(body)
     
@@ -38,6 +48,15 @@ export async function POST(
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 })
     }
+    if (error instanceof Error && error.message === 'Location not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error creating feature:', error)
     return NextResponse.json(
       { error: 'Failed to create feature' },
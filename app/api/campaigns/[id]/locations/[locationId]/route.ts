@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
 import { locationService } from '@/services/location-service'
 import { z } from 'zod'
 
@@ -12,6 +14,10 @@ const LocationUpdateSchema = z.object({
   minZ: z.number().optional(),
   maxZ: z.number().optional(),
   unitType: z.string().optional(),
+  gridType: z.enum(['NONE', 'SQUARE', 'HEX']).optional(),
+  gridSize: z.number().positive().optional(),
+  diagonalRule: z.enum(['UNIFORM', 'ALTERNATING', 'EUCLIDEAN']).optional(),
+  ambientLight: z.enum(['DARK', 'DIM', 'BRIGHT']).optional(),
 })
 
 export async function GET(
@@ -20,12 +26,20 @@ export async function GET(
 ) {
   try {
     const { locationId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireLocationAccess(user.id, locationId)
     const location = await locationService.getLocationById(locationId)
     return NextResponse.json(location)
   } catch (error) {
     if (error instanceof Error && error.message === 'Location not found') {
       return NextResponse.json({ error: 'Location not found' }, { status: 404 })
     }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error fetching location:', error)
     return NextResponse.json(
       { error: 'Failed to fetch location' },
@@ -40,6 +54,8 @@ export async function PUT(
 ) {
   try {
     const { locationId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireLocationAccess(user.id, locationId, 'gm')
     const body = await request.json()
     const data = LocationUpdateSchema.parse(body)
     const location = await locationService.updateLocation(locationId, data)
@@ -48,6 +64,15 @@ export async function PUT(
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 })
     }
+    if (error instanceof Error && error.message === 'Location not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error updating location:', error)
     return NextResponse.json(
       { error: 'Failed to update location' },
@@ -62,9 +87,20 @@ export async function DELETE(
 ) {
   try {
     const { locationId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireLocationAccess(user.id, locationId, 'gm')
     await locationService.deleteLocation(locationId)
     return NextResponse.json({ message: 'Location deleted' })
   } catch (error) {
+    if (error instanceof Error && error.message === 'Location not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error deleting location:', error)
     return NextResponse.json(
       { error: 'Failed to delete location' },
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { locationService } from '@/services/location-service'
+import { z } from 'zod'
+
+const MapImportSchema = z.object({
+  format: z.enum(['dd2vtt', 'tiled']),
+  file: z.record(z.string(), z.unknown()),
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().min(1).optional(),
+  unitType: z.string().optional(),
+  gridSize: z.number().positive().optional(),
+  height: z.number().positive().optional(),
+})
+
+/**
+ * POST /api/campaigns/[id]/locations/import
+ * Create a location from a Universal VTT (.dd2vtt) or Tiled JSON map
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: campaignId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, campaignId, 'gm')
+    const body = await request.json()
+    const data = MapImportSchema.parse(body)
+
+    const location = await locationService.importMap({ campaignId, ...data })
+    return NextResponse.json(location, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message.startsWith('Invalid ')) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error importing map:', error)
+    return NextResponse.json({ error: 'Failed to import map' }, { status: 500 })
+  }
+}
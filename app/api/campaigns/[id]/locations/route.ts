@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
 import { locationService } from '@/services/location-service'
 import { z } from 'zod'
 
@@ -12,6 +14,10 @@ const LocationCreateSchema = z.object({
   minZ: z.number(),
   maxZ: z.number(),
   unitType: z.string().optional(),
+  gridType: z.enum(['NONE', 'SQUARE', 'HEX']).optional(),
+  gridSize: z.number().positive().optional(),
+  diagonalRule: z.enum(['UNIFORM', 'ALTERNATING', 'EUCLIDEAN']).optional(),
+  ambientLight: z.enum(['DARK', 'DIM', 'BRIGHT']).optional(),
 })
 
 const LocationTemplateSchema = z.object({
@@ -24,9 +30,17 @@ export async function GET(
 ) {
   try {
     const { id: campaignId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, campaignId)
     const locations = await locationService.getCampaignLocations(campaignId)
     return NextResponse.json(locations)
   } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error fetching locations:', error)
     return NextResponse.json(
       { error: 'Failed to fetch locations' },
@@ -41,6 +55,8 @@ export async function POST(
 ) {
   try {
     const { id: campaignId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, campaignId, 'gm')
     const body = await request.json()
 
     // Check if this is a template request
@@ -61,6 +77,12 @@ export async function POST(
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 })
     }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error creating location:', error)
     return NextResponse.json(
       { error: 'Failed to create location' },
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { campaignService } from '@/services/campaign-service'
+import { z } from 'zod'
+
+const MemberUpdateSchema = z.object({
+  role: z.enum(['GM', 'PLAYER']),
+})
+
+/**
+ * PATCH /api/campaigns/[id]/members/[userId]
+ * Change a member's role (GM only)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const { id: campaignId, userId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, campaignId, 'gm')
+    const body = await request.json()
+    const { role } = MemberUpdateSchema.parse(body)
+
+    await campaignService.updateMemberRole(campaignId, userId, role)
+    return NextResponse.json({ message: 'Member updated' })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Member not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message.includes('at least one GM')) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error updating member:', error)
+    return NextResponse.json({ error: 'Failed to update member' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/campaigns/[id]/members/[userId]
+ * Remove a member (GM only); any member may remove themselves
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const { id: campaignId, userId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, campaignId, userId === user.id ? 'view' : 'gm')
+
+    await campaignService.removeMember(campaignId, userId)
+    return NextResponse.json({ message: 'Member removed' })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Member not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message.includes('at least one GM')) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error removing member:', error)
+    return NextResponse.json({ error: 'Failed to remove member' }, { status: 500 })
+  }
+}
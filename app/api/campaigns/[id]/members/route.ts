@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { campaignService } from '@/services/campaign-service'
+import { z } from 'zod'
+
+const MemberSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(['GM', 'PLAYER']).optional(),
+})
+
+/**
+ * GET /api/campaigns/[id]/members
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: campaignId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, campaignId)
+    const members = await campaignService.getMembers(campaignId)
+    return NextResponse.json(members)
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error fetching members:', error)
+    return NextResponse.json({ error: 'Failed to fetch members' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/campaigns/[id]/members
+ * Invite a registered user by email (GM only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: campaignId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, campaignId, 'gm')
+    const body = await request.json()
+    const data = MemberSchema.parse(body)
+
+    const member = await campaignService.addMember(campaignId, data)
+    return NextResponse.json(member, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'User not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message.includes('at least one GM')) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error adding member:', error)
+    return NextResponse.json({ error: 'Failed to add member' }, { status: 500 })
+  }
+}
@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
 import { prisma } from '@/lib/db'
 import { z } from 'zod'
 
@@ -23,12 +25,20 @@ export async function GET(
 ) {
   try {
     const { id: campaignId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, campaignId)
     const rules = await prisma.movementRule.findMany({
       where: { campaignId },
       orderBy: { interactionType: 'asc' },
     })
     return NextResponse.json(rules)
   } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error fetching movement rules:', error)
     return NextResponse.json(
       { error: 'Failed to fetch movement rules' },
@@ -43,6 +53,8 @@ export async function POST(
 ) {
   try {
     const { id: campaignId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, campaignId, 'gm')
     const body = await request.json()
     const data = MovementRuleCreateSchema.parse(body)
     
@@ -59,6 +71,12 @@ export async function POST(
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 })
     }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error creating movement rule:', error)
     return NextResponse.json(
       { error: 'Failed to create movement rule' },
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { npcService } from '@/services/npc-service'
+import { z } from 'zod'
+
+// Null clears an optional field; { locationId: null } takes the token off the map
+const NpcUpdateSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  kind: z.string().min(1).max(100).nullable().optional(),
+  statBlock: z.record(z.string(), z.unknown()).nullable().optional(),
+  disposition: z.enum(['FRIENDLY', 'NEUTRAL', 'HOSTILE']).optional(),
+  faction: z.string().min(1).max(100).nullable().optional(),
+  knowledgeId: z.string().nullable().optional(),
+  maxHp: z.number().int().positive().optional(),
+  currentHp: z.number().int().min(0).optional(),
+  armorClass: z.number().int().min(0).max(40).optional(),
+  baseMovementRate: z.number().min(0).optional(),
+  locationId: z.string().nullable().optional(),
+  x: z.number().optional(),
+  y: z.number().optional(),
+  z: z.number().optional(),
+  facing: z.number().min(0).max(360).nullable().optional(),
+})
+
+type NpcRouteParams = {
+  params: Promise<{ id: string; npcId: string }>
+}
+
+/**
+ * GET /api/campaigns/[id]/npcs/[npcId]
+ */
+export async function GET(request: NextRequest, { params }: NpcRouteParams) {
+  try {
+    const { id: campaignId, npcId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, campaignId, 'gm')
+
+    const npc = await npcService.getNpc(campaignId, npcId)
+    return NextResponse.json(npc)
+  } catch (error) {
+    if (error instanceof Error && error.message === 'NPC not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error fetching NPC:', error)
+    return NextResponse.json({ error: 'Failed to fetch NPC' }, { status: 500 })
+  }
+}
+
+/**
+ * PATCH /api/campaigns/[id]/npcs/[npcId]
+ * Update an NPC or move their token, e.g. { disposition: 'HOSTILE' } or { locationId, x, y, z }
+ */
+export async function PATCH(request: NextRequest, { params }: NpcRouteParams) {
+  try {
+    const { id: campaignId, npcId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, campaignId, 'gm')
+    const body = await request.json()
+    const data = NpcUpdateSchema.parse(body)
+
+    const npc = await npcService.updateNpc(campaignId, npcId, data)
+    return NextResponse.json(npc)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Knowledge entry is not an NPC') {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'NPC not found' ||
+        error.message === 'Location not found' ||
+        error.message === 'Knowledge entry not found')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error updating NPC:', error)
+    return NextResponse.json({ error: 'Failed to update NPC' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/campaigns/[id]/npcs/[npcId]
+ */
+export async function DELETE(request: NextRequest, { params }: NpcRouteParams) {
+  try {
+    const { id: campaignId, npcId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, campaignId, 'gm')
+
+    await npcService.deleteNpc(campaignId, npcId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'NPC not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error deleting NPC:', error)
+    return NextResponse.json({ error: 'Failed to delete NPC' }, { status: 500 })
+  }
+}
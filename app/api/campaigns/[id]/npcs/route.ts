@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { npcService } from '@/services/npc-service'
+import { z } from 'zod'
+
+const PositionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  z: z.number(),
+})
+
+const NpcCreateSchema = z.object({
+  name: z.string().min(1).max(100),
+  kind: z.string().min(1).max(100).optional(),
+  statBlock: z.record(z.string(), z.unknown()).optional(),
+  disposition: z.enum(['FRIENDLY', 'NEUTRAL', 'HOSTILE']).optional(),
+  faction: z.string().min(1).max(100).optional(),
+  knowledgeId: z.string().optional(),
+  maxHp: z.number().int().positive().optional(),
+  armorClass: z.number().int().min(0).max(40).optional(),
+  baseMovementRate: z.number().min(0).optional(),
+  count: z.number().int().positive().optional(),
+  locationId: z.string().optional(),
+  position: PositionSchema.optional(),
+})
+
+/**
+ * GET /api/campaigns/[id]/npcs?locationId=
+ * GM only: stat blocks and dispositions stay behind the screen
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: campaignId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, campaignId, 'gm')
+    const { searchParams } = new URL(request.url)
+
+    const npcs = await npcService.getNpcs(campaignId, {
+      locationId: searchParams.get('locationId') || undefined,
+    })
+    return NextResponse.json(npcs)
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error fetching NPCs:', error)
+    return NextResponse.json({ error: 'Failed to fetch NPCs' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/campaigns/[id]/npcs
+ * Create an NPC, or spawn a pack: e.g. { name: 'Goblin', count: 4, disposition: 'HOSTILE', locationId, position }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: campaignId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, campaignId, 'gm')
+    const body = await request.json()
+    const data = NpcCreateSchema.parse(body)
+
+    const npcs = await npcService.createNpcs(campaignId, data)
+    return NextResponse.json(npcs, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message.startsWith('A pack holds') || error.message === 'Knowledge entry is not an NPC')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'Location not found' || error.message === 'Knowledge entry not found')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error creating NPCs:', error)
+    return NextResponse.json({ error: 'Failed to create NPCs' }, { status: 500 })
+  }
+}
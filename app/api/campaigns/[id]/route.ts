@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
 import { campaignService } from '@/services/campaign-service'
 import { z } from 'zod'
 
@@ -7,6 +9,7 @@ const CampaignUpdateSchema = z.object({
   description: z.string().optional(),
   worldSettings: z.string().optional(),
   aiGuidelines: z.string().optional(),
+  aiModel: z.string().max(100).optional(),
 })
 
 export async function GET(
@@ -15,12 +18,20 @@ export async function GET(
 ) {
   try {
     const { id } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, id)
     const campaign = await campaignService.getCampaignById(id)
     return NextResponse.json(campaign)
   } catch (error) {
     if (error instanceof Error && error.message === 'Campaign not found') {
       return NextResponse.json({ error: 'Campaign not found' }, { status: 404 })
     }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error fetching campaign:', error)
     return NextResponse.json({ error: 'Failed to fetch campaign' }, { status: 500 })
   }
@@ -32,6 +43,8 @@ export async function PATCH(
 ) {
   try {
     const { id } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, id, 'gm')
     const body = await request.json()
     const validatedData = CampaignUpdateSchema.parse(body)
     const campaign = await campaignService.updateCampaign(id, validatedData)
@@ -40,6 +53,12 @@ export async function PATCH(
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 })
     }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error updating campaign:', error)
     return NextResponse.json({ error: 'Failed to update campaign' }, { status: 500 })
   }
@@ -51,9 +70,17 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, id, 'gm')
     await campaignService.deleteCampaign(id)
     return NextResponse.json({ message: 'Campaign deleted' })
   } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error deleting campaign:', error)
     return NextResponse.json({ error: 'Failed to delete campaign' }, { status: 500 })
   }
@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
 import { knowledgeManagerService } from '@/services/knowledge-manager'
 import { z } from 'zod'
 
@@ -16,11 +18,19 @@ export async function GET(
 ) {
   try {
     const { id: campaignId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, campaignId)
     const profiles = await knowledgeManagerService.getCampaignToneProfiles(
       campaignId
     )
     return NextResponse.json(profiles)
   } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error fetching tone profiles:', error)
     return NextResponse.json(
       { error: 'Failed to fetch tone profiles' },
@@ -35,6 +45,8 @@ export async function POST(
 ) {
   try {
     const { id: campaignId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, campaignId, 'gm')
     const body = await request.json()
     const data = ToneProfileCreateSchema.parse(body)
 
@@ -48,6 +60,12 @@ export async function POST(
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 })
     }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error creating tone profile:', error)
     return NextResponse.json(
       { error: 'Failed to create tone profile' },
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { worldService } from '@/services/world-service'
+
+/**
+ * GET /api/campaigns/[id]/world
+ * The campaign's locations and the connections between them
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: campaignId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCampaignAccess(user.id, campaignId)
+    const graph = await worldService.getWorldGraph(campaignId)
+    return NextResponse.json(graph)
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error fetching world graph:', error)
+    return NextResponse.json({ error: 'Failed to fetch world graph' }, { status: 500 })
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { authService } from '@/services/auth-service'
 import { campaignService } from '@/services/campaign-service'
 import { z } from 'zod'
 
@@ -7,13 +8,18 @@ const CampaignSchema = z.object({
   description: z.string().optional(),
   worldSettings: z.string().optional(),
   aiGuidelines: z.string().optional(),
+  aiModel: z.string().max(100).optional(),
 })
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const campaigns = await campaignService.getCampaigns()
+    const user = await authService.requireUser(request)
+    const campaigns = await campaignService.getCampaigns(user.id)
     return NextResponse.json(campaigns)
   } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
     console.error('Error fetching campaigns:', error)
     return NextResponse.json({ error: 'Failed to fetch campaigns' }, { status: 500 })
   }
@@ -21,14 +27,18 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await authService.requireUser(request)
     const body = await request.json()
     const validatedData = CampaignSchema.parse(body)
-    const campaign = await campaignService.createCampaign(validatedData)
+    const campaign = await campaignService.createCampaign(validatedData, user.id)
     return NextResponse.json(campaign, { status: 201 })
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 })
     }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
     console.error('Error creating campaign:', error)
     return NextResponse.json({ error: 'Failed to create campaign' }, { status: 500 })
   }
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { vitalsService } from '@/services/vitals-service'
+
+/**
+ * DELETE /api/characters/[id]/conditions/[conditionId]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; conditionId: string }> }
+) {
+  try {
+    const { id, conditionId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCharacterAccess(user.id, id, 'gm')
+    await vitalsService.removeCondition(id, conditionId)
+    return NextResponse.json({ message: 'Condition removed' })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Condition not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Character not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error removing condition:', error)
+    return NextResponse.json({ error: 'Failed to remove condition' }, { status: 500 })
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { vitalsService } from '@/services/vitals-service'
+import { z } from 'zod'
+
+const ConditionSchema = z.object({
+  name: z.string().min(1).max(50), // e.g. "poisoned", "prone", "stunned"
+  source: z.string().max(200).optional(),
+  durationRounds: z.number().int().min(1).max(10000).optional(),
+  durationMinutes: z.number().int().min(1).max(10000).optional(),
+})
+
+/**
+ * GET /api/characters/[id]/conditions
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCharacterAccess(user.id, id)
+    const conditions = await vitalsService.getConditions(id)
+    return NextResponse.json(conditions)
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Character not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error fetching conditions:', error)
+    return NextResponse.json({ error: 'Failed to fetch conditions' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/characters/[id]/conditions
+ * Apply a condition; omit both durations for "until removed"
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCharacterAccess(user.id, id, 'gm')
+    const body = await request.json()
+    const data = ConditionSchema.parse(body)
+
+    const condition = await vitalsService.applyCondition(id, data)
+    return NextResponse.json(condition, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Character not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error applying condition:', error)
+    return NextResponse.json({ error: 'Failed to apply condition' }, { status: 500 })
+  }
+}
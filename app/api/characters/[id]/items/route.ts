@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { featureService } from '@/services/feature-service'
+
+/**
+ * GET /api/characters/[id]/items
+ * What the character carries
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCharacterAccess(user.id, id)
+    const items = await featureService.getInventory(id)
+    return NextResponse.json(items)
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Character not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error fetching items:', error)
+    return NextResponse.json({ error: 'Failed to fetch items' }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { movementService } from '@/services/movement-service'
+import { z } from 'zod'
+
+const TrailQuerySchema = z.object({
+  sessionId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+})
+
+/**
+ * GET /api/characters/[id]/movements
+ * The character's trail: every position change, oldest first
+ * Filter with ?sessionId= and keep the latest moves with ?limit=
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: characterId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCharacterAccess(user.id, characterId)
+    const filter = TrailQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+
+    const trail = await movementService.getTrail(characterId, filter)
+    return NextResponse.json(trail)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Character not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error fetching character movements:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch character movements' },
+      { status: 500 }
+    )
+  }
+}
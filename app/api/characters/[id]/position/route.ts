@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
 import { locationService } from '@/services/location-service'
 import { z } from 'zod'
 
@@ -16,9 +18,20 @@ export async function GET(
 ) {
   try {
     const { id: characterId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCharacterAccess(user.id, characterId)
     const position = await locationService.getOrCreateCharacterPosition(characterId)
     return NextResponse.json(position)
   } catch (error) {
+    if (error instanceof Error && error.message === 'Character not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error fetching character position:', error)
     return NextResponse.json(
       { error: 'Failed to fetch character position' },
@@ -33,6 +46,9 @@ export async function PUT(
 ) {
   try {
     const { id: characterId } = await params
+    const user = await authService.requireUser(request)
+    // Placing skips triggers, reactions and movement budgets, so players move through suggestions
+    await accessService.requireCharacterAccess(user.id, characterId, 'gm')
     const body = await request.json()
     const data = PositionUpdateSchema.parse(body)
     
@@ -46,6 +62,15 @@ export async function PUT(
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 })
     }
+    if (error instanceof Error && error.message === 'Character not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error updating character position:', error)
     return NextResponse.json(
       { error: 'Failed to update character position' },
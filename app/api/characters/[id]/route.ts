@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
 import { characterService } from '@/services/character-service'
 import { z } from 'zod'
 
@@ -18,6 +20,14 @@ const CharacterUpdateSchema = z.object({
   level: z.number().min(1).max(20).optional(),
   stats: CharacterStatsSchema.optional(),
   backstory: z.string().optional(),
+  maxHp: z.number().int().min(1).max(999).optional(),
+  currentHp: z.number().int().min(0).max(999).optional(),
+  tempHp: z.number().int().min(0).max(999).optional(),
+  armorClass: z.number().int().min(0).max(40).optional(),
+  visionRange: z.number().nonnegative().nullable().optional(),
+  darkvision: z.number().nonnegative().nullable().optional(),
+  blindsight: z.number().nonnegative().nullable().optional(),
+  ownerId: z.string().nullable().optional(), // Reassigning requires the GM
 })
 
 export async function GET(
@@ -26,12 +36,20 @@ export async function GET(
 ) {
   try {
     const { id } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCharacterAccess(user.id, id)
     const character = await characterService.getCharacterById(id)
     return NextResponse.json(character)
   } catch (error) {
     if (error instanceof Error && error.message === 'Character not found') {
       return NextResponse.json({ error: 'Character not found' }, { status: 404 })
     }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error fetching character:', error)
     return NextResponse.json({ error: 'Failed to fetch character' }, { status: 500 })
   }
@@ -43,14 +61,35 @@ export async function PATCH(
 ) {
   try {
     const { id } = await params
+    const user = await authService.requireUser(request)
+    const access = await accessService.requireCharacterAccess(user.id, id, 'control')
     const body = await request.json()
     const validatedData = CharacterUpdateSchema.parse(body)
+    if (validatedData.ownerId !== undefined) {
+      validatedData.ownerId = await accessService.resolveCharacterOwner(
+        user.id,
+        access.campaignId,
+        validatedData.ownerId
+      )
+    }
     const character = await characterService.updateCharacter(id, validatedData)
     return NextResponse.json(character)
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 })
     }
+    if (error instanceof Error && error.message === 'Character not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    if (error instanceof Error && error.message.includes('must be a member')) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('Error updating character:', error)
     return NextResponse.json({ error: 'Failed to update character' }, { status: 500 })
   }
@@ -62,9 +101,20 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCharacterAccess(user.id, id, 'control')
     await characterService.deleteCharacter(id)
     return NextResponse.json({ message: 'Character deleted' })
   } catch (error) {
+    if (error instanceof Error && error.message === 'Character not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error deleting character:', error)
     return NextResponse.json({ error: 'Failed to delete character' }, { status: 500 })
   }
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { spatialService } from '@/services/spatial-service'
+
+/**
+ * GET /api/characters/[id]/vision
+ * What the character perceives now and the features they have revealed (fog of war)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: characterId } = await params
+    const user = await authService.requireUser(request)
+    // A character's view is private to their player and the GM
+    await accessService.requireCharacterAccess(user.id, characterId, 'control')
+    const vision = await spatialService.getCharacterVision(characterId)
+    return NextResponse.json(vision)
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Character not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Character is not placed in a location') {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error fetching character vision:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch character vision' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { vitalsService } from '@/services/vitals-service'
+import { z } from 'zod'
+
+const VitalsActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('damage'),
+    amount: z.number().int().min(0).max(9999),
+    critical: z.boolean().optional(), // Critical hits cost two death saves at 0 HP
+  }),
+  z.object({
+    action: z.literal('heal'),
+    amount: z.number().int().min(0).max(9999),
+  }),
+  z.object({
+    action: z.literal('temp-hp'),
+    amount: z.number().int().min(0).max(9999),
+  }),
+  z.object({
+    action: z.literal('death-save'),
+    roll: z.number().int().min(1).max(20).optional(), // Rolled on the server when omitted
+  }),
+])
+
+/**
+ * POST /api/characters/[id]/vitals
+ * Apply damage, healing, temporary HP or a death saving throw
+ * Players may roll their own death saves; everything else is the GM's call
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await authService.requireUser(request)
+    const body = await request.json()
+    const data = VitalsActionSchema.parse(body)
+    await accessService.requireCharacterAccess(user.id, id, data.action === 'death-save' ? 'control' : 'gm')
+
+    switch (data.action) {
+      case 'damage':
+        return NextResponse.json(await vitalsService.damage(id, data.amount, data.critical))
+      case 'heal':
+        return NextResponse.json(await vitalsService.heal(id, data.amount))
+      case 'temp-hp':
+        return NextResponse.json(await vitalsService.setTempHp(id, data.amount))
+      case 'death-save':
+        return NextResponse.json(await vitalsService.deathSave(id, data.roll))
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Character not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message.includes('dead character') || error.message.includes('Death saves only'))
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error updating vitals:', error)
+    return NextResponse.json({ error: 'Failed to update vitals' }, { status: 500 })
+  }
+}
@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
 import { characterService } from '@/services/character-service'
 import { z } from 'zod'
 
@@ -19,18 +21,41 @@ const CharacterSchema = z.object({
   level: z.number().min(1).max(20).optional(),
   stats: CharacterStatsSchema.optional(),
   backstory: z.string().optional(),
+  maxHp: z.number().int().min(1).max(999).optional(),
+  currentHp: z.number().int().min(0).max(999).optional(),
+  tempHp: z.number().int().min(0).max(999).optional(),
+  armorClass: z.number().int().min(0).max(40).optional(),
+  visionRange: z.number().nonnegative().nullable().optional(),
+  darkvision: z.number().nonnegative().nullable().optional(),
+  blindsight: z.number().nonnegative().nullable().optional(),
+  ownerId: z.string().nullable().optional(), // GM only; defaults to the creator
 })
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await authService.requireUser(request)
     const body = await request.json()
     const validatedData = CharacterSchema.parse(body)
-    const character = await characterService.createCharacter(validatedData)
+    const ownerId = await accessService.resolveCharacterOwner(
+      user.id,
+      validatedData.campaignId,
+      validatedData.ownerId
+    )
+    const character = await characterService.createCharacter({ ...validatedData, ownerId })
     return NextResponse.json(character, { status: 201 })
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 })
     }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    if (error instanceof Error && error.message.includes('must be a member')) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('Error creating character:', error)
     return NextResponse.json({ error: 'Failed to create character' }, { status: 500 })
   }
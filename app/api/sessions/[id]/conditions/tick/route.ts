@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { prisma } from '@/lib/db'
+import { vitalsService } from '@/services/vitals-service'
+import { z } from 'zod'
+
+const TickSchema = z
+  .object({
+    rounds: z.number().int().min(1).max(10000).optional(),
+    minutes: z.number().int().min(1).max(10000).optional(),
+  })
+  .refine((tick) => tick.rounds || tick.minutes, {
+    message: 'Provide rounds or minutes',
+  })
+
+/**
+ * POST /api/sessions/[id]/conditions/tick
+ * Advance timed conditions on every character in the session's campaign
+ * (use for time passing outside combat; encounters tick one round per round)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, sessionId, 'gm')
+    const body = await request.json()
+    const { rounds = 0, minutes = 0 } = TickSchema.parse(body)
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { campaignId: true },
+    })
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    const result = await vitalsService.tickConditions(session.campaignId, rounds + minutes * 10)
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error ticking conditions:', error)
+    return NextResponse.json({ error: 'Failed to tick conditions' }, { status: 500 })
+  }
+}
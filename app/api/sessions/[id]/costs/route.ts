@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
 import { costTrackingService } from '@/services/cost-tracking'
 
 export async function GET(
@@ -7,6 +9,8 @@ export async function GET(
 ) {
   try {
     const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, sessionId)
 
     const costSummary = await costTrackingService.getSessionCostSummary(sessionId)
     const budgetStatus = await costTrackingService.checkSessionBudget(sessionId)
@@ -22,6 +26,12 @@ export async function GET(
         { status: 404 }
       )
     }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error fetching session costs:', error)
     return NextResponse.json(
       { error: 'Failed to fetch session costs' },
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { encounterService } from '@/services/encounter-service'
+import { z } from 'zod'
+
+const CombatantUpdateSchema = z.object({
+  isDefeated: z.boolean().optional(),
+  movementRate: z.number().min(0).max(200).optional(),
+  isHostile: z.boolean().optional(),
+})
+
+/**
+ * PATCH /api/sessions/[id]/encounter/combatants/[combatantId]
+ * Mark a combatant defeated, change their movement budget or switch sides
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; combatantId: string }> }
+) {
+  try {
+    const { id: sessionId, combatantId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, sessionId, 'gm')
+    const body = await request.json()
+    const data = CombatantUpdateSchema.parse(body)
+
+    const combatant = await encounterService.updateCombatant(sessionId, combatantId, data)
+    return NextResponse.json(combatant)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'No active encounter') {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof Error && error.message === 'Combatant not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error updating combatant:', error)
+    return NextResponse.json({ error: 'Failed to update combatant' }, { status: 500 })
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { encounterService } from '@/services/encounter-service'
+import { z } from 'zod'
+
+const CombatantSchema = z
+  .object({
+    characterId: z.string().optional(),
+    npcId: z.string().optional(),
+    name: z.string().min(1).max(100).optional(),
+    initiativeBonus: z.number().int().min(-10).max(30).optional(),
+    initiative: z.number().int().min(-10).max(60).optional(),
+    movementRate: z.number().min(0).max(200).optional(),
+    isHostile: z.boolean().optional(),
+  })
+  .refine((combatant) => combatant.characterId || combatant.npcId || combatant.name, {
+    message: 'NPC combatants need a name',
+    path: ['name'],
+  })
+
+/**
+ * POST /api/sessions/[id]/encounter/combatants
+ * Add a combatant to the running encounter (initiative is rolled unless given)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, sessionId, 'gm')
+    const body = await request.json()
+    const data = CombatantSchema.parse(body)
+
+    const encounter = await encounterService.addCombatant(sessionId, data)
+    return NextResponse.json(encounter, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'No active encounter') {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof Error && error.message.includes('already in the encounter')) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message.includes('Character not found') || error.message.includes('NPC not found'))
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error adding combatant:', error)
+    return NextResponse.json({ error: 'Failed to add combatant' }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { encounterService } from '@/services/encounter-service'
+
+/**
+ * POST /api/sessions/[id]/encounter/end
+ * End combat and return the encounter with its summary
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, sessionId, 'gm')
+    const encounter = await encounterService.endEncounter(sessionId)
+    return NextResponse.json(encounter)
+  } catch (error) {
+    if (error instanceof Error && error.message === 'No active encounter') {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof Error && error.message === 'Session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error ending encounter:', error)
+    return NextResponse.json({ error: 'Failed to end encounter' }, { status: 500 })
+  }
+}
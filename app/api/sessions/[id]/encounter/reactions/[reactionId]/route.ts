@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { reactionService } from '@/services/reaction-service'
+import { z } from 'zod'
+
+const ReactionResolveSchema = z.object({
+  used: z.boolean(),
+})
+
+/**
+ * PATCH /api/sessions/[id]/encounter/reactions/[reactionId]
+ * Take ({ used: true }) or decline a pending reaction
+ * Players decide for their own characters; the GM decides for everyone else
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; reactionId: string }> }
+) {
+  try {
+    const { id: sessionId, reactionId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, sessionId)
+    const body = await request.json()
+    const data = ReactionResolveSchema.parse(body)
+
+    const reaction = await reactionService.getReaction(sessionId, reactionId)
+    if (reaction.characterId) {
+      await accessService.requireCharacterAccess(user.id, reaction.characterId, 'control')
+    } else {
+      await accessService.requireSessionAccess(user.id, sessionId, 'gm')
+    }
+
+    const resolved = await reactionService.resolveReaction(sessionId, reactionId, data.used)
+    return NextResponse.json(resolved)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'Reaction not found' || error.message === 'Session not found')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message.startsWith('Reaction already')) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error resolving reaction:', error)
+    return NextResponse.json({ error: 'Failed to resolve reaction' }, { status: 500 })
+  }
+}
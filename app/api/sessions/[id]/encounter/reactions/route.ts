@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { reactionService } from '@/services/reaction-service'
+import { z } from 'zod'
+
+const ReactionQuerySchema = z.object({
+  status: z.enum(['PENDING', 'USED', 'DECLINED', 'EXPIRED']).optional(),
+})
+
+/**
+ * GET /api/sessions/[id]/encounter/reactions
+ * Reaction prompts of the running encounter (newest first); filter with ?status=
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, sessionId)
+    const filter = ReactionQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+
+    const reactions = await reactionService.getReactions(sessionId, filter)
+    return NextResponse.json(reactions)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error fetching reactions:', error)
+    return NextResponse.json({ error: 'Failed to fetch reactions' }, { status: 500 })
+  }
+}
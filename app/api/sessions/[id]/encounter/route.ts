@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { encounterService } from '@/services/encounter-service'
+import { z } from 'zod'
+
+const CombatantSchema = z
+  .object({
+    characterId: z.string().optional(),
+    npcId: z.string().optional(),
+    name: z.string().min(1).max(100).optional(),
+    initiativeBonus: z.number().int().min(-10).max(30).optional(),
+    initiative: z.number().int().min(-10).max(60).optional(),
+    movementRate: z.number().min(0).max(200).optional(),
+    isHostile: z.boolean().optional(),
+  })
+  .refine((combatant) => combatant.characterId || combatant.npcId || combatant.name, {
+    message: 'NPC combatants need a name',
+    path: ['name'],
+  })
+
+const EncounterStartSchema = z.object({
+  combatants: z.array(CombatantSchema).max(50).optional(),
+  includeParty: z.boolean().optional(),
+})
+
+/**
+ * GET /api/sessions/[id]/encounter
+ * The running encounter with combatants in turn order (null when not in combat)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, sessionId)
+    const encounter = await encounterService.getActiveEncounter(sessionId)
+    return NextResponse.json(encounter)
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error fetching encounter:', error)
+    return NextResponse.json({ error: 'Failed to fetch encounter' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/sessions/[id]/encounter
+ * Start combat and roll initiative
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, sessionId, 'gm')
+    const body = await request.json()
+    const data = EncounterStartSchema.parse(body)
+
+    const encounter = await encounterService.startEncounter({ sessionId, ...data })
+    return NextResponse.json(encounter, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message.includes('already in progress') || error.message.includes('already in the encounter'))
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message.includes('Character not found') ||
+        error.message.includes('NPC not found') ||
+        error.message.includes('need a name') ||
+        error.message.includes('at least one combatant'))
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error starting encounter:', error)
+    return NextResponse.json({ error: 'Failed to start encounter' }, { status: 500 })
+  }
+}
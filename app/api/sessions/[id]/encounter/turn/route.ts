@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { encounterService } from '@/services/encounter-service'
+
+/**
+ * POST /api/sessions/[id]/encounter/turn
+ * End the current turn and advance to the next combatant
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, sessionId, 'gm')
+    const encounter = await encounterService.nextTurn(sessionId)
+    return NextResponse.json(encounter)
+  } catch (error) {
+    if (error instanceof Error && error.message === 'No active encounter') {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof Error && error.message.includes('Every combatant is defeated')) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof Error && error.message === 'Session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error advancing turn:', error)
+    return NextResponse.json({ error: 'Failed to advance turn' }, { status: 500 })
+  }
+}
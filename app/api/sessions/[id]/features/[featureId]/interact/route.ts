@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { featureService } from '@/services/feature-service'
+import { z } from 'zod'
+
+const InteractSchema = z.object({
+  characterId: z.string(),
+  action: z.enum(['use', 'open', 'close', 'lock', 'unlock', 'force']).default('use'),
+})
+
+/**
+ * POST /api/sessions/[id]/features/[featureId]/interact
+ * A character within one cell of a feature uses it, opens or closes it, locks it,
+ * unlocks it (key or lock picking) or forces it. Touching it sets off its
+ * INTERACT triggers; the outcomes reach the next DM reply
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; featureId: string }> }
+) {
+  try {
+    const { id: sessionId, featureId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, sessionId)
+    const body = await request.json()
+    const data = InteractSchema.parse(body)
+    await accessService.requireCharacterAccess(user.id, data.characterId, 'control')
+
+    const result = await featureService.interact(sessionId, featureId, data.characterId, data.action)
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'Feature not found' ||
+        error.message === 'Session not found' ||
+        error.message === 'Character not found' ||
+        error.message === 'Character position not found')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message.startsWith('Out of reach')) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof Error && error.message.startsWith('Cannot ')) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error interacting with feature:', error)
+    return NextResponse.json({ error: 'Failed to interact with feature' }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { featureService } from '@/services/feature-service'
+import { z } from 'zod'
+
+const TakeItemSchema = z.object({
+  characterId: z.string(),
+  quantity: z.number().int().min(1).optional(), // Defaults to the whole stack
+})
+
+/**
+ * POST /api/sessions/[id]/features/[featureId]/items/[itemId]/take
+ * A character takes an item from an open container within one cell of them
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; featureId: string; itemId: string }> }
+) {
+  try {
+    const { id: sessionId, featureId, itemId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, sessionId)
+    const body = await request.json()
+    const data = TakeItemSchema.parse(body)
+    await accessService.requireCharacterAccess(user.id, data.characterId, 'control')
+
+    const item = await featureService.takeItem(sessionId, featureId, itemId, data.characterId, data.quantity)
+    return NextResponse.json(item)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'Item not found' ||
+        error.message === 'Feature not found' ||
+        error.message === 'Session not found' ||
+        error.message === 'Character not found' ||
+        error.message === 'Character position not found')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message.startsWith('Out of reach')) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof Error && error.message.startsWith('Cannot ')) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error taking item:', error)
+    return NextResponse.json({ error: 'Failed to take item' }, { status: 500 })
+  }
+}
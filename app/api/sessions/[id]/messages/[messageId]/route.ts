@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { aiDungeonMasterService } from '@/services/ai-dungeon-master'
+import { costTrackingService } from '@/services/cost-tracking'
+import { turnHistoryService } from '@/services/turn-history-service'
+import { z } from 'zod'
+
+const MessageEditSchema = z.object({
+  content: z.string().min(1).max(1000),
+})
+
+/**
+ * PATCH /api/sessions/[id]/messages/[messageId]
+ * Edit the latest player message and re-run its turn
+ * (the character's player or the GM; the old reply and its state changes are rolled back)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; messageId: string }> }
+) {
+  try {
+    const { id: sessionId, messageId } = await params
+    const user = await authService.requireUser(request)
+    const lastTurn = await turnHistoryService.getLastTurn(sessionId)
+    if (lastTurn.characterId) {
+      await accessService.requireCharacterAccess(user.id, lastTurn.characterId, 'control')
+    } else {
+      await accessService.requireSessionAccess(user.id, sessionId, 'gm')
+    }
+    const body = await request.json()
+    const { content } = MessageEditSchema.parse(body)
+
+    const response = await aiDungeonMasterService.editLastMessage(sessionId, messageId, content)
+
+    // Update cost snapshot after each AI response (only if tables exist)
+    try {
+      await costTrackingService.updateSessionCostSnapshot(sessionId)
+    } catch (costError) {
+      if (costError instanceof Error && !costError.message.includes('does not exist')) {
+        console.error('Error updating cost snapshot:', costError)
+      }
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message.includes('Rate limit exceeded')) {
+      return NextResponse.json({ error: error.message }, { status: 429 })
+    }
+    if (error instanceof Error && error.message.includes('Invalid dice expression')) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'No turn to undo in this session' ||
+        error.message === 'Only the latest player message can be edited' ||
+        error.message === 'Session is not active' ||
+        error.message.includes('cannot be undone'))
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'Session not found' || error.message === 'Character not found')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error editing message:', error)
+    return NextResponse.json({ error: 'Failed to edit message' }, { status: 500 })
+  }
+}
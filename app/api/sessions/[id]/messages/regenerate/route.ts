@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { aiDungeonMasterService } from '@/services/ai-dungeon-master'
+import { costTrackingService } from '@/services/cost-tracking'
+
+/**
+ * POST /api/sessions/[id]/messages/regenerate
+ * Discard the latest DM reply, roll back its state and narrate the turn again (GM only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, sessionId, 'gm')
+
+    const response = await aiDungeonMasterService.regenerateLastResponse(sessionId)
+
+    // Update cost snapshot after each AI response (only if tables exist)
+    try {
+      await costTrackingService.updateSessionCostSnapshot(sessionId)
+    } catch (costError) {
+      if (costError instanceof Error && !costError.message.includes('does not exist')) {
+        console.error('Error updating cost snapshot:', costError)
+      }
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Rate limit exceeded')) {
+      return NextResponse.json({ error: error.message }, { status: 429 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'No turn to undo in this session' ||
+        error.message === 'Session is not active' ||
+        error.message.includes('cannot be undone'))
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof Error && error.message === 'Session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error regenerating AI response:', error)
+    return NextResponse.json({ error: 'Failed to regenerate AI response' }, { status: 500 })
+  }
+}
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
 import { aiDungeonMasterService } from '@/services/ai-dungeon-master'
 import { costTrackingService } from '@/services/cost-tracking'
 import { z } from 'zod'
 
 const MessageSchema = z.object({
   content: z.string().min(1).max(1000),
+  characterId: z.string().optional(), // Acting character; required when the roster has several
 })
 
 export async function POST(
@@ -13,10 +16,20 @@ export async function POST(
 ) {
   try {
     const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
     const body = await request.json()
-    const { content } = MessageSchema.parse(body)
+    const { content, characterId } = MessageSchema.parse(body)
+    const actingCharacterId = await accessService.authorizeActingCharacter(
+      user.id,
+      sessionId,
+      characterId
+    )
 
-    const response = await aiDungeonMasterService.generateResponse(sessionId, content)
+    const response = await aiDungeonMasterService.generateResponse(
+      sessionId,
+      content,
+      actingCharacterId
+    )
     
     // Update cost snapshot after each AI response (only if tables exist)
     try {
@@ -37,6 +50,25 @@ export async function POST(
     if (error instanceof Error && error.message.includes('Rate limit exceeded')) {
       return NextResponse.json({ error: error.message }, { status: 429 })
     }
+    if (error instanceof Error && error.message.includes('Invalid dice expression')) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'Character is not in this session' ||
+        error.message.includes('choose which one is acting'))
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error generating AI response:', error)
     return NextResponse.json(
       { error: 'Failed to generate AI response' },
@@ -51,9 +83,20 @@ export async function GET(
 ) {
   try {
     const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, sessionId)
     const messages = await aiDungeonMasterService.getSessionHistory(sessionId)
     return NextResponse.json(messages)
   } catch (error) {
+    if (error instanceof Error && error.message === 'Session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error fetching messages:', error)
     return NextResponse.json({ error: 'Failed to fetch messages' }, { status: 500 })
   }
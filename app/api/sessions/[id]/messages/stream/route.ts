@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { aiDungeonMasterService } from '@/services/ai-dungeon-master'
+import { costTrackingService } from '@/services/cost-tracking'
+import { SSE_HEADERS, toSSEStream } from '@/lib/sse'
+import { DMStreamEvent } from '@/types'
+import { z } from 'zod'
+
+const MessageSchema = z.object({
+  content: z.string().min(1).max(1000),
+  characterId: z.string().optional(), // Acting character; required when the roster has several
+})
+
+/**
+ * POST /api/sessions/[id]/messages/stream
+ * Same as POST /messages but streams the narrative over Server-Sent Events:
+ * - event: narrative  data: { delta }
+ * - event: complete   data: { content, movementSuggestion, diceRoll, usage, userMessageId, assistantMessageId }
+ * - event: error      data: { error }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
+    const body = await request.json()
+    const { content, characterId } = MessageSchema.parse(body)
+    const actingCharacterId = await accessService.authorizeActingCharacter(
+      user.id,
+      sessionId,
+      characterId
+    )
+
+    const events = await aiDungeonMasterService.generateResponseStream(
+      sessionId,
+      content,
+      actingCharacterId
+    )
+
+    const stream = toSSEStream(withCostSnapshot(sessionId, events), (error) => {
+      console.error('Error streaming AI response:', error)
+      return { error: 'Failed to generate AI response' }
+    })
+
+    return new Response(stream, { headers: SSE_HEADERS })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message.includes('Rate limit exceeded')) {
+      return NextResponse.json({ error: error.message }, { status: 429 })
+    }
+    if (error instanceof Error && error.message.includes('Invalid dice expression')) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'Character is not in this session' ||
+        error.message.includes('choose which one is acting'))
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error generating AI response:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate AI response' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Update the cost snapshot once the turn has been saved
+ */
+async function* withCostSnapshot(
+  sessionId: string,
+  events: AsyncIterable<DMStreamEvent>
+): AsyncGenerator<DMStreamEvent> {
+  for await (const event of events) {
+    yield event
+
+    if (event.type === 'complete') {
+      try {
+        await costTrackingService.updateSessionCostSnapshot(sessionId)
+      } catch (costError) {
+        // Silently fail if tables don't exist yet (migration not applied)
+        if (costError instanceof Error && !costError.message.includes('does not exist')) {
+          console.error('Error updating cost snapshot:', costError)
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { movementService } from '@/services/movement-service'
+import { z } from 'zod'
+
+const ReplayQuerySchema = z.object({
+  messageIndex: z.coerce.number().int().min(0),
+})
+
+/**
+ * GET /api/sessions/[id]/movement/replay?messageIndex=
+ * Where every character stood when a message of the session was posted
+ * (messages still in the conversation, counted from 0)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, sessionId)
+    const { messageIndex } = ReplayQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+
+    const replay = await movementService.replayPositions(sessionId, messageIndex)
+    return NextResponse.json(replay)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'Session not found' || error.message.startsWith('Message index out of range'))
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error replaying positions:', error)
+    return NextResponse.json({ error: 'Failed to replay positions' }, { status: 500 })
+  }
+}
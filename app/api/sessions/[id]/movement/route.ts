@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { prisma } from '@/lib/db'
-import { spatialService } from '@/services/spatial-service'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { movementService } from '@/services/movement-service'
 import { z } from 'zod'
 
 const MovementSuggestSchema = z.object({
@@ -16,19 +17,64 @@ const MovementSuggestSchema = z.object({
 })
 
 const MovementApplySchema = z.object({
-  characterId: z.string(),
-  targetPosition: z.object({
-    x: z.number(),
-    y: z.number(),
-    z: z.number(),
-  }),
-  reason: z.string().optional(),
+  suggestionId: z.string(),
   facing: z.number().optional(),
 })
 
+const MovementRejectSchema = z.object({
+  suggestionId: z.string(),
+  reason: z.string().max(500).optional(),
+})
+
+const HistoryQuerySchema = z.object({
+  characterId: z.string().optional(),
+  status: z.enum(['PENDING', 'APPLIED', 'REJECTED', 'EXPIRED']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+})
+
+/**
+ * GET /api/sessions/[id]/movement
+ * Movement suggestions of the session (newest first) and how they were resolved
+ * Filter with ?characterId=, ?status= and ?limit=
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, sessionId)
+    const filter = HistoryQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+
+    const [suggestions, stats] = await Promise.all([
+      movementService.getHistory(sessionId, filter),
+      movementService.getStats(sessionId, filter.characterId),
+    ])
+    return NextResponse.json({ suggestions, stats })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error fetching movement history:', error)
+    return NextResponse.json({ error: 'Failed to fetch movement history' }, { status: 500 })
+  }
+}
+
 /**
- * POST /api/sessions/[id]/movement/suggest
- * Calculate and validate a movement suggestion without applying it
+ * POST /api/sessions/[id]/movement?action=suggest|apply|reject
+ * suggest: calculate, validate and store a pending movement suggestion
+ * apply: move the character as a pending suggestion proposed
+ * reject: turn a pending suggestion down
  */
 export async function POST(
   request: NextRequest,
@@ -36,18 +82,35 @@ export async function POST(
 ) {
   try {
     const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, sessionId)
     const body = await request.json()
 
     // Handle different endpoints based on URL
     const url = new URL(request.url)
     const action = url.searchParams.get('action')
 
+    // Players may only move their own characters
     if (action === 'suggest') {
-      return await handleSuggest(sessionId, body)
+      const data = MovementSuggestSchema.parse(body)
+      await accessService.requireCharacterAccess(user.id, data.characterId, 'control')
+
+      const suggestion = await movementService.suggestMovement(sessionId, data, user.id)
+      return NextResponse.json(suggestion, { status: 201 })
     } else if (action === 'apply') {
-      return await handleApply(sessionId, body)
+      const data = MovementApplySchema.parse(body)
+      const suggestion = await movementService.getSuggestion(sessionId, data.suggestionId)
+      await accessService.requireCharacterAccess(user.id, suggestion.characterId, 'control')
+
+      const result = await movementService.applySuggestion(sessionId, data.suggestionId, user.id, data.facing)
+      return NextResponse.json({ success: true, ...result, message: 'Movement applied successfully' })
     } else if (action === 'reject') {
-      return await handleReject(sessionId, body)
+      const data = MovementRejectSchema.parse(body)
+      const suggestion = await movementService.getSuggestion(sessionId, data.suggestionId)
+      await accessService.requireCharacterAccess(user.id, suggestion.characterId, 'control')
+
+      const rejected = await movementService.rejectSuggestion(sessionId, data.suggestionId, user.id, data.reason)
+      return NextResponse.json({ success: true, suggestion: rejected, message: 'Movement suggestion rejected' })
     } else {
       return NextResponse.json(
         { error: 'Invalid action. Use ?action=suggest, ?action=apply, or ?action=reject' },
@@ -58,6 +121,34 @@ export async function POST(
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 })
     }
+    if (
+      error instanceof Error &&
+      (error.message === 'Character not found' ||
+        error.message === 'Character is not in this session' ||
+        error.message === 'Character position not found' ||
+        error.message === 'Movement suggestion not found')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'Session has no active location' || error.message.startsWith('Invalid movement'))
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message.startsWith('Movement suggestion already') ||
+        error.message.startsWith('Movement suggestion is stale'))
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error in movement endpoint:', error)
     return NextResponse.json(
       { error: 'Failed to process movement request' },
@@ -65,209 +156,3 @@ export async function POST(
     )
   }
 }
-
-/**
- * Suggest a movement (calculate and validate)
- */
-async function handleSuggest(sessionId: string, body: any) {
-  const data = MovementSuggestSchema.parse(body)
-
-  // Get session and character position
-  const session = await prisma.session.findUnique({
-    where: { id: sessionId },
-    include: {
-      state: true,
-    },
-  })
-
-  if (!session) {
-    return NextResponse.json({ error: 'Session not found' }, { status: 404 })
-  }
-
-  if (!session.state?.locationId) {
-    return NextResponse.json(
-      { error: 'Session has no active location' },
-      { status: 400 }
-    )
-  }
-
-  // Get current character position
-  const currentPosition = await prisma.characterPosition.findUnique({
-    where: { characterId: data.characterId },
-  })
-
-  if (!currentPosition) {
-    return NextResponse.json(
-      { error: 'Character position not found' },
-      { status: 404 }
-    )
-  }
-
-  // Validate movement
-  const validation = await spatialService.validateMovement(
-    { x: currentPosition.x, y: currentPosition.y, z: currentPosition.z },
-    data.targetPosition,
-    session.state.locationId
-  )
-
-  // Calculate distance
-  const distance = spatialService.calculateDistance(
-    { x: currentPosition.x, y: currentPosition.y, z: currentPosition.z },
-    data.targetPosition
-  )
-
-  // Get character name
-  const character = await prisma.character.findUnique({
-    where: { id: data.characterId },
-    select: { name: true },
-  })
-
-  return NextResponse.json({
-    id: `mov_${Date.now()}`,
-    characterId: data.characterId,
-    characterName: character?.name || 'Unknown',
-    from: {
-      x: currentPosition.x,
-      y: currentPosition.y,
-      z: currentPosition.z,
-    },
-    to: data.targetPosition,
-    reason: data.reason || 'Movement requested',
-    targetName: data.targetName,
-    actionType: data.actionType,
-    distance,
-    locationId: session.state.locationId,
-    isValid: validation.isValid,
-    validationIssues: validation.warnings,
-    blockedBy: validation.blockedBy,
-  })
-}
-
-/**
- * Apply a movement (update database)
- */
-async function handleApply(sessionId: string, body: any) {
-  const data = MovementApplySchema.parse(body)
-
-  // Get session to validate
-  const session = await prisma.session.findUnique({
-    where: { id: sessionId },
-    include: {
-      state: true,
-    },
-  })
-
-  if (!session) {
-    return NextResponse.json({ error: 'Session not found' }, { status: 404 })
-  }
-
-  if (!session.state?.locationId) {
-    return NextResponse.json(
-      { error: 'Session has no active location' },
-      { status: 400 }
-    )
-  }
-
-  // Get current position
-  const currentPosition = await prisma.characterPosition.findUnique({
-    where: { characterId: data.characterId },
-  })
-
-  if (!currentPosition) {
-    return NextResponse.json(
-      { error: 'Character position not found' },
-      { status: 404 }
-    )
-  }
-
-  // Validate movement one more time
-  const validation = await spatialService.validateMovement(
-    { x: currentPosition.x, y: currentPosition.y, z: currentPosition.z },
-    data.targetPosition,
-    session.state.locationId
-  )
-
-  if (!validation.isValid) {
-    return NextResponse.json(
-      {
-        error: 'Invalid movement',
-        issues: validation.warnings,
-        blockedBy: validation.blockedBy,
-      },
-      { status: 400 }
-    )
-  }
-
-  // Update character position
-  const updatedPosition = await prisma.characterPosition.update({
-    where: { characterId: data.characterId },
-    data: {
-      x: data.targetPosition.x,
-      y: data.targetPosition.y,
-      z: data.targetPosition.z,
-      facing: data.facing,
-    },
-    include: {
-      character: {
-        select: {
-          name: true,
-        },
-      },
-    },
-  })
-
-  // Add movement event to session state
-  if (session.state) {
-    const existingEvents = (session.state.recentEvents || []) as string[]
-    const movementEvent = {
-      type: 'movement',
-      characterId: data.characterId,
-      characterName: updatedPosition.character.name,
-      from: {
-        x: currentPosition.x,
-        y: currentPosition.y,
-        z: currentPosition.z,
-      },
-      to: data.targetPosition,
-      reason: data.reason || 'Movement',
-      timestamp: new Date().toISOString(),
-    }
-
-    // Keep last 5 events
-    const newEvents = [JSON.stringify(movementEvent), ...existingEvents].slice(0, 5)
-
-    await prisma.sessionState.update({
-      where: { id: session.state.id },
-      data: {
-        recentEvents: newEvents,
-      },
-    })
-  }
-
-  return NextResponse.json({
-    success: true,
-    position: {
-      x: updatedPosition.x,
-      y: updatedPosition.y,
-      z: updatedPosition.z,
-      facing: updatedPosition.facing,
-    },
-    message: 'Movement applied successfully',
-  })
-}
-
-/**
- * Reject a movement suggestion (just logs, no database changes)
- */
-async function handleReject(sessionId: string, body: any) {
-  const { suggestionId, reason } = body
-
-  // In the future, could log rejections for analytics
-  console.log(`Movement suggestion ${suggestionId} rejected for session ${sessionId}:`, reason)
-
-  return NextResponse.json({
-    success: true,
-    message: 'Movement suggestion rejected',
-  })
-}
-
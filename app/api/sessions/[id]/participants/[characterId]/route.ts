@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { sessionService } from '@/services/session-service'
+
+/**
+ * DELETE /api/sessions/[id]/participants/[characterId]
+ * Remove a character from the session; their past messages keep the attribution
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; characterId: string }> }
+) {
+  try {
+    const { id: sessionId, characterId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireCharacterAccess(user.id, characterId, 'control')
+    await sessionService.removeParticipant(sessionId, characterId)
+    return NextResponse.json({ message: 'Participant removed' })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Character is not in this session') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (
+      error instanceof Error &&
+      error.message === 'Cannot remove the last character from the session'
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof Error && error.message === 'Character not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error removing participant:', error)
+    return NextResponse.json({ error: 'Failed to remove participant' }, { status: 500 })
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { sessionService } from '@/services/session-service'
+import { z } from 'zod'
+
+const ParticipantSchema = z.object({
+  characterId: z.string(),
+})
+
+/**
+ * GET /api/sessions/[id]/participants
+ * Characters taking part in the session
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, sessionId)
+    const roster = await sessionService.getRoster(sessionId)
+    return NextResponse.json(roster)
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error fetching participants:', error)
+    return NextResponse.json({ error: 'Failed to fetch participants' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/sessions/[id]/participants
+ * Add a campaign character to the session
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
+    const body = await request.json()
+    const { characterId } = ParticipantSchema.parse(body)
+    // Players may seat their own characters; the GM may seat anyone
+    await accessService.requireSessionAccess(user.id, sessionId)
+    await accessService.requireCharacterAccess(user.id, characterId, 'control')
+
+    const participant = await sessionService.addParticipant(sessionId, characterId)
+    return NextResponse.json(participant, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Character not found in this campaign') {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Character not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error adding participant:', error)
+    return NextResponse.json({ error: 'Failed to add participant' }, { status: 500 })
+  }
+}
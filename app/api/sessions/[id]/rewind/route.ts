@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { turnHistoryService } from '@/services/turn-history-service'
+import { z } from 'zod'
+
+const RewindSchema = z.object({
+  messageId: z.string(), // Player message to undo, together with everything after it
+})
+
+/**
+ * POST /api/sessions/[id]/rewind
+ * Rewind the session to just before a player message (GM only)
+ * Session state, character positions, dice rolls and summaries are rolled back
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, sessionId, 'gm')
+    const body = await request.json()
+    const { messageId } = RewindSchema.parse(body)
+
+    const { message, discardedCount } = await turnHistoryService.rewind(sessionId, messageId)
+
+    return NextResponse.json({
+      discardedCount,
+      message: {
+        id: message.id,
+        content: message.content,
+        characterId: message.characterId,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Only player messages can be rewound to') {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof Error && error.message.includes('cannot be undone')) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'Session not found' || error.message === 'Message not found')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error rewinding session:', error)
+    return NextResponse.json({ error: 'Failed to rewind session' }, { status: 500 })
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { diceService } from '@/services/dice-service'
+import { z } from 'zod'
+
+const RollSchema = z.object({
+  expression: z.string().min(1).max(100),
+  characterId: z.string().optional(),
+  reason: z.string().max(200).optional(),
+  seed: z.number().int().min(0).max(0x7fffffff).optional(), // GM only, to replay a logged roll
+})
+
+/**
+ * GET /api/sessions/[id]/rolls
+ * Roll log for a session, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, sessionId)
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '50', 10)
+
+    const rolls = await diceService.getSessionRolls(
+      sessionId,
+      Number.isNaN(limit) ? 50 : Math.min(Math.max(limit, 1), 200)
+    )
+    return NextResponse.json(rolls)
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error fetching dice rolls:', error)
+    return NextResponse.json({ error: 'Failed to fetch dice rolls' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/sessions/[id]/rolls
+ * Roll dice on the server; the result is fed to the DM on the next turn
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
+    const access = await accessService.requireSessionAccess(user.id, sessionId)
+    const body = await request.json()
+    const data = RollSchema.parse(body)
+    // A seed decides the outcome, so players cannot choose their own
+    if (data.seed !== undefined && access.role !== 'GM') {
+      throw new Error('Access denied: only the GM can roll with a seed')
+    }
+    if (data.characterId) {
+      await accessService.requireCharacterAccess(user.id, data.characterId, 'control')
+    }
+
+    const roll = await diceService.rollForSession({ sessionId, ...data })
+    return NextResponse.json(roll, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message.includes('Invalid dice expression')) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'Session not found' || error.message.startsWith('Character not found'))
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error rolling dice:', error)
+    return NextResponse.json({ error: 'Failed to roll dice' }, { status: 500 })
+  }
+}
@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
 import { sessionService } from '@/services/session-service'
 import { z } from 'zod'
 
@@ -15,12 +17,20 @@ export async function GET(
 ) {
   try {
     const { id } = await params
+    const user = await authService.requireUser(request)
+    const access = await accessService.requireSessionAccess(user.id, id)
     const session = await sessionService.getSessionById(id)
-    return NextResponse.json(session)
+    return NextResponse.json({ ...session, role: access.role })
   } catch (error) {
     if (error instanceof Error && error.message === 'Session not found') {
       return NextResponse.json({ error: 'Session not found' }, { status: 404 })
     }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error fetching session:', error)
     return NextResponse.json({ error: 'Failed to fetch session' }, { status: 500 })
   }
@@ -32,6 +42,8 @@ export async function PATCH(
 ) {
   try {
     const { id } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, id, 'gm')
     const body = await request.json()
     const validatedData = SessionUpdateSchema.parse(body)
     
@@ -46,6 +58,15 @@ export async function PATCH(
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 })
     }
+    if (error instanceof Error && error.message === 'Session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error updating session:', error)
     return NextResponse.json({ error: 'Failed to update session' }, { status: 500 })
   }
@@ -57,9 +78,20 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params
+    const user = await authService.requireUser(request)
+    await accessService.requireSessionAccess(user.id, id, 'gm')
     await sessionService.deleteSession(id)
     return NextResponse.json({ message: 'Session deleted' })
   } catch (error) {
+    if (error instanceof Error && error.message === 'Session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error deleting session:', error)
     return NextResponse.json({ error: 'Failed to delete session' }, { status: 500 })
   }
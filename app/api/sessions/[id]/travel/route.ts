@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
+import { worldService } from '@/services/world-service'
+import { z } from 'zod'
+
+const TravelSchema = z.object({
+  connectionId: z.string(),
+  characterId: z.string().optional(), // Omit to move the whole party
+})
+
+/**
+ * POST /api/sessions/[id]/travel
+ * Move a character, or the party, through an exit into the linked location
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params
+    const user = await authService.requireUser(request)
+    const body = await request.json()
+    const { connectionId, characterId } = TravelSchema.parse(body)
+    // Players move their own characters; moving the party is the GM's call
+    if (characterId) {
+      await accessService.requireSessionAccess(user.id, sessionId)
+      await accessService.requireCharacterAccess(user.id, characterId, 'control')
+    } else {
+      await accessService.requireSessionAccess(user.id, sessionId, 'gm')
+    }
+
+    const result = await worldService.travel(sessionId, connectionId, characterId)
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'Session not found' ||
+        error.message === 'Connection not found' ||
+        error.message === 'Character not found')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && error.message === 'Cannot travel while combat is running') {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'Character is not in this session' ||
+        error.message.endsWith('is one-way') ||
+        error.message.includes(' is not at ') ||
+        error.message.startsWith('No one in the party'))
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Error travelling:', error)
+    return NextResponse.json({ error: 'Failed to travel' }, { status: 500 })
+  }
+}
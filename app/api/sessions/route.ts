@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { accessService } from '@/services/access-service'
+import { authService } from '@/services/auth-service'
 import { sessionService } from '@/services/session-service'
 import { z } from 'zod'
 
@@ -6,18 +8,30 @@ const SessionSchema = z.object({
   campaignId: z.string(),
   name: z.string().min(1).max(100),
   notes: z.string().optional(),
+  characterIds: z.array(z.string()).optional(), // Defaults to every campaign character
 })
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await authService.requireUser(request)
     const body = await request.json()
     const validatedData = SessionSchema.parse(body)
+    await accessService.requireCampaignAccess(user.id, validatedData.campaignId, 'gm')
     const session = await sessionService.createSession(validatedData)
     return NextResponse.json(session, { status: 201 })
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 })
     }
+    if (error instanceof Error && error.message === 'Character not found in this campaign') {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof Error && error.message.startsWith('Access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Error creating session:', error)
     return NextResponse.json({ error: 'Failed to create session' }, { status: 500 })
   }
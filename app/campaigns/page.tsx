@@ -29,6 +29,7 @@ export default function CampaignsPage() {
   const fetchCampaigns = async () => {
     try {
       const response = await fetch('/api/campaigns')
+      if (!response.ok) return
       const data = await response.json()
       setCampaigns(data)
     } catch (error) {
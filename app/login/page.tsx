@@ -0,0 +1,132 @@
+'use client'
+
+import { Suspense, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Navbar from '@/components/Navbar'
+
+function LoginForm() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const [mode, setMode] = useState<'login' | 'register'>('login')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [displayName, setDisplayName] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(mode === 'login' ? { email, password } : { email, password, displayName }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(typeof data.error === 'string' ? data.error : 'Please check the form and try again')
+      }
+
+      // Only follow same-site paths
+      const next = searchParams.get('next')
+      router.push(next && next.startsWith('/') && !next.startsWith('//') ? next : '/campaigns')
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 max-w-md w-full mx-auto">
+      <h1 className="text-2xl font-bold text-white mb-4">
+        {mode === 'login' ? 'Sign In' : 'Create Account'}
+      </h1>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {mode === 'register' && (
+          <div>
+            <label htmlFor="displayName" className="block text-sm font-medium text-gray-300 mb-1">
+              Display Name
+            </label>
+            <input
+              type="text"
+              id="displayName"
+              value={displayName}
+              onChange={e => setDisplayName(e.target.value)}
+              required
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-1">
+            Email
+          </label>
+          <input
+            type="email"
+            id="email"
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            required
+            className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-1">
+            Password
+          </label>
+          <input
+            type="password"
+            id="password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            required
+            minLength={mode === 'register' ? 8 : undefined}
+            className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </div>
+
+        {error && <div className="text-red-500 text-sm">{error}</div>}
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-6 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {loading ? 'Please wait...' : mode === 'login' ? 'Sign In' : 'Create Account'}
+        </button>
+      </form>
+
+      <button
+        onClick={() => {
+          setMode(mode === 'login' ? 'register' : 'login')
+          setError('')
+        }}
+        className="mt-4 text-sm text-purple-400 hover:text-purple-300"
+      >
+        {mode === 'login' ? 'No account yet? Create one' : 'Already have an account? Sign in'}
+      </button>
+    </div>
+  )
+}
+
+export default function LoginPage() {
+  return (
+    <div className="min-h-screen bg-gray-950">
+      <Navbar />
+      <div className="container mx-auto px-4 py-12">
+        <Suspense>
+          <LoginForm />
+        </Suspense>
+      </div>
+    </div>
+  )
+}
@@ -4,12 +4,24 @@ import { use, useEffect, useState, useRef } from 'react'
 import Link from 'next/link'
 import Navbar from '@/components/Navbar'
 import SessionCostDashboard from '@/components/SessionCostDashboard'
+import BattleMap from '@/components/BattleMap'
+import { readSSE } from '@/lib/sse'
+import { MovementSuggestion } from '@/types'
 
 type Message = {
   id: string
   role: 'USER' | 'ASSISTANT' | 'SYSTEM'
   content: string
   createdAt: string
+  character?: { id: string; name: string } | null
+  metadata?: { movementSuggestion?: MovementSuggestion } | null
+}
+
+type Participant = {
+  character: {
+    id: string
+    name: string
+  }
 }
 
 type Session = {
@@ -20,6 +32,9 @@ type Session = {
     id: string
     name: string
   }
+  participants: Participant[]
+  state?: { locationId: string | null } | null
+  role: 'GM' | 'PLAYER'
 }
 
 export default function SessionPage({ params }: { params: Promise<{ id: string }> }) {
@@ -31,6 +46,10 @@ export default function SessionPage({ params }: { params: Promise<{ id: string }
   const [sending, setSending] = useState(false)
   const [error, setError] = useState('')
   const [showCosts, setShowCosts] = useState(false)
+  const [showMap, setShowMap] = useState(false)
+  const [resolvedSuggestionIds, setResolvedSuggestionIds] = useState<string[]>([])
+  const [actingCharacterId, setActingCharacterId] = useState('')
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
@@ -51,6 +70,7 @@ export default function SessionPage({ params }: { params: Promise<{ id: string }
       const response = await fetch(`/api/sessions/${id}`)
       const data = await response.json()
       setSession(data)
+      setActingCharacterId(data.participants?.[0]?.character.id || '')
     } catch (error) {
       console.error('Failed to fetch session:', error)
     } finally {
@@ -68,55 +88,152 @@ export default function SessionPage({ params }: { params: Promise<{ id: string }
     }
   }
 
+  /**
+   * Run a regenerate / edit / rewind request, then reload the conversation
+   */
+  const runTurnAction = async (url: string, init: RequestInit) => {
+    setError('')
+    setSending(true)
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(typeof data.error === 'string' ? data.error : 'Request failed')
+      }
+      await fetchMessages()
+      return data
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed')
+      return null
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const handleRegenerate = () =>
+    runTurnAction(`/api/sessions/${id}/messages/regenerate`, { method: 'POST' })
+
+  const handleRewind = async (message: Message) => {
+    if (!confirm('Rewind to before this message? Everything after it will be undone.')) return
+
+    const data = await runTurnAction(`/api/sessions/${id}/rewind`, {
+      method: 'POST',
+      body: JSON.stringify({ messageId: message.id }),
+    })
+    if (data) {
+      setEditingMessageId(null)
+      setInput(data.message.content)
+      if (data.message.characterId) setActingCharacterId(data.message.characterId)
+    }
+  }
+
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id)
+    setInput(message.content)
+  }
+
+  const cancelEditing = () => {
+    setEditingMessageId(null)
+    setInput('')
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!input.trim() || sending) return
 
+    if (editingMessageId) {
+      const data = await runTurnAction(`/api/sessions/${id}/messages/${editingMessageId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ content: input.trim() }),
+      })
+      if (data) cancelEditing()
+      return
+    }
+
     setError('')
     setSending(true)
     const userMessage = input.trim()
     setInput('')
 
     // Optimistically add user message
+    const actingCharacter = session?.participants.find(p => p.character.id === actingCharacterId)?.character
     const tempUserMessage: Message = {
       id: 'temp-user',
       role: 'USER',
       content: userMessage,
       createdAt: new Date().toISOString(),
+      character: actingCharacter,
     }
     setMessages(prev => [...prev, tempUserMessage])
 
     try {
-      const response = await fetch(`/api/sessions/${id}/messages`, {
+      const response = await fetch(`/api/sessions/${id}/messages/stream`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ content: userMessage }),
+        body: JSON.stringify({ content: userMessage, characterId: actingCharacterId || undefined }),
       })
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         const errorData = await response.json()
         throw new Error(errorData.error || 'Failed to send message')
       }
 
-      const aiResponse = await response.json()
+      // Render the narrative as it streams in
+      setMessages(prev => [
+        ...prev,
+        { id: 'temp-ai', role: 'ASSISTANT', content: '', createdAt: new Date().toISOString() },
+      ])
 
-      // Add AI response
-      const aiMessage: Message = {
-        id: 'temp-ai',
-        role: 'ASSISTANT',
-        content: aiResponse.content,
-        createdAt: new Date().toISOString(),
+      for await (const event of readSSE(response.body)) {
+        const data = JSON.parse(event.data)
+
+        if (event.event === 'narrative') {
+          setMessages(prev =>
+            prev.map(m => (m.id === 'temp-ai' ? { ...m, content: m.content + data.delta } : m))
+          )
+        } else if (event.event === 'complete') {
+          // Replace temporary messages with the saved ones
+          setMessages(prev =>
+            prev.map(m => {
+              if (m.id === 'temp-user') return { ...m, id: data.userMessageId }
+              if (m.id === 'temp-ai') {
+                return {
+                  ...m,
+                  id: data.assistantMessageId,
+                  role: data.diceRoll ? 'SYSTEM' : m.role,
+                  content: data.content,
+                  metadata: { movementSuggestion: data.movementSuggestion },
+                }
+              }
+              return m
+            })
+          )
+        } else if (event.event === 'error') {
+          throw new Error(data.error || 'Failed to send message')
+        }
       }
-      setMessages(prev => [...prev.filter(m => m.id !== 'temp-user'), tempUserMessage, aiMessage])
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to send message')
-      setMessages(prev => prev.filter(m => m.id !== 'temp-user'))
+      setMessages(prev => prev.filter(m => m.id !== 'temp-user' && m.id !== 'temp-ai'))
       setInput(userMessage)
     } finally {
       setSending(false)
     }
   }
 
+  const lastUserMessage = messages.findLast(m => m.role === 'USER')
+  const lastMessage = messages[messages.length - 1]
+  const isGM = session?.role === 'GM'
+
+  // Movement the DM proposed in its latest turn, until it is accepted or rejected
+  const suggestion =
+    lastMessage?.role === 'ASSISTANT' ? lastMessage.metadata?.movementSuggestion : undefined
+  const pendingSuggestion =
+    suggestion && !resolvedSuggestionIds.includes(suggestion.id) ? suggestion : null
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-950">
@@ -158,15 +275,43 @@ export default function SessionPage({ params }: { params: Promise<{ id: string }
               <h1 className="text-2xl font-bold text-white">{session.name}</h1>
               <p className="text-sm text-gray-400">Status: {session.status}</p>
             </div>
-            <button
-              onClick={() => setShowCosts(!showCosts)}
-              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-colors text-sm"
-            >
-              {showCosts ? 'Hide Costs' : 'Show Costs'}
-            </button>
+            <div className="flex space-x-2">
+              {session.state?.locationId && (
+                <button
+                  onClick={() => setShowMap(!showMap)}
+                  className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-colors text-sm"
+                >
+                  {showMap ? 'Hide Map' : pendingSuggestion ? 'Show Map (movement pending)' : 'Show Map'}
+                </button>
+              )}
+              <button
+                onClick={() => setShowCosts(!showCosts)}
+                className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-colors text-sm"
+              >
+                {showCosts ? 'Hide Costs' : 'Show Costs'}
+              </button>
+            </div>
           </div>
         </div>
 
+        {/* Battle Map */}
+        {showMap && session.state?.locationId && (
+          <div className="bg-gray-800 rounded-lg p-4 mb-4">
+            <BattleMap
+              sessionId={session.id}
+              campaignId={session.campaign.id}
+              locationId={session.state.locationId}
+              isGM={isGM}
+              partyIds={session.participants.map(p => p.character.id)}
+              suggestion={pendingSuggestion}
+              onSuggestionResolved={suggestionId =>
+                setResolvedSuggestionIds(prev => [...prev, suggestionId])
+              }
+              refreshKey={messages.length}
+            />
+          </div>
+        )}
+
         {/* Cost Dashboard */}
         {showCosts && (
           <div className="bg-gray-800 rounded-lg p-4 mb-4">
@@ -191,15 +336,44 @@ export default function SessionPage({ params }: { params: Promise<{ id: string }
                   className={`${
                     message.role === 'USER'
                       ? 'bg-purple-900/30 ml-8'
-                      : 'bg-blue-900/30 mr-8'
+                      : message.role === 'SYSTEM'
+                        ? 'bg-gray-800/60 mx-8'
+                        : 'bg-blue-900/30 mr-8'
                   } rounded-lg p-4`}
                 >
                   <div className="flex items-start">
                     <div className="flex-1">
                       <div className="text-xs text-gray-400 mb-1">
-                        {message.role === 'USER' ? 'You' : 'Dungeon Master'}
+                        {message.role === 'USER'
+                          ? message.character?.name || 'You'
+                          : message.role === 'SYSTEM'
+                            ? 'Dice Roll'
+                            : 'Dungeon Master'}
                       </div>
-                      <div className="text-white whitespace-pre-wrap">{message.content}</div>
+                      <div className="text-white whitespace-pre-wrap">
+                        {message.content || (
+                          <span className="text-gray-400 animate-pulse">The Dungeon Master is thinking...</span>
+                        )}
+                      </div>
+                      {!sending && session.status === 'ACTIVE' && !message.id.startsWith('temp-') && (
+                        <div className="flex space-x-3 mt-2 text-xs">
+                          {message.id === lastUserMessage?.id && (
+                            <button onClick={() => startEditing(message)} className="text-purple-400 hover:text-purple-300">
+                              Edit
+                            </button>
+                          )}
+                          {isGM && message.role === 'USER' && (
+                            <button onClick={() => handleRewind(message)} className="text-gray-400 hover:text-gray-300">
+                              Rewind to here
+                            </button>
+                          )}
+                          {isGM && message.id === lastMessage?.id && message.role !== 'USER' && (
+                            <button onClick={handleRegenerate} className="text-purple-400 hover:text-purple-300">
+                              Regenerate
+                            </button>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -212,7 +386,30 @@ export default function SessionPage({ params }: { params: Promise<{ id: string }
         {/* Input Form */}
         <form onSubmit={handleSubmit} className="bg-gray-800 rounded-lg p-4">
           {error && <div className="text-red-500 text-sm mb-2">{error}</div>}
+          {editingMessageId && (
+            <div className="text-sm text-gray-400 mb-2">
+              Editing your last message; the DM will answer it again.{' '}
+              <button type="button" onClick={cancelEditing} className="text-purple-400 hover:text-purple-300">
+                Cancel
+              </button>
+            </div>
+          )}
           <div className="flex space-x-2">
+            {session.participants.length > 1 && (
+              <select
+                value={actingCharacterId}
+                onChange={e => setActingCharacterId(e.target.value)}
+                disabled={sending || session.status !== 'ACTIVE'}
+                className="px-3 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+                aria-label="Acting character"
+              >
+                {session.participants.map(p => (
+                  <option key={p.character.id} value={p.character.id}>
+                    {p.character.name}
+                  </option>
+                ))}
+              </select>
+            )}
             <input
               type="text"
               value={input}
@@ -221,7 +418,7 @@ export default function SessionPage({ params }: { params: Promise<{ id: string }
               placeholder={
                 session.status !== 'ACTIVE'
                   ? 'Session is not active'
-                  : 'Describe your action...'
+                  : 'Describe your action, or /roll 1d20+3...'
               }
               className="flex-1 px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
               maxLength={1000}
@@ -231,7 +428,7 @@ export default function SessionPage({ params }: { params: Promise<{ id: string }
               disabled={!input.trim() || sending || session.status !== 'ACTIVE'}
               className="px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white font-bold rounded-lg transition-colors disabled:opacity-50"
             >
-              {sending ? 'Sending...' : 'Send'}
+              {sending ? 'Sending...' : editingMessageId ? 'Resend' : 'Send'}
             </button>
           </div>
         </form>
@@ -0,0 +1,501 @@
+'use client'
+
+import { PointerEvent, useCallback, useEffect, useRef, useState } from 'react'
+import { MovementSuggestion, Position3D, ReactionPromptRecord } from '@/types'
+
+interface MapFeature {
+  id: string
+  type: string
+  name: string
+  x: number
+  y: number
+  z: number
+  width: number | null
+  depth: number | null
+  blocksMovement: boolean
+  blocksVision: boolean
+  providesCover: string
+}
+
+interface MapToken {
+  characterId: string
+  x: number
+  y: number
+  z: number
+  facing: number | null
+  character: { id: string; name: string }
+}
+
+// NPC and creature tokens; moved through the NPC endpoints, not dragged
+interface MapNpc {
+  id: string
+  name: string
+  kind: string | null
+  x: number
+  y: number
+  z: number
+}
+
+interface MapLocation {
+  id: string
+  name: string
+  minX: number
+  maxX: number
+  minY: number
+  maxY: number
+  unitType: string
+  gridType: 'NONE' | 'SQUARE' | 'HEX'
+  gridSize: number
+  features: MapFeature[]
+  characterPositions: MapToken[]
+  npcs: MapNpc[]
+}
+
+interface BattleMapProps {
+  sessionId: string
+  campaignId: string
+  locationId: string
+  isGM: boolean
+  partyIds: string[] // Party tokens are drawn apart from NPCs
+  suggestion?: MovementSuggestion | null // Pending movement to show and resolve
+  onSuggestionResolved?: (suggestionId: string) => void
+  refreshKey?: number // Change to reload positions (e.g. after a DM turn)
+}
+
+const FEATURE_COLORS: Record<string, string> = {
+  OBSTACLE: '#6b7280',
+  FURNITURE: '#b45309',
+  DOOR: '#92400e',
+  TERRAIN: '#15803d',
+  HAZARD: '#dc2626',
+  POI: '#7c3aed',
+}
+
+// Stronger cover reads as a more opaque feature
+const COVER_OPACITY: Record<string, number> = {
+  NONE: 0.35,
+  HALF: 0.55,
+  THREE_QUARTERS: 0.7,
+  FULL: 0.85,
+}
+
+export default function BattleMap({
+  sessionId,
+  campaignId,
+  locationId,
+  isGM,
+  partyIds,
+  suggestion,
+  onSuggestionResolved,
+  refreshKey = 0,
+}: BattleMapProps) {
+  const [location, setLocation] = useState<MapLocation | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [reactions, setReactions] = useState<ReactionPromptRecord[]>([])
+  const [dragging, setDragging] = useState<{
+    characterId: string
+    from: Position3D
+    position: Position3D
+  } | null>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+
+  const fetchLocation = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/campaigns/${campaignId}/locations/${locationId}`)
+      if (!response.ok) {
+        throw new Error('Failed to load the map')
+      }
+      setLocation(await response.json())
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the map')
+    }
+  }, [campaignId, locationId])
+
+  // Opportunity attacks provoked by moves, waiting for a decision
+  const fetchReactions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/encounter/reactions?status=PENDING`)
+      if (response.ok) {
+        setReactions(await response.json())
+      }
+    } catch (err) {
+      console.error('Failed to load reactions:', err)
+    }
+  }, [sessionId])
+
+  useEffect(() => {
+    fetchLocation()
+    fetchReactions()
+  }, [fetchLocation, fetchReactions, refreshKey])
+
+  /**
+   * Post to the movement endpoint, which validates moves and records how suggestions end
+   * Errors are shown above the map
+   */
+  const postMovement = async (action: 'suggest' | 'apply' | 'reject', body: object) => {
+    const response = await fetch(`/api/sessions/${sessionId}/movement?action=${action}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      setError(typeof data.error === 'string' ? data.error : 'Movement failed')
+    }
+    return { status: response.status, data }
+  }
+
+  const resolveSuggestion = async (action: 'apply' | 'reject') => {
+    if (!suggestion) return
+    setBusy(true)
+    setError(null)
+    try {
+      const { status } = await postMovement(action, { suggestionId: suggestion.id })
+      // 409: resolved meanwhile, by another click or because the character moved
+      if (status === 200 || status === 409) {
+        onSuggestionResolved?.(suggestion.id)
+        await Promise.all([fetchLocation(), fetchReactions()])
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Movement failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  /**
+   * Move a dragged token; the move goes through a suggestion so it lands in the movement history
+   */
+  const moveToken = async (characterId: string, targetPosition: Position3D) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const suggested = await postMovement('suggest', {
+        characterId,
+        targetPosition,
+        actionType: 'MOVEMENT',
+        reason: 'Moved on the battle map',
+      })
+      if (suggested.status === 201) {
+        await postMovement('apply', { suggestionId: suggested.data.id })
+      }
+      await Promise.all([fetchLocation(), fetchReactions()])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Movement failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const resolveReaction = async (reactionId: string, used: boolean) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/encounter/reactions/${reactionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ used }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        setError(typeof data.error === 'string' ? data.error : 'Failed to resolve the reaction')
+      }
+      await fetchReactions()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve the reaction')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  // Pointer position in map coordinates
+  const toMapPoint = (event: PointerEvent<SVGElement>) => {
+    const svg = svgRef.current
+    const matrix = svg?.getScreenCTM()
+    if (!svg || !matrix) return null
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse())
+    return { x: point.x, y: point.y }
+  }
+
+  const startDrag = (event: PointerEvent<SVGGElement>, token: MapToken) => {
+    if (!isGM || busy) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    const from = { x: token.x, y: token.y, z: token.z }
+    setDragging({ characterId: token.characterId, from, position: from })
+  }
+
+  const moveDrag = (event: PointerEvent<SVGGElement>) => {
+    if (!dragging) return
+    const point = toMapPoint(event)
+    if (point) setDragging({ ...dragging, position: { ...dragging.position, ...point } })
+  }
+
+  const endDrag = async () => {
+    if (!dragging) return
+    const { characterId, from, position } = dragging
+    setDragging(null)
+    // A click without a drag leaves the token where it is
+    if (Math.hypot(position.x - from.x, position.y - from.y) < 0.1) return
+    await moveToken(characterId, position)
+  }
+
+  if (!location) {
+    return (
+      <div className="text-sm text-gray-400">
+        {error ? <span className="text-red-500">Error: {error}</span> : 'Loading map...'}
+      </div>
+    )
+  }
+
+  const width = location.maxX - location.minX
+  const height = location.maxY - location.minY
+  const unit = location.unitType === 'feet' ? 'ft' : 'm'
+  const tokenRadius = Math.min(location.gridSize, width, height) * 0.4
+
+  const gridLines: Array<{ x1: number; y1: number; x2: number; y2: number }> = []
+  if (location.gridType === 'SQUARE') {
+    for (let x = location.minX; x <= location.maxX + 1e-6; x += location.gridSize) {
+      gridLines.push({ x1: x, y1: location.minY, x2: x, y2: location.maxY })
+    }
+    for (let y = location.minY; y <= location.maxY + 1e-6; y += location.gridSize) {
+      gridLines.push({ x1: location.minX, y1: y, x2: location.maxX, y2: y })
+    }
+  }
+
+  const route = suggestion ? suggestion.path ?? [suggestion.from, suggestion.to] : []
+  const routeColor = suggestion?.isValid ? '#22c55e' : '#ef4444'
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-semibold text-white">{location.name}</h3>
+        <span className="text-xs text-gray-400">
+          {Math.round(width * 10) / 10} x {Math.round(height * 10) / 10} {unit}
+          {isGM && ' · drag tokens to move them'}
+        </span>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`${location.minX} ${location.minY} ${width} ${height}`}
+        className="w-full max-h-[50vh] bg-gray-900 rounded-lg touch-none"
+        role="img"
+        aria-label={`Battle map of ${location.name}`}
+      >
+        {gridLines.map((line, i) => (
+          <line key={i} {...line} stroke="#374151" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+        ))}
+
+        {location.features.map((feature) => (
+          <rect
+            key={feature.id}
+            x={feature.x}
+            y={feature.y}
+            width={Math.max(feature.width || 0, tokenRadius / 2)}
+            height={Math.max(feature.depth || 0, tokenRadius / 2)}
+            fill={FEATURE_COLORS[feature.type] || '#6b7280'}
+            fillOpacity={COVER_OPACITY[feature.providesCover] ?? 0.35}
+            stroke={feature.blocksMovement ? '#f9fafb' : FEATURE_COLORS[feature.type] || '#6b7280'}
+            strokeWidth={feature.blocksMovement ? 2 : 1}
+            strokeDasharray={feature.blocksVision ? undefined : '4 2'}
+            vectorEffect="non-scaling-stroke"
+          >
+            <title>
+              {`${feature.name} (${feature.type.toLowerCase()})` +
+                (feature.providesCover !== 'NONE' ? `, ${feature.providesCover.toLowerCase().replace('_', '-')} cover` : '') +
+                (feature.blocksMovement ? ', blocks movement' : '') +
+                (feature.blocksVision ? ', blocks vision' : '')}
+            </title>
+          </rect>
+        ))}
+
+        {suggestion && (
+          <g pointerEvents="none">
+            <polyline
+              points={route.map((p) => `${p.x},${p.y}`).join(' ')}
+              fill="none"
+              stroke={routeColor}
+              strokeWidth={3}
+              strokeDasharray="6 4"
+              vectorEffect="non-scaling-stroke"
+            />
+            <circle
+              cx={suggestion.to.x}
+              cy={suggestion.to.y}
+              r={tokenRadius}
+              fill={routeColor}
+              fillOpacity={0.3}
+              stroke={routeColor}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          </g>
+        )}
+
+        {location.npcs.map((npc) => (
+          <g key={npc.id}>
+            <title>{npc.kind ? `${npc.name} (${npc.kind})` : npc.name}</title>
+            <rect
+              x={npc.x - tokenRadius}
+              y={npc.y - tokenRadius}
+              width={tokenRadius * 2}
+              height={tokenRadius * 2}
+              rx={tokenRadius / 3}
+              fill="#4b5563"
+              stroke="#f9fafb"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+            <text
+              x={npc.x}
+              y={npc.y}
+              fontSize={tokenRadius}
+              textAnchor="middle"
+              dominantBaseline="central"
+              fill="#ffffff"
+              pointerEvents="none"
+            >
+              {/* "Goblin 3" reads G3, so a pack stays apart */}
+              {npc.name.charAt(0) + (npc.name.match(/\d+$/)?.[0] ?? npc.name.charAt(1))}
+            </text>
+          </g>
+        ))}
+
+        {location.characterPositions.map((token) => {
+          const position =
+            dragging?.characterId === token.characterId ? dragging.position : { x: token.x, y: token.y }
+          const party = partyIds.includes(token.characterId)
+          const facing = token.facing !== null ? (token.facing * Math.PI) / 180 : null
+
+          return (
+            <g
+              key={token.characterId}
+              onPointerDown={(event) => startDrag(event, token)}
+              onPointerMove={moveDrag}
+              onPointerUp={endDrag}
+              className={isGM ? 'cursor-grab' : undefined}
+            >
+              <title>{token.character.name}</title>
+              {facing !== null && (
+                <line
+                  x1={position.x}
+                  y1={position.y}
+                  x2={position.x + Math.sin(facing) * tokenRadius * 1.6}
+                  y2={position.y - Math.cos(facing) * tokenRadius * 1.6}
+                  stroke="#fbbf24"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+              <circle
+                cx={position.x}
+                cy={position.y}
+                r={tokenRadius}
+                fill={party ? '#7c3aed' : '#b91c1c'}
+                stroke={suggestion?.characterId === token.characterId ? routeColor : '#f9fafb'}
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+              <text
+                x={position.x}
+                y={position.y}
+                fontSize={tokenRadius}
+                textAnchor="middle"
+                dominantBaseline="central"
+                fill="#ffffff"
+                pointerEvents="none"
+              >
+                {token.character.name.slice(0, 2)}
+              </text>
+            </g>
+          )
+        })}
+      </svg>
+
+      {suggestion && (
+        <div className="bg-gray-900 rounded-lg p-3 text-sm">
+          <p className="text-white">
+            {suggestion.characterName} → {suggestion.targetName || `(${suggestion.to.x.toFixed(1)}, ${suggestion.to.y.toFixed(1)})`}
+            <span className="text-gray-400"> · {suggestion.reason}</span>
+          </p>
+          <p className="text-gray-400 text-xs mt-1">
+            {suggestion.distance.toFixed(1)} {unit}
+            {suggestion.movementCost !== undefined && suggestion.movementCost > suggestion.distance + 0.05 &&
+              ` (costs ${suggestion.movementCost.toFixed(1)} ${unit} of movement)`}
+            {suggestion.turnsRequired !== undefined && suggestion.turnsRequired > 1 &&
+              ` · ${suggestion.turnsRequired} turns`}
+          </p>
+          {suggestion.validationIssues && suggestion.validationIssues.length > 0 && (
+            <ul className="text-yellow-500 text-xs mt-1 list-disc list-inside">
+              {suggestion.validationIssues.map((issue) => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+          )}
+          {isGM && (
+            <div className="flex space-x-2 mt-2">
+              <button
+                onClick={() => resolveSuggestion('apply')}
+                disabled={busy || !suggestion.isValid}
+                className="px-3 py-1 bg-green-700 hover:bg-green-600 text-white rounded transition-colors disabled:opacity-50"
+              >
+                Accept
+              </button>
+              <button
+                onClick={() => resolveSuggestion('reject')}
+                disabled={busy}
+                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors disabled:opacity-50"
+              >
+                Reject
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {reactions.length > 0 && (
+        <div className="bg-gray-900 rounded-lg p-3 text-sm space-y-2">
+          {reactions.map((reaction) => (
+            <div key={reaction.id} className="flex items-center justify-between">
+              <span className="text-white">
+                {reaction.combatantName} may make an opportunity attack against {reaction.triggeredByName}
+              </span>
+              {isGM && (
+                <span className="flex space-x-2 ml-2">
+                  <button
+                    onClick={() => resolveReaction(reaction.id, true)}
+                    disabled={busy}
+                    className="px-3 py-1 bg-red-700 hover:bg-red-600 text-white rounded transition-colors disabled:opacity-50"
+                  >
+                    Attack
+                  </button>
+                  <button
+                    onClick={() => resolveReaction(reaction.id, false)}
+                    disabled={busy}
+                    className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors disabled:opacity-50"
+                  >
+                    Decline
+                  </button>
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <div className="text-red-500 text-sm">{error}</div>}
+
+      <div className="flex flex-wrap gap-3 text-xs text-gray-400">
+        {Object.entries(FEATURE_COLORS).map(([type, color]) => (
+          <span key={type} className="flex items-center">
+            <span className="inline-block w-3 h-3 mr-1 rounded-sm" style={{ backgroundColor: color }} />
+            {type.toLowerCase()}
+          </span>
+        ))}
+        <span>white outline: blocks movement · dashed: see-through · darker: more cover</span>
+      </div>
+    </div>
+  )
+}
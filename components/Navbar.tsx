@@ -1,6 +1,31 @@
+'use client'
+
+import { useEffect, useState } from 'react'
 import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+
+type CurrentUser = {
+  id: string
+  displayName: string
+}
 
 export default function Navbar() {
+  const router = useRouter()
+  const [user, setUser] = useState<CurrentUser | null>(null)
+
+  useEffect(() => {
+    fetch('/api/auth/me')
+      .then(response => (response.ok ? response.json() : null))
+      .then(setUser)
+      .catch(() => setUser(null))
+  }, [])
+
+  const handleLogout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' })
+    setUser(null)
+    router.push('/login')
+  }
+
   return (
     <nav className="bg-gray-900 border-b border-gray-800">
       <div className="container mx-auto px-4">
@@ -8,14 +33,25 @@ export default function Navbar() {
           <Link href="/" className="text-2xl font-bold text-white">
             AI RPG Manager
           </Link>
-          <div className="flex space-x-6">
+          <div className="flex items-center space-x-6">
             <Link href="/campaigns" className="text-gray-300 hover:text-white transition-colors">
               Campaigns
             </Link>
+            {user ? (
+              <>
+                <span className="text-gray-400 text-sm">{user.displayName}</span>
+                <button onClick={handleLogout} className="text-gray-300 hover:text-white transition-colors">
+                  Sign Out
+                </button>
+              </>
+            ) : (
+              <Link href="/login" className="text-gray-300 hover:text-white transition-colors">
+                Sign In
+              </Link>
+            )}
           </div>
         </div>
       </div>
     </nav>
   )
 }
-
@@ -0,0 +1,196 @@
+/**
+ * Area-of-effect templates (5e rules)
+ * - Sphere: `size` is the radius around the point of origin
+ * - Cylinder: `size` is the radius of a circle centred on the origin, extending
+ *   `height` upwards
+ * - Cone: `size` is the length; the cone is as wide as it is long at its end
+ * - Line: `size` is the length, `width` wide (5ft by default)
+ * - Cube: `size` is the side; the origin lies on the centre of the face the cube
+ *   extends away from, or at its centre when it is not aimed
+ * Cones, lines and aimed cubes point from the origin towards `towards` and do
+ * not include their point of origin (a caster is not caught in their own cone).
+ * Blocking (walls, total cover) depends on the location and is decided by the caller.
+ */
+
+import { Position3D } from '@/types'
+
+export type AreaShape = 'SPHERE' | 'CUBE' | 'CONE' | 'LINE' | 'CYLINDER'
+
+export type AreaTemplate = {
+  shape: AreaShape
+  origin: Position3D
+  size: number
+  towards?: Position3D // Required for cones and lines
+  width?: number // Lines only
+  height?: number // Cylinders only; defaults to the radius
+}
+
+export type Box = {
+  minX: number
+  maxX: number
+  minY: number
+  maxY: number
+  minZ: number
+  maxZ: number
+}
+
+export const DEFAULT_LINE_WIDTH = 1.524 // 5ft
+
+const EPSILON = 1e-9
+
+/**
+ * Throws when the template cannot be resolved: non-positive sizes, or an aimed
+ * shape without a direction
+ */
+export function validateArea(area: AreaTemplate): void {
+  if (area.size <= 0 || (area.width ?? 1) <= 0 || (area.height ?? 1) <= 0) {
+    throw new Error('Area size must be positive')
+  }
+  if (area.shape === 'CONE' || area.shape === 'LINE' || (area.shape === 'CUBE' && area.towards)) {
+    aimOf(area.shape === 'CUBE' ? flatten(area) : area)
+  }
+}
+
+/**
+ * Whether a point lies inside the area
+ */
+export function isInArea(point: Position3D, area: AreaTemplate): boolean {
+  const offset = subtract(point, area.origin)
+
+  switch (area.shape) {
+    case 'SPHERE':
+      return length(offset) <= area.size + EPSILON
+
+    case 'CYLINDER': {
+      const height = area.height ?? area.size
+      return (
+        Math.hypot(offset.x, offset.y) <= area.size + EPSILON &&
+        offset.z >= -EPSILON &&
+        offset.z <= height + EPSILON
+      )
+    }
+
+    case 'CONE': {
+      const axis = aimOf(area)
+      const along = dot(offset, axis)
+      if (along <= EPSILON || along > area.size + EPSILON) return false
+      // Width equals distance from the origin, so the radius is half of it
+      return length(subtract(offset, scale(axis, along))) <= along / 2 + EPSILON
+    }
+
+    case 'LINE': {
+      const axis = aimOf(area)
+      const along = dot(offset, axis)
+      if (along <= EPSILON || along > area.size + EPSILON) return false
+      const halfWidth = (area.width ?? DEFAULT_LINE_WIDTH) / 2
+      return length(subtract(offset, scale(axis, along))) <= halfWidth + EPSILON
+    }
+
+    case 'CUBE': {
+      const half = area.size / 2
+      if (!area.towards) {
+        return (
+          Math.abs(offset.x) <= half + EPSILON &&
+          Math.abs(offset.y) <= half + EPSILON &&
+          Math.abs(offset.z) <= half + EPSILON
+        )
+      }
+      // Aimed cubes turn around the vertical axis only
+      const axis = aimOf(flatten(area))
+      const along = dot(offset, axis)
+      const across = axis.x * offset.y - axis.y * offset.x
+      return (
+        along > EPSILON &&
+        along <= area.size + EPSILON &&
+        Math.abs(across) <= half + EPSILON &&
+        Math.abs(offset.z) <= half + EPSILON
+      )
+    }
+  }
+}
+
+/**
+ * Whether any part of a box lies inside the area; samples the box's centre,
+ * corners and the point closest to the origin
+ */
+export function isBoxInArea(box: Box, area: AreaTemplate): boolean {
+  const closest = {
+    x: clamp(area.origin.x, box.minX, box.maxX),
+    y: clamp(area.origin.y, box.minY, box.maxY),
+    z: clamp(area.origin.z, box.minZ, box.maxZ),
+  }
+  const samples: Position3D[] = [
+    closest,
+    { x: (box.minX + box.maxX) / 2, y: (box.minY + box.maxY) / 2, z: (box.minZ + box.maxZ) / 2 },
+  ]
+  for (const x of [box.minX, box.maxX]) {
+    for (const y of [box.minY, box.maxY]) {
+      for (const z of [box.minZ, box.maxZ]) {
+        samples.push({ x, y, z })
+      }
+    }
+  }
+
+  return samples.some((sample) => isInArea(sample, area))
+}
+
+/**
+ * Short description for logs and prompts, e.g. "6m radius sphere" or "4.5m cone"
+ */
+export function describeArea(area: AreaTemplate, unit: string = 'm'): string {
+  const size = `${Math.round(area.size * 10) / 10}${unit}`
+  switch (area.shape) {
+    case 'SPHERE':
+      return `${size} radius sphere`
+    case 'CYLINDER':
+      return `${size} radius cylinder`
+    case 'LINE':
+      return `${size} line`
+    default:
+      return `${size} ${area.shape.toLowerCase()}`
+  }
+}
+
+/**
+ * Unit vector the area points along
+ */
+function aimOf(area: AreaTemplate): Position3D {
+  if (!area.towards) {
+    throw new Error(`A ${area.shape.toLowerCase()} needs a direction`)
+  }
+
+  const direction = subtract(area.towards, area.origin)
+  const size = length(direction)
+  if (size < EPSILON) {
+    throw new Error(`A ${area.shape.toLowerCase()} needs a direction`)
+  }
+
+  return scale(direction, 1 / size)
+}
+
+/**
+ * The area aimed level with its origin
+ */
+function flatten(area: AreaTemplate): AreaTemplate {
+  return area.towards ? { ...area, towards: { ...area.towards, z: area.origin.z } } : area
+}
+
+function subtract(a: Position3D, b: Position3D): Position3D {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z }
+}
+
+function scale(v: Position3D, factor: number): Position3D {
+  return { x: v.x * factor, y: v.y * factor, z: v.z * factor }
+}
+
+function dot(a: Position3D, b: Position3D): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z
+}
+
+function length(v: Position3D): number {
+  return Math.sqrt(dot(v, v))
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
@@ -0,0 +1,74 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto'
+import { NextRequest, NextResponse } from 'next/server'
+
+export const AUTH_COOKIE = 'rpg_session'
+
+const SESSION_TTL_MS = parseInt(process.env.AUTH_SESSION_TTL_MS || '2592000000', 10) // 30 days default
+const SCRYPT_KEY_LENGTH = 64
+
+function scryptAsync(password: string, salt: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)))
+  })
+}
+
+/**
+ * Hash a password for storage as "salt:hash" (hex)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex')
+  const key = await scryptAsync(password, salt)
+  return `${salt}:${key.toString('hex')}`
+}
+
+/**
+ * Check a password against a stored "salt:hash" in constant time
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(':')
+  if (!salt || !hash) return false
+
+  const expected = Buffer.from(hash, 'hex')
+  const actual = await scryptAsync(password, salt)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+/**
+ * Random login token handed to the browser; only its hash is stored
+ */
+export function generateSessionToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+export function hashSessionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export function sessionExpiry(now: Date = new Date()): Date {
+  return new Date(now.getTime() + SESSION_TTL_MS)
+}
+
+/**
+ * Read the login token from the session cookie or an "Authorization: Bearer" header
+ */
+export function getRequestToken(request: NextRequest): string | undefined {
+  const header = request.headers.get('authorization')
+  if (header?.toLowerCase().startsWith('bearer ')) {
+    return header.slice(7).trim() || undefined
+  }
+  return request.cookies.get(AUTH_COOKIE)?.value
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date) {
+  response.cookies.set(AUTH_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  })
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(AUTH_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 })
+}
@@ -0,0 +1,306 @@
+/**
+ * Dice expression parser and roller
+ * Supports standard notation used at the table:
+ * - 1d20+5, 2d6-1, d%
+ * - keep/drop: 4d6kh3, 2d20kl1, 4d6dl1, 5d10dh2 (k is shorthand for kh)
+ * - exploding dice: 3d6!
+ * - advantage/disadvantage: "1d20+3 adv", "1d20 dis"
+ * Rolls are driven by a seeded RNG so every result can be replayed.
+ */
+
+const MAX_DICE_PER_TERM = 100
+const MAX_SIDES = 1000
+const MAX_EXPLOSIONS_PER_TERM = 100
+const MAX_TERMS = 20
+const MAX_CONSTANT = 10000
+
+export type RollMode = 'normal' | 'advantage' | 'disadvantage'
+
+export type DieResult = {
+  value: number
+  kept: boolean
+  exploded: boolean // Rolled max and triggered an extra die
+}
+
+export type DiceTermSpec = {
+  type: 'dice'
+  sign: 1 | -1
+  count: number
+  sides: number
+  explode: boolean
+  keep?: { mode: 'highest' | 'lowest'; count: number }
+}
+
+export type ConstantTermSpec = {
+  type: 'constant'
+  sign: 1 | -1
+  value: number
+}
+
+export type ParsedDiceExpression = {
+  expression: string // Normalized notation
+  mode: RollMode
+  terms: Array<DiceTermSpec | ConstantTermSpec>
+}
+
+export type RolledDiceTerm = DiceTermSpec & {
+  rolls: DieResult[]
+  subtotal: number // Signed
+}
+
+export type DiceRollResult = {
+  expression: string
+  mode: RollMode
+  seed: number
+  total: number
+  terms: Array<RolledDiceTerm | ConstantTermSpec>
+  breakdown: string // e.g. "4d6kh3 [6, 5, 3, (1)] + 2 = 16"
+}
+
+const TERM_PATTERN = /([+-])?(?:(\d*)d(\d+|%)(!)?(?:(kh|kl|dh|dl|k)(\d*))?|(\d+))/y
+const MODE_PATTERN = /\s+(adv|advantage|dis|disadvantage)\s*$/i
+
+/**
+ * Parse a dice expression into terms
+ * Throws "Invalid dice expression: ..." errors for malformed input
+ */
+export function parseDiceExpression(input: string): ParsedDiceExpression {
+  let source = input.trim().toLowerCase()
+  let mode: RollMode = 'normal'
+
+  const modeMatch = MODE_PATTERN.exec(source)
+  if (modeMatch) {
+    mode = modeMatch[1].startsWith('adv') ? 'advantage' : 'disadvantage'
+    source = source.slice(0, modeMatch.index)
+  }
+
+  // Whitespace is only allowed around operators ("1d20 5" is not "1d205")
+  const gap = /[^\s+-]\s+(?=[^\s+-])/.exec(source)
+  if (gap) {
+    throw new Error(`Invalid dice expression: unexpected "${source.slice(gap.index + 1).trim()}"`)
+  }
+
+  source = source.replace(/\s+/g, '')
+  if (!source) {
+    throw new Error('Invalid dice expression: expression is empty')
+  }
+
+  const terms: Array<DiceTermSpec | ConstantTermSpec> = []
+  TERM_PATTERN.lastIndex = 0
+
+  while (TERM_PATTERN.lastIndex < source.length) {
+    const position = TERM_PATTERN.lastIndex
+    const match = TERM_PATTERN.exec(source)
+
+    if (!match || (terms.length > 0 && !match[1])) {
+      throw new Error(`Invalid dice expression: unexpected "${source.slice(position)}"`)
+    }
+
+    const sign = match[1] === '-' ? -1 : 1
+
+    if (match[7] !== undefined) {
+      const value = parseInt(match[7], 10)
+      if (value > MAX_CONSTANT) {
+        throw new Error(`Invalid dice expression: constants must be at most ${MAX_CONSTANT}`)
+      }
+      terms.push({ type: 'constant', sign, value })
+    } else {
+      terms.push(buildDiceTerm(sign, match))
+    }
+
+    if (terms.length > MAX_TERMS) {
+      throw new Error(`Invalid dice expression: more than ${MAX_TERMS} terms`)
+    }
+  }
+
+  if (mode !== 'normal') {
+    applyRollMode(terms, mode)
+  }
+
+  return {
+    expression: formatExpression(terms),
+    mode,
+    terms,
+  }
+}
+
+function buildDiceTerm(sign: 1 | -1, match: RegExpExecArray): DiceTermSpec {
+  const count = match[2] ? parseInt(match[2], 10) : 1
+  const sides = match[3] === '%' ? 100 : parseInt(match[3], 10)
+  const explode = match[4] === '!'
+
+  if (count < 1 || count > MAX_DICE_PER_TERM) {
+    throw new Error(`Invalid dice expression: dice count must be between 1 and ${MAX_DICE_PER_TERM}`)
+  }
+  if (sides < 1 || sides > MAX_SIDES) {
+    throw new Error(`Invalid dice expression: dice sides must be between 1 and ${MAX_SIDES}`)
+  }
+  if (explode && sides < 2) {
+    throw new Error('Invalid dice expression: exploding dice need at least 2 sides')
+  }
+
+  const term: DiceTermSpec = { type: 'dice', sign, count, sides, explode }
+
+  if (match[5]) {
+    const amount = match[6] ? parseInt(match[6], 10) : 1
+    if (amount < 1 || amount > count) {
+      throw new Error(`Invalid dice expression: cannot keep/drop ${amount} of ${count} dice`)
+    }
+
+    switch (match[5]) {
+      case 'k':
+      case 'kh':
+        term.keep = { mode: 'highest', count: amount }
+        break
+      case 'kl':
+        term.keep = { mode: 'lowest', count: amount }
+        break
+      case 'dl':
+        term.keep = { mode: 'highest', count: count - amount }
+        break
+      case 'dh':
+        term.keep = { mode: 'lowest', count: count - amount }
+        break
+    }
+  }
+
+  return term
+}
+
+/**
+ * Turn the first single d20 into 2d20 keep highest/lowest
+ */
+function applyRollMode(terms: Array<DiceTermSpec | ConstantTermSpec>, mode: RollMode): void {
+  const d20 = terms.find(
+    (t): t is DiceTermSpec => t.type === 'dice' && t.sides === 20 && t.count === 1 && !t.keep
+  )
+  if (!d20) {
+    throw new Error('Invalid dice expression: advantage/disadvantage needs a single d20')
+  }
+
+  d20.count = 2
+  d20.keep = { mode: mode === 'advantage' ? 'highest' : 'lowest', count: 1 }
+}
+
+function formatTerm(term: DiceTermSpec | ConstantTermSpec): string {
+  if (term.type === 'constant') {
+    return String(term.value)
+  }
+
+  let notation = `${term.count}d${term.sides}`
+  if (term.explode) notation += '!'
+  if (term.keep && term.keep.count !== term.count) {
+    notation += `${term.keep.mode === 'highest' ? 'kh' : 'kl'}${term.keep.count}`
+  }
+  return notation
+}
+
+function formatExpression(terms: Array<DiceTermSpec | ConstantTermSpec>): string {
+  return terms
+    .map((term, index) => {
+      const notation = formatTerm(term)
+      if (index === 0) return term.sign < 0 ? `-${notation}` : notation
+      return `${term.sign < 0 ? '-' : '+'}${notation}`
+    })
+    .join('')
+}
+
+/**
+ * Mulberry32 - small, fast, seedable PRNG returning floats in [0, 1)
+ */
+export function createSeededRng(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Generate a seed that fits a 32-bit signed integer column
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x7fffffff)
+}
+
+/**
+ * Parse and roll a dice expression
+ */
+export function rollDice(
+  input: string | ParsedDiceExpression,
+  options: { seed?: number } = {}
+): DiceRollResult {
+  const parsed = typeof input === 'string' ? parseDiceExpression(input) : input
+  const seed = options.seed ?? generateSeed()
+  const rng = createSeededRng(seed)
+  const rollDie = (sides: number) => Math.floor(rng() * sides) + 1
+
+  const terms = parsed.terms.map((term) => {
+    if (term.type === 'constant') return term
+
+    const rolls: DieResult[] = []
+    let explosions = 0
+
+    for (let i = 0; i < term.count; i++) {
+      let value = rollDie(term.sides)
+      rolls.push({ value, kept: true, exploded: false })
+
+      while (term.explode && value === term.sides && explosions < MAX_EXPLOSIONS_PER_TERM) {
+        rolls[rolls.length - 1].exploded = true
+        value = rollDie(term.sides)
+        rolls.push({ value, kept: true, exploded: false })
+        explosions++
+      }
+    }
+
+    const keep = term.keep
+    if (keep) {
+      const order = rolls
+        .map((roll, index) => ({ value: roll.value, index }))
+        .sort((a, b) => (keep.mode === 'highest' ? b.value - a.value : a.value - b.value))
+      order.slice(keep.count).forEach(({ index }) => {
+        rolls[index].kept = false
+      })
+    }
+
+    const sum = rolls.filter((r) => r.kept).reduce((acc, r) => acc + r.value, 0)
+
+    return { ...term, rolls, subtotal: sum * term.sign }
+  })
+
+  const total = terms.reduce(
+    (acc, term) => acc + (term.type === 'constant' ? term.value * term.sign : term.subtotal),
+    0
+  )
+
+  return {
+    expression: parsed.expression,
+    mode: parsed.mode,
+    seed,
+    total,
+    terms,
+    breakdown: `${formatBreakdown(terms)} = ${total}`,
+  }
+}
+
+function formatBreakdown(terms: Array<RolledDiceTerm | ConstantTermSpec>): string {
+  return terms
+    .map((term, index) => {
+      const prefix = index === 0 ? (term.sign < 0 ? '-' : '') : term.sign < 0 ? ' - ' : ' + '
+      if (term.type === 'constant') {
+        return `${prefix}${term.value}`
+      }
+
+      const dice = term.rolls
+        .map((roll) => {
+          const value = `${roll.value}${roll.exploded ? '!' : ''}`
+          return roll.kept ? value : `(${value})`
+        })
+        .join(', ')
+      return `${prefix}${formatTerm(term)} [${dice}]`
+    })
+    .join('')
+}
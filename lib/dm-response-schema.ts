@@ -0,0 +1,96 @@
+import { z } from 'zod'
+
+/**
+ * Contract for the structured (JSON mode) Dungeon Master reply.
+ * Extend DMResponseSchema when the model should return new fields.
+ */
+
+const PositionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  z: z.number(),
+})
+
+export const DMActionTypeSchema = z.enum([
+  'MELEE',
+  'RANGED',
+  'SPELL',
+  'CONVERSATION',
+  'PERCEPTION',
+  'CUSTOM',
+  'MOVEMENT',
+])
+
+export const DMMovementSchema = z
+  .object({
+    detected: z.boolean(),
+    characterName: z.string().optional(),
+    targetName: z.string().optional(),
+    targetPosition: PositionSchema.optional(),
+    actionType: DMActionTypeSchema.optional(),
+    reason: z.string().optional(),
+  })
+  .refine((movement) => !movement.detected || movement.targetPosition !== undefined, {
+    message: 'targetPosition is required when movement is detected',
+    path: ['targetPosition'],
+  })
+
+export const DMResponseSchema = z.object({
+  narrative: z.string().min(1, 'narrative must not be empty'),
+  movement: DMMovementSchema.default({ detected: false }),
+})
+
+export type DMResponse = z.infer<typeof DMResponseSchema>
+export type DMMovement = z.infer<typeof DMMovementSchema>
+
+export type DMResponseParseResult =
+  | { success: true; data: DMResponse }
+  | { success: false; error: string; partial?: unknown }
+
+/**
+ * Parse and validate raw model output against the DM reply contract
+ */
+export function parseDMResponse(content: string): DMResponseParseResult {
+  let json: unknown
+  try {
+    json = JSON.parse(content)
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'unknown error'
+    return { success: false, error: `Invalid JSON: ${reason}` }
+  }
+
+  const result = DMResponseSchema.safeParse(json)
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ')
+    return { success: false, error: `Schema validation failed: ${issues}`, partial: json }
+  }
+
+  return { success: true, data: result.data }
+}
+
+/**
+ * Best-effort narrative for output that failed validation
+ */
+export function fallbackNarrative(content: string, partial?: unknown): string {
+  if (
+    partial &&
+    typeof partial === 'object' &&
+    'narrative' in partial &&
+    typeof partial.narrative === 'string' &&
+    partial.narrative.trim()
+  ) {
+    return partial.narrative
+  }
+  return content
+}
+
+/**
+ * Compact description of the expected JSON shape, used in repair prompts
+ */
+export const DM_RESPONSE_FORMAT_HINT =
+  '{"narrative": string, "movement": {"detected": boolean, "characterName"?: string, ' +
+  '"targetName"?: string, "targetPosition"?: {"x": number, "y": number, "z": number}, ' +
+  '"actionType"?: "MELEE"|"RANGED"|"SPELL"|"CONVERSATION"|"PERCEPTION"|"CUSTOM"|"MOVEMENT", ' +
+  '"reason"?: string}}'
@@ -0,0 +1,105 @@
+/**
+ * Doors, chests and other features with a state (5e rules)
+ * A door's state decides what it blocks: closed and locked doors stop movement
+ * and sight and give full cover, open and broken ones block nothing. Other
+ * features keep their own blocking whatever their state. A lock opens with its
+ * key, or by picking it (DEX check) or forcing it (STR check, which breaks it)
+ * against the lock DC. Rolling the check is up to the caller.
+ */
+
+import { Ability, FeatureAction, FeatureState } from '@/types'
+
+type StatefulFeature = {
+  name: string
+  state: FeatureState | null
+  lockDc: number | null
+  keyItemId: string | null
+}
+
+export type FeatureBlocking = {
+  blocksMovement: boolean
+  blocksVision: boolean
+  providesCover: 'NONE' | 'FULL'
+}
+
+export type FeatureActionPlan = {
+  next: FeatureState // State once the action succeeds
+  check?: { ability: Ability; dc: number } // Roll needed first; failing leaves the state as it is
+}
+
+/**
+ * What a door blocks in a state; undefined for other features, whose blocking is set by hand
+ */
+export function blockingForState(type: string, state: FeatureState): FeatureBlocking | undefined {
+  if (type !== 'DOOR') {
+    return undefined
+  }
+
+  const shut = state === 'CLOSED' || state === 'LOCKED'
+  return { blocksMovement: shut, blocksVision: shut, providesCover: shut ? 'FULL' : 'NONE' }
+}
+
+/**
+ * State a new feature starts in: doors are closed when they block anything, other features have none
+ */
+export function defaultFeatureState(
+  type: string,
+  blocksMovement: boolean,
+  blocksVision: boolean
+): FeatureState | undefined {
+  if (type !== 'DOOR') {
+    return undefined
+  }
+  return blocksMovement || blocksVision ? 'CLOSED' : 'OPEN'
+}
+
+/**
+ * Whether a container's contents can be reached
+ */
+export function isReachable(state: FeatureState | null): boolean {
+  return state !== 'CLOSED' && state !== 'LOCKED'
+}
+
+/**
+ * Work out what a character's action does to a feature
+ * Throws "Cannot <action> <feature>: ..." when the action makes no sense in the current state
+ */
+export function planFeatureAction(
+  feature: StatefulFeature,
+  action: Exclude<FeatureAction, 'use'>,
+  hasKey: boolean
+): FeatureActionPlan {
+  const { name, state } = feature
+  const refuse = (reason: string) => new Error(`Cannot ${action} ${name}: ${reason}`)
+
+  if (!state) {
+    throw refuse('it does not open or close')
+  }
+  if (state === 'BROKEN' && action !== 'open') {
+    throw refuse('it is broken')
+  }
+
+  switch (action) {
+    case 'open':
+      if (state === 'LOCKED') throw refuse('it is locked')
+      if (state !== 'CLOSED') throw refuse('it is already open')
+      return { next: 'OPEN' }
+    case 'close':
+      if (state !== 'OPEN') throw refuse('it is already closed')
+      return { next: 'CLOSED' }
+    case 'lock':
+      if (state === 'LOCKED') throw refuse('it is already locked')
+      if (state === 'OPEN') throw refuse('close it first')
+      if (!feature.keyItemId || !hasKey) throw refuse('it only locks with its key')
+      return { next: 'LOCKED' }
+    case 'unlock':
+      if (state !== 'LOCKED') throw refuse('it is not locked')
+      if (hasKey) return { next: 'CLOSED' }
+      if (feature.lockDc === null) throw refuse('the lock cannot be picked')
+      return { next: 'CLOSED', check: { ability: 'DEX', dc: feature.lockDc } }
+    case 'force':
+      if (state !== 'LOCKED') throw refuse('it is not locked')
+      if (feature.lockDc === null) throw refuse('it cannot be forced')
+      return { next: 'BROKEN', check: { ability: 'STR', dc: feature.lockDc } }
+  }
+}
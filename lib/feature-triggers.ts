@@ -0,0 +1,198 @@
+/**
+ * Feature triggers: traps, hazards and magical glyphs (5e rules)
+ * A trigger goes off when a move crosses into its feature (ENTER), comes within
+ * its radius (PROXIMITY), or when a character interacts with the feature.
+ * A character whose passive Perception meets the detection DC spots it in time
+ * and does not set it off. Rolling and applying the effect is up to the caller.
+ */
+
+import { BoundingBox } from '@/lib/spatial-index'
+import { Ability, Position3D, TriggerOutcome } from '@/types'
+
+// Absorb float rounding from distance math
+const TRIGGER_TOLERANCE = 0.01
+
+// Samples taken along a path per width of the watched area
+const SAMPLES_PER_AREA = 4
+
+const ABILITY_NAMES: Record<Ability, string> = {
+  STR: 'strength',
+  DEX: 'dexterity',
+  CON: 'constitution',
+  INT: 'intelligence',
+  WIS: 'wisdom',
+  CHA: 'charisma',
+}
+
+type TriggerFeature = {
+  x: number
+  y: number
+  z: number
+  width: number | null
+  height: number | null
+  depth: number | null
+}
+
+export type TriggerHit = {
+  point: Position3D // First point of the path that sets it off
+  travelled: number // Distance walked along the path to get there
+}
+
+export type ActivationDescription = {
+  characterName: string
+  featureName: string
+  outcome: TriggerOutcome
+  perception?: number
+  detectionDc?: number
+  saveAbility?: Ability
+  saveTotal?: number
+  saveDc?: number
+  damage?: number
+  damageType?: string
+  condition?: string
+  teleportedTo?: string // Name of the location the character was sent to
+  events?: string[] // Vitals changes, e.g. "Aria drops to 0 HP"
+}
+
+/**
+ * Area a trigger watches: the feature's footprint
+ * Unsized width and depth count as one cell; a feature without height is a plate on its floor
+ */
+export function triggerArea(feature: TriggerFeature, cellSize: number): BoundingBox {
+  return {
+    minX: feature.x,
+    maxX: feature.x + (feature.width || cellSize),
+    minY: feature.y,
+    maxY: feature.y + (feature.depth || cellSize),
+    minZ: feature.z,
+    maxZ: feature.z + (feature.height || 0),
+  }
+}
+
+/**
+ * Shortest distance from a point to a box (0 inside it)
+ */
+export function distanceToBox(point: Position3D, box: BoundingBox): number {
+  const dx = Math.max(box.minX - point.x, 0, point.x - box.maxX)
+  const dy = Math.max(box.minY - point.y, 0, point.y - box.maxY)
+  const dz = Math.max(box.minZ - point.z, 0, point.z - box.maxZ)
+  return Math.sqrt(dx * dx + dy * dy + dz * dz)
+}
+
+/**
+ * Where a path first comes within `range` of an area (0 = steps into it),
+ * or null when it never does or already starts there: standing on a plate
+ * does not set it off again
+ */
+export function findTriggerPoint(
+  path: Position3D[],
+  area: BoundingBox,
+  range: number
+): TriggerHit | null {
+  const inRange = (point: Position3D) => distanceToBox(point, area) <= range + TRIGGER_TOLERANCE
+  if (path.length < 2 || inRange(path[0])) {
+    return null
+  }
+
+  const spacing =
+    Math.max(TRIGGER_TOLERANCE, Math.min(area.maxX - area.minX, area.maxY - area.minY) + 2 * range) /
+    SAMPLES_PER_AREA
+  let travelled = 0
+
+  for (let i = 1; i < path.length; i++) {
+    const from = path[i - 1]
+    const to = path[i]
+    const length = Math.sqrt((to.x - from.x) ** 2 + (to.y - from.y) ** 2 + (to.z - from.z) ** 2)
+    const steps = Math.max(1, Math.ceil(length / spacing))
+
+    for (let step = 1; step <= steps; step++) {
+      const t = step / steps
+      const point = {
+        x: from.x + (to.x - from.x) * t,
+        y: from.y + (to.y - from.y) * t,
+        z: from.z + (to.z - from.z) * t,
+      }
+
+      if (inRange(point)) {
+        return { point, travelled: travelled + length * t }
+      }
+    }
+    travelled += length
+  }
+
+  return null
+}
+
+/**
+ * Ability modifier from a character's stored scores ("dexterity", "DEX" or "dex")
+ */
+export function abilityModifier(stats: unknown, ability: Ability): number {
+  if (stats && typeof stats === 'object') {
+    const record = stats as Record<string, unknown>
+    const score = record[ABILITY_NAMES[ability]] ?? record[ability] ?? record[ability.toLowerCase()]
+    if (typeof score === 'number') {
+      return Math.floor((score - 10) / 2)
+    }
+  }
+  return 0
+}
+
+/**
+ * Passive Perception; characters carry no skill proficiencies, so 10 + WIS modifier
+ */
+export function passivePerception(stats: unknown): number {
+  return 10 + abilityModifier(stats, 'WIS')
+}
+
+/**
+ * Dice expression for a saving throw, e.g. "1d20+3"
+ */
+export function savingThrowExpression(modifier: number): string {
+  if (modifier === 0) return '1d20'
+  return modifier > 0 ? `1d20+${modifier}` : `1d20${modifier}`
+}
+
+/**
+ * Damage taken after a saving throw: halved (rounded down) or avoided on a success
+ */
+export function damageAfterSave(rolled: number, saved: boolean, halfOnSave: boolean): number {
+  if (!saved) return rolled
+  return halfOnSave ? Math.floor(rolled / 2) : 0
+}
+
+/**
+ * One-line account of a trigger for the DM to narrate
+ * e.g. "Aria sets off Pressure plate and fails a DEX save (9 vs DC 13); takes 7 fire damage"
+ */
+export function describeActivation(activation: ActivationDescription): string {
+  const { characterName, featureName, outcome } = activation
+
+  if (outcome === 'DETECTED') {
+    return (
+      `${characterName} spots ${featureName} ` +
+      `(passive Perception ${activation.perception} vs DC ${activation.detectionDc}) ` +
+      `and avoids setting it off`
+    )
+  }
+
+  let summary = `${characterName} sets off ${featureName}`
+  if (outcome === 'SAVED' || outcome === 'FAILED') {
+    summary +=
+      ` and ${outcome === 'SAVED' ? 'makes' : 'fails'} a ${activation.saveAbility} save ` +
+      `(${activation.saveTotal} vs DC ${activation.saveDc})`
+  }
+
+  const effects: string[] = []
+  if (activation.damage !== undefined) {
+    const damageType = activation.damageType ? ` ${activation.damageType}` : ''
+    effects.push(`takes ${activation.damage}${damageType} damage`)
+  }
+  if (activation.condition) {
+    effects.push(`is ${activation.condition}`)
+  }
+  if (activation.teleportedTo) {
+    effects.push(`is teleported to ${activation.teleportedTo}`)
+  }
+
+  return [summary, ...effects, ...(activation.events || [])].join('; ')
+}
@@ -0,0 +1,179 @@
+/**
+ * Map grids for locations
+ * - NONE: continuous positions, straight-line distance
+ * - SQUARE: square cells (5ft by default) with a 5e diagonal rule
+ * - HEX: pointy-top hexes; every step to a neighbouring hex costs one cell
+ * Cells are anchored at the location's minX/minY corner. Distances are returned
+ * in location units (cells x cell size).
+ */
+
+import { Position3D } from '@/types'
+
+export type GridType = 'NONE' | 'SQUARE' | 'HEX'
+
+// UNIFORM: 5-5-5 (diagonals cost one square)
+// ALTERNATING: 5-10-5 (every second diagonal costs two squares)
+// EUCLIDEAN: true length measured in squares
+export type DiagonalRule = 'UNIFORM' | 'ALTERNATING' | 'EUCLIDEAN'
+
+export type GridSettings = {
+  gridType: GridType
+  gridSize: number // Cell width in location units
+  diagonalRule: DiagonalRule
+  originX: number
+  originY: number
+}
+
+const SQRT3 = Math.sqrt(3)
+
+/**
+ * Read the grid settings stored on a location
+ */
+export function gridFromLocation(location: {
+  gridType: GridType
+  gridSize: number
+  diagonalRule: DiagonalRule
+  minX: number
+  minY: number
+}): GridSettings {
+  return {
+    gridType: location.gridType,
+    gridSize: location.gridSize,
+    diagonalRule: location.diagonalRule,
+    originX: location.minX,
+    originY: location.minY,
+  }
+}
+
+/**
+ * Distance between two positions under the grid's movement rules
+ * Height differences count as another axis, using the same diagonal rule
+ */
+export function gridDistance(a: Position3D, b: Position3D, grid: GridSettings): number {
+  if (grid.gridType === 'NONE') {
+    return Math.sqrt((b.x - a.x) ** 2 + (b.y - a.y) ** 2 + (b.z - a.z) ** 2)
+  }
+
+  let horizontal: number
+  if (grid.gridType === 'HEX') {
+    const from = hexAt(a, grid)
+    const to = hexAt(b, grid)
+    const dq = to.q - from.q
+    const dr = to.r - from.r
+    horizontal = (Math.abs(dq) + Math.abs(dr) + Math.abs(dq + dr)) / 2
+  } else {
+    const from = squareAt(a, grid)
+    const to = squareAt(b, grid)
+    horizontal = combineAxes(Math.abs(to.col - from.col), Math.abs(to.row - from.row), grid.diagonalRule)
+  }
+
+  const vertical = Math.abs(b.z - a.z) / grid.gridSize
+  return combineAxes(horizontal, vertical, grid.diagonalRule) * grid.gridSize
+}
+
+/**
+ * Total distance along a route of waypoints
+ */
+export function measurePath(waypoints: Position3D[], grid: GridSettings): number {
+  let distance = 0
+  for (let i = 1; i < waypoints.length; i++) {
+    distance += gridDistance(waypoints[i - 1], waypoints[i], grid)
+  }
+  return distance
+}
+
+/**
+ * Move a position to the centre of the cell it falls in (height is kept)
+ */
+export function snapToGrid(position: Position3D, grid: GridSettings): Position3D {
+  if (grid.gridType === 'SQUARE') {
+    const { col, row } = squareAt(position, grid)
+    return {
+      x: grid.originX + (col + 0.5) * grid.gridSize,
+      y: grid.originY + (row + 0.5) * grid.gridSize,
+      z: position.z,
+    }
+  }
+
+  if (grid.gridType === 'HEX') {
+    const { q, r } = hexAt(position, grid)
+    return {
+      x: grid.originX + grid.gridSize * (q + r / 2),
+      y: grid.originY + grid.gridSize * (SQRT3 / 2) * r,
+      z: position.z,
+    }
+  }
+
+  return position
+}
+
+/**
+ * Short description of the grid for prompts and UIs, e.g. "square grid, 1.5m cells, 5-10-5 diagonals"
+ */
+export function describeGrid(grid: GridSettings, unit: string = 'm'): string | undefined {
+  if (grid.gridType === 'NONE') return undefined
+
+  const cells = `${Math.round(grid.gridSize * 100) / 100}${unit} cells`
+  if (grid.gridType === 'HEX') {
+    return `hex grid, ${cells}`
+  }
+
+  const diagonals = {
+    UNIFORM: '5-5-5 diagonals',
+    ALTERNATING: '5-10-5 diagonals',
+    EUCLIDEAN: 'euclidean diagonals',
+  }[grid.diagonalRule]
+  return `square grid, ${cells}, ${diagonals}`
+}
+
+/**
+ * Cost of moving `a` cells along one axis and `b` along another
+ */
+function combineAxes(a: number, b: number, rule: DiagonalRule): number {
+  const straight = Math.max(a, b)
+  const diagonal = Math.min(a, b)
+
+  switch (rule) {
+    case 'UNIFORM':
+      return straight
+    case 'ALTERNATING':
+      return straight + Math.floor(diagonal / 2)
+    case 'EUCLIDEAN':
+      return Math.sqrt(a * a + b * b)
+  }
+}
+
+function squareAt(position: Position3D, grid: GridSettings) {
+  return {
+    col: Math.floor((position.x - grid.originX) / grid.gridSize),
+    row: Math.floor((position.y - grid.originY) / grid.gridSize),
+  }
+}
+
+/**
+ * Axial coordinates of the hex containing a position (pointy-top, centre spacing = gridSize)
+ */
+function hexAt(position: Position3D, grid: GridSettings) {
+  const r = (position.y - grid.originY) / (grid.gridSize * (SQRT3 / 2))
+  const q = (position.x - grid.originX) / grid.gridSize - r / 2
+  return roundHex(q, r)
+}
+
+function roundHex(q: number, r: number) {
+  const s = -q - r
+  let rq = Math.round(q)
+  let rr = Math.round(r)
+  const rs = Math.round(s)
+
+  const dq = Math.abs(rq - q)
+  const dr = Math.abs(rr - r)
+  const ds = Math.abs(rs - s)
+
+  if (dq > dr && dq > ds) {
+    rq = -rr - rs
+  } else if (dr > ds) {
+    rr = -rq - rs
+  }
+
+  return { q: rq, r: rr }
+}
@@ -0,0 +1,406 @@
+import OpenAI from 'openai'
+import { readFileSync } from 'fs'
+
+/**
+ * LLM provider abstraction
+ * Lets the DM services run against OpenAI, any OpenAI-compatible local server
+ * (llama.cpp, Ollama, LM Studio) or a scripted fixture provider for offline use
+ */
+
+export type LLMMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: LLMToolCall[] }
+  | { role: 'tool'; content: string; toolCallId: string }
+
+/**
+ * A function the model may call. `parameters` is a JSON Schema object.
+ */
+export type LLMToolDefinition = {
+  name: string
+  description: string
+  parameters: Record<string, unknown>
+}
+
+export type LLMToolCall = {
+  id: string
+  name: string
+  arguments: string // Raw JSON emitted by the model
+}
+
+export type LLMCompletionRequest = {
+  messages: LLMMessage[]
+  model?: string // Overrides the provider default (e.g. per-campaign model)
+  maxTokens?: number
+  temperature?: number
+  presencePenalty?: number
+  frequencyPenalty?: number
+  responseFormat?: 'text' | 'json'
+  tools?: LLMToolDefinition[] // Ignored by providers without tool support
+}
+
+export type LLMUsage = {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export type LLMCompletionResult = {
+  content: string
+  model: string
+  usage: LLMUsage
+  toolCalls?: LLMToolCall[] // Set when the model wants tool results before answering
+}
+
+/**
+ * A piece of a streamed completion. The final chunk carries the usage totals
+ * and any tool calls assembled from the stream.
+ */
+export type LLMStreamChunk = {
+  delta: string
+  usage?: LLMUsage
+  toolCalls?: LLMToolCall[]
+}
+
+export interface LLMProvider {
+  readonly name: string
+  readonly defaultModel: string
+  readonly supportsTools: boolean
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResult>
+  stream(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk>
+}
+
+export type LLMProviderName = 'openai' | 'local' | 'fixture'
+
+// ==================== OPENAI-COMPATIBLE PROVIDER ====================
+
+export interface OpenAICompatibleProviderOptions {
+  name?: string
+  apiKey: string
+  baseURL?: string
+  defaultModel: string
+  supportsJsonMode?: boolean // Some local servers reject response_format
+  supportsTools?: boolean // Not every local model supports function calling
+}
+
+/**
+ * Provider for the OpenAI API and any server exposing the same
+ * /v1/chat/completions contract
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string
+  readonly defaultModel: string
+  readonly supportsTools: boolean
+  private readonly client: OpenAI
+  private readonly supportsJsonMode: boolean
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    this.name = options.name || 'openai'
+    this.defaultModel = options.defaultModel
+    this.supportsJsonMode = options.supportsJsonMode ?? true
+    this.supportsTools = options.supportsTools ?? true
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+    })
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const model = request.model || this.defaultModel
+    const completion = await this.client.chat.completions.create({
+      ...this.buildParams(request, model),
+      stream: false,
+    })
+
+    const usage = completion.usage
+    const message = completion.choices[0]?.message
+    const toolCalls = (message?.tool_calls || []).flatMap((call) =>
+      call.type === 'function'
+        ? [{ id: call.id, name: call.function.name, arguments: call.function.arguments }]
+        : []
+    )
+
+    return {
+      content: message?.content || '',
+      model,
+      usage: {
+        promptTokens: usage?.prompt_tokens || 0,
+        completionTokens: usage?.completion_tokens || 0,
+        totalTokens: usage?.total_tokens || 0,
+      },
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+    }
+  }
+
+  async *stream(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk> {
+    const model = request.model || this.defaultModel
+    const stream = await this.client.chat.completions.create({
+      ...this.buildParams(request, model),
+      stream: true,
+      stream_options: { include_usage: true },
+    })
+
+    let content = ''
+    let usage: LLMUsage | undefined
+    // Tool calls arrive as fragments keyed by index
+    const toolCalls: LLMToolCall[] = []
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content || ''
+      if (delta) {
+        content += delta
+        yield { delta }
+      }
+      for (const fragment of chunk.choices[0]?.delta?.tool_calls || []) {
+        const call = (toolCalls[fragment.index] ??= { id: '', name: '', arguments: '' })
+        if (fragment.id) call.id = fragment.id
+        if (fragment.function?.name) call.name += fragment.function.name
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments
+      }
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens,
+        }
+      }
+    }
+
+    // Not every OpenAI-compatible server reports usage for streams
+    yield {
+      delta: '',
+      usage: usage || estimateUsage(request.messages, content),
+      ...(toolCalls.length > 0 ? { toolCalls: toolCalls.filter(Boolean) } : {}),
+    }
+  }
+
+  private buildParams(request: LLMCompletionRequest, model: string) {
+    const tools = this.supportsTools && request.tools?.length ? request.tools : undefined
+
+    return {
+      model,
+      messages: request.messages.map(toOpenAIMessage),
+      ...(tools
+        ? {
+            tools: tools.map((tool) => ({
+              type: 'function' as const,
+              function: tool,
+            })),
+          }
+        : {}),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      presence_penalty: request.presencePenalty,
+      frequency_penalty: request.frequencyPenalty,
+      ...(request.responseFormat === 'json' && this.supportsJsonMode
+        ? { response_format: { type: 'json_object' as const } }
+        : {}),
+    }
+  }
+}
+
+function toOpenAIMessage(message: LLMMessage): OpenAI.Chat.ChatCompletionMessageParam {
+  switch (message.role) {
+    case 'tool':
+      return { role: 'tool', content: message.content, tool_call_id: message.toolCallId }
+    case 'assistant':
+      return message.toolCalls?.length
+        ? {
+            role: 'assistant',
+            content: message.content || null,
+            tool_calls: message.toolCalls.map((call) => ({
+              id: call.id,
+              type: 'function' as const,
+              function: { name: call.name, arguments: call.arguments },
+            })),
+          }
+        : { role: 'assistant', content: message.content }
+    default:
+      return { role: message.role, content: message.content }
+  }
+}
+
+// ==================== FIXTURE PROVIDER ====================
+
+/**
+ * A canned response. `match` is a case-insensitive regex tested against the
+ * last user message; entries without `match` are replayed in order.
+ * Object responses are serialized to JSON so they can feed JSON-mode callers.
+ * Entries with `toolCalls` are skipped right after tool results, so a tool
+ * round is always followed by a plain answer.
+ */
+export type LLMFixture = {
+  match?: string
+  response?: string | Record<string, unknown>
+  toolCalls?: Array<{ name: string; arguments?: Record<string, unknown> }>
+}
+
+const DEFAULT_FIXTURES: LLMFixture[] = [
+  {
+    response: {
+      narrative:
+        'The world holds its breath for a moment, then answers your action. ' +
+        'Nothing dangerous stirs yet, but the scene is yours to explore.',
+      movement: { detected: false },
+    },
+  },
+]
+
+/**
+ * Deterministic provider that replays canned responses.
+ * Used for offline development and CI so no tokens are spent.
+ */
+export class FixtureLLMProvider implements LLMProvider {
+  readonly name = 'fixture'
+  readonly defaultModel = 'fixture'
+  readonly supportsTools = true
+  private readonly fixtures: LLMFixture[]
+  private cursor = 0
+  private toolCallCount = 0
+
+  constructor(fixtures: LLMFixture[] = DEFAULT_FIXTURES) {
+    if (fixtures.length === 0) {
+      throw new Error('Fixture provider requires at least one fixture')
+    }
+    this.fixtures = fixtures
+  }
+
+  /**
+   * Load fixtures from a JSON file containing an array of LLMFixture
+   */
+  static fromFile(path: string): FixtureLLMProvider {
+    const parsed = JSON.parse(readFileSync(path, 'utf-8'))
+    if (!Array.isArray(parsed)) {
+      throw new Error(`Fixture file ${path} must contain a JSON array`)
+    }
+    return new FixtureLLMProvider(parsed as LLMFixture[])
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const { content, toolCalls } = this.nextResponse(request)
+
+    return {
+      content,
+      model: request.model || this.defaultModel,
+      usage: estimateUsage(request.messages, content),
+      ...(toolCalls ? { toolCalls } : {}),
+    }
+  }
+
+  async *stream(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk> {
+    const { content, toolCalls } = this.nextResponse(request)
+    // Emit word-sized chunks so streaming consumers behave as in production
+    for (const delta of content.match(/\S+\s*|\s+/g) || []) {
+      yield { delta }
+    }
+    yield {
+      delta: '',
+      usage: estimateUsage(request.messages, content),
+      ...(toolCalls ? { toolCalls } : {}),
+    }
+  }
+
+  /**
+   * Reset the replay cursor (useful between tests)
+   */
+  reset(): void {
+    this.cursor = 0
+  }
+
+  private nextResponse(request: LLMCompletionRequest): {
+    content: string
+    toolCalls?: LLMToolCall[]
+  } {
+    const lastUserMessage =
+      [...request.messages].reverse().find((m) => m.role === 'user')?.content || ''
+    const afterToolResults = request.messages[request.messages.length - 1]?.role === 'tool'
+    const toolsAllowed = !afterToolResults && (request.tools?.length ?? 0) > 0
+
+    const candidates = this.fixtures.filter((f) => !f.toolCalls || toolsAllowed)
+    const pool = candidates.length > 0 ? candidates : this.fixtures
+
+    const matched = pool.find((f) => f.match && new RegExp(f.match, 'i').test(lastUserMessage))
+
+    let fixture = matched
+    if (!fixture) {
+      const sequential = pool.filter((f) => !f.match)
+      const replay = sequential.length > 0 ? sequential : pool
+      fixture = replay[this.cursor % replay.length]
+      this.cursor++
+    }
+
+    const content =
+      fixture.response === undefined
+        ? ''
+        : typeof fixture.response === 'string'
+          ? fixture.response
+          : JSON.stringify(fixture.response)
+
+    const toolCalls =
+      toolsAllowed && fixture.toolCalls
+        ? fixture.toolCalls.map((call) => ({
+            id: `fixture_call_${++this.toolCallCount}`,
+            name: call.name,
+            arguments: JSON.stringify(call.arguments || {}),
+          }))
+        : undefined
+
+    return { content, toolCalls }
+  }
+}
+
+/**
+ * Rough token usage estimate (~4 characters per token) for providers
+ * that do not report usage
+ */
+export function estimateUsage(messages: LLMMessage[], completion: string): LLMUsage {
+  const promptTokens = Math.ceil(messages.map((m) => m.content).join('\n').length / 4)
+  const completionTokens = Math.ceil(completion.length / 4)
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+  }
+}
+
+// ==================== FACTORY ====================
+
+/**
+ * Create the provider selected by environment variables:
+ * - LLM_PROVIDER: openai (default) | local | fixture
+ * - LLM_MODEL / OPENAI_MODEL: default model name
+ * - LLM_BASE_URL: base URL for the local OpenAI-compatible server
+ * - LLM_API_KEY: API key for the local server (most ignore it)
+ * - LLM_JSON_MODE: set to "false" if the local server rejects response_format
+ * - LLM_TOOLS: set to "false" if the model does not support tool calling
+ * - LLM_FIXTURE_PATH: JSON fixture file for the fixture provider
+ */
+export function createLLMProvider(
+  env: Record<string, string | undefined> = process.env
+): LLMProvider {
+  const providerName = (env.LLM_PROVIDER || 'openai') as LLMProviderName
+
+  switch (providerName) {
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        name: 'openai',
+        apiKey: env.OPENAI_API_KEY || '',
+        defaultModel: env.LLM_MODEL || env.OPENAI_MODEL || 'gpt-4o-mini',
+        supportsTools: env.LLM_TOOLS !== 'false',
+      })
+    case 'local':
+      return new OpenAICompatibleProvider({
+        name: 'local',
+        apiKey: env.LLM_API_KEY || 'local',
+        baseURL: env.LLM_BASE_URL || 'http://localhost:11434/v1',
+        defaultModel: env.LLM_MODEL || 'llama3.1',
+        supportsJsonMode: env.LLM_JSON_MODE !== 'false',
+        supportsTools: env.LLM_TOOLS !== 'false',
+      })
+    case 'fixture':
+      return env.LLM_FIXTURE_PATH
+        ? FixtureLLMProvider.fromFile(env.LLM_FIXTURE_PATH)
+        : new FixtureLLMProvider()
+    default:
+      throw new Error(`Unknown LLM provider: ${providerName}`)
+  }
+}
@@ -0,0 +1,669 @@
+/**
+ * Battle map files <-> locations
+ * - Universal VTT (.dd2vtt / .uvtt, exported by Dungeondraft, DungeonFog, ...):
+ *   coordinates in grid cells. Walls become wall features, portals doors and
+ *   lights light sources; the map image is not kept.
+ * - Tiled JSON: coordinates in pixels, one tile per grid cell. Every object of
+ *   an object layer becomes a feature; its class (or its layer's name) picks the
+ *   feature type and custom properties override the feature's fields.
+ * One cell is 5ft (1.524m, or 5 when the location is measured in feet) unless
+ * the file or the caller says otherwise.
+ */
+
+import { z } from 'zod'
+import { GridType } from '@/lib/grid'
+import { LightLevel } from '@/lib/vision'
+import { UnitConverter } from '@/lib/units'
+
+export type MapFormat = 'dd2vtt' | 'tiled'
+
+export type MapFeatureType = 'OBSTACLE' | 'POI' | 'DOOR' | 'FURNITURE' | 'TERRAIN' | 'HAZARD'
+
+export type MapFeature = {
+  type: MapFeatureType
+  name: string
+  description?: string
+  x: number
+  y: number
+  z: number
+  width: number
+  depth: number
+  height: number
+  blocksMovement: boolean
+  blocksVision: boolean
+  providesCover: 'NONE' | 'HALF' | 'THREE_QUARTERS' | 'FULL'
+  elevation?: number
+  movementCost?: number
+  movementMode?: 'WALK' | 'SWIM' | 'CLIMB' | 'FLY'
+  brightLight?: number
+  dimLight?: number
+  metadata?: Record<string, unknown>
+}
+
+// A location and its features in location units
+export type MapDefinition = {
+  name?: string
+  description?: string
+  minX: number
+  maxX: number
+  minY: number
+  maxY: number
+  minZ: number
+  maxZ: number
+  unitType: string
+  gridType: GridType
+  gridSize: number
+  ambientLight: LightLevel
+  features: MapFeature[]
+}
+
+export type MapImportOptions = {
+  unitType?: string // Defaults to meters
+  gridSize?: number // Cell width in location units
+  height?: number // Ceiling height in location units (defaults to two cells)
+}
+
+const FEATURE_TYPES: MapFeatureType[] = ['OBSTACLE', 'POI', 'DOOR', 'FURNITURE', 'TERRAIN', 'HAZARD']
+
+const UVTT_FORMAT = 0.3
+const PIXELS_PER_CELL = 70 // Dungeondraft's default
+
+// Walls are a third of a cell thick, enough for pathfinding not to slip through
+const WALL_THICKNESS = 1 / 3
+
+// Ambient light as UVTT's ARGB hex colour, and the brightness each level starts at
+const AMBIENT_COLOURS: Record<LightLevel, string> = {
+  BRIGHT: 'ffffffff',
+  DIM: 'ff808080',
+  DARK: 'ff202020',
+}
+const BRIGHT_FROM = 0.75
+const DIM_FROM = 0.35
+
+const PointSchema = z.object({ x: z.number(), y: z.number() })
+
+const UvttSchema = z.object({
+  format: z.number().optional(),
+  resolution: z.object({
+    map_origin: PointSchema.optional(),
+    map_size: PointSchema,
+    pixels_per_grid: z.number().optional(),
+  }),
+  line_of_sight: z.array(z.array(PointSchema)).optional(),
+  objects_line_of_sight: z.array(z.array(PointSchema)).optional(),
+  portals: z
+    .array(
+      z.object({
+        position: PointSchema,
+        bounds: z.array(PointSchema).min(2),
+        rotation: z.number().optional(),
+        closed: z.boolean().optional(),
+        freestanding: z.boolean().optional(),
+      })
+    )
+    .optional(),
+  lights: z
+    .array(
+      z.object({
+        position: PointSchema,
+        range: z.number().nonnegative(),
+        intensity: z.number().optional(),
+        color: z.string().optional(),
+        shadows: z.boolean().optional(),
+      })
+    )
+    .optional(),
+  environment: z
+    .object({
+      baked_lighting: z.boolean().optional(),
+      ambient_light: z.string().optional(),
+    })
+    .optional(),
+})
+
+const TiledPropertySchema = z.object({
+  name: z.string(),
+  type: z.string().optional(),
+  value: z.unknown(),
+})
+
+const TiledObjectSchema = z.object({
+  id: z.number().optional(),
+  name: z.string().optional(),
+  type: z.string().optional(), // Called class since Tiled 1.9
+  class: z.string().optional(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  rotation: z.number().optional(),
+  gid: z.number().optional(),
+  point: z.boolean().optional(),
+  polygon: z.array(PointSchema).optional(),
+  polyline: z.array(PointSchema).optional(),
+  properties: z.array(TiledPropertySchema).optional(),
+})
+
+type TiledLayer = {
+  type: string
+  name?: string
+  objects?: z.infer<typeof TiledObjectSchema>[]
+  layers?: TiledLayer[]
+}
+
+const TiledLayerSchema: z.ZodType<TiledLayer> = z.lazy(() =>
+  z.object({
+    type: z.string(),
+    name: z.string().optional(),
+    objects: z.array(TiledObjectSchema).optional(),
+    layers: z.array(TiledLayerSchema).optional(),
+  })
+)
+
+const TiledSchema = z.object({
+  orientation: z.string().optional(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  tilewidth: z.number().positive(),
+  tileheight: z.number().positive(),
+  hexsidelength: z.number().optional(),
+  layers: z.array(TiledLayerSchema),
+  properties: z.array(TiledPropertySchema).optional(),
+})
+
+const FORMAT_NAMES: Record<MapFormat, string> = {
+  dd2vtt: 'Universal VTT',
+  tiled: 'Tiled',
+}
+
+/**
+ * Read a map file into a location definition
+ */
+export function parseMap(format: MapFormat, file: unknown, options: MapImportOptions = {}): MapDefinition {
+  return format === 'dd2vtt' ? parseUniversalVtt(file, options) : parseTiledMap(file, options)
+}
+
+/**
+ * Write a location definition in the given format
+ */
+export function serializeMap(format: MapFormat, map: MapDefinition): Record<string, unknown> {
+  return format === 'dd2vtt' ? toUniversalVtt(map) : toTiledMap(map)
+}
+
+/**
+ * Read a Universal VTT file
+ * Walls are split into straight pieces; diagonal ones into a staircase of short
+ * pieces, since features are axis-aligned boxes. A light's range is its dim
+ * radius, the inner half of it bright.
+ */
+export function parseUniversalVtt(file: unknown, options: MapImportOptions = {}): MapDefinition {
+  const uvtt = parseFile(UvttSchema, file, 'dd2vtt')
+  const unitType = options.unitType || 'meters'
+  const cell = options.gridSize ?? defaultCellSize(unitType)
+  const height = options.height ?? cell * 2
+  const origin = uvtt.resolution.map_origin ?? { x: 0, y: 0 }
+  const at = (point: { x: number; y: number }) => ({
+    x: (point.x - origin.x) * cell,
+    y: (point.y - origin.y) * cell,
+  })
+
+  const features: MapFeature[] = []
+
+  const walls = [...(uvtt.line_of_sight ?? []), ...(uvtt.objects_line_of_sight ?? [])]
+  for (const wall of walls) {
+    for (let i = 1; i < wall.length; i++) {
+      for (const piece of wallPieces(at(wall[i - 1]), at(wall[i]), cell)) {
+        features.push({
+          type: 'OBSTACLE',
+          name: 'Wall',
+          ...piece,
+          z: 0,
+          height,
+          blocksMovement: true,
+          blocksVision: true,
+          providesCover: 'FULL',
+        })
+      }
+    }
+  }
+
+  for (const [i, portal] of (uvtt.portals ?? []).entries()) {
+    const ends = portal.bounds.map(at)
+    const box = boundingBox(ends)
+    const thickness = cell * WALL_THICKNESS
+    const closed = portal.closed ?? true
+    features.push({
+      type: 'DOOR',
+      name: `Door ${i + 1}`,
+      x: box.minX - (box.maxX - box.minX < thickness ? thickness / 2 : 0),
+      y: box.minY - (box.maxY - box.minY < thickness ? thickness / 2 : 0),
+      z: 0,
+      width: Math.max(box.maxX - box.minX, thickness),
+      depth: Math.max(box.maxY - box.minY, thickness),
+      height,
+      blocksMovement: false,
+      blocksVision: closed,
+      providesCover: closed ? 'FULL' : 'NONE',
+      metadata: { closed, freestanding: portal.freestanding ?? false },
+    })
+  }
+
+  for (const [i, light] of (uvtt.lights ?? []).entries()) {
+    const position = at(light.position)
+    features.push({
+      type: 'POI',
+      name: `Light ${i + 1}`,
+      x: position.x,
+      y: position.y,
+      z: height / 2,
+      width: 0,
+      depth: 0,
+      height: 0,
+      blocksMovement: false,
+      blocksVision: false,
+      providesCover: 'NONE',
+      brightLight: (light.range * cell) / 2,
+      dimLight: light.range * cell,
+      metadata: light.color ? { color: light.color } : undefined,
+    })
+  }
+
+  return {
+    minX: 0,
+    maxX: uvtt.resolution.map_size.x * cell,
+    minY: 0,
+    maxY: uvtt.resolution.map_size.y * cell,
+    minZ: 0,
+    maxZ: height,
+    unitType,
+    gridType: 'SQUARE',
+    gridSize: cell,
+    ambientLight: lightFromColour(uvtt.environment?.ambient_light),
+    features,
+  }
+}
+
+/**
+ * Write a Universal VTT file
+ * Vision-blocking features become wall outlines, doors portals and light
+ * sources lights. There is no map image.
+ */
+export function toUniversalVtt(map: MapDefinition): Record<string, unknown> {
+  const cell = map.gridSize
+  const at = (x: number, y: number) => ({ x: (x - map.minX) / cell, y: (y - map.minY) / cell })
+
+  const lineOfSight = map.features
+    .filter((f) => f.blocksVision && f.type !== 'DOOR')
+    .map((f) => [
+      at(f.x, f.y),
+      at(f.x + f.width, f.y),
+      at(f.x + f.width, f.y + f.depth),
+      at(f.x, f.y + f.depth),
+      at(f.x, f.y),
+    ])
+
+  const portals = map.features
+    .filter((f) => f.type === 'DOOR')
+    .map((f) => {
+      // A door spans its longer side, through its middle
+      const alongX = f.width >= f.depth
+      const bounds = alongX
+        ? [at(f.x, f.y + f.depth / 2), at(f.x + f.width, f.y + f.depth / 2)]
+        : [at(f.x + f.width / 2, f.y), at(f.x + f.width / 2, f.y + f.depth)]
+      const closed = typeof f.metadata?.closed === 'boolean' ? f.metadata.closed : f.blocksVision
+      return {
+        position: at(f.x + f.width / 2, f.y + f.depth / 2),
+        bounds,
+        rotation: alongX ? 0 : Math.PI / 2,
+        closed,
+        freestanding: f.metadata?.freestanding === true,
+      }
+    })
+
+  const lights = map.features
+    .filter((f) => f.brightLight || f.dimLight)
+    .map((f) => ({
+      position: at(f.x + f.width / 2, f.y + f.depth / 2),
+      range: Math.max(f.dimLight ?? 0, f.brightLight ?? 0) / cell,
+      intensity: 1,
+      color: typeof f.metadata?.color === 'string' ? f.metadata.color : 'ffffffff',
+      shadows: true,
+    }))
+
+  return {
+    format: UVTT_FORMAT,
+    resolution: {
+      map_origin: { x: 0, y: 0 },
+      map_size: {
+        x: Math.ceil((map.maxX - map.minX) / cell),
+        y: Math.ceil((map.maxY - map.minY) / cell),
+      },
+      pixels_per_grid: PIXELS_PER_CELL,
+    },
+    line_of_sight: lineOfSight,
+    objects_line_of_sight: [],
+    portals,
+    environment: {
+      baked_lighting: false,
+      ambient_light: AMBIENT_COLOURS[map.ambientLight],
+    },
+    lights,
+    image: '',
+  }
+}
+
+/**
+ * Read a Tiled JSON map
+ * Map properties `gridSize`, `unitType`, `height`, `ambientLight`, `name` and
+ * `description` override the defaults; object properties named after feature
+ * fields (blocksMovement, providesCover, brightLight, ...) override the
+ * feature's. Rotated objects keep the box around their rotated shape.
+ */
+export function parseTiledMap(file: unknown, options: MapImportOptions = {}): MapDefinition {
+  const tiled = parseFile(TiledSchema, file, 'tiled')
+  const props = propertiesOf(tiled.properties)
+  const unitType = stringProperty(props.unitType) || options.unitType || 'meters'
+  const cell = numberProperty(props.gridSize) ?? options.gridSize ?? defaultCellSize(unitType)
+  const height = numberProperty(props.height) ?? options.height ?? cell * 2
+  const scale = cell / tiled.tilewidth
+  const hex = tiled.orientation === 'hexagonal'
+
+  // Pointy-top hex rows overlap by the part of a hex outside its side
+  const rowHeight = hex ? (tiled.tileheight + (tiled.hexsidelength ?? tiled.tileheight / 2)) / 2 : tiled.tileheight
+  const pixelWidth = tiled.width * tiled.tilewidth + (hex ? tiled.tilewidth / 2 : 0)
+  const pixelHeight = tiled.height * rowHeight + (tiled.tileheight - rowHeight)
+
+  const features: MapFeature[] = []
+  const visit = (layers: TiledLayer[]) => {
+    for (const layer of layers) {
+      if (layer.type === 'group') {
+        visit(layer.layers ?? [])
+      }
+      if (layer.type !== 'objectgroup') continue
+
+      for (const object of layer.objects ?? []) {
+        features.push(tiledObjectToFeature(object, layer.name ?? '', scale, height))
+      }
+    }
+  }
+  visit(tiled.layers)
+
+  return {
+    name: stringProperty(props.name),
+    description: stringProperty(props.description),
+    minX: 0,
+    maxX: pixelWidth * scale,
+    minY: 0,
+    maxY: pixelHeight * scale,
+    minZ: 0,
+    maxZ: height,
+    unitType,
+    gridType: hex ? 'HEX' : 'SQUARE',
+    gridSize: cell,
+    ambientLight: lightLevelProperty(props.ambientLight) ?? 'BRIGHT',
+    features,
+  }
+}
+
+/**
+ * Write a Tiled JSON map with one object layer holding every feature
+ */
+export function toTiledMap(map: MapDefinition): Record<string, unknown> {
+  const cell = map.gridSize
+  const hex = map.gridType === 'HEX'
+  const tileWidth = PIXELS_PER_CELL
+  const tileHeight = hex ? Math.round((PIXELS_PER_CELL * 2) / Math.sqrt(3)) : PIXELS_PER_CELL
+  const hexSide = Math.round(tileHeight / 2)
+  const scale = tileWidth / cell
+  const rowHeight = hex ? (tileHeight + hexSide) / 2 : tileHeight
+
+  const objects = map.features.map((feature, i) => ({
+    id: i + 1,
+    name: feature.name,
+    class: feature.type,
+    x: (feature.x - map.minX) * scale,
+    y: (feature.y - map.minY) * scale,
+    width: feature.width * scale,
+    height: feature.depth * scale,
+    rotation: 0,
+    visible: true,
+    ...(feature.width === 0 && feature.depth === 0 ? { point: true } : {}),
+    properties: featureProperties(feature),
+  }))
+
+  return {
+    type: 'map',
+    version: '1.10',
+    orientation: hex ? 'hexagonal' : 'orthogonal',
+    renderorder: 'right-down',
+    width: Math.ceil((map.maxX - map.minX) / cell),
+    height: Math.ceil(((map.maxY - map.minY) * scale) / rowHeight),
+    tilewidth: tileWidth,
+    tileheight: tileHeight,
+    ...(hex ? { hexsidelength: hexSide, staggeraxis: 'y', staggerindex: 'odd' } : {}),
+    infinite: false,
+    nextlayerid: 2,
+    nextobjectid: objects.length + 1,
+    tilesets: [],
+    layers: [
+      {
+        id: 1,
+        name: 'Features',
+        type: 'objectgroup',
+        draworder: 'topdown',
+        opacity: 1,
+        visible: true,
+        x: 0,
+        y: 0,
+        objects,
+      },
+    ],
+    properties: [
+      ...(map.name ? [{ name: 'name', type: 'string', value: map.name }] : []),
+      ...(map.description ? [{ name: 'description', type: 'string', value: map.description }] : []),
+      { name: 'gridSize', type: 'float', value: cell },
+      { name: 'unitType', type: 'string', value: map.unitType },
+      { name: 'height', type: 'float', value: map.maxZ - map.minZ },
+      { name: 'ambientLight', type: 'string', value: map.ambientLight },
+    ],
+  }
+}
+
+function parseFile<T>(schema: z.ZodType<T>, file: unknown, format: MapFormat): T {
+  const result = schema.safeParse(file)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    throw new Error(`Invalid ${FORMAT_NAMES[format]} map: ${issue.path.join('.') || 'file'} ${issue.message}`)
+  }
+  return result.data
+}
+
+function defaultCellSize(unitType: string): number {
+  return unitType === 'feet' ? 5 : UnitConverter.gridSquaresToMeters(1)
+}
+
+/**
+ * Boxes covering a wall segment: one for straight walls, a staircase of pieces
+ * no longer than the wall is thick for diagonal ones
+ */
+function wallPieces(
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  cell: number
+): Array<{ x: number; y: number; width: number; depth: number }> {
+  const thickness = cell * WALL_THICKNESS
+  const straight = Math.abs(to.x - from.x) < 1e-6 || Math.abs(to.y - from.y) < 1e-6
+  const steps = straight ? 1 : Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / thickness)
+
+  const pieces = []
+  for (let i = 0; i < steps; i++) {
+    const a = lerp(from, to, i / steps)
+    const b = lerp(from, to, (i + 1) / steps)
+    const box = boundingBox([a, b])
+    pieces.push({
+      x: box.minX - thickness / 2,
+      y: box.minY - thickness / 2,
+      width: box.maxX - box.minX + thickness,
+      depth: box.maxY - box.minY + thickness,
+    })
+  }
+  return pieces
+}
+
+function tiledObjectToFeature(
+  object: z.infer<typeof TiledObjectSchema>,
+  layerName: string,
+  scale: number,
+  mapHeight: number
+): MapFeature {
+  const width = object.width ?? 0
+  const height = object.height ?? 0
+  // Tile objects are anchored at their bottom-left corner
+  const top = object.gid !== undefined ? object.y - height : object.y
+
+  const outline = object.polygon ?? object.polyline
+  const points = outline
+    ? outline.map((p) => ({ x: p.x, y: p.y }))
+    : [
+        { x: 0, y: 0 },
+        { x: width, y: 0 },
+        { x: width, y: height },
+        { x: 0, y: height },
+      ]
+  const angle = ((object.rotation ?? 0) * Math.PI) / 180
+  const box = boundingBox(
+    points.map((p) => ({
+      x: object.x + p.x * Math.cos(angle) - p.y * Math.sin(angle),
+      y: top + p.x * Math.sin(angle) + p.y * Math.cos(angle),
+    }))
+  )
+
+  const type = featureTypeOf(object.class || object.type, layerName)
+  const solid = type === 'OBSTACLE'
+  const props = propertiesOf(object.properties)
+
+  const feature: MapFeature = {
+    type,
+    name: object.name || layerName || 'Feature',
+    x: box.minX * scale,
+    y: box.minY * scale,
+    z: 0,
+    width: (box.maxX - box.minX) * scale,
+    depth: (box.maxY - box.minY) * scale,
+    height: solid || type === 'DOOR' ? mapHeight : 0,
+    blocksMovement: solid,
+    blocksVision: solid,
+    providesCover: solid ? 'FULL' : 'NONE',
+    metadata: object.id !== undefined ? { tiledId: object.id } : undefined,
+  }
+
+  const description = stringProperty(props.description)
+  if (description) feature.description = description
+  for (const key of ['z', 'height', 'elevation', 'movementCost', 'brightLight', 'dimLight'] as const) {
+    const value = numberProperty(props[key])
+    if (value !== undefined) feature[key] = value
+  }
+  for (const key of ['blocksMovement', 'blocksVision'] as const) {
+    const value = props[key]
+    if (typeof value === 'boolean') feature[key] = value
+  }
+  const cover = stringProperty(props.providesCover)?.toUpperCase()
+  if (cover === 'NONE' || cover === 'HALF' || cover === 'THREE_QUARTERS' || cover === 'FULL') {
+    feature.providesCover = cover
+  }
+  const mode = stringProperty(props.movementMode)?.toUpperCase()
+  if (mode === 'WALK' || mode === 'SWIM' || mode === 'CLIMB' || mode === 'FLY') {
+    feature.movementMode = mode
+  }
+
+  return feature
+}
+
+/**
+ * Feature type from an object's class, falling back to its layer's name
+ */
+function featureTypeOf(className: string | undefined, layerName: string): MapFeatureType {
+  const named = className?.toUpperCase() as MapFeatureType | undefined
+  if (named && FEATURE_TYPES.includes(named)) {
+    return named
+  }
+
+  const layer = layerName.toLowerCase()
+  if (/wall|obstacle|pillar/.test(layer)) return 'OBSTACLE'
+  if (/door|portal/.test(layer)) return 'DOOR'
+  if (/furniture|table/.test(layer)) return 'FURNITURE'
+  if (/terrain|water|difficult/.test(layer)) return 'TERRAIN'
+  if (/hazard|trap/.test(layer)) return 'HAZARD'
+  return 'POI'
+}
+
+/**
+ * Tiled properties for the fields that differ from an object's defaults
+ */
+function featureProperties(feature: MapFeature) {
+  const properties: Array<{ name: string; type: string; value: unknown }> = [
+    { name: 'z', type: 'float', value: feature.z },
+    { name: 'height', type: 'float', value: feature.height },
+    { name: 'blocksMovement', type: 'bool', value: feature.blocksMovement },
+    { name: 'blocksVision', type: 'bool', value: feature.blocksVision },
+    { name: 'providesCover', type: 'string', value: feature.providesCover },
+  ]
+  if (feature.description) properties.push({ name: 'description', type: 'string', value: feature.description })
+  if (feature.elevation) properties.push({ name: 'elevation', type: 'float', value: feature.elevation })
+  if (feature.movementCost !== undefined && feature.movementCost !== 1) {
+    properties.push({ name: 'movementCost', type: 'float', value: feature.movementCost })
+  }
+  if (feature.movementMode && feature.movementMode !== 'WALK') {
+    properties.push({ name: 'movementMode', type: 'string', value: feature.movementMode })
+  }
+  if (feature.brightLight) properties.push({ name: 'brightLight', type: 'float', value: feature.brightLight })
+  if (feature.dimLight) properties.push({ name: 'dimLight', type: 'float', value: feature.dimLight })
+  return properties
+}
+
+function propertiesOf(properties: z.infer<typeof TiledPropertySchema>[] | undefined): Record<string, unknown> {
+  return Object.fromEntries((properties ?? []).map((p) => [p.name, p.value]))
+}
+
+function stringProperty(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined
+}
+
+function numberProperty(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+}
+
+function lightLevelProperty(value: unknown): LightLevel | undefined {
+  const level = stringProperty(value)?.toUpperCase()
+  return level === 'DARK' || level === 'DIM' || level === 'BRIGHT' ? level : undefined
+}
+
+/**
+ * Light level from UVTT's ambient colour (ARGB hex), by its brightness
+ */
+function lightFromColour(colour: string | undefined): LightLevel {
+  if (!colour || !/^[0-9a-f]{6}([0-9a-f]{2})?$/i.test(colour)) {
+    return 'BRIGHT'
+  }
+
+  const rgb = colour.length === 8 ? colour.slice(2) : colour
+  const [r, g, b] = [0, 2, 4].map((i) => parseInt(rgb.slice(i, i + 2), 16) / 255)
+  const brightness = 0.2126 * r + 0.7152 * g + 0.0722 * b
+
+  if (brightness >= BRIGHT_FROM) return 'BRIGHT'
+  if (brightness >= DIM_FROM) return 'DIM'
+  return 'DARK'
+}
+
+function boundingBox(points: Array<{ x: number; y: number }>) {
+  return {
+    minX: Math.min(...points.map((p) => p.x)),
+    maxX: Math.max(...points.map((p) => p.x)),
+    minY: Math.min(...points.map((p) => p.y)),
+    maxY: Math.max(...points.map((p) => p.y)),
+  }
+}
+
+function lerp(a: { x: number; y: number }, b: { x: number; y: number }, t: number) {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }
+}
@@ -0,0 +1,91 @@
+/**
+ * Incrementally extracts the value of a string field (by default "narrative")
+ * from a JSON object that is still being streamed, so the text can be shown
+ * to players before the full JSON response has arrived.
+ */
+export class NarrativeStreamExtractor {
+  private state: 'seeking' | 'in_string' | 'done' = 'seeking'
+  private seekBuffer = ''
+  private escaping = false
+  private unicodeDigits: string | null = null
+  private readonly fieldPattern: RegExp
+
+  constructor(fieldName: string = 'narrative') {
+    this.fieldPattern = new RegExp(`"${fieldName}"\\s*:\\s*"`)
+  }
+
+  /**
+   * Feed the next raw chunk; returns the newly decoded field text (may be empty)
+   */
+  push(chunk: string): string {
+    if (this.state === 'done') return ''
+
+    let input = chunk
+    if (this.state === 'seeking') {
+      this.seekBuffer += chunk
+      const match = this.fieldPattern.exec(this.seekBuffer)
+      if (!match) return ''
+
+      input = this.seekBuffer.slice(match.index + match[0].length)
+      this.seekBuffer = ''
+      this.state = 'in_string'
+    }
+
+    return this.decode(input)
+  }
+
+  /**
+   * Whether the closing quote of the field has been seen
+   */
+  get isComplete(): boolean {
+    return this.state === 'done'
+  }
+
+  private decode(input: string): string {
+    let output = ''
+
+    for (const char of input) {
+      if (this.state === 'done') break
+
+      if (this.unicodeDigits !== null) {
+        this.unicodeDigits += char
+        if (this.unicodeDigits.length === 4) {
+          output += String.fromCharCode(parseInt(this.unicodeDigits, 16))
+          this.unicodeDigits = null
+        }
+        continue
+      }
+
+      if (this.escaping) {
+        this.escaping = false
+        if (char === 'u') {
+          this.unicodeDigits = ''
+        } else {
+          output += ESCAPES[char] ?? char
+        }
+        continue
+      }
+
+      if (char === '\\') {
+        this.escaping = true
+      } else if (char === '"') {
+        this.state = 'done'
+      } else {
+        output += char
+      }
+    }
+
+    return output
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+}
@@ -0,0 +1,42 @@
+/**
+ * Spawning NPCs and creatures in packs
+ * A lone NPC keeps its name unless the campaign already has some of that name;
+ * otherwise they are numbered after the ones there ("Goblin 3" follows
+ * "Goblin 2"). A pack stands in rows of cells from the first token's position.
+ */
+
+import { Position3D } from '@/types'
+
+/**
+ * Names for a pack of `count`, numbered past the ones already taken
+ */
+export function packNames(name: string, count: number, taken: string[] = []): string[] {
+  const numbered = new RegExp(`^${escapeRegExp(name)} (\\d+)$`)
+  const highest = taken.reduce((max, existing) => {
+    const match = numbered.exec(existing)
+    return match ? Math.max(max, Number(match[1])) : max
+  }, taken.includes(name) ? 1 : 0)
+
+  if (count === 1 && highest === 0) {
+    return [name]
+  }
+
+  return Array.from({ length: count }, (_, i) => `${name} ${highest + i + 1}`)
+}
+
+/**
+ * Where each token of a pack stands: rows as wide as the pack is deep, one cell apart
+ */
+export function packPositions(origin: Position3D, count: number, cellSize: number): Position3D[] {
+  const columns = Math.ceil(Math.sqrt(count))
+
+  return Array.from({ length: count }, (_, i) => ({
+    x: origin.x + (i % columns) * cellSize,
+    y: origin.y + Math.floor(i / columns) * cellSize,
+    z: origin.z,
+  }))
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
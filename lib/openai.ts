@@ -1,14 +1,86 @@
-import OpenAI from 'openai'
-import { AIResponse, AIPromptContext, EnhancedAIContext } from '@/types'
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || '',
-})
+import {
+  AIResponse,
+  AIPromptContext,
+  DMOutputValidation,
+  DMToolCallLog,
+  EnhancedAIContext,
+  MovementSuggestion,
+} from '@/types'
+import {
+  LLMProvider,
+  LLMCompletionRequest,
+  LLMMessage,
+  LLMToolCall,
+  LLMToolDefinition,
+  LLMUsage,
+  createLLMProvider,
+} from './llm-provider'
+import { NarrativeStreamExtractor } from './narrative-stream'
+import {
+  DMResponse,
+  DM_RESPONSE_FORMAT_HINT,
+  fallbackNarrative,
+  parseDMResponse,
+} from './dm-response-schema'
 
 const MAX_TOKENS_PER_REQUEST = parseInt(process.env.MAX_TOKENS_PER_REQUEST || '500', 10)
-const MODEL = process.env.OPENAI_MODEL || 'gpt-4o-mini'
+const MAX_OUTPUT_REPAIRS = parseInt(process.env.DM_OUTPUT_MAX_REPAIRS || '1', 10)
+const MAX_TOOL_ROUNDS = parseInt(process.env.DM_MAX_TOOL_ROUNDS || '3', 10)
+
+// Sampling parameters shared by all story generation calls
+const STORY_SAMPLING: Pick<
+  LLMCompletionRequest,
+  'maxTokens' | 'temperature' | 'presencePenalty' | 'frequencyPenalty'
+> = {
+  maxTokens: MAX_TOKENS_PER_REQUEST,
+  temperature: 0.8,
+  presencePenalty: 0.6,
+  frequencyPenalty: 0.3,
+}
+
+type ValidatedDMOutput = {
+  response: DMResponse
+  usage: LLMUsage // Includes tokens spent on repair attempts
+  validation: DMOutputValidation
+}
+
+function addUsage(a: LLMUsage, b: LLMUsage): LLMUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  }
+}
+
+/**
+ * Tools the DM model may call before writing the narrative
+ * (implemented per session by services/dm-tools.ts)
+ */
+export interface DMToolbox {
+  readonly definitions: LLMToolDefinition[]
+  execute(call: LLMToolCall): Promise<DMToolCallLog>
+}
+
+const NO_USAGE: LLMUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+
+export type EnhancedStoryStreamEvent =
+  | { type: 'narrative'; delta: string }
+  | { type: 'done'; response: AIResponse }
 
 export class OpenAIService {
+  private readonly provider: LLMProvider
+
+  constructor(provider: LLMProvider = createLLMProvider()) {
+    this.provider = provider
+  }
+
+  /**
+   * Name of the active LLM provider (openai, local, fixture)
+   */
+  get providerName(): string {
+    return this.provider.name
+  }
+
   async generateStoryResponse(
     userInput: string,
     context: AIPromptContext
@@ -17,29 +89,22 @@ export class OpenAIService {
     const messages = this.buildMessageHistory(context, userInput)
 
     try {
-      const completion = await openai.chat.completions.create({
-        model: MODEL,
+      const completion = await this.provider.complete({
+        ...STORY_SAMPLING,
         messages: [{ role: 'system', content: systemPrompt }, ...messages],
-        max_tokens: MAX_TOKENS_PER_REQUEST,
-        temperature: 0.8,
-        presence_penalty: 0.6,
-        frequency_penalty: 0.3,
       })
 
-      const content = completion.choices[0]?.message?.content || ''
-      const usage = completion.usage
-
       return {
-        content,
-        tokenCount: usage?.total_tokens || 0,
+        content: completion.content,
+        tokenCount: completion.usage.totalTokens,
         metadata: {
-          model: MODEL,
-          promptTokens: usage?.prompt_tokens || 0,
-          completionTokens: usage?.completion_tokens || 0,
+          model: completion.model,
+          promptTokens: completion.usage.promptTokens,
+          completionTokens: completion.usage.completionTokens,
         },
       }
     } catch (error) {
-      console.error('OpenAI API error:', error)
+      console.error(`LLM provider (${this.provider.name}) error:`, error)
       throw new Error('Failed to generate AI response')
     }
   }
@@ -51,14 +116,9 @@ export class OpenAIService {
     const systemPrompt = this.buildSystemPrompt(context)
     const messages = this.buildMessageHistory(context, userInput)
 
-    const stream = await openai.chat.completions.create({
-      model: MODEL,
+    const stream = this.provider.stream({
+      ...STORY_SAMPLING,
       messages: [{ role: 'system', content: systemPrompt }, ...messages],
-      max_tokens: MAX_TOKENS_PER_REQUEST,
-      temperature: 0.8,
-      presence_penalty: 0.6,
-      frequency_penalty: 0.3,
-      stream: true,
     })
 
     const encoder = new TextEncoder()
@@ -66,9 +126,8 @@ export class OpenAIService {
       async start(controller) {
         try {
           for await (const chunk of stream) {
-            const content = chunk.choices[0]?.delta?.content || ''
-            if (content) {
-              controller.enqueue(encoder.encode(content))
+            if (chunk.delta) {
+              controller.enqueue(encoder.encode(chunk.delta))
             }
           }
           controller.close()
@@ -143,94 +202,272 @@ export class OpenAIService {
    */
   async generateEnhancedStoryResponse(
     userInput: string,
-    context: EnhancedAIContext
+    context: EnhancedAIContext,
+    toolbox?: DMToolbox
   ): Promise<AIResponse> {
-    const systemPrompt = this.buildEnhancedSystemPrompt(context)
-    const messages = this.buildEnhancedMessageHistory(context, userInput)
+    const useTools = this.canUseTools(toolbox)
+    let messages = this.buildEnhancedMessages(context, userInput, useTools)
+    const toolCalls: DMToolCallLog[] = []
+    let usage = NO_USAGE
 
     try {
-      // Use JSON mode for structured output with movement detection
-      const completion = await openai.chat.completions.create({
-        model: MODEL,
-        messages: [{ role: 'system', content: systemPrompt }, ...messages],
-        max_tokens: MAX_TOKENS_PER_REQUEST,
-        temperature: 0.8,
-        presence_penalty: 0.6,
-        frequency_penalty: 0.3,
-        response_format: { type: 'json_object' },
-      })
+      // Use JSON mode for structured output; tool rounds run until the model answers
+      for (let round = 0; ; round++) {
+        const offerTools = useTools && round < MAX_TOOL_ROUNDS
+        const completion = await this.provider.complete({
+          ...STORY_SAMPLING,
+          model: context.model,
+          messages,
+          responseFormat: 'json',
+          tools: offerTools ? toolbox?.definitions : undefined,
+        })
+        usage = addUsage(usage, completion.usage)
+
+        if (offerTools && toolbox && completion.toolCalls?.length) {
+          messages = [
+            ...messages,
+            ...(await this.runToolCalls(completion.content, completion.toolCalls, toolbox, toolCalls)),
+          ]
+          continue
+        }
 
-      const content = completion.choices[0]?.message?.content || ''
-      const usage = completion.usage
-
-      console.log('OpenAI raw response:', content)
-
-      // Parse JSON response
-      let parsedResponse: {
-        narrative: string
-        movement?: {
-          detected: boolean
-          characterName?: string
-          targetName?: string
-          targetPosition?: { x: number; y: number; z: number }
-          actionType?: string
-          reason?: string
+        const validated = await this.validateWithRepair(
+          messages,
+          completion.content,
+          usage,
+          context.model
+        )
+
+        return this.buildEnhancedResponse(validated, completion.model, context, toolCalls)
+      }
+    } catch (error) {
+      console.error(`LLM provider (${this.provider.name}) error:`, error)
+      throw new Error('Failed to generate AI response')
+    }
+  }
+
+  /**
+   * Streaming variant of generateEnhancedStoryResponse
+   * Yields the "narrative" field as it arrives, then the fully parsed response
+   */
+  async *generateEnhancedStoryStream(
+    userInput: string,
+    context: EnhancedAIContext,
+    toolbox?: DMToolbox
+  ): AsyncGenerator<EnhancedStoryStreamEvent> {
+    const useTools = this.canUseTools(toolbox)
+    let messages = this.buildEnhancedMessages(context, userInput, useTools)
+    const toolCalls: DMToolCallLog[] = []
+
+    let content = ''
+    let usage = NO_USAGE
+
+    try {
+      for (let round = 0; ; round++) {
+        const offerTools = useTools && round < MAX_TOOL_ROUNDS
+        const extractor = new NarrativeStreamExtractor()
+        let requestedTools: LLMToolCall[] | undefined
+        content = ''
+
+        const stream = this.provider.stream({
+          ...STORY_SAMPLING,
+          model: context.model,
+          messages,
+          responseFormat: 'json',
+          tools: offerTools ? toolbox?.definitions : undefined,
+        })
+
+        for await (const chunk of stream) {
+          if (chunk.usage) {
+            usage = addUsage(usage, chunk.usage)
+          }
+          if (chunk.toolCalls) {
+            requestedTools = chunk.toolCalls
+          }
+          if (!chunk.delta) continue
+
+          content += chunk.delta
+          const narrativeDelta = extractor.push(chunk.delta)
+          if (narrativeDelta) {
+            yield { type: 'narrative', delta: narrativeDelta }
+          }
         }
+
+        if (!offerTools || !toolbox || !requestedTools?.length) break
+
+        messages = [
+          ...messages,
+          ...(await this.runToolCalls(content, requestedTools, toolbox, toolCalls)),
+        ]
       }
+    } catch (error) {
+      console.error(`LLM provider (${this.provider.name}) stream error:`, error)
+      throw new Error('Failed to generate AI response')
+    }
+
+    // A repaired reply replaces the streamed text in the final event
+    const validated = await this.validateWithRepair(messages, content, usage, context.model)
+
+    yield {
+      type: 'done',
+      response: this.buildEnhancedResponse(
+        validated,
+        context.model || this.provider.defaultModel,
+        context,
+        toolCalls
+      ),
+    }
+  }
+
+  private canUseTools(toolbox?: DMToolbox): boolean {
+    return !!toolbox && toolbox.definitions.length > 0 && this.provider.supportsTools
+  }
+
+  /**
+   * Execute the tools requested by the model and return the messages that
+   * feed the results back (assistant tool-call turn + one tool message each)
+   */
+  private async runToolCalls(
+    content: string,
+    calls: LLMToolCall[],
+    toolbox: DMToolbox,
+    log: DMToolCallLog[]
+  ): Promise<LLMMessage[]> {
+    const messages: LLMMessage[] = [{ role: 'assistant', content, toolCalls: calls }]
+
+    for (const call of calls) {
+      const entry = await toolbox.execute(call)
+      log.push(entry)
+      messages.push({
+        role: 'tool',
+        toolCallId: call.id,
+        content: JSON.stringify(entry.error ? { error: entry.error } : entry.result ?? null),
+      })
+    }
+
+    return messages
+  }
+
+  /**
+   * Validate raw output against the DM reply schema, asking the model to
+   * repair malformed output up to MAX_OUTPUT_REPAIRS times
+   */
+  private async validateWithRepair(
+    messages: LLMMessage[],
+    content: string,
+    usage: LLMUsage,
+    model?: string
+  ): Promise<ValidatedDMOutput> {
+    let totalUsage = usage
+    let lastContent = content
+    let attempts = 1
+    const errors: string[] = []
+    let result = parseDMResponse(lastContent)
+
+    while (!result.success && attempts <= MAX_OUTPUT_REPAIRS) {
+      errors.push(result.error)
+      console.warn(`Invalid DM output (attempt ${attempts}): ${result.error}`)
 
       try {
-        parsedResponse = JSON.parse(content)
-        console.log('Parsed movement:', parsedResponse.movement)
-      } catch (e) {
-        // Fallback if JSON parsing fails
-        console.warn('Failed to parse JSON response from OpenAI:', e)
-        parsedResponse = { narrative: content }
-      }
+        const repair = await this.provider.complete({
+          ...STORY_SAMPLING,
+          temperature: 0.2, // Favor format compliance over creativity
+          model,
+          messages: [
+            ...messages,
+            { role: 'assistant', content: lastContent },
+            {
+              role: 'user',
+              content:
+                `Your previous reply was invalid (${result.error}). ` +
+                `Reply again with ONLY a JSON object of this shape, keeping the same story: ` +
+                DM_RESPONSE_FORMAT_HINT,
+            },
+          ],
+          responseFormat: 'json',
+        })
 
-      // Build movement suggestion if detected
-      let movementSuggestion = undefined
-      if (parsedResponse.movement?.detected && parsedResponse.movement.targetPosition) {
-        console.log('Movement detected! Building suggestion...')
-        const mov = parsedResponse.movement
-
-        // Get actual character ID from context (passed from buildContext)
-        const characterId = (context as any).characterId || ''
-
-        movementSuggestion = {
-          id: `mov_${Date.now()}`,
-          characterId,
-          characterName: mov.characterName || 'Player',
-          from: context.spatialContext?.characterPosition || { x: 0, y: 0, z: 0 },
-          to: mov.targetPosition,
-          reason: mov.reason || 'Movement detected',
-          targetName: mov.targetName,
-          actionType: (mov.actionType || 'MOVEMENT') as any,
-          distance: this.calculateDistance(
-            context.spatialContext?.characterPosition || { x: 0, y: 0, z: 0 },
-            mov.targetPosition
-          ),
-          locationId: context.currentState?.locationId || '',
-          isValid: true, // Will be validated separately
-          validationIssues: [],
-        }
-        console.log('Movement suggestion created:', movementSuggestion)
-      } else {
-        console.log('No movement detected or missing targetPosition')
+        totalUsage = addUsage(totalUsage, repair.usage)
+        lastContent = repair.content
+        attempts++
+        result = parseDMResponse(lastContent)
+      } catch (error) {
+        console.error('DM output repair request failed:', error)
+        break
       }
+    }
 
+    if (result.success) {
       return {
-        content: parsedResponse.narrative,
-        tokenCount: usage?.total_tokens || 0,
-        metadata: {
-          model: MODEL,
-          promptTokens: usage?.prompt_tokens || 0,
-          completionTokens: usage?.completion_tokens || 0,
-          movementSuggestion,
+        response: result.data,
+        usage: totalUsage,
+        validation: {
+          valid: true,
+          attempts,
+          ...(errors.length > 0 ? { repairedErrors: errors } : {}),
         },
       }
-    } catch (error) {
-      console.error('OpenAI API error:', error)
-      throw new Error('Failed to generate AI response')
+    }
+
+    return {
+      response: {
+        narrative: fallbackNarrative(lastContent, result.partial),
+        movement: { detected: false },
+      },
+      usage: totalUsage,
+      validation: {
+        valid: false,
+        attempts,
+        failureReason: result.error,
+        ...(errors.length > 0 ? { repairedErrors: errors } : {}),
+      },
+    }
+  }
+
+  /**
+   * Turn a validated DM reply into an AIResponse with movement suggestion
+   */
+  private buildEnhancedResponse(
+    validated: ValidatedDMOutput,
+    model: string,
+    context: EnhancedAIContext,
+    toolCalls: DMToolCallLog[] = []
+  ): AIResponse {
+    const { response, usage, validation } = validated
+
+    // Build movement suggestion if detected
+    let movementSuggestion: MovementSuggestion | undefined
+    const mov = response.movement
+    if (mov.detected && mov.targetPosition) {
+      const from = context.spatialContext?.characterPosition || { x: 0, y: 0, z: 0 }
+
+      movementSuggestion = {
+        id: `mov_${Date.now()}`,
+        characterId: context.characterId || '',
+        characterName: mov.characterName || context.characterName || 'Player',
+        from,
+        to: mov.targetPosition,
+        reason: mov.reason || 'Movement detected',
+        targetName: mov.targetName,
+        actionType: mov.actionType || 'MOVEMENT',
+        distance: this.calculateDistance(from, mov.targetPosition),
+        locationId: context.currentState?.locationId || '',
+        isValid: true, // Will be validated separately
+        validationIssues: [],
+      }
+    }
+
+    return {
+      content: response.narrative,
+      tokenCount: usage.totalTokens,
+      metadata: {
+        model,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        movementSuggestion,
+        outputValidation: validation,
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
+      },
     }
   }
 
@@ -250,27 +487,35 @@ export class OpenAIService {
   /**
    * Build optimized system prompt using enhanced context
    */
-  private buildEnhancedSystemPrompt(context: EnhancedAIContext): string {
+  private buildEnhancedSystemPrompt(context: EnhancedAIContext, useTools: boolean = false): string {
     let prompt = `You are an expert Dungeon Master running a tabletop RPG session for "${context.campaignName}".\n\n`
 
     // JSON FORMAT REQUIREMENT - MUST BE FIRST
     prompt += `CRITICAL: You MUST ALWAYS respond in valid JSON format. Every response must be a JSON object.\n`
-    prompt += `Required JSON structure:\n`
-    prompt += `{\n`
-    prompt += `  "narrative": "Your immersive story response here (2-3 paragraphs)",\n`
-    prompt += `  "movement": {\n`
-    prompt += `    "detected": false  // Set to true ONLY if player explicitly indicates movement\n`
-    prompt += `  }\n`
-    prompt += `}\n\n`
-    prompt += `If movement is detected, include these additional fields in the movement object:\n`
-    prompt += `{\n`
-    prompt += `  "detected": true,\n`
-    prompt += `  "characterName": "Player",\n`
-    prompt += `  "targetName": "orc",\n`
-    prompt += `  "targetPosition": {"x": 15.5, "y": 14.0, "z": 0.0},\n`
-    prompt += `  "actionType": "MELEE",\n`
-    prompt += `  "reason": "To attack the orc"\n`
-    prompt += `}\n\n`
+    if (useTools) {
+      prompt += `Required JSON structure:\n`
+      prompt += `{\n`
+      prompt += `  "narrative": "Your immersive story response here (2-3 paragraphs)"\n`
+      prompt += `}\n`
+      prompt += `Call tools first when you need them; reply with the JSON object once you have the results.\n\n`
+    } else {
+      prompt += `Required JSON structure:\n`
+      prompt += `{\n`
+      prompt += `  "narrative": "Your immersive story response here (2-3 paragraphs)",\n`
+      prompt += `  "movement": {\n`
+      prompt += `    "detected": false  // Set to true ONLY if player explicitly indicates movement\n`
+      prompt += `  }\n`
+      prompt += `}\n\n`
+      prompt += `If movement is detected, include these additional fields in the movement object:\n`
+      prompt += `{\n`
+      prompt += `  "detected": true,\n`
+      prompt += `  "characterName": "Player",\n`
+      prompt += `  "targetName": "orc",\n`
+      prompt += `  "targetPosition": {"x": 15.5, "y": 14.0, "z": 0.0},\n`
+      prompt += `  "actionType": "MELEE",\n`
+      prompt += `  "reason": "To attack the orc"\n`
+      prompt += `}\n\n`
+    }
 
     // Add current state (much more efficient than full campaign description)
     if (context.currentState) {
@@ -284,9 +529,6 @@ export class OpenAIService {
       if (context.currentState.ongoingQuests && context.currentState.ongoingQuests.length > 0) {
         prompt += `- Active Quests: ${context.currentState.ongoingQuests.join('; ')}\n`
       }
-      if (context.currentState.partyConditions) {
-        prompt += `- Party Status: ${JSON.stringify(context.currentState.partyConditions)}\n`
-      }
       prompt += `\n`
     }
 
@@ -298,24 +540,36 @@ export class OpenAIService {
         prompt += `- Current Location: ${context.spatialContext.locationName}\n`
       }
 
+      if (context.spatialContext.grid) {
+        prompt += `- Map Grid: ${context.spatialContext.grid} (move to cell centres; distances follow the grid)\n`
+      }
+
       if (context.spatialContext.characterPosition) {
         const pos = context.spatialContext.characterPosition
         prompt += `- Your Position: (${pos.x.toFixed(1)}, ${pos.y.toFixed(1)}, ${pos.z.toFixed(1)})\n`
       }
 
+      if (context.spatialContext.lightLevel) {
+        prompt += `- Light Here: ${context.spatialContext.lightLevel.toLowerCase()}\n`
+      }
+
       if (context.spatialContext.nearbyCharacters && context.spatialContext.nearbyCharacters.length > 0) {
         prompt += `- Nearby Characters:\n`
         context.spatialContext.nearbyCharacters.forEach((char) => {
-          const visibility = char.canSee ? 'visible' : 'hidden'
+          const visibility = char.perception || (char.canSee ? 'visible' : 'hidden')
           const cover = char.coverLevel !== 'NONE' ? ` with ${char.coverLevel.toLowerCase()} cover` : ''
-          prompt += `  • ${char.name} at (${char.position.x.toFixed(1)}, ${char.position.y.toFixed(1)}, ${char.position.z.toFixed(1)}) - ${char.distance.toFixed(1)} units away, ${visibility}${cover}\n`
+          const npc = char.disposition
+            ? ` (${[char.disposition.toLowerCase(), char.faction].filter(Boolean).join(', ')})`
+            : ''
+          prompt += `  • ${char.name}${npc} at (${char.position.x.toFixed(1)}, ${char.position.y.toFixed(1)}, ${char.position.z.toFixed(1)}) - ${char.distance.toFixed(1)} units away, ${visibility}${cover}\n`
         })
       }
 
       if (context.spatialContext.nearbyFeatures && context.spatialContext.nearbyFeatures.length > 0) {
         prompt += `- Nearby Features:\n`
         context.spatialContext.nearbyFeatures.slice(0, 5).forEach((feature) => {
-          prompt += `  • ${feature.name} (${feature.type}) - ${feature.distance.toFixed(1)} units away\n`
+          const state = feature.state ? `, ${feature.state.toLowerCase()}` : ''
+          prompt += `  • ${feature.name} (${feature.type}${state}) - ${feature.distance.toFixed(1)} units away\n`
         })
       }
 
@@ -327,10 +581,19 @@ export class OpenAIService {
         })
       }
 
+      if (context.spatialContext.exits && context.spatialContext.exits.length > 0) {
+        prompt += `- Exits:\n`
+        context.spatialContext.exits.forEach((exit) => {
+          const travel = exit.travelTime ? `, ${exit.travelTime} min travel` : ''
+          prompt += `  • ${exit.name} (${exit.type}) → ${exit.destination} - ${exit.distance.toFixed(1)} units away${travel}\n`
+        })
+      }
+
       prompt += `\n`
       prompt += `IMPORTANT: When describing actions, take into account the positions and distances between characters. ` +
         `Use the stored location data and mechanics rules to determine what is physically possible. ` +
-        `If a character wants to interact with something far away, suggest they move closer first.\n\n`
+        `If a character wants to interact with something far away, suggest they move closer first. ` +
+        `Characters and features not listed are hidden from the acting character by darkness, walls or distance; do not reveal them.\n\n`
     }
 
     // Add relevant knowledge (only 3-5 entries instead of full campaign lore)
@@ -356,14 +619,89 @@ export class OpenAIService {
       prompt += `\n`
     }
 
+    // Add party vitals so damage and conditions carry over between turns
+    if (context.party && context.party.length > 0) {
+      prompt += `Party Status:\n`
+      context.party.forEach((member) => {
+        const temp = member.tempHp > 0 ? ` (+${member.tempHp} temp)` : ''
+        let line = `- ${member.name}: ${member.currentHp}/${member.maxHp} HP${temp}, AC ${member.armorClass}, ${member.state}`
+        if (member.deathSaves) {
+          line += ` (death saves: ${member.deathSaves.successes} successes, ${member.deathSaves.failures} failures)`
+        }
+        if (member.conditions.length > 0) {
+          const conditions = member.conditions.map((c) => (c.duration ? `${c.name} (${c.duration})` : c.name))
+          line += ` - ${conditions.join(', ')}`
+        }
+        prompt += `${line}\n`
+      })
+      prompt += `\n`
+    }
+
+    // Tell the model who is speaking when several players share the table
+    if (context.characterName) {
+      prompt += `Player messages are prefixed with the acting character, e.g. "[${context.characterName}]: ...". `
+      prompt += `This turn ${context.characterName} is acting; resolve their action and do not act for the other player characters.\n\n`
+    }
+
+    // Add combat state so turns and movement limits are respected
+    if (context.encounter) {
+      const { round, currentTurn, order, pendingReactions } = context.encounter
+      prompt += `Combat (round ${round}) - it is ${currentTurn}'s turn:\n`
+      order.forEach((combatant) => {
+        const marker = combatant.isCurrent ? '→' : ' '
+        const status = combatant.isDefeated
+          ? 'defeated'
+          : `${combatant.movementRemaining.toFixed(1)}m movement left${combatant.reactionUsed ? ', reaction used' : ''}`
+        const side = [combatant.isNPC && 'NPC', combatant.isHostile && 'hostile'].filter(Boolean).join(', ')
+        prompt += `${marker} ${combatant.name}${side ? ` (${side})` : ''} - initiative ${combatant.initiative}, ${status}\n`
+      })
+      prompt += `Only ${currentTurn} acts now; other characters wait for their turn.\n`
+      // Opportunity attacks are decided by whoever controls the combatant, not narrated freely
+      if (pendingReactions.length > 0) {
+        prompt += `Reactions waiting for a decision (narrate one only once it is taken):\n`
+        pendingReactions.forEach((reaction) => {
+          prompt += `- ${reaction.combatant} may make an opportunity attack against ${reaction.triggeredBy}\n`
+        })
+      }
+      prompt += `\n`
+    }
+
+    // Add dice results rolled by the server since the last reply
+    if (context.diceRolls && context.diceRolls.length > 0) {
+      prompt += `Dice Results (rolled by the server - narrate these exact outcomes):\n`
+      context.diceRolls.forEach((roll) => {
+        const label = [roll.characterName, roll.reason].filter(Boolean).join(', ')
+        prompt += `- ${label ? `${label}: ` : ''}${roll.breakdown}\n`
+      })
+      prompt += `\n`
+    }
+
+    // Add traps and hazards the server already resolved
+    if (context.triggeredEffects && context.triggeredEffects.length > 0) {
+      prompt += `Triggered Effects (resolved by the server - narrate these exact outcomes):\n`
+      context.triggeredEffects.forEach((effect) => {
+        prompt += `- ${effect.summary}\n`
+      })
+      prompt += `\n`
+    }
+
     // Core DM instructions
     prompt += `DM Instructions:\n`
     prompt += `- Be descriptive and immersive in the "narrative" field\n`
     prompt += `- React to player actions naturally\n`
-    prompt += `- Request dice rolls when appropriate\n`
+    if (useTools) {
+      prompt += `- Roll for NPCs and monsters with roll_dice; ask players to roll their own (e.g. "/roll 1d20+3"); never invent dice results\n`
+    } else {
+      prompt += `- When a roll is needed, ask the player to roll it (e.g. "/roll 1d20+3"); never invent dice results\n`
+    }
     prompt += `- Stay consistent with established facts\n`
     prompt += `- Keep narrative concise (2-3 paragraphs)\n\n`
 
+    if (useTools) {
+      prompt += this.buildToolGuide()
+      return prompt
+    }
+
     // Movement detection guide
     prompt += `Movement Detection Guide:\n`
     prompt += `Keywords that indicate movement: charge, rush, attack, approach, move to, walk to, flee, retreat, investigate, examine, talk to\n\n`
@@ -383,6 +721,44 @@ export class OpenAIService {
     return prompt
   }
 
+  /**
+   * Tool usage guide; replaces the movement detection guide when tools are available
+   */
+  private buildToolGuide(): string {
+    let guide = `Tools:\n`
+    guide += `- roll_dice: roll for NPCs, monsters and hidden checks (players roll their own with /roll)\n`
+    guide += `- search_knowledge: look up campaign lore before describing people, places or items you are unsure about\n`
+    guide += `- get_character_stats: check a character's abilities, HP, AC, conditions and speed before resolving an action\n`
+    guide += `- propose_movement: call whenever a character moves or must move to act (charge, approach, flee, investigate, talk to).\n`
+    guide += `  Pick targetPosition from the spatial context:\n`
+    guide += `   - MELEE (attack/charge): 1.5m from target\n`
+    guide += `   - RANGED: 10-18m from target\n`
+    guide += `   - SPELL: 5-9m from target\n`
+    guide += `   - CONVERSATION (talk to): 2-6m from target\n`
+    guide += `   - PERCEPTION (investigate): 1m from feature\n`
+    guide += `  The result says whether the move is possible; if it is blocked or too far, narrate that instead.\n`
+    guide += `- resolve_area_effect: call before narrating any area spell or effect; only the characters it returns are hit.\n`
+    guide += `- interact_with_feature: call when a character opens, closes, unlocks, picks, forces or uses a door or chest;\n`
+    guide += `  narrate the check and state it returns. set_feature_state changes one without a roll.\n`
+    guide += `- take_item: call when a character takes something from an open container.\n\n`
+    guide += `REMEMBER: Always finish with a valid JSON object containing the "narrative" field!\n\n`
+    return guide
+  }
+
+  /**
+   * Build the full message list (system prompt + history) for enhanced requests
+   */
+  private buildEnhancedMessages(
+    context: EnhancedAIContext,
+    userInput: string,
+    useTools: boolean = false
+  ): LLMMessage[] {
+    return [
+      { role: 'system', content: this.buildEnhancedSystemPrompt(context, useTools) },
+      ...this.buildEnhancedMessageHistory(context, userInput),
+    ]
+  }
+
   /**
    * Build message history using enhanced context
    */
@@ -405,14 +781,14 @@ export class OpenAIService {
     for (const msg of recentMessages) {
       messages.push({
         role: msg.role === 'USER' ? 'user' : 'assistant',
-        content: msg.content,
+        content: msg.role === 'USER' && msg.speaker ? `[${msg.speaker}]: ${msg.content}` : msg.content,
       })
     }
 
-    // Add current user input
+    // Add current user input, labelled with the acting character
     messages.push({
       role: 'user',
-      content: userInput,
+      content: context.characterName ? `[${context.characterName}]: ${userInput}` : userInput,
     })
 
     return messages
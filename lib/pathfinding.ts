@@ -0,0 +1,425 @@
+/**
+ * Grid-based A* pathfinding inside a location
+ * The floor is split into square cells; a cell is impassable when its centre
+ * lies inside a movement-blocking feature. The cell route is then smoothed into
+ * straight legs that clear every obstacle, so the waypoints are what a
+ * character would actually walk and the distance is the true walking distance.
+ * Terrain areas multiply the cost of moving through them, so the cheapest
+ * route may go around difficult ground rather than straight across it.
+ */
+
+import { Position3D } from '@/types'
+
+const DEFAULT_CELL_SIZE = 0.5 // meters
+const MAX_CELLS = 250000 // Larger maps get coarser cells
+const SQRT2 = Math.SQRT2
+const TERRAIN_SAMPLE_STEP = 0.25 // meters between terrain samples along a leg
+
+export type PathBounds = {
+  minX: number
+  maxX: number
+  minY: number
+  maxY: number
+}
+
+// Footprint of a movement-blocking feature on the floor
+export type PathObstacle = PathBounds & {
+  name: string
+}
+
+// Floor area that costs `cost` times the distance to cross (Infinity = impassable)
+export type PathTerrain = PathBounds & {
+  name: string
+  cost: number
+}
+
+export type PathfindingOptions = {
+  cellSize?: number
+  terrain?: PathTerrain[]
+  measure?: (from: Position3D, to: Position3D) => number // Leg length; straight line by default
+}
+
+export type PathResult = {
+  waypoints: Position3D[] // Starts at `start`, ends at `goal`
+  distance: number
+  cost: number // Movement spent: the distance priced by the terrain crossed
+}
+
+type Grid = {
+  bounds: PathBounds
+  cellSize: number
+  cols: number
+  rows: number
+  blocked: Uint8Array
+  costs: Float32Array // Terrain multiplier per cell; 0 = open ground
+}
+
+/**
+ * Find the cheapest walkable route from start to goal, or null when there is none
+ * Obstacles the start point is already inside are ignored so a character can step out of them;
+ * impassable terrain counts as an obstacle
+ */
+export function findPath(
+  start: Position3D,
+  goal: Position3D,
+  bounds: PathBounds,
+  obstacles: PathObstacle[],
+  options: PathfindingOptions = {}
+): PathResult | null {
+  if (!containsPoint(bounds, start) || !containsPoint(bounds, goal)) {
+    return null
+  }
+
+  const terrain = options.terrain || []
+  const measure = options.measure || straightLine
+  const solid = [...obstacles, ...terrain.filter((t) => t.cost === Infinity)].filter(
+    (o) => !containsPoint(o, start)
+  )
+  if (solid.some((o) => containsPoint(o, goal))) {
+    return null
+  }
+  const priced = terrain.filter((t) => Number.isFinite(t.cost) && t.cost !== 1)
+
+  // Most moves are unobstructed
+  if (isSegmentClear(start, goal, solid) && isSegmentClear(start, goal, priced)) {
+    return toResult([start, goal], priced, measure)
+  }
+
+  const grid = buildGrid(bounds, solid, priced, options.cellSize || DEFAULT_CELL_SIZE)
+  const startCell = cellAt(grid, start)
+  const goalCell = cellAt(grid, goal)
+  grid.blocked[startCell] = 0
+  grid.blocked[goalCell] = 0
+
+  const minCost = Math.min(1, ...priced.map((t) => t.cost))
+  const cells = searchGrid(grid, startCell, goalCell, minCost)
+  if (!cells) {
+    return null
+  }
+
+  const points = cells.map((cell) => cellCentre(grid, cell, start.z))
+  points[0] = start
+  points[points.length - 1] = goal
+
+  return toResult(smoothPath(points, solid, priced), priced, measure)
+}
+
+/**
+ * Check whether a straight floor segment clears every obstacle
+ */
+export function isSegmentClear(from: Position3D, to: Position3D, obstacles: PathObstacle[]): boolean {
+  return !obstacles.some((obstacle) => segmentIntersectsRect(from, to, obstacle))
+}
+
+function toResult(
+  waypoints: Position3D[],
+  terrain: PathTerrain[],
+  measure: (from: Position3D, to: Position3D) => number
+): PathResult {
+  let distance = 0
+  let cost = 0
+  for (let i = 1; i < waypoints.length; i++) {
+    const a = waypoints[i - 1]
+    const b = waypoints[i]
+    const length = measure(a, b)
+    distance += length
+    cost += length * averageTerrainCost(a, b, terrain)
+  }
+  return { waypoints, distance, cost }
+}
+
+function straightLine(a: Position3D, b: Position3D): number {
+  return Math.sqrt((b.x - a.x) ** 2 + (b.y - a.y) ** 2 + (b.z - a.z) ** 2)
+}
+
+/**
+ * Mean terrain multiplier along a straight leg, sampled at even steps
+ * Where terrain overlaps the most expensive one applies
+ */
+function averageTerrainCost(from: Position3D, to: Position3D, terrain: PathTerrain[]): number {
+  if (terrain.length === 0 || isSegmentClear(from, to, terrain)) {
+    return 1
+  }
+
+  const floorLength = Math.sqrt((to.x - from.x) ** 2 + (to.y - from.y) ** 2)
+  const samples = Math.max(1, Math.ceil(floorLength / TERRAIN_SAMPLE_STEP))
+  let total = 0
+  for (let i = 0; i < samples; i++) {
+    const t = (i + 0.5) / samples
+    total += terrainCostAt({ x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t }, terrain)
+  }
+  return total / samples
+}
+
+/**
+ * Multiplier at a floor point; walking along an area's edge does not count as entering it
+ */
+function terrainCostAt(point: { x: number; y: number }, terrain: PathTerrain[]): number {
+  let cost = 0
+  for (const area of terrain) {
+    if (point.x > area.minX && point.x < area.maxX && point.y > area.minY && point.y < area.maxY) {
+      cost = Math.max(cost, area.cost)
+    }
+  }
+  return cost || 1
+}
+
+/**
+ * Price of a straight leg in straight-line units, used to compare routes while smoothing
+ */
+function legCost(from: Position3D, to: Position3D, terrain: PathTerrain[]): number {
+  return straightLine(from, to) * averageTerrainCost(from, to, terrain)
+}
+
+function containsPoint(rect: PathBounds, point: { x: number; y: number }): boolean {
+  return point.x >= rect.minX && point.x <= rect.maxX && point.y >= rect.minY && point.y <= rect.maxY
+}
+
+/**
+ * Slab test of a 2D segment against an axis-aligned rectangle (edges count as hits)
+ */
+function segmentIntersectsRect(from: Position3D, to: Position3D, rect: PathBounds): boolean {
+  let tmin = 0
+  let tmax = 1
+
+  const axes: Array<[number, number, number, number]> = [
+    [from.x, to.x - from.x, rect.minX, rect.maxX],
+    [from.y, to.y - from.y, rect.minY, rect.maxY],
+  ]
+
+  for (const [origin, dir, min, max] of axes) {
+    if (Math.abs(dir) < 1e-9) {
+      if (origin < min || origin > max) return false
+      continue
+    }
+    const t1 = (min - origin) / dir
+    const t2 = (max - origin) / dir
+    tmin = Math.max(tmin, Math.min(t1, t2))
+    tmax = Math.min(tmax, Math.max(t1, t2))
+    if (tmin > tmax) return false
+  }
+
+  return true
+}
+
+function buildGrid(
+  bounds: PathBounds,
+  obstacles: PathObstacle[],
+  terrain: PathTerrain[],
+  requestedCellSize: number
+): Grid {
+  const width = Math.max(bounds.maxX - bounds.minX, requestedCellSize)
+  const height = Math.max(bounds.maxY - bounds.minY, requestedCellSize)
+
+  let cellSize = requestedCellSize
+  const requestedCells = Math.ceil(width / cellSize) * Math.ceil(height / cellSize)
+  if (requestedCells > MAX_CELLS) {
+    cellSize *= Math.sqrt(requestedCells / MAX_CELLS)
+  }
+
+  const cols = Math.ceil(width / cellSize)
+  const rows = Math.ceil(height / cellSize)
+  const blocked = new Uint8Array(cols * rows)
+  const costs = new Float32Array(cols * rows)
+
+  // Only visit the cells each area can cover
+  const forEachCellIn = (area: PathBounds, visit: (cell: number) => void) => {
+    const c0 = Math.max(0, Math.floor((area.minX - bounds.minX) / cellSize - 0.5))
+    const c1 = Math.min(cols - 1, Math.ceil((area.maxX - bounds.minX) / cellSize - 0.5))
+    const r0 = Math.max(0, Math.floor((area.minY - bounds.minY) / cellSize - 0.5))
+    const r1 = Math.min(rows - 1, Math.ceil((area.maxY - bounds.minY) / cellSize - 0.5))
+
+    for (let r = r0; r <= r1; r++) {
+      for (let c = c0; c <= c1; c++) {
+        const x = bounds.minX + (c + 0.5) * cellSize
+        const y = bounds.minY + (r + 0.5) * cellSize
+        if (containsPoint(area, { x, y })) {
+          visit(r * cols + c)
+        }
+      }
+    }
+  }
+
+  for (const obstacle of obstacles) {
+    forEachCellIn(obstacle, (cell) => {
+      blocked[cell] = 1
+    })
+  }
+  for (const area of terrain) {
+    forEachCellIn(area, (cell) => {
+      costs[cell] = Math.max(costs[cell], area.cost)
+    })
+  }
+
+  return { bounds, cellSize, cols, rows, blocked, costs }
+}
+
+function cellAt(grid: Grid, point: Position3D): number {
+  const c = Math.min(grid.cols - 1, Math.max(0, Math.floor((point.x - grid.bounds.minX) / grid.cellSize)))
+  const r = Math.min(grid.rows - 1, Math.max(0, Math.floor((point.y - grid.bounds.minY) / grid.cellSize)))
+  return r * grid.cols + c
+}
+
+function cellCentre(grid: Grid, cell: number, z: number): Position3D {
+  const c = cell % grid.cols
+  const r = Math.floor(cell / grid.cols)
+  return {
+    x: grid.bounds.minX + (c + 0.5) * grid.cellSize,
+    y: grid.bounds.minY + (r + 0.5) * grid.cellSize,
+    z,
+  }
+}
+
+/**
+ * A* over the grid with 8-way moves; diagonals may not cut blocked corners
+ * A step costs its length times the mean terrain multiplier of the two cells;
+ * `minCost` is the cheapest multiplier, keeping the heuristic admissible
+ * Returns the visited cells from start to goal, or null when unreachable
+ */
+function searchGrid(grid: Grid, startCell: number, goalCell: number, minCost: number): number[] | null {
+  const { cols, rows, blocked, costs } = grid
+  const goalC = goalCell % cols
+  const goalR = Math.floor(goalCell / cols)
+
+  // Octile distance in cell units
+  const heuristic = (cell: number) => {
+    const dc = Math.abs((cell % cols) - goalC)
+    const dr = Math.abs(Math.floor(cell / cols) - goalR)
+    return (Math.max(dc, dr) + (SQRT2 - 1) * Math.min(dc, dr)) * minCost
+  }
+  const multiplier = (cell: number) => costs[cell] || 1
+
+  const cost = new Float64Array(cols * rows).fill(Infinity)
+  const cameFrom = new Int32Array(cols * rows).fill(-1)
+  const closed = new Uint8Array(cols * rows)
+  const open = new MinHeap()
+
+  cost[startCell] = 0
+  open.push(startCell, heuristic(startCell))
+
+  while (open.size > 0) {
+    const current = open.pop()
+    if (current === goalCell) {
+      const cells = [current]
+      while (cells[0] !== startCell) {
+        cells.unshift(cameFrom[cells[0]])
+      }
+      return cells
+    }
+    if (closed[current]) continue
+    closed[current] = 1
+
+    const c = current % cols
+    const r = Math.floor(current / cols)
+
+    for (let dr = -1; dr <= 1; dr++) {
+      for (let dc = -1; dc <= 1; dc++) {
+        if (dr === 0 && dc === 0) continue
+        const nc = c + dc
+        const nr = r + dr
+        if (nc < 0 || nr < 0 || nc >= cols || nr >= rows) continue
+
+        const next = nr * cols + nc
+        if (blocked[next] || closed[next]) continue
+
+        const diagonal = dr !== 0 && dc !== 0
+        if (diagonal && (blocked[r * cols + nc] || blocked[nr * cols + c])) continue
+
+        const stepCost = ((diagonal ? SQRT2 : 1) * (multiplier(current) + multiplier(next))) / 2
+        const nextCost = cost[current] + stepCost
+        if (nextCost < cost[next]) {
+          cost[next] = nextCost
+          cameFrom[next] = current
+          open.push(next, nextCost + heuristic(next))
+        }
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Drop waypoints that can be skipped with a straight leg clear of obstacles
+ * that costs no more than the cell route it replaces
+ */
+function smoothPath(points: Position3D[], obstacles: PathObstacle[], terrain: PathTerrain[]): Position3D[] {
+  // Cost of the cell route from the first point to each point
+  const routeCost = [0]
+  for (let i = 1; i < points.length; i++) {
+    routeCost.push(routeCost[i - 1] + legCost(points[i - 1], points[i], terrain))
+  }
+
+  const smoothed = [points[0]]
+  let anchor = 0
+
+  while (anchor < points.length - 1) {
+    let next = anchor + 1
+    for (let candidate = points.length - 1; candidate > next; candidate--) {
+      if (
+        isSegmentClear(points[anchor], points[candidate], obstacles) &&
+        legCost(points[anchor], points[candidate], terrain) <= routeCost[candidate] - routeCost[anchor] + 1e-6
+      ) {
+        next = candidate
+        break
+      }
+    }
+    smoothed.push(points[next])
+    anchor = next
+  }
+
+  return smoothed
+}
+
+/**
+ * Binary min-heap of cell indices keyed by priority (lazy deletion in the caller)
+ */
+class MinHeap {
+  private cells: number[] = []
+  private priorities: number[] = []
+
+  get size(): number {
+    return this.cells.length
+  }
+
+  push(cell: number, priority: number) {
+    this.cells.push(cell)
+    this.priorities.push(priority)
+    let i = this.cells.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (this.priorities[parent] <= this.priorities[i]) break
+      this.swap(i, parent)
+      i = parent
+    }
+  }
+
+  pop(): number {
+    const top = this.cells[0]
+    const lastCell = this.cells.pop() as number
+    const lastPriority = this.priorities.pop() as number
+
+    if (this.cells.length > 0) {
+      this.cells[0] = lastCell
+      this.priorities[0] = lastPriority
+      let i = 0
+      for (;;) {
+        const left = 2 * i + 1
+        const right = left + 1
+        let smallest = i
+        if (left < this.cells.length && this.priorities[left] < this.priorities[smallest]) smallest = left
+        if (right < this.cells.length && this.priorities[right] < this.priorities[smallest]) smallest = right
+        if (smallest === i) break
+        this.swap(i, smallest)
+        i = smallest
+      }
+    }
+
+    return top
+  }
+
+  private swap(a: number, b: number) {
+    ;[this.cells[a], this.cells[b]] = [this.cells[b], this.cells[a]]
+    ;[this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]]
+  }
+}
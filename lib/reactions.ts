@@ -0,0 +1,79 @@
+/**
+ * Reactions provoked by movement (5e rules)
+ * A creature that leaves a hostile combatant's melee reach provokes an
+ * opportunity attack, which the combatant may take with their reaction.
+ * Moving within reach, or ending the move still in reach, provokes nothing.
+ * Who is hostile, and whether the reaction is still available, is decided by the caller.
+ */
+
+import { GridSettings } from '@/lib/grid'
+import { Position3D } from '@/types'
+
+// Absorb float rounding from distance math
+const REACH_TOLERANCE = 0.01
+
+// Samples taken along a path per reach length
+const SAMPLES_PER_REACH = 4
+
+/**
+ * Melee reach on a location's map
+ * Without a melee rule, reach is one map cell. On square and hex grids reach
+ * covers whole cells, so the 1.5m rule reaches the neighbouring 1.524m cells
+ */
+export function meleeReach(ruleDistance: number | null, grid: GridSettings): number {
+  const reach = ruleDistance ?? grid.gridSize
+  if (grid.gridType === 'NONE') {
+    return reach
+  }
+  return Math.max(1, Math.round(reach / grid.gridSize)) * grid.gridSize
+}
+
+/**
+ * Where a path last stands within reach of a combatant before leaving it,
+ * or null when it never leaves their reach
+ * The path is sampled along each leg, so passing by a combatant counts too
+ */
+export function findReachExit(
+  path: Position3D[],
+  combatant: Position3D,
+  reach: number,
+  measure: (a: Position3D, b: Position3D) => number
+): Position3D | null {
+  if (path.length === 0 || !(reach > 0)) {
+    return null
+  }
+
+  const inReach = (point: Position3D) => measure(point, combatant) <= reach + REACH_TOLERANCE
+  let lastInReach = inReach(path[0]) ? path[0] : null
+
+  for (let i = 1; i < path.length; i++) {
+    const from = path[i - 1]
+    const to = path[i]
+    const length = Math.sqrt((to.x - from.x) ** 2 + (to.y - from.y) ** 2 + (to.z - from.z) ** 2)
+    const steps = Math.max(1, Math.ceil((length * SAMPLES_PER_REACH) / reach))
+
+    for (let step = 1; step <= steps; step++) {
+      const t = step / steps
+      const point = {
+        x: from.x + (to.x - from.x) * t,
+        y: from.y + (to.y - from.y) * t,
+        z: from.z + (to.z - from.z) * t,
+      }
+
+      if (inReach(point)) {
+        lastInReach = point
+      } else if (lastInReach) {
+        return lastInReach
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Movement warning naming the combatants a move provokes
+ */
+export function opportunityAttackWarning(names: string[]): string | undefined {
+  return names.length > 0 ? `Provokes opportunity attacks from ${names.join(', ')}` : undefined
+}
@@ -0,0 +1,206 @@
+/**
+ * In-memory spatial index for a location's features and tokens
+ * A uniform grid over the floor (x, y): every entry is listed in each cell its
+ * bounding box touches, so a query only tests the entries in the cells it
+ * crosses. Heights are checked exactly on the candidates. Built once per turn
+ * from a location snapshot, it answers line of sight, cover and range queries
+ * without going back to the database for every pair of tokens.
+ */
+
+import { Position3D } from '@/types'
+
+export type BoundingBox = {
+  minX: number
+  maxX: number
+  minY: number
+  maxY: number
+  minZ: number
+  maxZ: number
+}
+
+export type IndexEntry<T> = {
+  item: T
+  box: BoundingBox
+}
+
+const PARALLEL_EPSILON = 0.0001
+
+export class SpatialIndex<T> {
+  private readonly cells = new Map<string, number[]>()
+  // Cells holding entries; queries never look beyond them
+  private readonly extent = {
+    minCol: Infinity,
+    maxCol: -Infinity,
+    minRow: Infinity,
+    maxRow: -Infinity,
+  }
+
+  constructor(
+    private readonly entries: Array<IndexEntry<T>>,
+    private readonly cellSize: number
+  ) {
+    if (!(cellSize > 0)) {
+      throw new Error('Spatial index cell size must be positive')
+    }
+
+    for (const entry of entries) {
+      this.extent.minCol = Math.min(this.extent.minCol, this.cellOf(entry.box.minX))
+      this.extent.maxCol = Math.max(this.extent.maxCol, this.cellOf(entry.box.maxX))
+      this.extent.minRow = Math.min(this.extent.minRow, this.cellOf(entry.box.minY))
+      this.extent.maxRow = Math.max(this.extent.maxRow, this.cellOf(entry.box.maxY))
+    }
+    entries.forEach((entry, i) => {
+      for (const key of this.cellsCovering(entry.box)) {
+        const cell = this.cells.get(key)
+        if (cell) cell.push(i)
+        else this.cells.set(key, [i])
+      }
+    })
+  }
+
+  get size(): number {
+    return this.entries.length
+  }
+
+  /**
+   * Entries whose box a segment passes through, in insertion order
+   */
+  alongSegment(start: Position3D, end: Position3D): T[] {
+    return this.collect(this.cellsAlong(start, end), (box) => segmentIntersectsBox(start, end, box))
+  }
+
+  /**
+   * Entries whose box overlaps another box, in insertion order
+   */
+  overlapping(box: BoundingBox): T[] {
+    return this.collect(this.cellsCovering(box), (other) => boxesOverlap(box, other))
+  }
+
+  /**
+   * Entries within `radius` of a point on the floor (a square around it,
+   * whatever the height), in insertion order; callers measure the exact distance
+   */
+  near(point: Position3D, radius: number): T[] {
+    return this.overlapping({
+      minX: point.x - radius,
+      maxX: point.x + radius,
+      minY: point.y - radius,
+      maxY: point.y + radius,
+      minZ: -Infinity,
+      maxZ: Infinity,
+    })
+  }
+
+  private collect(keys: Iterable<string>, test: (box: BoundingBox) => boolean): T[] {
+    const candidates = new Set<number>()
+    for (const key of keys) {
+      for (const i of this.cells.get(key) ?? []) {
+        candidates.add(i)
+      }
+    }
+
+    return [...candidates]
+      .sort((a, b) => a - b)
+      .filter((i) => test(this.entries[i].box))
+      .map((i) => this.entries[i].item)
+  }
+
+  private cellsCovering(box: BoundingBox): string[] {
+    const keys: string[] = []
+    const minCol = Math.max(this.cellOf(box.minX), this.extent.minCol)
+    const maxCol = Math.min(this.cellOf(box.maxX), this.extent.maxCol)
+    const minRow = Math.max(this.cellOf(box.minY), this.extent.minRow)
+    const maxRow = Math.min(this.cellOf(box.maxY), this.extent.maxRow)
+
+    for (let col = minCol; col <= maxCol; col++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        keys.push(`${col},${row}`)
+      }
+    }
+    return keys
+  }
+
+  /**
+   * Cells a segment crosses on the floor, walked cell by cell (Amanatides & Woo)
+   */
+  private cellsAlong(start: Position3D, end: Position3D): string[] {
+    let col = this.cellOf(start.x)
+    let row = this.cellOf(start.y)
+    const endCol = this.cellOf(end.x)
+    const endRow = this.cellOf(end.y)
+    const keys = [`${col},${row}`]
+
+    const dx = end.x - start.x
+    const dy = end.y - start.y
+    const stepCol = Math.sign(dx)
+    const stepRow = Math.sign(dy)
+    // Fraction of the segment until the next column / row boundary, and per cell
+    const deltaX = stepCol !== 0 ? this.cellSize / Math.abs(dx) : Infinity
+    const deltaY = stepRow !== 0 ? this.cellSize / Math.abs(dy) : Infinity
+    let nextX = stepCol !== 0 ? ((stepCol > 0 ? col + 1 : col) * this.cellSize - start.x) / dx : Infinity
+    let nextY = stepRow !== 0 ? ((stepRow > 0 ? row + 1 : row) * this.cellSize - start.y) / dy : Infinity
+
+    // One step per column and row crossed, so rounding can never overshoot the end cell
+    let colSteps = Math.abs(endCol - col)
+    let rowSteps = Math.abs(endRow - row)
+    while (colSteps + rowSteps > 0) {
+      if (rowSteps === 0 || (colSteps > 0 && nextX < nextY)) {
+        col += stepCol
+        nextX += deltaX
+        colSteps--
+      } else {
+        row += stepRow
+        nextY += deltaY
+        rowSteps--
+      }
+      keys.push(`${col},${row}`)
+    }
+
+    return keys
+  }
+
+  private cellOf(coordinate: number): number {
+    return Math.floor(coordinate / this.cellSize)
+  }
+}
+
+/**
+ * Whether a segment passes through (or touches) a box
+ */
+export function segmentIntersectsBox(start: Position3D, end: Position3D, box: BoundingBox): boolean {
+  let tmin = 0
+  let tmax = 1
+
+  const axes: Array<[number, number, number, number]> = [
+    [start.x, end.x - start.x, box.minX, box.maxX],
+    [start.y, end.y - start.y, box.minY, box.maxY],
+    [start.z, end.z - start.z, box.minZ, box.maxZ],
+  ]
+
+  for (const [origin, direction, min, max] of axes) {
+    if (Math.abs(direction) < PARALLEL_EPSILON) {
+      if (origin < min || origin > max) return false
+    } else {
+      const t1 = (min - origin) / direction
+      const t2 = (max - origin) / direction
+      tmin = Math.max(tmin, Math.min(t1, t2))
+      tmax = Math.min(tmax, Math.max(t1, t2))
+    }
+  }
+
+  return tmax >= tmin && tmin <= 1 && tmax >= 0
+}
+
+/**
+ * Whether two boxes overlap (touching counts)
+ */
+export function boxesOverlap(a: BoundingBox, b: BoundingBox): boolean {
+  return (
+    a.minX <= b.maxX &&
+    a.maxX >= b.minX &&
+    a.minY <= b.maxY &&
+    a.maxY >= b.minY &&
+    a.minZ <= b.maxZ &&
+    a.maxZ >= b.minZ
+  )
+}
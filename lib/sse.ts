@@ -0,0 +1,99 @@
+/**
+ * Minimal Server-Sent Events helpers shared by API routes and client pages
+ */
+
+export type ServerSentEvent = {
+  event: string
+  data: string
+}
+
+/**
+ * Encode a named event with a JSON payload in SSE wire format
+ */
+export function encodeSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Turn an async iterable of events into a text/event-stream response body
+ * The events are read to the end even if the client disconnects, so work done
+ * after the last event (such as saving a DM turn) is not lost
+ */
+export function toSSEStream(
+  events: AsyncIterable<{ type: string }>,
+  onError?: (error: unknown) => unknown
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  let connected = true
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!connected) return
+        try {
+          controller.enqueue(encoder.encode(encodeSSE(event, data)))
+        } catch {
+          connected = false
+        }
+      }
+
+      try {
+        for await (const event of events) {
+          const { type, ...payload } = event
+          send(type, payload)
+        }
+      } catch (error) {
+        send('error', onError ? onError(error) : { error: 'Stream failed' })
+      } finally {
+        if (connected) controller.close()
+      }
+    },
+    cancel() {
+      connected = false
+    },
+  })
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+}
+
+/**
+ * Parse an SSE response body on the client (fetch + POST cannot use EventSource)
+ */
+export async function* readSSE(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+
+    let separatorIndex
+    while ((separatorIndex = buffer.indexOf('\n\n')) !== -1) {
+      const rawEvent = buffer.slice(0, separatorIndex)
+      buffer = buffer.slice(separatorIndex + 2)
+
+      let event = 'message'
+      const dataLines: string[] = []
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim()
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).trimStart())
+        }
+      }
+
+      if (dataLines.length > 0) {
+        yield { event, data: dataLines.join('\n') }
+      }
+    }
+  }
+}
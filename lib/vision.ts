@@ -0,0 +1,96 @@
+/**
+ * Light and perception inside a location (5e rules)
+ * - Light: the location's ambient level, raised near light sources: bright light
+ *   within `brightRadius`, dim light out to `dimRadius`
+ * - Blindsight perceives within its range without light
+ * - Otherwise the target must be within vision range and lit; darkvision sees
+ *   darkness as dim light and dim light as bright within its range
+ * Line of sight depends on the location's walls and is decided by the caller.
+ */
+
+import { Position3D } from '@/types'
+
+export type LightLevel = 'DARK' | 'DIM' | 'BRIGHT'
+
+export type Sense = 'sight' | 'darkvision' | 'blindsight'
+
+export type LightSource = {
+  position: Position3D
+  brightRadius: number
+  dimRadius: number // Outer edge of the dim light, measured from the source
+}
+
+// Ranges in location units; null = no limit (vision) or no such sense
+export type Senses = {
+  visionRange: number | null
+  darkvision: number | null
+  blindsight: number | null
+}
+
+export type Perception = {
+  perceived: boolean
+  sense?: Sense
+  obscured: boolean // Lightly obscured (dim light or darkness seen with darkvision)
+}
+
+const LIGHT_ORDER: LightLevel[] = ['DARK', 'DIM', 'BRIGHT']
+
+/**
+ * Light level at a point from the ambient light and the sources that reach it
+ */
+export function lightLevelAt(point: Position3D, ambient: LightLevel, sources: LightSource[]): LightLevel {
+  let level = LIGHT_ORDER.indexOf(ambient)
+
+  for (const source of sources) {
+    const distance = distanceBetween(point, source.position)
+    if (distance <= source.brightRadius) {
+      level = Math.max(level, LIGHT_ORDER.indexOf('BRIGHT'))
+    } else if (distance <= source.dimRadius) {
+      level = Math.max(level, LIGHT_ORDER.indexOf('DIM'))
+    }
+  }
+
+  return LIGHT_ORDER[level]
+}
+
+/**
+ * Whether an observer with the given senses perceives a target lit at `lightLevel`
+ */
+export function perceive(
+  observer: Position3D,
+  target: Position3D,
+  senses: Senses,
+  lightLevel: LightLevel,
+  hasLineOfSight: boolean
+): Perception {
+  const notPerceived: Perception = { perceived: false, obscured: false }
+  if (!hasLineOfSight) {
+    return notPerceived
+  }
+
+  const distance = distanceBetween(observer, target)
+  if (senses.blindsight && distance <= senses.blindsight) {
+    return { perceived: true, sense: 'blindsight', obscured: false }
+  }
+
+  if (senses.visionRange !== null && distance > senses.visionRange) {
+    return notPerceived
+  }
+
+  const inDarkvision = !!senses.darkvision && distance <= senses.darkvision
+  if (lightLevel === 'BRIGHT') {
+    return { perceived: true, sense: 'sight', obscured: false }
+  }
+  if (lightLevel === 'DIM') {
+    return { perceived: true, sense: 'sight', obscured: !inDarkvision }
+  }
+  if (inDarkvision) {
+    return { perceived: true, sense: 'darkvision', obscured: true }
+  }
+
+  return notPerceived
+}
+
+function distanceBetween(a: Position3D, b: Position3D): number {
+  return Math.sqrt((b.x - a.x) ** 2 + (b.y - a.y) ** 2 + (b.z - a.z) ** 2)
+}
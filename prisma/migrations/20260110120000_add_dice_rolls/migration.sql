@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "DiceRoll" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "messageId" TEXT,
+    "characterId" TEXT,
+    "expression" TEXT NOT NULL,
+    "total" INTEGER NOT NULL,
+    "result" JSONB NOT NULL,
+    "breakdown" TEXT NOT NULL,
+    "seed" INTEGER,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DiceRoll_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DiceRoll_sessionId_idx" ON "DiceRoll"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "DiceRoll_messageId_idx" ON "DiceRoll"("messageId");
+
+-- CreateIndex
+CREATE INDEX "DiceRoll_characterId_idx" ON "DiceRoll"("characterId");
+
+-- CreateIndex
+CREATE INDEX "DiceRoll_createdAt_idx" ON "DiceRoll"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "DiceRoll" ADD CONSTRAINT "DiceRoll_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DiceRoll" ADD CONSTRAINT "DiceRoll_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "Message"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DiceRoll" ADD CONSTRAINT "DiceRoll_characterId_fkey" FOREIGN KEY ("characterId") REFERENCES "Character"("id") ON DELETE SET NULL ON UPDATE CASCADE;
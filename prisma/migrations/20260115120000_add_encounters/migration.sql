@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "EncounterStatus" AS ENUM ('ACTIVE', 'ENDED');
+
+-- CreateTable
+CREATE TABLE "Encounter" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "status" "EncounterStatus" NOT NULL DEFAULT 'ACTIVE',
+    "round" INTEGER NOT NULL DEFAULT 1,
+    "turnIndex" INTEGER NOT NULL DEFAULT 0,
+    "summary" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Encounter_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Combatant" (
+    "id" TEXT NOT NULL,
+    "encounterId" TEXT NOT NULL,
+    "characterId" TEXT,
+    "name" TEXT NOT NULL,
+    "isNPC" BOOLEAN NOT NULL DEFAULT false,
+    "initiative" INTEGER NOT NULL,
+    "initiativeBonus" INTEGER NOT NULL DEFAULT 0,
+    "order" INTEGER NOT NULL,
+    "movementRate" DOUBLE PRECISION NOT NULL,
+    "movementUsed" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "isDefeated" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Combatant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Encounter_sessionId_idx" ON "Encounter"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "Encounter_status_idx" ON "Encounter"("status");
+
+-- CreateIndex
+CREATE INDEX "Combatant_encounterId_idx" ON "Combatant"("encounterId");
+
+-- CreateIndex
+CREATE INDEX "Combatant_characterId_idx" ON "Combatant"("characterId");
+
+-- AddForeignKey
+ALTER TABLE "Encounter" ADD CONSTRAINT "Encounter_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Combatant" ADD CONSTRAINT "Combatant_encounterId_fkey" FOREIGN KEY ("encounterId") REFERENCES "Encounter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Combatant" ADD CONSTRAINT "Combatant_characterId_fkey" FOREIGN KEY ("characterId") REFERENCES "Character"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Character" ADD COLUMN     "maxHp" INTEGER NOT NULL DEFAULT 10,
+ADD COLUMN     "currentHp" INTEGER NOT NULL DEFAULT 10,
+ADD COLUMN     "tempHp" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "armorClass" INTEGER NOT NULL DEFAULT 10,
+ADD COLUMN     "deathSaveSuccesses" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "deathSaveFailures" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "CharacterCondition" (
+    "id" TEXT NOT NULL,
+    "characterId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "source" TEXT,
+    "remainingRounds" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CharacterCondition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CharacterCondition_characterId_idx" ON "CharacterCondition"("characterId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CharacterCondition_characterId_name_key" ON "CharacterCondition"("characterId", "name");
+
+-- AddForeignKey
+ALTER TABLE "CharacterCondition" ADD CONSTRAINT "CharacterCondition_characterId_fkey" FOREIGN KEY ("characterId") REFERENCES "Character"("id") ON DELETE CASCADE ON UPDATE CASCADE;
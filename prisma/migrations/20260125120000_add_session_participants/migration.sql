@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "characterId" TEXT;
+
+-- CreateTable
+CREATE TABLE "SessionParticipant" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "characterId" TEXT NOT NULL,
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SessionParticipant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SessionParticipant_characterId_idx" ON "SessionParticipant"("characterId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SessionParticipant_sessionId_characterId_key" ON "SessionParticipant"("sessionId", "characterId");
+
+-- CreateIndex
+CREATE INDEX "Message_characterId_idx" ON "Message"("characterId");
+
+-- AddForeignKey
+ALTER TABLE "SessionParticipant" ADD CONSTRAINT "SessionParticipant_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SessionParticipant" ADD CONSTRAINT "SessionParticipant_characterId_fkey" FOREIGN KEY ("characterId") REFERENCES "Character"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_characterId_fkey" FOREIGN KEY ("characterId") REFERENCES "Character"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: existing sessions start with every character of their campaign
+INSERT INTO "SessionParticipant" ("id", "sessionId", "characterId")
+SELECT md5(s."id" || c."id"), s."id", c."id"
+FROM "Session" s
+JOIN "Character" c ON c."campaignId" = s."campaignId";
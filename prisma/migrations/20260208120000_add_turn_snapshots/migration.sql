@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "discardedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "TurnSnapshot" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "sessionState" JSONB,
+    "positions" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TurnSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TurnSnapshot_messageId_key" ON "TurnSnapshot"("messageId");
+
+-- CreateIndex
+CREATE INDEX "TurnSnapshot_sessionId_idx" ON "TurnSnapshot"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "Message_discardedAt_idx" ON "Message"("discardedAt");
+
+-- AddForeignKey
+ALTER TABLE "TurnSnapshot" ADD CONSTRAINT "TurnSnapshot_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TurnSnapshot" ADD CONSTRAINT "TurnSnapshot_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "Message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "GridType" AS ENUM ('NONE', 'SQUARE', 'HEX');
+
+-- CreateEnum
+CREATE TYPE "DiagonalRule" AS ENUM ('UNIFORM', 'ALTERNATING', 'EUCLIDEAN');
+
+-- AlterTable
+ALTER TABLE "Location" ADD COLUMN     "gridType" "GridType" NOT NULL DEFAULT 'NONE',
+ADD COLUMN     "gridSize" DOUBLE PRECISION NOT NULL DEFAULT 1.524,
+ADD COLUMN     "diagonalRule" "DiagonalRule" NOT NULL DEFAULT 'UNIFORM';
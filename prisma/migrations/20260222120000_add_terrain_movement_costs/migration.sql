@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "MovementMode" AS ENUM ('WALK', 'SWIM', 'CLIMB', 'FLY');
+
+-- AlterTable
+ALTER TABLE "LocationFeature" ADD COLUMN     "movementCost" DOUBLE PRECISION NOT NULL DEFAULT 1,
+ADD COLUMN     "movementMode" "MovementMode" NOT NULL DEFAULT 'WALK';
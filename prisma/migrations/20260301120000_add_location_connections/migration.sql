@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "ConnectionType" AS ENUM ('DOOR', 'STAIRS', 'PASSAGE', 'PATH', 'PORTAL');
+
+-- CreateTable
+CREATE TABLE "LocationConnection" (
+    "id" TEXT NOT NULL,
+    "fromLocationId" TEXT NOT NULL,
+    "toLocationId" TEXT NOT NULL,
+    "featureId" TEXT,
+    "type" "ConnectionType" NOT NULL DEFAULT 'PASSAGE',
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "fromX" DOUBLE PRECISION NOT NULL,
+    "fromY" DOUBLE PRECISION NOT NULL,
+    "fromZ" DOUBLE PRECISION NOT NULL,
+    "toX" DOUBLE PRECISION NOT NULL,
+    "toY" DOUBLE PRECISION NOT NULL,
+    "toZ" DOUBLE PRECISION NOT NULL,
+    "bidirectional" BOOLEAN NOT NULL DEFAULT true,
+    "travelDistance" DOUBLE PRECISION,
+    "travelTime" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LocationConnection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LocationConnection_fromLocationId_idx" ON "LocationConnection"("fromLocationId");
+
+-- CreateIndex
+CREATE INDEX "LocationConnection_toLocationId_idx" ON "LocationConnection"("toLocationId");
+
+-- AddForeignKey
+ALTER TABLE "LocationConnection" ADD CONSTRAINT "LocationConnection_fromLocationId_fkey" FOREIGN KEY ("fromLocationId") REFERENCES "Location"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LocationConnection" ADD CONSTRAINT "LocationConnection_toLocationId_fkey" FOREIGN KEY ("toLocationId") REFERENCES "Location"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LocationConnection" ADD CONSTRAINT "LocationConnection_featureId_fkey" FOREIGN KEY ("featureId") REFERENCES "LocationFeature"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "LightLevel" AS ENUM ('DARK', 'DIM', 'BRIGHT');
+
+-- AlterTable
+ALTER TABLE "Character" ADD COLUMN     "visionRange" DOUBLE PRECISION,
+ADD COLUMN     "darkvision" DOUBLE PRECISION,
+ADD COLUMN     "blindsight" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "Location" ADD COLUMN     "ambientLight" "LightLevel" NOT NULL DEFAULT 'BRIGHT';
+
+-- AlterTable
+ALTER TABLE "LocationFeature" ADD COLUMN     "brightLight" DOUBLE PRECISION,
+ADD COLUMN     "dimLight" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "RevealedFeature" (
+    "id" TEXT NOT NULL,
+    "characterId" TEXT NOT NULL,
+    "featureId" TEXT NOT NULL,
+    "revealedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RevealedFeature_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RevealedFeature_characterId_featureId_key" ON "RevealedFeature"("characterId", "featureId");
+
+-- CreateIndex
+CREATE INDEX "RevealedFeature_featureId_idx" ON "RevealedFeature"("featureId");
+
+-- AddForeignKey
+ALTER TABLE "RevealedFeature" ADD CONSTRAINT "RevealedFeature_characterId_fkey" FOREIGN KEY ("characterId") REFERENCES "Character"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RevealedFeature" ADD CONSTRAINT "RevealedFeature_featureId_fkey" FOREIGN KEY ("featureId") REFERENCES "LocationFeature"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,63 @@
+-- CreateEnum
+CREATE TYPE "MovementSuggestionStatus" AS ENUM ('PENDING', 'APPLIED', 'REJECTED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "MovementSuggestion" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "characterId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "messageId" TEXT,
+    "proposedById" TEXT,
+    "resolvedById" TEXT,
+    "fromX" DOUBLE PRECISION NOT NULL,
+    "fromY" DOUBLE PRECISION NOT NULL,
+    "fromZ" DOUBLE PRECISION NOT NULL,
+    "toX" DOUBLE PRECISION NOT NULL,
+    "toY" DOUBLE PRECISION NOT NULL,
+    "toZ" DOUBLE PRECISION NOT NULL,
+    "path" JSONB,
+    "distance" DOUBLE PRECISION NOT NULL,
+    "movementCost" DOUBLE PRECISION,
+    "actionType" TEXT NOT NULL,
+    "targetName" TEXT,
+    "reason" TEXT NOT NULL,
+    "isValid" BOOLEAN NOT NULL,
+    "validationIssues" JSONB,
+    "status" "MovementSuggestionStatus" NOT NULL DEFAULT 'PENDING',
+    "resolutionNote" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MovementSuggestion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MovementSuggestion_sessionId_status_idx" ON "MovementSuggestion"("sessionId", "status");
+
+-- CreateIndex
+CREATE INDEX "MovementSuggestion_characterId_idx" ON "MovementSuggestion"("characterId");
+
+-- CreateIndex
+CREATE INDEX "MovementSuggestion_messageId_idx" ON "MovementSuggestion"("messageId");
+
+-- CreateIndex
+CREATE INDEX "MovementSuggestion_createdAt_idx" ON "MovementSuggestion"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "MovementSuggestion" ADD CONSTRAINT "MovementSuggestion_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MovementSuggestion" ADD CONSTRAINT "MovementSuggestion_characterId_fkey" FOREIGN KEY ("characterId") REFERENCES "Character"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MovementSuggestion" ADD CONSTRAINT "MovementSuggestion_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MovementSuggestion" ADD CONSTRAINT "MovementSuggestion_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "Message"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MovementSuggestion" ADD CONSTRAINT "MovementSuggestion_proposedById_fkey" FOREIGN KEY ("proposedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MovementSuggestion" ADD CONSTRAINT "MovementSuggestion_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "MovementSource" AS ENUM ('MOVE', 'TRAVEL', 'PLACE', 'REWIND');
+
+-- CreateTable
+CREATE TABLE "MovementEvent" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT,
+    "characterId" TEXT NOT NULL,
+    "messageId" TEXT,
+    "suggestionId" TEXT,
+    "source" "MovementSource" NOT NULL,
+    "fromLocationId" TEXT,
+    "fromX" DOUBLE PRECISION,
+    "fromY" DOUBLE PRECISION,
+    "fromZ" DOUBLE PRECISION,
+    "toLocationId" TEXT,
+    "toX" DOUBLE PRECISION NOT NULL,
+    "toY" DOUBLE PRECISION NOT NULL,
+    "toZ" DOUBLE PRECISION NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MovementEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MovementEvent_sessionId_createdAt_idx" ON "MovementEvent"("sessionId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "MovementEvent_characterId_createdAt_idx" ON "MovementEvent"("characterId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "MovementEvent_messageId_idx" ON "MovementEvent"("messageId");
+
+-- AddForeignKey
+ALTER TABLE "MovementEvent" ADD CONSTRAINT "MovementEvent_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MovementEvent" ADD CONSTRAINT "MovementEvent_characterId_fkey" FOREIGN KEY ("characterId") REFERENCES "Character"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MovementEvent" ADD CONSTRAINT "MovementEvent_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "Message"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MovementEvent" ADD CONSTRAINT "MovementEvent_suggestionId_fkey" FOREIGN KEY ("suggestionId") REFERENCES "MovementSuggestion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
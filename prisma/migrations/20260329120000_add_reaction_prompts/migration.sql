@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "ReactionTrigger" AS ENUM ('OPPORTUNITY_ATTACK');
+
+-- CreateEnum
+CREATE TYPE "ReactionStatus" AS ENUM ('PENDING', 'USED', 'DECLINED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "Combatant" ADD COLUMN     "isHostile" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "reactionUsed" BOOLEAN NOT NULL DEFAULT false;
+
+-- Monsters and GM-controlled characters already in a fight are its foes
+UPDATE "Combatant" SET "isHostile" = true
+WHERE "characterId" IS NULL
+   OR "characterId" IN (SELECT "id" FROM "Character" WHERE "ownerId" IS NULL);
+
+-- CreateTable
+CREATE TABLE "ReactionPrompt" (
+    "id" TEXT NOT NULL,
+    "encounterId" TEXT NOT NULL,
+    "combatantId" TEXT NOT NULL,
+    "triggeredById" TEXT NOT NULL,
+    "suggestionId" TEXT,
+    "trigger" "ReactionTrigger" NOT NULL,
+    "round" INTEGER NOT NULL,
+    "x" DOUBLE PRECISION NOT NULL,
+    "y" DOUBLE PRECISION NOT NULL,
+    "z" DOUBLE PRECISION NOT NULL,
+    "status" "ReactionStatus" NOT NULL DEFAULT 'PENDING',
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReactionPrompt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReactionPrompt_encounterId_status_idx" ON "ReactionPrompt"("encounterId", "status");
+
+-- CreateIndex
+CREATE INDEX "ReactionPrompt_combatantId_idx" ON "ReactionPrompt"("combatantId");
+
+-- AddForeignKey
+ALTER TABLE "ReactionPrompt" ADD CONSTRAINT "ReactionPrompt_encounterId_fkey" FOREIGN KEY ("encounterId") REFERENCES "Encounter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReactionPrompt" ADD CONSTRAINT "ReactionPrompt_combatantId_fkey" FOREIGN KEY ("combatantId") REFERENCES "Combatant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReactionPrompt" ADD CONSTRAINT "ReactionPrompt_triggeredById_fkey" FOREIGN KEY ("triggeredById") REFERENCES "Combatant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReactionPrompt" ADD CONSTRAINT "ReactionPrompt_suggestionId_fkey" FOREIGN KEY ("suggestionId") REFERENCES "MovementSuggestion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,83 @@
+-- CreateEnum
+CREATE TYPE "TriggerEvent" AS ENUM ('ENTER', 'PROXIMITY', 'INTERACT');
+
+-- CreateEnum
+CREATE TYPE "TriggerOutcome" AS ENUM ('DETECTED', 'TRIGGERED', 'SAVED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "Ability" AS ENUM ('STR', 'DEX', 'CON', 'INT', 'WIS', 'CHA');
+
+-- AlterEnum
+ALTER TYPE "MovementSource" ADD VALUE 'TELEPORT';
+
+-- CreateTable
+CREATE TABLE "FeatureTrigger" (
+    "id" TEXT NOT NULL,
+    "featureId" TEXT NOT NULL,
+    "event" "TriggerEvent" NOT NULL,
+    "radius" DOUBLE PRECISION,
+    "detectionDc" INTEGER,
+    "saveAbility" "Ability",
+    "saveDc" INTEGER,
+    "halfDamageOnSave" BOOLEAN NOT NULL DEFAULT true,
+    "damageDice" TEXT,
+    "damageType" TEXT,
+    "condition" TEXT,
+    "conditionRounds" INTEGER,
+    "teleportLocationId" TEXT,
+    "teleportX" DOUBLE PRECISION,
+    "teleportY" DOUBLE PRECISION,
+    "teleportZ" DOUBLE PRECISION,
+    "isArmed" BOOLEAN NOT NULL DEFAULT true,
+    "rearms" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FeatureTrigger_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TriggerActivation" (
+    "id" TEXT NOT NULL,
+    "triggerId" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "characterId" TEXT NOT NULL,
+    "suggestionId" TEXT,
+    "event" "TriggerEvent" NOT NULL,
+    "outcome" "TriggerOutcome" NOT NULL,
+    "saveTotal" INTEGER,
+    "damage" INTEGER,
+    "condition" TEXT,
+    "teleportLocationId" TEXT,
+    "summary" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TriggerActivation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FeatureTrigger_featureId_idx" ON "FeatureTrigger"("featureId");
+
+-- CreateIndex
+CREATE INDEX "TriggerActivation_sessionId_createdAt_idx" ON "TriggerActivation"("sessionId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "TriggerActivation_triggerId_idx" ON "TriggerActivation"("triggerId");
+
+-- AddForeignKey
+ALTER TABLE "FeatureTrigger" ADD CONSTRAINT "FeatureTrigger_featureId_fkey" FOREIGN KEY ("featureId") REFERENCES "LocationFeature"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeatureTrigger" ADD CONSTRAINT "FeatureTrigger_teleportLocationId_fkey" FOREIGN KEY ("teleportLocationId") REFERENCES "Location"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TriggerActivation" ADD CONSTRAINT "TriggerActivation_triggerId_fkey" FOREIGN KEY ("triggerId") REFERENCES "FeatureTrigger"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TriggerActivation" ADD CONSTRAINT "TriggerActivation_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TriggerActivation" ADD CONSTRAINT "TriggerActivation_characterId_fkey" FOREIGN KEY ("characterId") REFERENCES "Character"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TriggerActivation" ADD CONSTRAINT "TriggerActivation_suggestionId_fkey" FOREIGN KEY ("suggestionId") REFERENCES "MovementSuggestion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
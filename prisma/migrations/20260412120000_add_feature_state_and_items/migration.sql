@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "FeatureState" AS ENUM ('OPEN', 'CLOSED', 'LOCKED', 'BROKEN');
+
+-- AlterTable
+ALTER TABLE "LocationFeature" ADD COLUMN     "state" "FeatureState",
+ADD COLUMN     "lockDc" INTEGER,
+ADD COLUMN     "keyItemId" TEXT;
+
+-- Existing doors are closed when they block anything, open otherwise
+UPDATE "LocationFeature" SET "state" = CASE
+    WHEN "blocksMovement" OR "blocksVision" THEN 'CLOSED'::"FeatureState"
+    ELSE 'OPEN'::"FeatureState"
+  END
+WHERE "type" = 'DOOR';
+
+-- CreateTable
+CREATE TABLE "Item" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "featureId" TEXT,
+    "characterId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Item_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Item_campaignId_idx" ON "Item"("campaignId");
+
+-- CreateIndex
+CREATE INDEX "Item_featureId_idx" ON "Item"("featureId");
+
+-- CreateIndex
+CREATE INDEX "Item_characterId_idx" ON "Item"("characterId");
+
+-- AddForeignKey
+ALTER TABLE "LocationFeature" ADD CONSTRAINT "LocationFeature_keyItemId_fkey" FOREIGN KEY ("keyItemId") REFERENCES "Item"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Item" ADD CONSTRAINT "Item_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Item" ADD CONSTRAINT "Item_featureId_fkey" FOREIGN KEY ("featureId") REFERENCES "LocationFeature"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Item" ADD CONSTRAINT "Item_characterId_fkey" FOREIGN KEY ("characterId") REFERENCES "Character"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "NpcDisposition" AS ENUM ('FRIENDLY', 'NEUTRAL', 'HOSTILE');
+
+-- AlterTable
+ALTER TABLE "Combatant" ADD COLUMN     "npcId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Npc" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "knowledgeId" TEXT,
+    "name" TEXT NOT NULL,
+    "kind" TEXT,
+    "statBlock" JSONB,
+    "disposition" "NpcDisposition" NOT NULL DEFAULT 'NEUTRAL',
+    "faction" TEXT,
+    "maxHp" INTEGER NOT NULL DEFAULT 10,
+    "currentHp" INTEGER NOT NULL DEFAULT 10,
+    "armorClass" INTEGER NOT NULL DEFAULT 10,
+    "baseMovementRate" DOUBLE PRECISION NOT NULL DEFAULT 9.0,
+    "locationId" TEXT,
+    "x" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "y" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "z" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "facing" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Npc_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Npc_campaignId_idx" ON "Npc"("campaignId");
+
+-- CreateIndex
+CREATE INDEX "Npc_locationId_idx" ON "Npc"("locationId");
+
+-- CreateIndex
+CREATE INDEX "Npc_knowledgeId_idx" ON "Npc"("knowledgeId");
+
+-- CreateIndex
+CREATE INDEX "Combatant_npcId_idx" ON "Combatant"("npcId");
+
+-- AddForeignKey
+ALTER TABLE "Combatant" ADD CONSTRAINT "Combatant_npcId_fkey" FOREIGN KEY ("npcId") REFERENCES "Npc"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Npc" ADD CONSTRAINT "Npc_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Npc" ADD CONSTRAINT "Npc_knowledgeId_fkey" FOREIGN KEY ("knowledgeId") REFERENCES "CampaignKnowledge"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Npc" ADD CONSTRAINT "Npc_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE SET NULL ON UPDATE CASCADE;
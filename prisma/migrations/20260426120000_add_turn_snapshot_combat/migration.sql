@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TurnSnapshot" ADD COLUMN     "combat" JSONB;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TurnSnapshot" ADD COLUMN     "world" JSONB;
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+// Keep in sync with AUTH_COOKIE in lib/auth.ts (not imported: lib/auth pulls in node:crypto)
+const AUTH_COOKIE = 'rpg_session'
+
+/**
+ * Send logged-out visitors of app pages to the login screen
+ * Only checks that a session cookie exists; API routes do the real authorization
+ */
+export function proxy(request: NextRequest) {
+  if (request.cookies.has(AUTH_COOKIE)) {
+    return NextResponse.next()
+  }
+
+  const loginUrl = new URL('/login', request.url)
+  loginUrl.searchParams.set('next', request.nextUrl.pathname)
+  return NextResponse.redirect(loginUrl)
+}
+
+export const config = {
+  matcher: ['/campaigns/:path*', '/sessions/:path*'],
+}
@@ -0,0 +1,193 @@
+import { prisma } from '@/lib/db'
+import { CampaignRole } from '@/types'
+
+/**
+ * What a caller needs to do with a resource:
+ * - view: any campaign member
+ * - control: the character's owner or the GM (characters only)
+ * - gm: the campaign's GM
+ */
+export type AccessLevel = 'view' | 'control' | 'gm'
+
+export type CampaignAccess = {
+  campaignId: string
+  role: CampaignRole
+}
+
+/**
+ * Authorization checks shared by the API routes
+ * Failures throw "Access denied: ..." (403); missing resources keep their
+ * usual "... not found" errors (404)
+ */
+export class AccessService {
+  /**
+   * Get a user's role in a campaign, or null when they are not a member
+   */
+  async getCampaignRole(userId: string, campaignId: string): Promise<CampaignRole | null> {
+    const membership = await prisma.campaignMember.findUnique({
+      where: { campaignId_userId: { campaignId, userId } },
+      select: { role: true },
+    })
+    return membership?.role ?? null
+  }
+
+  async requireCampaignAccess(
+    userId: string,
+    campaignId: string,
+    level: Exclude<AccessLevel, 'control'> = 'view'
+  ): Promise<CampaignAccess> {
+    const role = await this.getCampaignRole(userId, campaignId)
+
+    if (!role) {
+      throw new Error('Access denied: you are not a member of this campaign')
+    }
+    if (level === 'gm' && role !== 'GM') {
+      throw new Error('Access denied: only the GM can do this')
+    }
+
+    return { campaignId, role }
+  }
+
+  async requireSessionAccess(
+    userId: string,
+    sessionId: string,
+    level: Exclude<AccessLevel, 'control'> = 'view'
+  ): Promise<CampaignAccess> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { campaignId: true },
+    })
+
+    if (!session) {
+      throw new Error('Session not found')
+    }
+
+    return this.requireCampaignAccess(userId, session.campaignId, level)
+  }
+
+  /**
+   * Players may only control their own characters; the GM controls every character
+   */
+  async requireCharacterAccess(
+    userId: string,
+    characterId: string,
+    level: AccessLevel = 'view'
+  ): Promise<CampaignAccess> {
+    const character = await prisma.character.findUnique({
+      where: { id: characterId },
+      select: { campaignId: true, ownerId: true },
+    })
+
+    if (!character) {
+      throw new Error('Character not found')
+    }
+
+    const access = await this.requireCampaignAccess(
+      userId,
+      character.campaignId,
+      level === 'gm' ? 'gm' : 'view'
+    )
+
+    if (level === 'control' && access.role !== 'GM' && character.ownerId !== userId) {
+      throw new Error('Access denied: you do not control this character')
+    }
+
+    return access
+  }
+
+  async requireLocationAccess(
+    userId: string,
+    locationId: string,
+    level: Exclude<AccessLevel, 'control'> = 'view'
+  ): Promise<CampaignAccess> {
+    const location = await prisma.location.findUnique({
+      where: { id: locationId },
+      select: { campaignId: true },
+    })
+
+    if (!location) {
+      throw new Error('Location not found')
+    }
+
+    return this.requireCampaignAccess(userId, location.campaignId, level)
+  }
+
+  async requireKnowledgeAccess(
+    userId: string,
+    knowledgeId: string,
+    level: Exclude<AccessLevel, 'control'> = 'view'
+  ): Promise<CampaignAccess> {
+    const knowledge = await prisma.campaignKnowledge.findUnique({
+      where: { id: knowledgeId },
+      select: { campaignId: true },
+    })
+
+    if (!knowledge) {
+      throw new Error('Knowledge entry not found')
+    }
+
+    return this.requireCampaignAccess(userId, knowledge.campaignId, level)
+  }
+
+  /**
+   * Decide who owns a new or reassigned character
+   * Players always own what they create; the GM may hand a character to any
+   * member or keep it GM-controlled (null)
+   */
+  async resolveCharacterOwner(
+    userId: string,
+    campaignId: string,
+    ownerId?: string | null
+  ): Promise<string | null> {
+    const access = await this.requireCampaignAccess(userId, campaignId)
+
+    if (ownerId === undefined || ownerId === userId) {
+      return userId
+    }
+    if (access.role !== 'GM') {
+      throw new Error('Access denied: only the GM can assign characters to other players')
+    }
+    if (ownerId !== null && !(await this.getCampaignRole(ownerId, campaignId))) {
+      throw new Error('Character owner must be a member of this campaign')
+    }
+
+    return ownerId
+  }
+
+  /**
+   * Decide which character a user may speak for in a session
+   * The GM may act as any character; a player only as their own, and when they
+   * name none their single character in the roster acts implicitly
+   */
+  async authorizeActingCharacter(
+    userId: string,
+    sessionId: string,
+    characterId?: string
+  ): Promise<string | undefined> {
+    const access = await this.requireSessionAccess(userId, sessionId)
+
+    if (characterId) {
+      if (access.role !== 'GM') {
+        await this.requireCharacterAccess(userId, characterId, 'control')
+      }
+      return characterId
+    }
+
+    if (access.role === 'GM') {
+      return undefined
+    }
+
+    const owned = await prisma.sessionParticipant.findMany({
+      where: { sessionId, character: { ownerId: userId } },
+      select: { characterId: true },
+    })
+
+    if (owned.length === 0) {
+      throw new Error('Access denied: you have no character in this session')
+    }
+
+    return owned.length === 1 ? owned[0].characterId : undefined
+  }
+}
+
+export const accessService = new AccessService()
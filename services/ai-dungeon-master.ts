@@ -1,39 +1,206 @@
 import { openaiService } from '@/lib/openai'
 import { rateLimitService } from '@/lib/rate-limit'
 import { prisma } from '@/lib/db'
-import { AIResponse, AIPromptContext } from '@/types'
+import { Prisma } from '@prisma/client'
+import { parseDiceExpression } from '@/lib/dice'
+import { opportunityAttackWarning } from '@/lib/reactions'
+import {
+  AIResponse,
+  AIPromptContext,
+  DMStreamEvent,
+  EnhancedAIContext,
+  MovementSuggestion,
+} from '@/types'
 import { contextBuilderService } from './context-builder'
+import { diceService, RollCommand } from './dice-service'
+import { DMToolkit } from './dm-tools'
+import { encounterService } from './encounter-service'
+import { movementService } from './movement-service'
+import { reactionService } from './reaction-service'
+import { sessionService } from './session-service'
 import { sessionSummarizerService } from './session-summarizer'
 import { costTrackingService } from './cost-tracking'
+import { turnHistoryService } from './turn-history-service'
 
 export class AIDungeonMasterService {
   /**
    * Generate AI response using OPTIMIZED context system
    * This is the new cost-optimized method
+   * `characterId` is the acting character; optional when the roster has one character
    */
-  async generateResponse(sessionId: string, userInput: string): Promise<AIResponse> {
-    // Check rate limit
-    const rateLimitStatus = await rateLimitService.checkRateLimit(sessionId)
-    if (!rateLimitStatus.allowed) {
-      throw new Error(
-        `Rate limit exceeded. Resets at ${rateLimitStatus.resetAt.toISOString()}`
+  async generateResponse(
+    sessionId: string,
+    userInput: string,
+    characterId?: string
+  ): Promise<AIResponse> {
+    const rollCommand = diceService.parseRollCommand(userInput)
+    if (rollCommand) {
+      const { aiResponse } = await this.handleRollCommand(
+        sessionId,
+        userInput,
+        rollCommand,
+        characterId
       )
+      return aiResponse
     }
 
-    // Check session status
-    const session = await prisma.session.findUnique({
-      where: { id: sessionId },
-      select: { status: true },
-    })
+    const { enhancedContext, userMessageId } = await this.prepareTurn(sessionId, userInput, characterId)
+    const toolkit = new DMToolkit(sessionId, enhancedContext)
 
-    if (!session) {
-      throw new Error('Session not found')
+    try {
+      // Generate AI response using enhanced context (uses less tokens)
+      const aiResponse = await openaiService.generateEnhancedStoryResponse(
+        userInput,
+        enhancedContext,
+        toolkit
+      )
+
+      await this.completeTurn(sessionId, userInput, userMessageId, aiResponse, toolkit)
+
+      return aiResponse
+    } catch (error) {
+      await this.abandonTurn(sessionId, userMessageId)
+      throw error
     }
+  }
 
-    if (session.status !== 'ACTIVE') {
-      throw new Error('Session is not active')
+  /**
+   * Streaming variant of generateResponse
+   * Pre-flight checks (rate limit, session status) run before this resolves so
+   * callers can map them to HTTP errors; the returned generator then yields
+   * narrative deltas followed by a single "complete" event
+   */
+  async generateResponseStream(
+    sessionId: string,
+    userInput: string,
+    characterId?: string
+  ): Promise<AsyncGenerator<DMStreamEvent>> {
+    const rollCommand = diceService.parseRollCommand(userInput)
+    if (rollCommand) {
+      const { aiResponse, ...saved } = await this.handleRollCommand(
+        sessionId,
+        userInput,
+        rollCommand,
+        characterId
+      )
+
+      return (async function* (): AsyncGenerator<DMStreamEvent> {
+        yield {
+          type: 'complete',
+          content: aiResponse.content,
+          diceRoll: aiResponse.metadata?.diceRoll,
+          usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+          ...saved,
+        }
+      })()
+    }
+
+    const { enhancedContext, userMessageId } = await this.prepareTurn(sessionId, userInput, characterId)
+    const toolkit = new DMToolkit(sessionId, enhancedContext)
+
+    const completeTurn = this.completeTurn.bind(this)
+    const abandonTurn = this.abandonTurn.bind(this)
+
+    async function* events(): AsyncGenerator<DMStreamEvent> {
+      let saved: { userMessageId: string; assistantMessageId: string }
+      let aiResponse: AIResponse | undefined
+
+      try {
+        for await (const event of openaiService.generateEnhancedStoryStream(
+          userInput,
+          enhancedContext,
+          toolkit
+        )) {
+          if (event.type === 'narrative') {
+            yield { type: 'narrative', delta: event.delta }
+            continue
+          }
+
+          aiResponse = event.response
+        }
+        if (!aiResponse) {
+          throw new Error('The AI response ended without completing')
+        }
+        saved = await completeTurn(sessionId, userInput, userMessageId, aiResponse, toolkit)
+      } catch (error) {
+        await abandonTurn(sessionId, userMessageId)
+        throw error
+      }
+
+      yield {
+        type: 'complete',
+        content: aiResponse.content,
+        movementSuggestion: aiResponse.metadata?.movementSuggestion,
+        usage: {
+          promptTokens: aiResponse.metadata?.promptTokens || 0,
+          completionTokens: aiResponse.metadata?.completionTokens || 0,
+          totalTokens: aiResponse.tokenCount,
+        },
+        userMessageId: saved.userMessageId,
+        assistantMessageId: saved.assistantMessageId,
+      }
+    }
+
+    return events()
+  }
+
+  /**
+   * Discard the latest DM reply and narrate the same player message again
+   */
+  async regenerateLastResponse(sessionId: string): Promise<AIResponse> {
+    const lastTurn = await turnHistoryService.getLastTurn(sessionId)
+    return this.replayTurn(sessionId, lastTurn.id, lastTurn.content, lastTurn.characterId)
+  }
+
+  /**
+   * Replace the latest player message and re-run its turn
+   */
+  async editLastMessage(
+    sessionId: string,
+    messageId: string,
+    content: string
+  ): Promise<AIResponse> {
+    const lastTurn = await turnHistoryService.getLastTurn(sessionId)
+    if (lastTurn.id !== messageId) {
+      throw new Error('Only the latest player message can be edited')
     }
 
+    return this.replayTurn(sessionId, lastTurn.id, content, lastTurn.characterId)
+  }
+
+  /**
+   * Roll back a turn and play it again with the given player message
+   * Pre-flight checks run first, and a turn that fails to generate puts the old one back
+   */
+  private async replayTurn(
+    sessionId: string,
+    messageId: string,
+    userInput: string,
+    characterId: string | null
+  ): Promise<AIResponse> {
+    await this.assertWithinRateLimit(sessionId)
+    await this.assertSessionActive(sessionId)
+
+    return turnHistoryService.replay(sessionId, messageId, () =>
+      this.generateResponse(sessionId, userInput, characterId ?? undefined)
+    )
+  }
+
+  /**
+   * Run pre-flight checks, build the optimized context for a turn and save the
+   * player message with the snapshot the turn can be undone to
+   * The snapshot is taken before the DM tools run, so undoing the turn also
+   * undoes what they changed
+   */
+  private async prepareTurn(
+    sessionId: string,
+    userInput: string,
+    characterId?: string
+  ): Promise<{ enhancedContext: EnhancedAIContext; userMessageId: string }> {
+    await this.assertWithinRateLimit(sessionId)
+    await this.assertSessionActive(sessionId)
+    const actingCharacter = await sessionService.resolveActingCharacter(sessionId, characterId)
+
     // Check cost budget before proceeding
     const budgetCheck = await costTrackingService.checkSessionBudget(sessionId)
     if (budgetCheck.warningLevel === 'critical') {
@@ -42,95 +209,185 @@ export class AIDungeonMasterService {
     }
 
     // Build optimized context using new context builder
+    // (before the player message is saved, so the history does not hold it twice)
     const enhancedContext = await contextBuilderService.buildContext(
       sessionId,
-      userInput
-    )
-
-    // Generate AI response using enhanced context (uses less tokens)
-    const aiResponse = await openaiService.generateEnhancedStoryResponse(
       userInput,
-      enhancedContext
+      actingCharacter?.id
     )
 
-    // Validate movement suggestion if present
-    if (aiResponse.metadata?.movementSuggestion) {
-      const suggestion = aiResponse.metadata.movementSuggestion
-      const { spatialService } = await import('./spatial-service')
+    // Save user message, attributed to the acting character
+    const userMessage = await prisma.message.create({
+      data: {
+        sessionId,
+        role: 'USER',
+        characterId: actingCharacter?.id,
+        content: userInput,
+      },
+    })
+
+    // Remember the state this turn started from so it can be undone
+    await turnHistoryService.captureSnapshot(sessionId, userMessage.id)
+
+    return { enhancedContext, userMessageId: userMessage.id }
+  }
+
+  /**
+   * Undo a turn that failed before its reply was saved, so neither its player
+   * message nor what the DM tools changed is left behind
+   */
+  private async abandonTurn(sessionId: string, userMessageId: string): Promise<void> {
+    try {
+      await turnHistoryService.rewind(sessionId, userMessageId)
+    } catch (error) {
+      console.error('Failed to undo an unfinished turn:', error)
+    }
+  }
 
-      // Validate the suggested movement
-      const validation = await spatialService.validateMovement(
-        suggestion.from,
-        suggestion.to,
-        suggestion.locationId
+  private async assertWithinRateLimit(sessionId: string): Promise<void> {
+    const rateLimitStatus = await rateLimitService.checkRateLimit(sessionId)
+    if (!rateLimitStatus.allowed) {
+      throw new Error(
+        `Rate limit exceeded. Resets at ${rateLimitStatus.resetAt.toISOString()}`
       )
+    }
+  }
 
-      // Update the suggestion with validation results
-      suggestion.isValid = validation.isValid
-      suggestion.validationIssues = validation.warnings
-      if (validation.blockedBy) {
-        suggestion.validationIssues = [
-          ...(suggestion.validationIssues || []),
-          `Blocked by: ${validation.blockedBy.join(', ')}`
-        ]
-      }
+  /**
+   * Check that the session exists and is accepting messages
+   */
+  private async assertSessionActive(sessionId: string): Promise<void> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { status: true },
+    })
 
-      // Calculate turn-based movement info
-      if (suggestion.characterId && suggestion.characterId !== 'player') {
-        // Detect if "running" or "charging" from user input/action type
-        const isRunning = suggestion.actionType === 'MELEE' &&
-          (suggestion.reason?.toLowerCase().includes('charge') ||
-            suggestion.reason?.toLowerCase().includes('rush'))
-        const movementModifier = isRunning ? 2.0 : 1.0 // Running = 2x speed
-
-        const turnMovement = await spatialService.calculateTurnMovement(
-          suggestion.characterId,
-          suggestion.distance,
-          movementModifier
-        )
-
-        suggestion.baseMovementRate = turnMovement.baseMovementRate
-        suggestion.canReachInOneTurn = turnMovement.canReachInOneTurn
-        suggestion.turnsRequired = turnMovement.turnsRequired
-        suggestion.movementModifier = turnMovement.movementModifier
-
-        // Add turn-based warnings
-        if (!turnMovement.canReachInOneTurn) {
-          const effectiveSpeed = turnMovement.baseMovementRate * turnMovement.movementModifier
-          const modifierText = turnMovement.movementModifier > 1.0
-            ? ` (${turnMovement.movementModifier}x speed = ${effectiveSpeed}m/turn)`
-            : ''
-
-          const turnWarning = `Cannot reach in one turn (requires ${turnMovement.turnsRequired} turns at ${turnMovement.baseMovementRate}m/turn${modifierText})`
-
-          suggestion.validationIssues = [
-            ...(suggestion.validationIssues || []),
-            turnWarning
-          ]
-        }
-      }
+    if (!session) {
+      throw new Error('Session not found')
     }
 
-    // Save user message
-    await prisma.message.create({
+    if (session.status !== 'ACTIVE') {
+      throw new Error('Session is not active')
+    }
+  }
+
+  /**
+   * Handle a "/roll" chat command without calling the AI
+   * The roll is logged as a SYSTEM message and picked up by the next DM turn,
+   * so it does not count against the rate limit
+   */
+  private async handleRollCommand(
+    sessionId: string,
+    userInput: string,
+    command: RollCommand,
+    characterId?: string
+  ): Promise<{ aiResponse: AIResponse; userMessageId: string; assistantMessageId: string }> {
+    await this.assertSessionActive(sessionId)
+    const actingCharacter = await sessionService.resolveActingCharacter(sessionId, characterId)
+
+    // Reject malformed expressions before anything is saved
+    parseDiceExpression(command.expression)
+
+    const userMessage = await prisma.message.create({
       data: {
         sessionId,
         role: 'USER',
+        characterId: actingCharacter?.id,
         content: userInput,
       },
     })
+    await turnHistoryService.captureSnapshot(sessionId, userMessage.id)
+
+    const roll = await diceService.rollForSession({
+      sessionId,
+      expression: command.expression,
+      characterId: actingCharacter?.id,
+      reason: command.reason,
+      messageId: userMessage.id,
+    })
+    const diceRoll = diceService.toSummary(roll)
+
+    const aiResponse: AIResponse = {
+      content: `${diceRoll.characterName ? `${diceRoll.characterName}: ` : ''}Roll${diceRoll.reason ? ` for ${diceRoll.reason}` : ''}: ${diceRoll.breakdown}`,
+      tokenCount: 0,
+      metadata: {
+        model: 'dice',
+        promptTokens: 0,
+        completionTokens: 0,
+        diceRoll,
+      },
+    }
+
+    const systemMessage = await prisma.message.create({
+      data: {
+        sessionId,
+        role: 'SYSTEM',
+        content: aiResponse.content,
+        tokenCount: 0,
+        metadata: aiResponse.metadata as Prisma.InputJsonValue | undefined,
+      },
+    })
+
+    return {
+      aiResponse,
+      userMessageId: userMessage.id,
+      assistantMessageId: systemMessage.id,
+    }
+  }
+
+  /**
+   * Validate the movement suggestion, persist the reply and update session state
+   */
+  private async completeTurn(
+    sessionId: string,
+    userInput: string,
+    userMessageId: string,
+    aiResponse: AIResponse,
+    toolkit?: DMToolkit
+  ): Promise<{ userMessageId: string; assistantMessageId: string }> {
+    // Movement proposed through the propose_movement tool wins over the JSON field
+    if (toolkit?.movementSuggestion && aiResponse.metadata) {
+      aiResponse.metadata.movementSuggestion = toolkit.movementSuggestion
+    }
+
+    // Validate movement suggestion if present, and record it so it can only be applied or rejected once
+    let recordedSuggestionId: string | undefined
+    const suggestion = aiResponse.metadata?.movementSuggestion
+    if (aiResponse.metadata && suggestion) {
+      await this.validateMovementSuggestion(sessionId, suggestion)
+      if (suggestion.locationId && suggestion.characterId && suggestion.characterId !== 'player') {
+        aiResponse.metadata.movementSuggestion = await movementService.recordSuggestion(sessionId, suggestion)
+        recordedSuggestionId = aiResponse.metadata.movementSuggestion.id
+      }
+    }
 
     // Save assistant message with detailed cost tracking
-    await prisma.message.create({
+    const assistantMessage = await prisma.message.create({
       data: {
         sessionId,
         role: 'ASSISTANT',
         content: aiResponse.content,
         tokenCount: aiResponse.tokenCount,
-        metadata: aiResponse.metadata,
+        metadata: aiResponse.metadata as Prisma.InputJsonValue | undefined,
       },
     })
 
+    // Link dice rolled through the roll_dice tool to the reply that narrates them
+    if (toolkit && toolkit.rollIds.length > 0) {
+      await prisma.diceRoll.updateMany({
+        where: { id: { in: toolkit.rollIds } },
+        data: { messageId: assistantMessage.id },
+      })
+    }
+
+    // Link the recorded movement suggestion to the reply that proposes it
+    if (recordedSuggestionId) {
+      await prisma.movementSuggestion.update({
+        where: { id: recordedSuggestionId },
+        data: { messageId: assistantMessage.id },
+      })
+    }
+
     // Update rate limit
     await rateLimitService.incrementRateLimit(sessionId, aiResponse.tokenCount)
 
@@ -146,7 +403,109 @@ export class AIDungeonMasterService {
       console.error('Background summarization failed:', err)
     })
 
-    return aiResponse
+    return {
+      userMessageId,
+      assistantMessageId: assistantMessage.id,
+    }
+  }
+
+  /**
+   * Validate a movement suggestion and attach turn-based movement info
+   */
+  private async validateMovementSuggestion(
+    sessionId: string,
+    suggestion: MovementSuggestion
+  ): Promise<void> {
+    const { spatialService } = await import('./spatial-service')
+
+    // Validate the suggested movement
+    const validation = await spatialService.validateMovement(
+      suggestion.from,
+      suggestion.to,
+      suggestion.locationId,
+      suggestion.characterId !== 'player' ? suggestion.characterId : undefined
+    )
+
+    // Update the suggestion with validation results, the grid-snapped target and
+    // the route around obstacles
+    if (validation.destination) {
+      suggestion.to = validation.destination
+    }
+    if (validation.path) {
+      suggestion.path = validation.path.waypoints
+      suggestion.distance = validation.path.distance
+      suggestion.movementCost = validation.path.cost
+    }
+    suggestion.isValid = validation.isValid
+    suggestion.validationIssues = validation.warnings
+    if (validation.blockedBy) {
+      suggestion.validationIssues = [
+        ...(suggestion.validationIssues || []),
+        `Blocked by: ${validation.blockedBy.join(', ')}`
+      ]
+    }
+
+    // Calculate turn-based movement info
+    if (suggestion.characterId && suggestion.characterId !== 'player') {
+      // Detect if "running" or "charging" from user input/action type
+      const isRunning = suggestion.actionType === 'MELEE' &&
+        (suggestion.reason?.toLowerCase().includes('charge') ||
+          suggestion.reason?.toLowerCase().includes('rush'))
+      const movementModifier = isRunning ? 2.0 : 1.0 // Running = 2x speed
+
+      const movementCost = suggestion.movementCost ?? suggestion.distance
+      const turnMovement = await spatialService.calculateTurnMovement(
+        suggestion.characterId,
+        movementCost,
+        movementModifier
+      )
+
+      suggestion.baseMovementRate = turnMovement.baseMovementRate
+      suggestion.canReachInOneTurn = turnMovement.canReachInOneTurn
+      suggestion.turnsRequired = turnMovement.turnsRequired
+      suggestion.movementModifier = turnMovement.movementModifier
+
+      // Add turn-based warnings
+      if (!turnMovement.canReachInOneTurn) {
+        const effectiveSpeed = turnMovement.baseMovementRate * turnMovement.movementModifier
+        const modifierText = turnMovement.movementModifier > 1.0
+          ? ` (${turnMovement.movementModifier}x speed = ${effectiveSpeed}m/turn)`
+          : ''
+
+        const turnWarning = `Cannot reach in one turn (requires ${turnMovement.turnsRequired} turns at ${turnMovement.baseMovementRate}m/turn${modifierText})`
+
+        suggestion.validationIssues = [
+          ...(suggestion.validationIssues || []),
+          turnWarning
+        ]
+      }
+
+      // During combat the mover must be the current combatant with budget left
+      const budget = await encounterService.checkMovementBudget(
+        sessionId,
+        suggestion.characterId,
+        movementCost
+      )
+      if (!budget.allowed) {
+        suggestion.isValid = false
+        suggestion.validationIssues = [
+          ...(suggestion.validationIssues || []),
+          budget.reason || 'Not allowed to move right now',
+        ]
+      }
+
+      // Leaving a foe's reach is allowed, but provokes their opportunity attack
+      const provoked = await reactionService.findOpportunityAttacks(
+        sessionId,
+        suggestion.characterId,
+        suggestion.locationId,
+        suggestion.path ?? [suggestion.from, suggestion.to]
+      )
+      const opportunityAttacks = opportunityAttackWarning(provoked.map((reaction) => reaction.name))
+      if (opportunityAttacks) {
+        suggestion.validationIssues = [...(suggestion.validationIssues || []), opportunityAttacks]
+      }
+    }
   }
 
   /**
@@ -172,6 +531,7 @@ export class AIDungeonMasterService {
           },
         },
         messages: {
+          where: { discardedAt: null },
           orderBy: { createdAt: 'desc' },
           take: 10,
         },
@@ -221,7 +581,7 @@ export class AIDungeonMasterService {
         role: 'ASSISTANT',
         content: aiResponse.content,
         tokenCount: aiResponse.tokenCount,
-        metadata: aiResponse.metadata,
+        metadata: aiResponse.metadata as Prisma.InputJsonValue | undefined,
       },
     })
 
@@ -233,9 +593,14 @@ export class AIDungeonMasterService {
 
   async getSessionHistory(sessionId: string, limit: number = 50) {
     return prisma.message.findMany({
-      where: { sessionId },
+      where: { sessionId, discardedAt: null },
       orderBy: { createdAt: 'asc' },
       take: limit,
+      include: {
+        character: {
+          select: { id: true, name: true },
+        },
+      },
     })
   }
 
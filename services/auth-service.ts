@@ -0,0 +1,137 @@
+import { prisma } from '@/lib/db'
+import {
+  generateSessionToken,
+  getRequestToken,
+  hashPassword,
+  hashSessionToken,
+  sessionExpiry,
+  verifyPassword,
+} from '@/lib/auth'
+import { AuthUser, UserRegisterInput } from '@/types'
+import { NextRequest } from 'next/server'
+
+const USER_SELECT = {
+  id: true,
+  email: true,
+  displayName: true,
+} as const
+
+export class AuthService {
+  /**
+   * Create an account and log it in
+   * The very first account becomes GM of every campaign that has no members yet,
+   * so existing installs keep access to their data
+   */
+  async register(input: UserRegisterInput) {
+    const email = input.email.trim().toLowerCase()
+
+    const existing = await prisma.user.findUnique({ where: { email }, select: { id: true } })
+    if (existing) {
+      throw new Error('Email is already registered')
+    }
+
+    const isFirstUser = (await prisma.user.count()) === 0
+
+    const user = await prisma.user.create({
+      data: {
+        email,
+        displayName: input.displayName.trim(),
+        passwordHash: await hashPassword(input.password),
+      },
+      select: USER_SELECT,
+    })
+
+    if (isFirstUser) {
+      const unclaimed = await prisma.campaign.findMany({
+        where: { members: { none: {} } },
+        select: { id: true },
+      })
+      if (unclaimed.length > 0) {
+        await prisma.campaignMember.createMany({
+          data: unclaimed.map((campaign) => ({ campaignId: campaign.id, userId: user.id, role: 'GM' as const })),
+        })
+      }
+    }
+
+    return { user, ...(await this.createLoginSession(user.id)) }
+  }
+
+  /**
+   * Check credentials and start a login session
+   */
+  async login(email: string, password: string) {
+    const user = await prisma.user.findUnique({
+      where: { email: email.trim().toLowerCase() },
+    })
+
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      throw new Error('Invalid email or password')
+    }
+
+    return {
+      user: { id: user.id, email: user.email, displayName: user.displayName },
+      ...(await this.createLoginSession(user.id)),
+    }
+  }
+
+  /**
+   * End the login session behind a token
+   */
+  async logout(token: string) {
+    await prisma.authSession.deleteMany({
+      where: { tokenHash: hashSessionToken(token) },
+    })
+  }
+
+  /**
+   * Resolve the logged-in user for a request, or null
+   */
+  async getCurrentUser(request: NextRequest): Promise<AuthUser | null> {
+    const token = getRequestToken(request)
+    if (!token) return null
+
+    const session = await prisma.authSession.findUnique({
+      where: { tokenHash: hashSessionToken(token) },
+      include: { user: { select: USER_SELECT } },
+    })
+
+    if (!session || session.expiresAt < new Date()) {
+      return null
+    }
+
+    return session.user
+  }
+
+  /**
+   * Like getCurrentUser, but throws "Authentication required" when logged out
+   */
+  async requireUser(request: NextRequest): Promise<AuthUser> {
+    const user = await this.getCurrentUser(request)
+    if (!user) {
+      throw new Error('Authentication required')
+    }
+    return user
+  }
+
+  private async createLoginSession(userId: string) {
+    const token = generateSessionToken()
+    const expiresAt = sessionExpiry()
+
+    // Drop this user's expired sessions while we are here
+    await prisma.authSession.deleteMany({
+      where: { userId, expiresAt: { lt: new Date() } },
+    })
+
+    await prisma.authSession.create({
+      data: {
+        userId,
+        tokenHash: hashSessionToken(token),
+        expiresAt,
+      },
+    })
+
+    return { token, expiresAt }
+  }
+}
+
+export const authService = new AuthService()
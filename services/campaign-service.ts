@@ -1,17 +1,39 @@
 import { prisma } from '@/lib/db'
-import { CampaignCreateInput, CampaignUpdateInput } from '@/types'
+import { CampaignCreateInput, CampaignMemberInput, CampaignRole, CampaignUpdateInput } from '@/types'
+
+const MEMBER_INCLUDE = {
+  user: {
+    select: { id: true, email: true, displayName: true },
+  },
+} as const
 
 export class CampaignService {
-  async createCampaign(data: CampaignCreateInput) {
+  /**
+   * Create a campaign; the creator becomes its GM
+   */
+  async createCampaign(data: CampaignCreateInput, ownerId: string) {
     return prisma.campaign.create({
-      data,
+      data: {
+        ...data,
+        members: {
+          create: { userId: ownerId, role: 'GM' },
+        },
+      },
     })
   }
 
-  async getCampaigns() {
+  /**
+   * Campaigns the user is a member of, with their role
+   */
+  async getCampaigns(userId: string) {
     return prisma.campaign.findMany({
+      where: { members: { some: { userId } } },
       orderBy: { createdAt: 'desc' },
       include: {
+        members: {
+          where: { userId },
+          select: { role: true },
+        },
         _count: {
           select: {
             sessions: true,
@@ -54,6 +76,89 @@ export class CampaignService {
       where: { id },
     })
   }
+
+  async getMembers(campaignId: string) {
+    return prisma.campaignMember.findMany({
+      where: { campaignId },
+      orderBy: { createdAt: 'asc' },
+      include: MEMBER_INCLUDE,
+    })
+  }
+
+  /**
+   * Add a registered user to the campaign (or change their role if already a member)
+   */
+  async addMember(campaignId: string, input: CampaignMemberInput) {
+    const user = await prisma.user.findUnique({
+      where: { email: input.email.trim().toLowerCase() },
+      select: { id: true },
+    })
+
+    if (!user) {
+      throw new Error('User not found')
+    }
+
+    const role = input.role || 'PLAYER'
+    if (role === 'PLAYER') {
+      await this.assertKeepsGM(campaignId, user.id)
+    }
+
+    return prisma.campaignMember.upsert({
+      where: { campaignId_userId: { campaignId, userId: user.id } },
+      update: { role },
+      create: { campaignId, userId: user.id, role },
+      include: MEMBER_INCLUDE,
+    })
+  }
+
+  async updateMemberRole(campaignId: string, userId: string, role: CampaignRole) {
+    if (role === 'PLAYER') {
+      await this.assertKeepsGM(campaignId, userId)
+    }
+
+    const { count } = await prisma.campaignMember.updateMany({
+      where: { campaignId, userId },
+      data: { role },
+    })
+
+    if (count === 0) {
+      throw new Error('Member not found')
+    }
+  }
+
+  /**
+   * Remove a member; characters they owned become GM-controlled
+   */
+  async removeMember(campaignId: string, userId: string) {
+    await this.assertKeepsGM(campaignId, userId)
+
+    const { count } = await prisma.campaignMember.deleteMany({
+      where: { campaignId, userId },
+    })
+
+    if (count === 0) {
+      throw new Error('Member not found')
+    }
+
+    await prisma.character.updateMany({
+      where: { campaignId, ownerId: userId },
+      data: { ownerId: null },
+    })
+  }
+
+  /**
+   * Throw if `userId` is the campaign's only GM
+   */
+  private async assertKeepsGM(campaignId: string, userId: string) {
+    const gms = await prisma.campaignMember.findMany({
+      where: { campaignId, role: 'GM' },
+      select: { userId: true },
+    })
+
+    if (gms.length === 1 && gms[0].userId === userId) {
+      throw new Error('A campaign needs at least one GM')
+    }
+  }
 }
 
 export const campaignService = new CampaignService()
@@ -4,7 +4,11 @@ import { CharacterCreateInput, CharacterUpdateInput } from '@/types'
 export class CharacterService {
   async createCharacter(data: CharacterCreateInput) {
     return prisma.character.create({
-      data,
+      data: {
+        ...data,
+        // New characters start at full health
+        currentHp: data.currentHp ?? data.maxHp,
+      },
     })
   }
 
@@ -1,6 +1,12 @@
 import { prisma } from '@/lib/db'
+import { describeGrid, gridFromLocation } from '@/lib/grid'
 import { EnhancedAIContext, SessionStateContext, SpatialAIContext } from '@/types'
 import { spatialService } from './spatial-service'
+import { diceService } from './dice-service'
+import { encounterService } from './encounter-service'
+import { triggerService } from './trigger-service'
+import { toPartyMemberStatus } from './vitals-service'
+import { worldService } from './world-service'
 
 // Keywords that suggest mechanics are needed
 const MECHANICS_KEYWORDS = {
@@ -19,14 +25,20 @@ export class ContextBuilderService {
    */
   async buildContext(
     sessionId: string,
-    userInput: string
+    userInput: string,
+    characterId?: string
   ): Promise<EnhancedAIContext> {
     const session = await prisma.session.findUnique({
       where: { id: sessionId },
       include: {
         campaign: {
           include: {
-            characters: true,
+            characters: {
+              orderBy: { createdAt: 'asc' },
+              include: {
+                conditions: { orderBy: { createdAt: 'asc' } },
+              },
+            },
             knowledge: true,
             toneProfiles: {
               orderBy: { priority: 'desc' },
@@ -34,6 +46,16 @@ export class ContextBuilderService {
             mechanicsRules: true,
           },
         },
+        participants: {
+          orderBy: { joinedAt: 'asc' },
+          include: {
+            character: {
+              include: {
+                conditions: { orderBy: { createdAt: 'asc' } },
+              },
+            },
+          },
+        },
         state: true,
         summaries: {
           orderBy: { messageRangeEnd: 'desc' },
@@ -44,6 +66,12 @@ export class ContextBuilderService {
           take: 5, // Only last 5 messages instead of 10
           where: {
             role: { not: 'SYSTEM' },
+            discardedAt: null,
+          },
+          include: {
+            character: {
+              select: { name: true },
+            },
           },
         },
       },
@@ -65,6 +93,7 @@ export class ContextBuilderService {
       .map((m) => ({
         role: m.role as 'USER' | 'ASSISTANT',
         content: m.content,
+        speaker: m.character?.name,
       }))
 
     // 4. Get relevant knowledge based on user input and current state
@@ -86,28 +115,72 @@ export class ContextBuilderService {
       userInput
     )
 
-    // 7. Get spatial context if applicable
+    // 7. Resolve the session roster and the acting character
+    // (sessions without a roster are open to the whole campaign)
+    const roster =
+      session.participants.length > 0
+        ? session.participants.map((p) => p.character)
+        : session.campaign.characters
+    const actingCharacter = roster.find((c) => c.id === characterId) || roster[0]
+
+    // 8. Get spatial context for the acting character if applicable
     let spatialContext: SpatialAIContext | undefined
     try {
-      spatialContext = await this.buildSpatialContext(sessionId)
+      spatialContext = await this.buildSpatialContext(sessionId, actingCharacter?.id)
     } catch (error) {
       // Spatial context is optional, continue without it
       console.log('Could not build spatial context:', error)
     }
 
-    // 8. Get character ID (for movement calculations)
-    const characterId = session.campaign.characters[0]?.id
+    // ...and the NPCs they perceive on the map, who are present with their knowledge entries
+    const presentNpcs = await this.findPresentNpcs(spatialContext)
+    const sceneState =
+      presentNpcs.length > 0
+        ? {
+            ...currentState,
+            activeNPCs: Array.from(
+              new Set([...(currentState?.activeNPCs || []), ...presentNpcs.map((npc) => npc.name)])
+            ),
+          }
+        : currentState
+    const npcKnowledge = presentNpcs
+      .flatMap((npc) => (npc.knowledge ? [npc.knowledge] : []))
+      .filter(
+        (entry, index, entries) =>
+          entries.findIndex((other) => other.id === entry.id) === index &&
+          !relevantKnowledge.some((known) => known.title === entry.title)
+      )
+      .map((entry) => ({ title: entry.title, content: entry.content }))
+
+    // 9. Get server-rolled dice results the DM has not narrated yet
+    const diceRolls = await diceService.getUnnarratedRolls(sessionId)
+
+    // ...and traps or hazards that went off since then
+    const triggeredEffects = await triggerService.getUnnarratedActivations(sessionId)
+
+    // 10. Get initiative order if combat is running
+    const encounter = await encounterService.buildEncounterContext(sessionId)
+
+    // 11. Party vitals and conditions
+    const party = roster.map((character) => toPartyMemberStatus(character))
 
     return {
       campaignName: session.campaign.name,
-      characterId,
-      currentState,
+      campaignId: session.campaignId,
+      model: session.campaign.aiModel || undefined,
+      characterId: actingCharacter?.id,
+      characterName: actingCharacter?.name,
+      currentState: sceneState,
       spatialContext,
       recentSummary,
       recentMessages,
-      relevantKnowledge,
+      relevantKnowledge: [...relevantKnowledge, ...npcKnowledge],
       toneGuidelines,
       mechanicsRules: mechanicsRules.length > 0 ? mechanicsRules : undefined,
+      diceRolls: diceRolls.length > 0 ? diceRolls : undefined,
+      triggeredEffects: triggeredEffects.length > 0 ? triggeredEffects : undefined,
+      encounter,
+      party: party.length > 0 ? party : undefined,
     }
   }
 
@@ -126,7 +199,6 @@ export class ContextBuilderService {
       ongoingQuests: Array.isArray(state.ongoingQuests)
         ? state.ongoingQuests
         : undefined,
-      partyConditions: state.partyConditions || undefined,
       recentEvents: Array.isArray(state.recentEvents)
         ? state.recentEvents
         : undefined,
@@ -186,23 +258,43 @@ export class ContextBuilderService {
       return undefined
     }
 
+    const grid = position.location ? gridFromLocation(position.location) : undefined
+    const exits = await worldService.getExits(position.locationId)
+
     return {
       locationName: position.location?.name,
+      grid:
+        grid && position.location
+          ? describeGrid(grid, position.location.unitType === 'feet' ? 'ft' : 'm')
+          : undefined,
       characterPosition: {
         x: position.x,
         y: position.y,
         z: position.z,
       },
+      lightLevel: spatialContext.lightLevel,
       nearbyCharacters: spatialContext.characterPositions.map((char) => ({
+        npcId: char.npcId,
         name: char.name,
         position: char.position,
         distance: char.distance,
         canSee: char.canSee,
         coverLevel: char.coverLevel,
+        perception:
+          char.sense === 'blindsight'
+            ? 'sensed by blindsight'
+            : char.sense === 'darkvision'
+              ? 'seen with darkvision'
+              : char.obscured
+                ? 'seen in dim light'
+                : undefined,
+        disposition: char.disposition,
+        faction: char.faction,
       })),
       nearbyFeatures: spatialContext.nearbyFeatures.map((feature) => ({
         name: feature.name,
         type: feature.type,
+        state: feature.state,
         position: feature.position,
         distance: feature.distance,
       })),
@@ -211,7 +303,29 @@ export class ContextBuilderService {
         targetName: action.targetName,
         requiresMovement: action.requiresMovement,
       })),
+      exits: exits.map((exit) => ({
+        name: exit.name,
+        type: exit.type,
+        destination: exit.destinationName,
+        distance: spatialService.calculateDistance(position, exit.position, grid),
+        travelTime: exit.travelTime,
+      })),
+    }
+  }
+
+  /**
+   * NPC tokens the acting character perceives, with their linked knowledge entries
+   */
+  private async findPresentNpcs(spatialContext?: SpatialAIContext) {
+    const npcIds = (spatialContext?.nearbyCharacters || []).flatMap((char) => (char.npcId ? [char.npcId] : []))
+    if (npcIds.length === 0) {
+      return []
     }
+
+    return await prisma.npc.findMany({
+      where: { id: { in: npcIds } },
+      include: { knowledge: true },
+    })
   }
 
   /**
@@ -439,13 +553,13 @@ export class ContextBuilderService {
     if (!lastSummary) {
       // Count all messages
       return await prisma.message.count({
-        where: { sessionId },
+        where: { sessionId, discardedAt: null },
       })
     }
 
     // Count messages after the last summary
     const totalMessages = await prisma.message.count({
-      where: { sessionId },
+      where: { sessionId, discardedAt: null },
     })
 
     return totalMessages - lastSummary.messageRangeEnd
@@ -0,0 +1,176 @@
+import { prisma } from '@/lib/db'
+import { rollDice } from '@/lib/dice'
+import { DiceRollSummary } from '@/types'
+
+export interface DiceRollCreateInput {
+  sessionId: string
+  expression: string
+  characterId?: string
+  messageId?: string
+  reason?: string
+  seed?: number
+}
+
+export interface RollCommand {
+  expression: string
+  reason?: string
+}
+
+// Max rolls surfaced to the DM model per turn
+const MAX_UNNARRATED_ROLLS = 5
+
+const ROLL_COMMAND_PATTERN = /^\/roll(?:\s+(.*))?$/i
+const EXPRESSION_TOKEN_PATTERN = /^(?=.*[\d+\-%])[\d+\-d%!khl]+$/i
+const MODE_TOKEN_PATTERN = /^(adv|advantage|dis|disadvantage)$/i
+
+type DiceRollRecord = {
+  id: string
+  expression: string
+  total: number
+  breakdown: string
+  reason: string | null
+  character?: { name: string } | null
+}
+
+export class DiceService {
+  /**
+   * Roll a dice expression on the server and record it in the session roll log
+   * Throws "Invalid dice expression: ..." for malformed expressions
+   */
+  async rollForSession(input: DiceRollCreateInput) {
+    const session = await prisma.session.findUnique({
+      where: { id: input.sessionId },
+      select: { campaignId: true },
+    })
+
+    if (!session) {
+      throw new Error('Session not found')
+    }
+
+    if (input.characterId) {
+      const character = await prisma.character.findUnique({
+        where: { id: input.characterId },
+        select: { campaignId: true },
+      })
+
+      if (!character || character.campaignId !== session.campaignId) {
+        throw new Error('Character not found in this campaign')
+      }
+    }
+
+    const result = rollDice(input.expression, { seed: input.seed })
+
+    return await prisma.diceRoll.create({
+      data: {
+        sessionId: input.sessionId,
+        messageId: input.messageId,
+        characterId: input.characterId,
+        expression: result.expression,
+        total: result.total,
+        result: {
+          mode: result.mode,
+          terms: result.terms,
+        },
+        breakdown: result.breakdown,
+        seed: result.seed,
+        reason: input.reason,
+      },
+      include: {
+        character: {
+          select: { name: true },
+        },
+      },
+    })
+  }
+
+  /**
+   * Get the roll log for a session (newest first)
+   */
+  async getSessionRolls(sessionId: string, limit: number = 50) {
+    return await prisma.diceRoll.findMany({
+      where: { sessionId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: {
+        character: {
+          select: { id: true, name: true },
+        },
+      },
+    })
+  }
+
+  /**
+   * Get rolls made since the last DM reply, oldest first
+   * These are the outcomes the next narration has to respect
+   */
+  async getUnnarratedRolls(sessionId: string): Promise<DiceRollSummary[]> {
+    const lastReply = await prisma.message.findFirst({
+      where: { sessionId, role: 'ASSISTANT', discardedAt: null },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    })
+
+    const rolls = await prisma.diceRoll.findMany({
+      where: {
+        sessionId,
+        ...(lastReply && { createdAt: { gt: lastReply.createdAt } }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_UNNARRATED_ROLLS,
+      include: {
+        character: {
+          select: { name: true },
+        },
+      },
+    })
+
+    return rolls.reverse().map((roll) => this.toSummary(roll))
+  }
+
+  /**
+   * Convert a stored roll into the compact shape used by the UI and prompts
+   */
+  toSummary(roll: DiceRollRecord): DiceRollSummary {
+    return {
+      id: roll.id,
+      characterName: roll.character?.name,
+      expression: roll.expression,
+      total: roll.total,
+      breakdown: roll.breakdown,
+      reason: roll.reason || undefined,
+    }
+  }
+
+  /**
+   * Parse a chat command like "/roll 1d20+3 adv stealth check"
+   * Returns null when the input is not a roll command
+   */
+  parseRollCommand(input: string): RollCommand | null {
+    const match = ROLL_COMMAND_PATTERN.exec(input.trim())
+    if (!match) return null
+
+    const tokens = (match[1] || '').split(/\s+/).filter(Boolean)
+    const expressionTokens: string[] = []
+
+    while (
+      tokens.length > 0 &&
+      (EXPRESSION_TOKEN_PATTERN.test(tokens[0]) ||
+        (expressionTokens.length > 0 && MODE_TOKEN_PATTERN.test(tokens[0])))
+    ) {
+      expressionTokens.push(tokens.shift() as string)
+    }
+
+    if (expressionTokens.length === 0) {
+      throw new Error('Invalid dice expression: usage is /roll <expression> [adv|dis] [reason]')
+    }
+
+    const reason = tokens.join(' ').replace(/^for\s+/i, '')
+
+    return {
+      expression: expressionTokens.join(' '),
+      reason: reason || undefined,
+    }
+  }
+}
+
+export const diceService = new DiceService()
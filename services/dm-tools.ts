@@ -0,0 +1,568 @@
+import { prisma } from '@/lib/db'
+import { LLMToolCall, LLMToolDefinition } from '@/lib/llm-provider'
+import { DMToolbox } from '@/lib/openai'
+import { opportunityAttackWarning } from '@/lib/reactions'
+import { DMToolCallLog, EnhancedAIContext, MovementSuggestion, Position3D } from '@/types'
+import { z } from 'zod'
+import { diceService } from './dice-service'
+import { encounterService } from './encounter-service'
+import { featureService } from './feature-service'
+import { knowledgeManagerService } from './knowledge-manager'
+import { reactionService } from './reaction-service'
+import { spatialService } from './spatial-service'
+import { toPartyMemberStatus } from './vitals-service'
+
+const PositionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  z: z.number(),
+})
+
+const RollDiceArgsSchema = z.object({
+  expression: z.string().min(1).max(100),
+  reason: z.string().max(200).optional(),
+  characterName: z.string().optional(),
+})
+
+const SearchKnowledgeArgsSchema = z.object({
+  query: z.string().min(1).max(200),
+})
+
+const CharacterStatsArgsSchema = z.object({
+  characterName: z.string().min(1),
+})
+
+const ProposeMovementArgsSchema = z.object({
+  characterName: z.string().optional(),
+  targetName: z.string().optional(),
+  targetPosition: PositionSchema,
+  actionType: z.enum(['MELEE', 'RANGED', 'SPELL', 'CONVERSATION', 'PERCEPTION', 'CUSTOM', 'MOVEMENT']),
+  reason: z.string().optional(),
+})
+
+const ResolveAreaArgsSchema = z.object({
+  shape: z.enum(['SPHERE', 'CUBE', 'CONE', 'LINE', 'CYLINDER']),
+  size: z.number().positive(),
+  casterName: z.string().optional(),
+  origin: PositionSchema.optional(),
+  targetName: z.string().optional(),
+  towards: PositionSchema.optional(),
+  width: z.number().positive().optional(),
+  height: z.number().positive().optional(),
+})
+
+const InteractArgsSchema = z.object({
+  featureName: z.string().min(1),
+  action: z.enum(['use', 'open', 'close', 'lock', 'unlock', 'force']),
+  characterName: z.string().optional(),
+})
+
+const SetFeatureStateArgsSchema = z.object({
+  featureName: z.string().min(1),
+  state: z.enum(['OPEN', 'CLOSED', 'LOCKED', 'BROKEN']),
+})
+
+const TakeItemArgsSchema = z.object({
+  featureName: z.string().min(1),
+  itemName: z.string().min(1),
+  quantity: z.number().int().min(1).optional(),
+  characterName: z.string().optional(),
+})
+
+const POSITION_PARAMETER = {
+  type: 'object',
+  properties: {
+    x: { type: 'number' },
+    y: { type: 'number' },
+    z: { type: 'number' },
+  },
+  required: ['x', 'y', 'z'],
+}
+
+const DM_TOOL_DEFINITIONS: LLMToolDefinition[] = [
+  {
+    name: 'roll_dice',
+    description:
+      'Roll dice on the server, e.g. "1d20+5", "2d6+3", "1d20 adv", "4d6kh3". ' +
+      'Use for NPC/monster attacks, damage and hidden checks. Returns the exact result.',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: 'Dice expression' },
+        reason: { type: 'string', description: 'What the roll is for' },
+        characterName: { type: 'string', description: 'Player character making the roll, if any' },
+      },
+      required: ['expression'],
+    },
+  },
+  {
+    name: 'search_knowledge',
+    description: 'Search the campaign knowledge base (lore, NPCs, locations, items) by keyword.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Keyword or name to search for' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'get_character_stats',
+    description: "Get a character's race, class, level, ability scores, HP, AC, conditions, speeds and position.",
+    parameters: {
+      type: 'object',
+      properties: {
+        characterName: { type: 'string' },
+      },
+      required: ['characterName'],
+    },
+  },
+  {
+    name: 'propose_movement',
+    description:
+      'Propose moving a character to a position. Validates bounds, obstacles and turn movement, ' +
+      'routes around obstacles and returns whether the move is possible and the walking distance. ' +
+      'Players confirm the move before it is applied.',
+    parameters: {
+      type: 'object',
+      properties: {
+        characterName: { type: 'string', description: 'Defaults to the acting character' },
+        targetName: { type: 'string', description: 'What the character moves towards' },
+        targetPosition: POSITION_PARAMETER,
+        actionType: {
+          type: 'string',
+          enum: ['MELEE', 'RANGED', 'SPELL', 'CONVERSATION', 'PERCEPTION', 'CUSTOM', 'MOVEMENT'],
+        },
+        reason: { type: 'string' },
+      },
+      required: ['targetPosition', 'actionType'],
+    },
+  },
+  {
+    name: 'resolve_area_effect',
+    description:
+      'Find who is caught in an area spell or effect (fireball, burning hands, lightning bolt, ...). ' +
+      'Returns the characters inside with their cover and Dexterity save bonus, the features it reaches, ' +
+      'and who is shielded by walls or total cover. Sizes are in location units: radius for spheres ' +
+      'and cylinders, length for cones and lines, side for cubes.',
+    parameters: {
+      type: 'object',
+      properties: {
+        shape: { type: 'string', enum: ['SPHERE', 'CUBE', 'CONE', 'LINE', 'CYLINDER'] },
+        size: { type: 'number' },
+        casterName: { type: 'string', description: 'Defaults to the acting character' },
+        origin: { ...POSITION_PARAMETER, description: "Point of origin; defaults to the caster's position" },
+        targetName: { type: 'string', description: 'Character or NPC a cone, line or cube is aimed at' },
+        towards: { ...POSITION_PARAMETER, description: 'Point a cone, line or cube is aimed at' },
+        width: { type: 'number', description: 'Line width; defaults to 5ft' },
+        height: { type: 'number', description: 'Cylinder height; defaults to the radius' },
+      },
+      required: ['shape', 'size'],
+    },
+  },
+  {
+    name: 'interact_with_feature',
+    description:
+      'A character acts on a door, chest or other feature within reach: open, close, lock (needs the key), ' +
+      'unlock (with the key, or a DEX check to pick the lock), force (STR check, breaks the lock) or use. ' +
+      'Rolls the check and returns the new state and any traps it set off. Opening a door clears the way ' +
+      'and the line of sight.',
+    parameters: {
+      type: 'object',
+      properties: {
+        featureName: { type: 'string' },
+        action: { type: 'string', enum: ['use', 'open', 'close', 'lock', 'unlock', 'force'] },
+        characterName: { type: 'string', description: 'Defaults to the acting character' },
+      },
+      required: ['featureName', 'action'],
+    },
+  },
+  {
+    name: 'set_feature_state',
+    description:
+      'Change a door or container in the acting character\'s location because of something in the story ' +
+      '(a guard bars the door, the ogre smashes it). No roll is made.',
+    parameters: {
+      type: 'object',
+      properties: {
+        featureName: { type: 'string' },
+        state: { type: 'string', enum: ['OPEN', 'CLOSED', 'LOCKED', 'BROKEN'] },
+      },
+      required: ['featureName', 'state'],
+    },
+  },
+  {
+    name: 'take_item',
+    description: 'A character takes an item from an open container within reach and carries it.',
+    parameters: {
+      type: 'object',
+      properties: {
+        featureName: { type: 'string', description: 'Container to take from' },
+        itemName: { type: 'string' },
+        quantity: { type: 'number', description: 'Defaults to the whole stack' },
+        characterName: { type: 'string', description: 'Defaults to the acting character' },
+      },
+      required: ['featureName', 'itemName'],
+    },
+  },
+]
+
+/**
+ * Session-scoped tools the DM model can call during a turn
+ * Keeps track of side effects (dice rolls, proposed movement) so the
+ * caller can attach them to the saved turn
+ */
+export class DMToolkit implements DMToolbox {
+  readonly definitions = DM_TOOL_DEFINITIONS
+  readonly rollIds: string[] = []
+  movementSuggestion?: MovementSuggestion
+
+  constructor(
+    private readonly sessionId: string,
+    private readonly context: EnhancedAIContext
+  ) {}
+
+  /**
+   * Run a tool call; failures are returned to the model rather than thrown
+   */
+  async execute(call: LLMToolCall): Promise<DMToolCallLog> {
+    let args: Record<string, unknown>
+    try {
+      args = JSON.parse(call.arguments || '{}')
+    } catch {
+      return { name: call.name, arguments: call.arguments, error: 'Arguments must be valid JSON' }
+    }
+
+    try {
+      const result = await this.dispatch(call.name, args)
+      return { name: call.name, arguments: args, result }
+    } catch (error) {
+      const message =
+        error instanceof z.ZodError
+          ? `Invalid arguments: ${error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}`
+          : error instanceof Error
+            ? error.message
+            : 'Tool failed'
+      console.warn(`DM tool ${call.name} failed: ${message}`)
+      return { name: call.name, arguments: args, error: message }
+    }
+  }
+
+  private async dispatch(
+    name: string,
+    args: Record<string, unknown>
+  ): Promise<DMToolCallLog['result']> {
+    switch (name) {
+      case 'roll_dice':
+        return this.rollDice(RollDiceArgsSchema.parse(args))
+      case 'search_knowledge':
+        return this.searchKnowledge(SearchKnowledgeArgsSchema.parse(args))
+      case 'get_character_stats':
+        return this.getCharacterStats(CharacterStatsArgsSchema.parse(args))
+      case 'propose_movement':
+        return this.proposeMovement(ProposeMovementArgsSchema.parse(args))
+      case 'resolve_area_effect':
+        return this.resolveAreaEffect(ResolveAreaArgsSchema.parse(args))
+      case 'interact_with_feature':
+        return this.interactWithFeature(InteractArgsSchema.parse(args))
+      case 'set_feature_state':
+        return this.setFeatureState(SetFeatureStateArgsSchema.parse(args))
+      case 'take_item':
+        return this.takeItem(TakeItemArgsSchema.parse(args))
+      default:
+        throw new Error(`Unknown tool: ${name}`)
+    }
+  }
+
+  private async rollDice(args: z.infer<typeof RollDiceArgsSchema>) {
+    const character = args.characterName ? await this.findCharacter(args.characterName) : null
+
+    const roll = await diceService.rollForSession({
+      sessionId: this.sessionId,
+      expression: args.expression,
+      characterId: character?.id,
+      reason: args.reason,
+    })
+    this.rollIds.push(roll.id)
+
+    return {
+      expression: roll.expression,
+      total: roll.total,
+      breakdown: roll.breakdown,
+    }
+  }
+
+  private async searchKnowledge(args: z.infer<typeof SearchKnowledgeArgsSchema>) {
+    const campaignId = this.requireCampaignId()
+    const entries = await knowledgeManagerService.searchKnowledge(campaignId, args.query)
+
+    return entries.slice(0, 5).map((entry) => ({
+      title: entry.title,
+      category: entry.category,
+      content: entry.content,
+    }))
+  }
+
+  private async getCharacterStats(args: z.infer<typeof CharacterStatsArgsSchema>) {
+    const character = await this.findCharacter(args.characterName)
+    if (!character) {
+      throw new Error(`Character not found: ${args.characterName}`)
+    }
+
+    const position = await prisma.characterPosition.findUnique({
+      where: { characterId: character.id },
+    })
+    const conditions = await prisma.characterCondition.findMany({
+      where: { characterId: character.id },
+      select: { name: true, remainingRounds: true },
+    })
+    const status = toPartyMemberStatus({ ...character, conditions })
+
+    return {
+      name: character.name,
+      race: character.race,
+      class: character.class,
+      level: character.level,
+      stats: character.stats,
+      baseMovementRate: character.baseMovementRate,
+      flySpeed: character.flySpeed,
+      swimSpeed: character.swimSpeed,
+      climbSpeed: character.climbSpeed,
+      hp: { current: status.currentHp, max: status.maxHp, temp: status.tempHp },
+      armorClass: status.armorClass,
+      state: status.state,
+      conditions: status.conditions,
+      position: position ? { x: position.x, y: position.y, z: position.z } : null,
+    }
+  }
+
+  private async proposeMovement(args: z.infer<typeof ProposeMovementArgsSchema>) {
+    const character = args.characterName
+      ? await this.findCharacter(args.characterName)
+      : this.context.characterId
+        ? await prisma.character.findUnique({ where: { id: this.context.characterId } })
+        : null
+
+    if (!character) {
+      throw new Error(`Character not found: ${args.characterName || 'acting character'}`)
+    }
+
+    const position = await prisma.characterPosition.findUnique({
+      where: { characterId: character.id },
+    })
+    const locationId = position?.locationId || this.context.currentState?.locationId
+    if (!locationId) {
+      throw new Error(`${character.name} is not placed in a location`)
+    }
+
+    const from: Position3D = position
+      ? { x: position.x, y: position.y, z: position.z }
+      : this.context.spatialContext?.characterPosition || { x: 0, y: 0, z: 0 }
+    const validation = await spatialService.validateMovement(
+      from,
+      args.targetPosition,
+      locationId,
+      character.id
+    )
+    const to = validation.destination ?? args.targetPosition
+    const distance = validation.path?.distance ?? spatialService.calculateDistance(from, to)
+    // Difficult terrain, swimming and climbing spend more movement than the distance walked
+    const movementCost = validation.path?.cost ?? distance
+    const turnMovement = await spatialService.calculateTurnMovement(character.id, movementCost)
+    const budget = await encounterService.checkMovementBudget(this.sessionId, character.id, movementCost)
+    const provoked = await reactionService.findOpportunityAttacks(
+      this.sessionId,
+      character.id,
+      locationId,
+      validation.path?.waypoints ?? [from, to]
+    )
+    const opportunityAttacks = opportunityAttackWarning(provoked.map((reaction) => reaction.name))
+
+    const validationIssues = [
+      ...(validation.warnings || []),
+      ...(validation.blockedBy ? [`Blocked by: ${validation.blockedBy.join(', ')}`] : []),
+      ...(budget.reason ? [budget.reason] : []),
+      ...(opportunityAttacks ? [opportunityAttacks] : []),
+    ]
+
+    this.movementSuggestion = {
+      id: `mov_${Date.now()}`,
+      characterId: character.id,
+      characterName: character.name,
+      from,
+      to,
+      reason: args.reason || 'Movement proposed by the DM',
+      targetName: args.targetName,
+      actionType: args.actionType,
+      distance,
+      movementCost,
+      path: validation.path?.waypoints,
+      locationId,
+      isValid: validation.isValid && budget.allowed,
+      validationIssues,
+    }
+
+    return {
+      isValid: validation.isValid && budget.allowed,
+      distance: Math.round(distance * 10) / 10,
+      movementCost: Math.round(movementCost * 10) / 10,
+      walksAroundObstacles: (validation.path?.waypoints.length || 0) > 2,
+      issues: validationIssues,
+      suggestedAlternative: validation.suggestedAlternative,
+      canReachInOneTurn: turnMovement.canReachInOneTurn,
+      turnsRequired: turnMovement.turnsRequired,
+    }
+  }
+
+  private async resolveAreaEffect(args: z.infer<typeof ResolveAreaArgsSchema>) {
+    const caster = args.casterName
+      ? await this.findCharacter(args.casterName)
+      : this.context.characterId
+        ? await prisma.character.findUnique({ where: { id: this.context.characterId } })
+        : null
+
+    if (args.casterName && !caster) {
+      throw new Error(`Character not found: ${args.casterName}`)
+    }
+
+    const casterPosition = caster
+      ? await prisma.characterPosition.findUnique({ where: { characterId: caster.id } })
+      : null
+    const locationId = casterPosition?.locationId || this.context.currentState?.locationId
+    if (!locationId) {
+      throw new Error('No location to resolve the area in')
+    }
+
+    const origin =
+      args.origin ?? (casterPosition ? { x: casterPosition.x, y: casterPosition.y, z: casterPosition.z } : null)
+    if (!origin) {
+      throw new Error('An origin is required when the caster is not placed')
+    }
+
+    let towards = args.towards
+    if (!towards && args.targetName) {
+      const target = await this.findCharacter(args.targetName)
+      const targetPosition = target
+        ? await prisma.characterPosition.findUnique({ where: { characterId: target.id } })
+        : await prisma.npc.findFirst({
+            where: { locationId, name: { equals: args.targetName, mode: 'insensitive' } },
+          })
+      if (!targetPosition) {
+        throw new Error(`Character not found: ${args.targetName}`)
+      }
+      towards = { x: targetPosition.x, y: targetPosition.y, z: targetPosition.z }
+    }
+
+    const result = await spatialService.resolveAreaOfEffect(locationId, {
+      shape: args.shape,
+      origin,
+      size: args.size,
+      towards,
+      width: args.width,
+      height: args.height,
+    })
+
+    return {
+      area: result.description,
+      affected: result.characters.map((c) => ({
+        name: c.name,
+        distance: Math.round(c.distance * 10) / 10,
+        cover: c.coverLevel,
+        saveBonus: c.saveBonus,
+      })),
+      features: result.features.map((f) => f.name),
+      shielded: result.shielded.map((c) => ({ name: c.name, reason: c.reason })),
+    }
+  }
+
+  private async interactWithFeature(args: z.infer<typeof InteractArgsSchema>) {
+    const character = await this.findActor(args.characterName)
+    const feature = await this.findFeature(args.featureName, character.id)
+
+    const result = await featureService.interact(this.sessionId, feature.id, character.id, args.action)
+
+    return {
+      feature: result.featureName,
+      state: result.state,
+      check: result.check,
+      triggered: result.triggers.map((activation) => activation.summary),
+    }
+  }
+
+  private async setFeatureState(args: z.infer<typeof SetFeatureStateArgsSchema>) {
+    const feature = await this.findFeature(args.featureName, this.context.characterId)
+    if (!feature.state) {
+      throw new Error(`${feature.name} does not open or close`)
+    }
+
+    const updated = await featureService.updateState(feature.locationId, feature.id, { state: args.state })
+    return { feature: updated.name, state: updated.state }
+  }
+
+  private async takeItem(args: z.infer<typeof TakeItemArgsSchema>) {
+    const character = await this.findActor(args.characterName)
+    const feature = await this.findFeature(args.featureName, character.id)
+    const item = await prisma.item.findFirst({
+      where: { featureId: feature.id, name: { equals: args.itemName, mode: 'insensitive' } },
+    })
+    if (!item) {
+      throw new Error(`${feature.name} holds no ${args.itemName}`)
+    }
+
+    const taken = await featureService.takeItem(this.sessionId, feature.id, item.id, character.id, args.quantity)
+    return { character: character.name, item: taken.name, quantity: taken.quantity }
+  }
+
+  /**
+   * The named character, or the acting one
+   */
+  private async findActor(name?: string) {
+    const character = name
+      ? await this.findCharacter(name)
+      : this.context.characterId
+        ? await prisma.character.findUnique({ where: { id: this.context.characterId } })
+        : null
+
+    if (!character) {
+      throw new Error(`Character not found: ${name || 'acting character'}`)
+    }
+    return character
+  }
+
+  /**
+   * A feature by name in the location the character stands in (or the scene's location)
+   */
+  private async findFeature(name: string, characterId?: string) {
+    const position = characterId
+      ? await prisma.characterPosition.findUnique({ where: { characterId } })
+      : null
+    const locationId = position?.locationId || this.context.currentState?.locationId
+    if (!locationId) {
+      throw new Error('No location to look for the feature in')
+    }
+
+    const feature = await prisma.locationFeature.findFirst({
+      where: { locationId, name: { equals: name, mode: 'insensitive' } },
+    })
+    if (!feature) {
+      throw new Error(`Feature not found: ${name}`)
+    }
+    return feature
+  }
+
+  private async findCharacter(name: string) {
+    return prisma.character.findFirst({
+      where: {
+        campaignId: this.requireCampaignId(),
+        name: { equals: name, mode: 'insensitive' },
+      },
+    })
+  }
+
+  private requireCampaignId(): string {
+    if (!this.context.campaignId) {
+      throw new Error('Campaign context is not available')
+    }
+    return this.context.campaignId
+  }
+}
@@ -0,0 +1,491 @@
+import { prisma } from '@/lib/db'
+import { EncounterContext } from '@/types'
+import { diceService } from './dice-service'
+import { sessionService } from './session-service'
+import { vitalsService } from './vitals-service'
+
+export interface CombatantInput {
+  characterId?: string // Omit for NPCs and monsters
+  npcId?: string // An NPC token of the campaign; name, speed and DEX come from it
+  name?: string // Required for NPCs without a token
+  initiativeBonus?: number // Defaults to the character's DEX modifier
+  initiative?: number // Use a roll made at the table instead of rolling
+  movementRate?: number // Defaults to the character's baseMovementRate
+  isHostile?: boolean // Defaults to true for GM-controlled characters, NPC tokens follow their disposition
+}
+
+export interface EncounterStartInput {
+  sessionId: string
+  combatants?: CombatantInput[]
+  includeParty?: boolean // Add every character on the session roster (default true)
+}
+
+export interface CombatantUpdateInput {
+  isDefeated?: boolean
+  movementRate?: number
+  isHostile?: boolean
+}
+
+export type MovementBudgetCheck = {
+  allowed: boolean
+  reason?: string
+  combatantId?: string // Set when the mover is the current combatant
+  remaining?: number
+}
+
+const DEFAULT_MOVEMENT_RATE = 9.0 // Matches Character.baseMovementRate default
+const MOVEMENT_TOLERANCE = 0.01 // Absorb float rounding from distance math
+
+// Who a combatant can be, as loaded with the campaign
+type CombatantSources = {
+  characters: Array<{
+    id: string
+    name: string
+    ownerId: string | null
+    stats: unknown
+    baseMovementRate: number
+  }>
+  npcs: Array<{
+    id: string
+    name: string
+    statBlock: unknown
+    baseMovementRate: number
+    disposition: string
+  }>
+}
+
+type InitiativeEntry = {
+  initiative: number
+  initiativeBonus: number
+}
+
+/**
+ * Sort combatants into turn order: highest initiative first, ties broken by
+ * initiative bonus, then by the order they were added
+ */
+export function orderByInitiative<T extends InitiativeEntry>(entries: T[]): T[] {
+  return entries
+    .map((entry, index) => ({ entry, index }))
+    .sort(
+      (a, b) =>
+        b.entry.initiative - a.entry.initiative ||
+        b.entry.initiativeBonus - a.entry.initiativeBonus ||
+        a.index - b.index
+    )
+    .map(({ entry }) => entry)
+}
+
+/**
+ * Find the next combatant who can act, wrapping into a new round
+ * Returns null when every combatant is defeated
+ */
+export function nextTurnPosition(
+  combatants: Array<{ isDefeated: boolean }>,
+  turnIndex: number,
+  round: number
+): { turnIndex: number; round: number } | null {
+  for (let step = 1; step <= combatants.length; step++) {
+    const index = turnIndex + step
+    const wrapped = index % combatants.length
+    if (!combatants[wrapped].isDefeated) {
+      return {
+        turnIndex: wrapped,
+        round: round + Math.floor(index / combatants.length),
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Ability modifier from a character's stored DEX score
+ */
+export function dexterityModifier(stats: unknown): number {
+  if (stats && typeof stats === 'object') {
+    const record = stats as Record<string, unknown>
+    const dex = record.dexterity ?? record.DEX ?? record.dex
+    if (typeof dex === 'number') {
+      return Math.floor((dex - 10) / 2)
+    }
+  }
+  return 0
+}
+
+export class EncounterService {
+  /**
+   * Start combat: roll initiative for the session's party and any NPC combatants
+   */
+  async startEncounter(input: EncounterStartInput) {
+    const session = await prisma.session.findUnique({
+      where: { id: input.sessionId },
+      include: {
+        campaign: {
+          include: { characters: true, npcs: true },
+        },
+      },
+    })
+
+    if (!session) {
+      throw new Error('Session not found')
+    }
+
+    const existing = await prisma.encounter.findFirst({
+      where: { sessionId: input.sessionId, status: 'ACTIVE' },
+      select: { id: true },
+    })
+    if (existing) {
+      throw new Error('An encounter is already in progress')
+    }
+
+    const requested = input.combatants || []
+    const requestedIds = requested.map((c) => c.characterId).filter(Boolean)
+    if (new Set(requestedIds).size !== requestedIds.length) {
+      throw new Error('Character is already in the encounter')
+    }
+    const npcIds = requested.map((c) => c.npcId).filter(Boolean)
+    if (new Set(npcIds).size !== npcIds.length) {
+      throw new Error('NPC is already in the encounter')
+    }
+
+    // Only the characters at the table fight; absent ones can still be added by id
+    const party = input.includeParty === false ? [] : await sessionService.getRoster(input.sessionId)
+
+    const entries: CombatantInput[] = [
+      ...party.filter((c) => !requestedIds.includes(c.id)).map((c) => ({ characterId: c.id })),
+      ...requested,
+    ]
+
+    if (entries.length === 0) {
+      throw new Error('An encounter needs at least one combatant')
+    }
+
+    const rolled = []
+    for (const entry of entries) {
+      rolled.push(await this.rollCombatant(input.sessionId, session.campaign, entry))
+    }
+
+    return await prisma.encounter.create({
+      data: {
+        sessionId: input.sessionId,
+        combatants: {
+          create: orderByInitiative(rolled).map((combatant, order) => ({ ...combatant, order })),
+        },
+      },
+      include: {
+        combatants: { orderBy: { order: 'asc' } },
+      },
+    })
+  }
+
+  /**
+   * Get the running encounter for a session, if any
+   */
+  async getActiveEncounter(sessionId: string) {
+    return await prisma.encounter.findFirst({
+      where: { sessionId, status: 'ACTIVE' },
+      include: {
+        combatants: { orderBy: { order: 'asc' } },
+      },
+    })
+  }
+
+  /**
+   * Advance to the next combatant who is still standing
+   * Resets that combatant's movement budget and reaction for the new turn;
+   * reactions nobody decided on during the last turn lapse
+   */
+  async nextTurn(sessionId: string) {
+    const encounter = await this.requireActiveEncounter(sessionId)
+
+    const next = nextTurnPosition(encounter.combatants, encounter.turnIndex, encounter.round)
+    if (!next) {
+      throw new Error('Every combatant is defeated; end the encounter')
+    }
+
+    await prisma.combatant.update({
+      where: { id: encounter.combatants[next.turnIndex].id },
+      data: { movementUsed: 0, reactionUsed: false },
+    })
+    await this.expireReactions(encounter.id)
+
+    // Timed conditions run down once per combat round
+    if (next.round > encounter.round) {
+      const session = await prisma.session.findUnique({
+        where: { id: sessionId },
+        select: { campaignId: true },
+      })
+      if (session) {
+        await vitalsService.tickConditions(session.campaignId, next.round - encounter.round)
+      }
+    }
+
+    return await prisma.encounter.update({
+      where: { id: encounter.id },
+      data: next,
+      include: {
+        combatants: { orderBy: { order: 'asc' } },
+      },
+    })
+  }
+
+  /**
+   * Add a combatant mid-fight; the current combatant keeps the turn
+   */
+  async addCombatant(sessionId: string, input: CombatantInput) {
+    const encounter = await this.requireActiveEncounter(sessionId)
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: {
+        campaign: {
+          include: { characters: true, npcs: true },
+        },
+      },
+    })
+
+    if (!session) {
+      throw new Error('Session not found')
+    }
+
+    if (input.characterId && encounter.combatants.some((c) => c.characterId === input.characterId)) {
+      throw new Error('Character is already in the encounter')
+    }
+    if (input.npcId && encounter.combatants.some((c) => c.npcId === input.npcId)) {
+      throw new Error('NPC is already in the encounter')
+    }
+
+    const rolled = await this.rollCombatant(sessionId, session.campaign, input)
+    const created = await prisma.combatant.create({
+      data: {
+        ...rolled,
+        encounterId: encounter.id,
+        order: encounter.combatants.length,
+      },
+    })
+
+    const current = encounter.combatants[encounter.turnIndex]
+    const ordered = orderByInitiative([...encounter.combatants, created])
+
+    await prisma.$transaction(
+      ordered.map((combatant, order) =>
+        prisma.combatant.update({ where: { id: combatant.id }, data: { order } })
+      )
+    )
+
+    return await prisma.encounter.update({
+      where: { id: encounter.id },
+      data: { turnIndex: current ? ordered.findIndex((c) => c.id === current.id) : 0 },
+      include: {
+        combatants: { orderBy: { order: 'asc' } },
+      },
+    })
+  }
+
+  /**
+   * Mark a combatant defeated, change their movement budget or switch sides
+   */
+  async updateCombatant(sessionId: string, combatantId: string, input: CombatantUpdateInput) {
+    const encounter = await this.requireActiveEncounter(sessionId)
+    if (!encounter.combatants.some((c) => c.id === combatantId)) {
+      throw new Error('Combatant not found')
+    }
+
+    return await prisma.combatant.update({
+      where: { id: combatantId },
+      data: input,
+    })
+  }
+
+  /**
+   * End combat and record a short summary in the encounter and session state
+   */
+  async endEncounter(sessionId: string) {
+    const encounter = await this.requireActiveEncounter(sessionId)
+
+    const defeated = encounter.combatants.filter((c) => c.isDefeated).map((c) => c.name)
+    const standing = encounter.combatants.filter((c) => !c.isDefeated).map((c) => c.name)
+
+    let summary = `Combat ended after ${encounter.round} round${encounter.round === 1 ? '' : 's'}.`
+    if (defeated.length > 0) summary += ` Defeated: ${defeated.join(', ')}.`
+    if (standing.length > 0) summary += ` Still standing: ${standing.join(', ')}.`
+
+    await this.expireReactions(encounter.id)
+    const ended = await prisma.encounter.update({
+      where: { id: encounter.id },
+      data: {
+        status: 'ENDED',
+        endedAt: new Date(),
+        summary,
+      },
+      include: {
+        combatants: { orderBy: { order: 'asc' } },
+      },
+    })
+
+    // Keep the outcome in the rolling recent events the DM sees
+    const state = await prisma.sessionState.findUnique({ where: { sessionId } })
+    if (state) {
+      const existingEvents = (state.recentEvents as string[]) || []
+      await prisma.sessionState.update({
+        where: { sessionId },
+        data: { recentEvents: [summary, ...existingEvents].slice(0, 5) },
+      })
+    }
+
+    return ended
+  }
+
+  /**
+   * Check whether a character may move `distance` right now
+   * Outside combat, or for characters not in the fight, movement is unrestricted
+   */
+  async checkMovementBudget(
+    sessionId: string,
+    characterId: string,
+    distance: number
+  ): Promise<MovementBudgetCheck> {
+    const encounter = await this.getActiveEncounter(sessionId)
+    const mover = encounter?.combatants.find((c) => c.characterId === characterId)
+    if (!encounter || !mover) {
+      return { allowed: true }
+    }
+
+    const current = encounter.combatants[encounter.turnIndex]
+    if (current?.id !== mover.id) {
+      return {
+        allowed: false,
+        reason: `It is ${current?.name || 'another combatant'}'s turn, not ${mover.name}'s`,
+      }
+    }
+
+    const remaining = Math.max(0, mover.movementRate - mover.movementUsed)
+    if (distance > remaining + MOVEMENT_TOLERANCE) {
+      return {
+        allowed: false,
+        reason: `${mover.name} has ${remaining.toFixed(1)}m of movement left this turn (needs ${distance.toFixed(1)}m)`,
+        combatantId: mover.id,
+        remaining,
+      }
+    }
+
+    return { allowed: true, combatantId: mover.id, remaining: remaining - distance }
+  }
+
+  /**
+   * Record movement spent by a combatant on their turn
+   */
+  async spendMovement(combatantId: string, distance: number) {
+    return await prisma.combatant.update({
+      where: { id: combatantId },
+      data: { movementUsed: { increment: distance } },
+    })
+  }
+
+  /**
+   * Compact combat state for the DM prompt
+   */
+  async buildEncounterContext(sessionId: string): Promise<EncounterContext | undefined> {
+    const encounter = await this.getActiveEncounter(sessionId)
+    if (!encounter || encounter.combatants.length === 0) {
+      return undefined
+    }
+
+    const current = encounter.combatants[encounter.turnIndex]
+    const pending = await prisma.reactionPrompt.findMany({
+      where: { encounterId: encounter.id, status: 'PENDING' },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        combatant: { select: { name: true } },
+        triggeredBy: { select: { name: true } },
+      },
+    })
+
+    return {
+      round: encounter.round,
+      currentTurn: current?.name || encounter.combatants[0].name,
+      order: encounter.combatants.map((c) => ({
+        name: c.name,
+        initiative: c.initiative,
+        isNPC: c.isNPC,
+        isDefeated: c.isDefeated,
+        isCurrent: c.id === current?.id,
+        movementRemaining: Math.max(0, c.movementRate - c.movementUsed),
+        isHostile: c.isHostile,
+        reactionUsed: c.reactionUsed,
+      })),
+      pendingReactions: pending.map((reaction) => ({
+        combatant: reaction.combatant.name,
+        trigger: reaction.trigger,
+        triggeredBy: reaction.triggeredBy.name,
+      })),
+    }
+  }
+
+  /**
+   * Let the pending reactions of an encounter lapse
+   */
+  private async expireReactions(encounterId: string) {
+    await prisma.reactionPrompt.updateMany({
+      where: { encounterId, status: 'PENDING' },
+      data: { status: 'EXPIRED', resolvedAt: new Date() },
+    })
+  }
+
+  private async requireActiveEncounter(sessionId: string) {
+    const encounter = await this.getActiveEncounter(sessionId)
+    if (!encounter) {
+      throw new Error('No active encounter')
+    }
+    return encounter
+  }
+
+  /**
+   * Resolve a combatant's name, speed and initiative (rolled on the server
+   * unless a table roll was given)
+   */
+  private async rollCombatant(sessionId: string, sources: CombatantSources, entry: CombatantInput) {
+    const character = entry.characterId
+      ? sources.characters.find((c) => c.id === entry.characterId)
+      : undefined
+    const npc = !character && entry.npcId ? sources.npcs.find((n) => n.id === entry.npcId) : undefined
+
+    if (entry.characterId && !character) {
+      throw new Error('Character not found in this campaign')
+    }
+    if (entry.npcId && !character && !npc) {
+      throw new Error('NPC not found in this campaign')
+    }
+
+    const name = character?.name || npc?.name || entry.name
+    if (!name) {
+      throw new Error('NPC combatants need a name')
+    }
+
+    const initiativeBonus = entry.initiativeBonus ?? dexterityModifier(character?.stats ?? npc?.statBlock)
+
+    let initiative = entry.initiative
+    if (initiative === undefined) {
+      const modifier = initiativeBonus === 0 ? '' : `${initiativeBonus > 0 ? '+' : ''}${initiativeBonus}`
+      const roll = await diceService.rollForSession({
+        sessionId,
+        expression: `1d20${modifier}`,
+        characterId: character?.id,
+        reason: `Initiative (${name})`,
+      })
+      initiative = roll.total
+    }
+
+    return {
+      characterId: character?.id,
+      npcId: npc?.id,
+      name,
+      isNPC: !character,
+      initiative,
+      initiativeBonus,
+      movementRate:
+        entry.movementRate ?? character?.baseMovementRate ?? npc?.baseMovementRate ?? DEFAULT_MOVEMENT_RATE,
+      isHostile: entry.isHostile ?? (npc ? npc.disposition === 'HOSTILE' : !character?.ownerId),
+    }
+  }
+}
+
+export const encounterService = new EncounterService()
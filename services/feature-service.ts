@@ -0,0 +1,284 @@
+import { prisma } from '@/lib/db'
+import { abilityModifier, distanceToBox, savingThrowExpression, triggerArea } from '@/lib/feature-triggers'
+import { blockingForState, isReachable, planFeatureAction } from '@/lib/feature-state'
+import {
+  FeatureAction,
+  FeatureInteractionResult,
+  FeatureState,
+  ItemRecord,
+  TriggerActivationRecord,
+} from '@/types'
+import { diceService } from './dice-service'
+import { triggerService } from './trigger-service'
+
+export interface FeatureStateInput {
+  state?: FeatureState | null
+  lockDc?: number | null
+  keyItemId?: string | null
+}
+
+export interface ItemCreateInput {
+  name: string
+  description?: string
+  quantity?: number
+}
+
+// Actions that touch the feature, and so set off its INTERACT triggers
+const TRIGGERING_ACTIONS: FeatureAction[] = ['use', 'open', 'unlock', 'force']
+
+type ItemRow = {
+  id: string
+  name: string
+  description: string | null
+  quantity: number
+  featureId: string | null
+  characterId: string | null
+}
+
+export class FeatureService {
+  /**
+   * A character acts on a feature within one cell of them: opens, closes, locks,
+   * unlocks (with the key or by picking the lock), forces it, or just uses it.
+   * Doors change what they block, so line of sight and paths follow at once.
+   * Checks go through the session roll log; touching the feature sets off its
+   * INTERACT triggers even when the check fails
+   */
+  async interact(
+    sessionId: string,
+    featureId: string,
+    characterId: string,
+    action: FeatureAction = 'use'
+  ): Promise<FeatureInteractionResult> {
+    const { feature, character } = await this.reachFeature(sessionId, featureId, characterId)
+
+    let state = feature.state ?? undefined
+    let check: FeatureInteractionResult['check']
+    if (action !== 'use') {
+      const key = feature.keyItemId
+        ? await prisma.item.findFirst({ where: { id: feature.keyItemId, characterId }, select: { id: true } })
+        : null
+      const plan = planFeatureAction(feature, action, key !== null)
+
+      let success = true
+      if (plan.check) {
+        const roll = await diceService.rollForSession({
+          sessionId,
+          characterId,
+          expression: savingThrowExpression(abilityModifier(character.stats, plan.check.ability)),
+          reason: `${action === 'force' ? 'Force' : 'Pick the lock of'} ${feature.name} (DC ${plan.check.dc})`,
+        })
+        success = roll.total >= plan.check.dc
+        check = { ...plan.check, total: roll.total, success }
+      }
+
+      if (success) {
+        state = await this.applyState(feature, plan.next)
+      }
+    }
+
+    const triggers: TriggerActivationRecord[] = TRIGGERING_ACTIONS.includes(action)
+      ? await triggerService.resolveInteraction(sessionId, featureId, character)
+      : []
+
+    return { featureId, featureName: feature.name, action, state, check, triggers }
+  }
+
+  /**
+   * Set a feature's state, lock DC or key directly (GM)
+   */
+  async updateState(locationId: string, featureId: string, input: FeatureStateInput) {
+    const feature = await prisma.locationFeature.findUnique({
+      where: { id: featureId },
+      include: { location: { select: { campaignId: true } } },
+    })
+
+    if (!feature || feature.locationId !== locationId) {
+      throw new Error('Feature not found')
+    }
+
+    if (input.keyItemId) {
+      const key = await prisma.item.findUnique({
+        where: { id: input.keyItemId },
+        select: { campaignId: true },
+      })
+      if (!key || key.campaignId !== feature.location.campaignId) {
+        throw new Error('Key item not found')
+      }
+    }
+
+    return await prisma.locationFeature.update({
+      where: { id: featureId },
+      data: {
+        ...input,
+        ...(input.state && blockingForState(feature.type, input.state)),
+      },
+    })
+  }
+
+  /**
+   * Get what a container holds (GM view)
+   */
+  async getItems(locationId: string, featureId: string): Promise<ItemRecord[]> {
+    await this.findFeature(locationId, featureId)
+
+    const items = await prisma.item.findMany({
+      where: { featureId },
+      orderBy: { createdAt: 'asc' },
+    })
+    return items.map((item) => this.toItemRecord(item))
+  }
+
+  /**
+   * Put an item in a container
+   */
+  async addItem(locationId: string, featureId: string, input: ItemCreateInput): Promise<ItemRecord> {
+    const feature = await this.findFeature(locationId, featureId)
+
+    const item = await prisma.item.create({
+      data: {
+        campaignId: feature.location.campaignId,
+        featureId,
+        name: input.name,
+        description: input.description,
+        quantity: input.quantity ?? 1,
+      },
+    })
+    return this.toItemRecord(item)
+  }
+
+  /**
+   * A character takes an item (or part of a stack) from an open container within reach
+   */
+  async takeItem(
+    sessionId: string,
+    featureId: string,
+    itemId: string,
+    characterId: string,
+    quantity?: number
+  ): Promise<ItemRecord> {
+    const { feature } = await this.reachFeature(sessionId, featureId, characterId)
+    if (!isReachable(feature.state)) {
+      throw new Error(`Cannot take from ${feature.name}: it is ${feature.state?.toLowerCase()}`)
+    }
+
+    const item = await prisma.item.findUnique({ where: { id: itemId } })
+    if (!item || item.featureId !== featureId) {
+      throw new Error('Item not found')
+    }
+
+    const taken = quantity ?? item.quantity
+    if (taken > item.quantity) {
+      throw new Error(`Cannot take ${taken} ${item.name}: only ${item.quantity} left`)
+    }
+
+    // Only one of two simultaneous takes gets the stack
+    if (taken === item.quantity) {
+      const { count } = await prisma.item.updateMany({
+        where: { id: item.id, featureId, quantity: item.quantity },
+        data: { featureId: null, characterId },
+      })
+      if (count === 0) {
+        throw new Error('Item not found')
+      }
+      return this.toItemRecord({ ...item, featureId: null, characterId })
+    }
+
+    const { count } = await prisma.item.updateMany({
+      where: { id: item.id, featureId, quantity: { gte: taken } },
+      data: { quantity: { decrement: taken } },
+    })
+    if (count === 0) {
+      throw new Error(`Cannot take ${taken} ${item.name}: someone took them first`)
+    }
+    const split = await prisma.item.create({
+      data: {
+        campaignId: item.campaignId,
+        characterId,
+        name: item.name,
+        description: item.description,
+        quantity: taken,
+      },
+    })
+    return this.toItemRecord(split)
+  }
+
+  /**
+   * Get what a character carries
+   */
+  async getInventory(characterId: string): Promise<ItemRecord[]> {
+    const items = await prisma.item.findMany({
+      where: { characterId },
+      orderBy: { createdAt: 'asc' },
+    })
+    return items.map((item) => this.toItemRecord(item))
+  }
+
+  /**
+   * Load a feature of the session's campaign and the character acting on it,
+   * who has to stand within one cell of it
+   */
+  private async reachFeature(sessionId: string, featureId: string, characterId: string) {
+    const [session, feature, position] = await Promise.all([
+      prisma.session.findUnique({ where: { id: sessionId }, select: { campaignId: true } }),
+      prisma.locationFeature.findUnique({
+        where: { id: featureId },
+        include: { location: { select: { campaignId: true, gridSize: true } } },
+      }),
+      prisma.characterPosition.findUnique({
+        where: { characterId },
+        include: { character: { select: { id: true, name: true, stats: true } } },
+      }),
+    ])
+
+    if (!session || !feature || feature.location.campaignId !== session.campaignId) {
+      throw new Error('Feature not found')
+    }
+    if (!position) {
+      throw new Error('Character position not found')
+    }
+
+    const { gridSize } = feature.location
+    if (
+      position.locationId !== feature.locationId ||
+      distanceToBox(position, triggerArea(feature, gridSize)) > gridSize
+    ) {
+      throw new Error(`Out of reach: ${position.character.name} is too far from ${feature.name}`)
+    }
+
+    return { feature, character: position.character }
+  }
+
+  private async applyState(feature: { id: string; type: string }, state: FeatureState): Promise<FeatureState> {
+    await prisma.locationFeature.update({
+      where: { id: feature.id },
+      data: { state, ...blockingForState(feature.type, state) },
+    })
+    return state
+  }
+
+  private async findFeature(locationId: string, featureId: string) {
+    const feature = await prisma.locationFeature.findUnique({
+      where: { id: featureId },
+      include: { location: { select: { campaignId: true } } },
+    })
+
+    if (!feature || feature.locationId !== locationId) {
+      throw new Error('Feature not found')
+    }
+
+    return feature
+  }
+
+  private toItemRecord(item: ItemRow): ItemRecord {
+    return {
+      id: item.id,
+      name: item.name,
+      description: item.description || undefined,
+      quantity: item.quantity,
+      featureId: item.featureId || undefined,
+      characterId: item.characterId || undefined,
+    }
+  }
+}
+
+export const featureService = new FeatureService()
@@ -1,4 +1,12 @@
 import { prisma } from '@/lib/db'
+import { UnitConverter } from '@/lib/units'
+import { DiagonalRule, GridType } from '@/lib/grid'
+import { LightLevel } from '@/lib/vision'
+import { MapDefinition, MapFormat, MapImportOptions, parseMap, serializeMap } from '@/lib/map-formats'
+import { blockingForState, defaultFeatureState } from '@/lib/feature-state'
+import { FeatureState } from '@/types'
+import { MovementMode } from '@prisma/client'
+import { movementService } from './movement-service'
 
 export interface LocationCreateInput {
   campaignId: string
@@ -11,6 +19,10 @@ export interface LocationCreateInput {
   minZ: number
   maxZ: number
   unitType?: string
+  gridType?: GridType
+  gridSize?: number // Cell width in location units (defaults to 5ft)
+  diagonalRule?: DiagonalRule
+  ambientLight?: LightLevel
 }
 
 export interface LocationFeatureCreateInput {
@@ -28,9 +40,23 @@ export interface LocationFeatureCreateInput {
   blocksVision?: boolean
   providesCover?: string
   elevation?: number
+  movementCost?: number
+  movementMode?: MovementMode
+  brightLight?: number
+  dimLight?: number
+  state?: FeatureState // Doors default to closed when they block anything
+  lockDc?: number
   metadata?: any
 }
 
+export interface MapImportInput extends MapImportOptions {
+  campaignId: string
+  format: MapFormat
+  file: unknown // Parsed JSON of the map file
+  name?: string // Overrides the name stored in the file
+  description?: string
+}
+
 export interface CharacterPositionUpdateInput {
   characterId: string
   locationId?: string | null
@@ -57,6 +83,10 @@ export class LocationService {
         minZ: input.minZ,
         maxZ: input.maxZ,
         unitType: input.unitType || 'meters',
+        gridType: input.gridType,
+        gridSize: input.gridSize ?? (input.unitType === 'feet' ? 5 : UnitConverter.gridSquaresToMeters(1)),
+        diagonalRule: input.diagonalRule,
+        ambientLight: input.ambientLight,
       },
       include: {
         features: true,
@@ -115,6 +145,11 @@ export class LocationService {
             },
           },
         },
+        // Tokens only: stat blocks and dispositions stay with the GM
+        npcs: {
+          select: { id: true, name: true, kind: true, x: true, y: true, z: true, facing: true },
+          orderBy: { name: 'asc' },
+        },
         campaign: {
           select: {
             id: true,
@@ -157,6 +192,9 @@ export class LocationService {
    * Add a feature to a location
    */
   async createFeature(input: LocationFeatureCreateInput) {
+    // An explicit door state decides what the door blocks
+    const blocking = input.state && blockingForState(input.type, input.state)
+
     return await prisma.locationFeature.create({
       data: {
         locationId: input.locationId,
@@ -172,7 +210,16 @@ export class LocationService {
         blocksMovement: input.blocksMovement ?? false,
         blocksVision: input.blocksVision ?? false,
         providesCover: (input.providesCover as any) || 'NONE',
+        ...blocking,
         elevation: input.elevation ?? 0,
+        movementCost: input.movementCost ?? 1,
+        movementMode: input.movementMode ?? 'WALK',
+        brightLight: input.brightLight,
+        dimLight: input.dimLight,
+        state:
+          input.state ??
+          defaultFeatureState(input.type, input.blocksMovement ?? false, input.blocksVision ?? false),
+        lockDc: input.lockDc,
         metadata: input.metadata,
       },
     })
@@ -205,6 +252,10 @@ export class LocationService {
         }),
         ...(data.providesCover && { providesCover: data.providesCover as any }),
         ...(data.elevation !== undefined && { elevation: data.elevation }),
+        ...(data.movementCost !== undefined && { movementCost: data.movementCost }),
+        ...(data.movementMode && { movementMode: data.movementMode }),
+        ...(data.brightLight !== undefined && { brightLight: data.brightLight }),
+        ...(data.dimLight !== undefined && { dimLight: data.dimLight }),
         ...(data.metadata !== undefined && { metadata: data.metadata }),
       },
     })
@@ -252,26 +303,53 @@ export class LocationService {
 
   /**
    * Update character position
+   * A change of place (not just of facing) is logged as a movement event
    */
   async updateCharacterPosition(input: CharacterPositionUpdateInput) {
     const existingPosition = await this.getOrCreateCharacterPosition(
       input.characterId
     )
 
-    return await prisma.characterPosition.update({
-      where: { id: existingPosition.id },
-      data: {
-        ...(input.locationId !== undefined && { locationId: input.locationId }),
-        ...(input.x !== undefined && { x: input.x }),
-        ...(input.y !== undefined && { y: input.y }),
-        ...(input.z !== undefined && { z: input.z }),
-        ...(input.facing !== undefined && { facing: input.facing }),
-      },
-      include: {
-        character: true,
-        location: true,
-      },
-    })
+    const from = {
+      locationId: existingPosition.locationId,
+      x: existingPosition.x,
+      y: existingPosition.y,
+      z: existingPosition.z,
+    }
+    const to = {
+      locationId: input.locationId !== undefined ? input.locationId : from.locationId,
+      x: input.x ?? from.x,
+      y: input.y ?? from.y,
+      z: input.z ?? from.z,
+    }
+    const moved =
+      to.locationId !== from.locationId || to.x !== from.x || to.y !== from.y || to.z !== from.z
+
+    const [position] = await prisma.$transaction([
+      prisma.characterPosition.update({
+        where: { id: existingPosition.id },
+        data: {
+          ...(input.locationId !== undefined && { locationId: input.locationId }),
+          ...(input.x !== undefined && { x: input.x }),
+          ...(input.y !== undefined && { y: input.y }),
+          ...(input.z !== undefined && { z: input.z }),
+          ...(input.facing !== undefined && { facing: input.facing }),
+        },
+        include: {
+          character: true,
+          location: true,
+        },
+      }),
+      ...(moved
+        ? [
+            movementService.recordMovements([
+              { characterId: input.characterId, source: 'PLACE', from, to, reason: 'Position set' },
+            ]),
+          ]
+        : []),
+    ])
+
+    return position
   }
 
   /**
@@ -378,7 +456,34 @@ export class LocationService {
         minZ: 0,
         maxZ: 6,   // ~20 feet
         unitType: 'meters',
+        ambientLight: 'DARK',
         features: [
+          {
+            type: 'POI',
+            name: 'Wall Torch',
+            x: 0,
+            y: 7.3,
+            z: 1.5,
+            width: 0.3,
+            depth: 0.3,
+            height: 0.5,
+            blocksMovement: false,
+            brightLight: 6,  // ~20 feet
+            dimLight: 12,    // ~40 feet
+          },
+          {
+            type: 'POI',
+            name: 'Wall Torch',
+            x: 14.7,
+            y: 7.3,
+            z: 1.5,
+            width: 0.3,
+            depth: 0.3,
+            height: 0.5,
+            blocksMovement: false,
+            brightLight: 6,
+            dimLight: 12,
+          },
           {
             type: 'OBSTACLE',
             name: 'Stone Pillar',
@@ -495,6 +600,88 @@ export class LocationService {
 
     return await this.getLocationById(location.id)
   }
+
+  /**
+   * Create a location and its features from a battle map file
+   */
+  async importMap(input: MapImportInput) {
+    const map = parseMap(input.format, input.file, input)
+
+    const location = await this.createLocation({
+      campaignId: input.campaignId,
+      name: input.name || map.name || 'Imported Map',
+      description:
+        input.description ||
+        map.description ||
+        `Imported from a ${input.format === 'dd2vtt' ? 'Universal VTT' : 'Tiled'} map`,
+      minX: map.minX,
+      maxX: map.maxX,
+      minY: map.minY,
+      maxY: map.maxY,
+      minZ: map.minZ,
+      maxZ: map.maxZ,
+      unitType: map.unitType,
+      gridType: map.gridType,
+      gridSize: map.gridSize,
+      ambientLight: map.ambientLight,
+    })
+
+    for (const feature of map.features) {
+      await this.createFeature({
+        locationId: location.id,
+        ...feature,
+      })
+    }
+
+    return await this.getLocationById(location.id)
+  }
+
+  /**
+   * Write a location and its features as a battle map file
+   */
+  async exportMap(locationId: string, format: MapFormat) {
+    const location = await this.getLocationById(locationId)
+
+    const map: MapDefinition = {
+      name: location.name,
+      description: location.description,
+      minX: location.minX,
+      maxX: location.maxX,
+      minY: location.minY,
+      maxY: location.maxY,
+      minZ: location.minZ,
+      maxZ: location.maxZ,
+      unitType: location.unitType,
+      gridType: location.gridType,
+      gridSize: location.gridSize,
+      ambientLight: location.ambientLight,
+      features: location.features.map((feature) => ({
+        type: feature.type,
+        name: feature.name,
+        description: feature.description ?? undefined,
+        x: feature.x,
+        y: feature.y,
+        z: feature.z,
+        width: feature.width ?? 0,
+        depth: feature.depth ?? 0,
+        height: feature.height ?? 0,
+        blocksMovement: feature.blocksMovement,
+        blocksVision: feature.blocksVision,
+        providesCover: feature.providesCover,
+        elevation: feature.elevation,
+        movementCost: feature.movementCost,
+        movementMode: feature.movementMode,
+        brightLight: feature.brightLight ?? undefined,
+        dimLight: feature.dimLight ?? undefined,
+        metadata:
+          feature.metadata && typeof feature.metadata === 'object' && !Array.isArray(feature.metadata)
+            ? (feature.metadata as Record<string, unknown>)
+            : undefined,
+      })),
+    }
+
+    return serializeMap(format, map)
+  }
 }
 
 export const locationService = new LocationService()
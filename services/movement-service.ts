@@ -0,0 +1,603 @@
+import { prisma } from '@/lib/db'
+import { MovementSuggestionStatus as SuggestionStatus, Prisma } from '@prisma/client'
+import {
+  MovementEvent,
+  MovementSource,
+  MovementSuggestion,
+  MovementSuggestionRecord,
+  MovementSuggestionStats,
+  MovementSuggestionStatus,
+  Position3D,
+  PositionReplay,
+  ReactionPromptRecord,
+  TriggerActivationRecord,
+} from '@/types'
+import { opportunityAttackWarning } from '@/lib/reactions'
+import { encounterService } from './encounter-service'
+import { reactionService } from './reaction-service'
+import { sessionService } from './session-service'
+import { spatialService } from './spatial-service'
+import { triggerService } from './trigger-service'
+
+export interface MovementRequest {
+  characterId: string
+  targetPosition: Position3D
+  actionType: MovementSuggestion['actionType']
+  reason?: string
+  targetName?: string
+}
+
+export interface RecordSuggestionOptions {
+  messageId?: string
+  proposedById?: string
+}
+
+export type PlacedPosition = Position3D & { locationId: string | null }
+
+export interface MovementEventInput {
+  sessionId?: string
+  characterId: string
+  messageId?: string
+  suggestionId?: string
+  source: MovementSource
+  from: PlacedPosition | null // Null = not placed before
+  to: PlacedPosition
+  reason?: string
+}
+
+export interface MovementTrailFilter {
+  sessionId?: string
+  limit?: number
+}
+
+export interface MovementHistoryFilter {
+  characterId?: string
+  status?: MovementSuggestionStatus
+  limit?: number
+}
+
+// A character this far (in location units) from where a suggestion starts has moved since
+const STALE_TOLERANCE = 0.01
+
+const suggestionInclude = {
+  character: { select: { name: true } },
+  proposedBy: { select: { displayName: true } },
+  resolvedBy: { select: { displayName: true } },
+} satisfies Prisma.MovementSuggestionInclude
+
+type StoredSuggestion = Prisma.MovementSuggestionGetPayload<{ include: typeof suggestionInclude }>
+
+export class MovementService {
+  /**
+   * Calculate and validate a move to a target position and store it as a pending suggestion
+   * The move starts from the character's current position in the session's location
+   */
+  async suggestMovement(
+    sessionId: string,
+    request: MovementRequest,
+    proposedById?: string
+  ): Promise<MovementSuggestion> {
+    // Only characters at this session's table can move on its map
+    await sessionService.resolveActingCharacter(sessionId, request.characterId)
+
+    const state = await prisma.sessionState.findUnique({
+      where: { sessionId },
+      select: { locationId: true },
+    })
+
+    if (!state?.locationId) {
+      throw new Error('Session has no active location')
+    }
+
+    const position = await prisma.characterPosition.findUnique({
+      where: { characterId: request.characterId },
+      include: { character: { select: { name: true } } },
+    })
+
+    if (!position) {
+      throw new Error('Character position not found')
+    }
+
+    const from: Position3D = { x: position.x, y: position.y, z: position.z }
+    const validation = await spatialService.validateMovement(
+      from,
+      request.targetPosition,
+      state.locationId,
+      request.characterId
+    )
+
+    // Walking distance along the route around obstacles, and the movement it
+    // spends once terrain is priced
+    const to = validation.destination ?? request.targetPosition
+    const distance = validation.path?.distance ?? spatialService.calculateDistance(from, to)
+    const movementCost = validation.path?.cost ?? distance
+    const turnMovement = await spatialService.calculateTurnMovement(request.characterId, movementCost)
+    const budget = await encounterService.checkMovementBudget(sessionId, request.characterId, movementCost)
+    const provoked = await reactionService.findOpportunityAttacks(
+      sessionId,
+      request.characterId,
+      state.locationId,
+      validation.path?.waypoints ?? [from, to]
+    )
+    const opportunityAttacks = opportunityAttackWarning(provoked.map((reaction) => reaction.name))
+
+    return await this.recordSuggestion(
+      sessionId,
+      {
+        id: '',
+        characterId: request.characterId,
+        characterName: position.character.name,
+        from,
+        to,
+        reason: request.reason || 'Movement requested',
+        targetName: request.targetName,
+        actionType: request.actionType,
+        distance,
+        movementCost,
+        path: validation.path?.waypoints,
+        locationId: state.locationId,
+        isValid: validation.isValid && budget.allowed,
+        validationIssues: [
+          ...(validation.warnings || []),
+          ...(validation.blockedBy ? [`Blocked by: ${validation.blockedBy.join(', ')}`] : []),
+          ...(budget.reason ? [budget.reason] : []),
+          ...(opportunityAttacks ? [opportunityAttacks] : []),
+        ],
+        baseMovementRate: turnMovement.baseMovementRate,
+        canReachInOneTurn: turnMovement.canReachInOneTurn,
+        turnsRequired: turnMovement.turnsRequired,
+      },
+      { proposedById }
+    )
+  }
+
+  /**
+   * Store a validated suggestion as pending and return it with its stored id
+   * Any suggestion still pending for the same character is expired: only the latest can be applied
+   */
+  async recordSuggestion(
+    sessionId: string,
+    suggestion: MovementSuggestion,
+    options: RecordSuggestionOptions = {}
+  ): Promise<MovementSuggestion> {
+    await prisma.movementSuggestion.updateMany({
+      where: { sessionId, characterId: suggestion.characterId, status: 'PENDING' },
+      data: { status: 'EXPIRED', resolvedAt: new Date(), resolutionNote: 'Superseded by a newer suggestion' },
+    })
+
+    const stored = await prisma.movementSuggestion.create({
+      data: {
+        sessionId,
+        characterId: suggestion.characterId,
+        locationId: suggestion.locationId,
+        messageId: options.messageId,
+        proposedById: options.proposedById,
+        fromX: suggestion.from.x,
+        fromY: suggestion.from.y,
+        fromZ: suggestion.from.z,
+        toX: suggestion.to.x,
+        toY: suggestion.to.y,
+        toZ: suggestion.to.z,
+        path: suggestion.path,
+        distance: suggestion.distance,
+        movementCost: suggestion.movementCost,
+        actionType: suggestion.actionType,
+        targetName: suggestion.targetName,
+        reason: suggestion.reason,
+        isValid: suggestion.isValid,
+        validationIssues: suggestion.validationIssues,
+      },
+    })
+
+    return { ...suggestion, id: stored.id }
+  }
+
+  /**
+   * Get a stored suggestion of a session
+   */
+  async getSuggestion(sessionId: string, suggestionId: string): Promise<MovementSuggestionRecord> {
+    return this.toRecord(await this.findSuggestion(sessionId, suggestionId))
+  }
+
+  /**
+   * Move the character as a pending suggestion proposed
+   * Throws if the suggestion was already resolved, or is stale because the character
+   * moved since it was proposed (the suggestion is then expired). The move is validated
+   * again, and during combat spends the mover's turn budget and prompts the hostile
+   * combatants whose reach it leaves for their opportunity attack.
+   */
+  async applySuggestion(
+    sessionId: string,
+    suggestionId: string,
+    userId: string,
+    facing?: number
+  ): Promise<{
+    suggestion: MovementSuggestionRecord
+    position: Position3D & { facing: number | null }
+    reactions: ReactionPromptRecord[]
+    triggers: TriggerActivationRecord[]
+  }> {
+    const stored = await this.findSuggestion(sessionId, suggestionId)
+    if (stored.status !== 'PENDING') {
+      throw new Error(`Movement suggestion already ${stored.status.toLowerCase()}`)
+    }
+
+    const position = await prisma.characterPosition.findUnique({
+      where: { characterId: stored.characterId },
+    })
+
+    if (!position) {
+      throw new Error('Character position not found')
+    }
+
+    const from: Position3D = { x: stored.fromX, y: stored.fromY, z: stored.fromZ }
+    const to: Position3D = { x: stored.toX, y: stored.toY, z: stored.toZ }
+    const current: Position3D = { x: position.x, y: position.y, z: position.z }
+    if (
+      (position.locationId && position.locationId !== stored.locationId) ||
+      spatialService.calculateDistance(current, from) > STALE_TOLERANCE
+    ) {
+      const note = `${stored.character.name} has moved since it was proposed`
+      await prisma.movementSuggestion.updateMany({
+        where: { id: stored.id, status: 'PENDING' },
+        data: { status: 'EXPIRED', resolvedAt: new Date(), resolutionNote: note },
+      })
+      throw new Error(`Movement suggestion is stale: ${note}`)
+    }
+
+    // Validate one more time: features may have changed since the suggestion
+    const validation = await spatialService.validateMovement(from, to, stored.locationId, stored.characterId)
+    if (!validation.isValid) {
+      const issues = [
+        ...(validation.blockedBy ? [`Blocked by: ${validation.blockedBy.join(', ')}`] : []),
+        ...(validation.warnings || []),
+      ]
+      throw new Error(`Invalid movement: ${issues.join('; ') || 'not allowed'}`)
+    }
+
+    // During combat, only the current combatant may move, within their turn budget
+    // (measured along the route walked around obstacles, priced by the terrain crossed)
+    const movementCost = validation.path?.cost ?? spatialService.calculateDistance(from, to)
+    const budget = await encounterService.checkMovementBudget(sessionId, stored.characterId, movementCost)
+    if (!budget.allowed) {
+      throw new Error(`Invalid movement: ${budget.reason || 'not allowed to move right now'}`)
+    }
+
+    // Check reach along the route actually walked, before anyone moves
+    const path = validation.path?.waypoints ?? [from, validation.destination ?? to]
+    const provoked = await reactionService.findOpportunityAttacks(
+      sessionId,
+      stored.characterId,
+      stored.locationId,
+      path
+    )
+
+    // Only one of two simultaneous applies gets to move the pending suggestion on,
+    // and it stays pending if the move itself fails
+    const resolvedAt = new Date()
+    const destination = validation.destination ?? to
+    const updated = await prisma.$transaction(async (tx) => {
+      await this.claim(stored.id, 'APPLIED', { resolvedById: userId, resolvedAt }, tx)
+
+      // Update character position (snapped to the location grid)
+      const moved = await tx.characterPosition.update({
+        where: { characterId: stored.characterId },
+        data: {
+          locationId: stored.locationId,
+          x: destination.x,
+          y: destination.y,
+          z: destination.z,
+          facing,
+        },
+      })
+      await this.recordMovements(
+        [
+          {
+            sessionId,
+            characterId: stored.characterId,
+            messageId: stored.messageId ?? undefined,
+            suggestionId: stored.id,
+            source: 'MOVE',
+            from: { ...from, locationId: position.locationId },
+            to: { ...destination, locationId: stored.locationId },
+            reason: stored.reason,
+          },
+        ],
+        tx
+      )
+      return moved
+    })
+
+    if (budget.combatantId) {
+      await encounterService.spendMovement(budget.combatantId, movementCost)
+    }
+    const reactions = await reactionService.raiseReactions(provoked, stored.id)
+
+    // Traps and hazards along the route go off once the character has walked it
+    const triggers = await triggerService.resolveMovement(
+      sessionId,
+      stored.characterId,
+      stored.locationId,
+      path,
+      stored.id
+    )
+
+    return {
+      suggestion: {
+        ...this.toRecord(stored),
+        status: 'APPLIED',
+        resolvedAt,
+      },
+      position: { x: updated.x, y: updated.y, z: updated.z, facing: updated.facing },
+      reactions,
+      triggers,
+    }
+  }
+
+  /**
+   * Turn a pending suggestion down
+   */
+  async rejectSuggestion(
+    sessionId: string,
+    suggestionId: string,
+    userId: string,
+    reason?: string
+  ): Promise<MovementSuggestionRecord> {
+    const stored = await this.findSuggestion(sessionId, suggestionId)
+    if (stored.status !== 'PENDING') {
+      throw new Error(`Movement suggestion already ${stored.status.toLowerCase()}`)
+    }
+
+    const resolvedAt = new Date()
+    await this.claim(stored.id, 'REJECTED', { resolvedById: userId, resolvedAt, resolutionNote: reason })
+
+    return {
+      ...this.toRecord(stored),
+      status: 'REJECTED',
+      resolutionNote: reason,
+      resolvedAt,
+    }
+  }
+
+  /**
+   * Get the suggestions of a session (newest first), optionally for one character or status
+   */
+  async getHistory(sessionId: string, filter: MovementHistoryFilter = {}): Promise<MovementSuggestionRecord[]> {
+    const suggestions = await prisma.movementSuggestion.findMany({
+      where: {
+        sessionId,
+        ...(filter.characterId && { characterId: filter.characterId }),
+        ...(filter.status && { status: filter.status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: filter.limit ?? 50,
+      include: suggestionInclude,
+    })
+
+    return suggestions.map((suggestion) => this.toRecord(suggestion))
+  }
+
+  /**
+   * Count suggestions by outcome: how often the table goes along with the DM's moves
+   */
+  async getStats(sessionId: string, characterId?: string): Promise<MovementSuggestionStats> {
+    const groups = await prisma.movementSuggestion.groupBy({
+      by: ['status'],
+      where: { sessionId, ...(characterId && { characterId }) },
+      _count: { _all: true },
+      _avg: { distance: true },
+    })
+
+    const byStatus: Record<MovementSuggestionStatus, number> = { PENDING: 0, APPLIED: 0, REJECTED: 0, EXPIRED: 0 }
+    let averageDistance: number | null = null
+    for (const group of groups) {
+      byStatus[group.status] = group._count._all
+      if (group.status === 'APPLIED') {
+        averageDistance = group._avg.distance
+      }
+    }
+
+    const decided = byStatus.APPLIED + byStatus.REJECTED
+    return {
+      total: Object.values(byStatus).reduce((sum, count) => sum + count, 0),
+      byStatus,
+      acceptanceRate: decided > 0 ? byStatus.APPLIED / decided : null,
+      averageDistance,
+    }
+  }
+
+  /**
+   * Record position changes in the movement log
+   * Not async, so it can join the transaction that moves the characters
+   */
+  recordMovements(events: MovementEventInput[], db: Prisma.TransactionClient = prisma) {
+    return db.movementEvent.createMany({
+      data: events.map((event) => ({
+        sessionId: event.sessionId,
+        characterId: event.characterId,
+        messageId: event.messageId,
+        suggestionId: event.suggestionId,
+        source: event.source,
+        fromLocationId: event.from?.locationId,
+        fromX: event.from?.x,
+        fromY: event.from?.y,
+        fromZ: event.from?.z,
+        toLocationId: event.to.locationId,
+        toX: event.to.x,
+        toY: event.to.y,
+        toZ: event.to.z,
+        reason: event.reason,
+      })),
+    })
+  }
+
+  /**
+   * Get where a character went, oldest first (the latest moves when limited)
+   */
+  async getTrail(characterId: string, filter: MovementTrailFilter = {}): Promise<MovementEvent[]> {
+    const events = await prisma.movementEvent.findMany({
+      where: { characterId, ...(filter.sessionId && { sessionId: filter.sessionId }) },
+      orderBy: { createdAt: 'desc' },
+      take: filter.limit ?? 100,
+      include: { character: { select: { name: true } } },
+    })
+
+    return events.reverse().map((event) => ({
+      id: event.id,
+      sessionId: event.sessionId || undefined,
+      characterId: event.characterId,
+      characterName: event.character.name,
+      messageId: event.messageId || undefined,
+      suggestionId: event.suggestionId || undefined,
+      source: event.source,
+      fromLocationId: event.fromLocationId || undefined,
+      from:
+        event.fromX !== null && event.fromY !== null && event.fromZ !== null
+          ? { x: event.fromX, y: event.fromY, z: event.fromZ }
+          : undefined,
+      toLocationId: event.toLocationId || undefined,
+      to: { x: event.toX, y: event.toY, z: event.toZ },
+      reason: event.reason || undefined,
+      createdAt: event.createdAt,
+    }))
+  }
+
+  /**
+   * Where the campaign's characters stood when a message of the session was posted
+   * Counts messages still in the conversation from 0. Starts from the current positions
+   * and walks the movement log back, so characters placed before the log began are
+   * found too; characters whose first placement came later are left out.
+   */
+  async replayPositions(sessionId: string, messageIndex: number): Promise<PositionReplay> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { campaignId: true },
+    })
+
+    if (!session) {
+      throw new Error('Session not found')
+    }
+
+    const where = { sessionId, discardedAt: null }
+    const [messageCount, message] = await Promise.all([
+      prisma.message.count({ where }),
+      prisma.message.findFirst({
+        where,
+        orderBy: { createdAt: 'asc' },
+        skip: messageIndex,
+        select: { id: true, role: true, content: true, createdAt: true },
+      }),
+    ])
+
+    if (!message) {
+      throw new Error(`Message index out of range: the session has ${messageCount} messages`)
+    }
+
+    const positions = await prisma.characterPosition.findMany({
+      where: { character: { campaignId: session.campaignId } },
+      include: { character: { select: { name: true } } },
+    })
+    const later = await prisma.movementEvent.findMany({
+      where: {
+        characterId: { in: positions.map((p) => p.characterId) },
+        createdAt: { gt: message.createdAt },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    // Undo later moves, newest first
+    const placed = new Map<string, PlacedPosition | null>(
+      positions.map((p) => [p.characterId, { locationId: p.locationId, x: p.x, y: p.y, z: p.z }])
+    )
+    for (const event of later) {
+      placed.set(
+        event.characterId,
+        event.fromX !== null && event.fromY !== null && event.fromZ !== null
+          ? { locationId: event.fromLocationId, x: event.fromX, y: event.fromY, z: event.fromZ }
+          : null
+      )
+    }
+
+    return {
+      message: { ...message, index: messageIndex },
+      messageCount,
+      positions: positions.flatMap((p) => {
+        const at = placed.get(p.characterId)
+        return at
+          ? [
+              {
+                characterId: p.characterId,
+                characterName: p.character.name,
+                locationId: at.locationId || undefined,
+                position: { x: at.x, y: at.y, z: at.z },
+              },
+            ]
+          : []
+      }),
+    }
+  }
+
+  private async findSuggestion(sessionId: string, suggestionId: string): Promise<StoredSuggestion> {
+    const suggestion = await prisma.movementSuggestion.findUnique({
+      where: { id: suggestionId },
+      include: suggestionInclude,
+    })
+
+    if (!suggestion || suggestion.sessionId !== sessionId) {
+      throw new Error('Movement suggestion not found')
+    }
+
+    return suggestion
+  }
+
+  /**
+   * Resolve a suggestion only if it is still pending
+   */
+  private async claim(
+    suggestionId: string,
+    status: SuggestionStatus,
+    data: { resolvedById: string; resolvedAt: Date; resolutionNote?: string },
+    db: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    const { count } = await db.movementSuggestion.updateMany({
+      where: { id: suggestionId, status: 'PENDING' },
+      data: { ...data, status },
+    })
+
+    if (count === 0) {
+      const current = await db.movementSuggestion.findUnique({
+        where: { id: suggestionId },
+        select: { status: true },
+      })
+      throw new Error(`Movement suggestion already ${(current?.status ?? 'resolved').toLowerCase()}`)
+    }
+  }
+
+  private toRecord(suggestion: StoredSuggestion): MovementSuggestionRecord {
+    return {
+      id: suggestion.id,
+      characterId: suggestion.characterId,
+      characterName: suggestion.character.name,
+      from: { x: suggestion.fromX, y: suggestion.fromY, z: suggestion.fromZ },
+      to: { x: suggestion.toX, y: suggestion.toY, z: suggestion.toZ },
+      reason: suggestion.reason,
+      targetName: suggestion.targetName || undefined,
+      actionType: suggestion.actionType as MovementSuggestion['actionType'],
+      distance: suggestion.distance,
+      movementCost: suggestion.movementCost ?? undefined,
+      path: (suggestion.path as Position3D[] | null) || undefined,
+      locationId: suggestion.locationId,
+      isValid: suggestion.isValid,
+      validationIssues: (suggestion.validationIssues as string[] | null) || undefined,
+      status: suggestion.status,
+      messageId: suggestion.messageId || undefined,
+      proposedBy: suggestion.proposedBy?.displayName,
+      resolvedBy: suggestion.resolvedBy?.displayName,
+      resolutionNote: suggestion.resolutionNote || undefined,
+      createdAt: suggestion.createdAt,
+      resolvedAt: suggestion.resolvedAt || undefined,
+    }
+  }
+}
+
+export const movementService = new MovementService()
@@ -0,0 +1,172 @@
+import { prisma } from '@/lib/db'
+import { packNames, packPositions } from '@/lib/npcs'
+import { Npc, Prisma } from '@prisma/client'
+import { NpcCreateInput, NpcRecord, NpcUpdateInput } from '@/types'
+
+export interface NpcFilter {
+  locationId?: string
+}
+
+const MAX_PACK_SIZE = 20
+
+export class NpcService {
+  /**
+   * Get a campaign's NPCs and creatures, optionally only those placed in a location
+   */
+  async getNpcs(campaignId: string, filter: NpcFilter = {}): Promise<NpcRecord[]> {
+    const npcs = await prisma.npc.findMany({
+      where: { campaignId, ...(filter.locationId && { locationId: filter.locationId }) },
+      orderBy: [{ createdAt: 'asc' }, { name: 'asc' }],
+    })
+    return npcs.map((npc) => this.toRecord(npc))
+  }
+
+  async getNpc(campaignId: string, npcId: string): Promise<NpcRecord> {
+    return this.toRecord(await this.findNpc(campaignId, npcId))
+  }
+
+  /**
+   * Create an NPC, or a numbered pack of them standing together
+   * ("Goblin 1".."Goblin 4"), without touching the player characters
+   */
+  async createNpcs(campaignId: string, input: NpcCreateInput): Promise<NpcRecord[]> {
+    const count = input.count ?? 1
+    if (count < 1 || count > MAX_PACK_SIZE) {
+      throw new Error(`A pack holds 1 to ${MAX_PACK_SIZE} NPCs`)
+    }
+
+    await this.checkKnowledge(campaignId, input.knowledgeId)
+    const location = input.locationId ? await this.findLocation(campaignId, input.locationId) : null
+
+    const taken = await prisma.npc.findMany({
+      where: { campaignId, name: { startsWith: input.name } },
+      select: { name: true },
+    })
+    const names = packNames(input.name, count, taken.map((npc) => npc.name))
+    const positions = location
+      ? packPositions(
+          input.position ?? { x: location.minX, y: location.minY, z: location.minZ },
+          count,
+          location.gridSize
+        )
+      : []
+
+    const npcs = await prisma.$transaction(
+      names.map((name, i) =>
+        prisma.npc.create({
+          data: {
+            campaignId,
+            name,
+            kind: input.kind,
+            statBlock: input.statBlock as Prisma.InputJsonValue | undefined,
+            disposition: input.disposition,
+            faction: input.faction,
+            knowledgeId: input.knowledgeId,
+            maxHp: input.maxHp,
+            currentHp: input.maxHp,
+            armorClass: input.armorClass,
+            baseMovementRate: input.baseMovementRate,
+            locationId: location?.id,
+            ...positions[i],
+          },
+        })
+      )
+    )
+    return npcs.map((npc) => this.toRecord(npc))
+  }
+
+  /**
+   * Update an NPC's stat block, disposition or knowledge link, or move their token
+   * HP is kept between 0 and the NPC's (possibly new) maximum
+   */
+  async updateNpc(campaignId: string, npcId: string, input: NpcUpdateInput): Promise<NpcRecord> {
+    const existing = await this.findNpc(campaignId, npcId)
+    await this.checkKnowledge(campaignId, input.knowledgeId)
+    if (input.locationId) {
+      await this.findLocation(campaignId, input.locationId)
+    }
+
+    const { statBlock, currentHp, ...rest } = input
+    const maxHp = input.maxHp ?? existing.maxHp
+    const hp = currentHp ?? (input.maxHp !== undefined ? existing.currentHp : undefined)
+    const npc = await prisma.npc.update({
+      where: { id: npcId },
+      data: {
+        ...rest,
+        ...(hp !== undefined && { currentHp: Math.min(Math.max(hp, 0), maxHp) }),
+        ...(statBlock !== undefined && {
+          statBlock: statBlock === null ? Prisma.JsonNull : (statBlock as Prisma.InputJsonValue),
+        }),
+      },
+    })
+    return this.toRecord(npc)
+  }
+
+  /**
+   * Delete an NPC; combatants they fought as stay in the encounter's history
+   */
+  async deleteNpc(campaignId: string, npcId: string) {
+    await this.findNpc(campaignId, npcId)
+    await prisma.npc.delete({ where: { id: npcId } })
+  }
+
+  private async findNpc(campaignId: string, npcId: string) {
+    const npc = await prisma.npc.findUnique({ where: { id: npcId } })
+
+    if (!npc || npc.campaignId !== campaignId) {
+      throw new Error('NPC not found')
+    }
+
+    return npc
+  }
+
+  private async findLocation(campaignId: string, locationId: string) {
+    const location = await prisma.location.findUnique({ where: { id: locationId } })
+
+    if (!location || location.campaignId !== campaignId) {
+      throw new Error('Location not found')
+    }
+
+    return location
+  }
+
+  /**
+   * An NPC can only be linked to an NPC entry of their own campaign's knowledge
+   */
+  private async checkKnowledge(campaignId: string, knowledgeId?: string | null) {
+    if (!knowledgeId) return
+
+    const knowledge = await prisma.campaignKnowledge.findUnique({
+      where: { id: knowledgeId },
+      select: { campaignId: true, category: true },
+    })
+    if (!knowledge || knowledge.campaignId !== campaignId) {
+      throw new Error('Knowledge entry not found')
+    }
+    if (knowledge.category !== 'NPC') {
+      throw new Error('Knowledge entry is not an NPC')
+    }
+  }
+
+  private toRecord(npc: Npc): NpcRecord {
+    return {
+      id: npc.id,
+      campaignId: npc.campaignId,
+      name: npc.name,
+      kind: npc.kind || undefined,
+      statBlock: (npc.statBlock as Record<string, unknown> | null) || undefined,
+      disposition: npc.disposition,
+      faction: npc.faction || undefined,
+      knowledgeId: npc.knowledgeId || undefined,
+      maxHp: npc.maxHp,
+      currentHp: npc.currentHp,
+      armorClass: npc.armorClass,
+      baseMovementRate: npc.baseMovementRate,
+      locationId: npc.locationId || undefined,
+      position: npc.locationId ? { x: npc.x, y: npc.y, z: npc.z } : undefined,
+      facing: npc.facing ?? undefined,
+    }
+  }
+}
+
+export const npcService = new NpcService()
@@ -0,0 +1,230 @@
+import { prisma } from '@/lib/db'
+import { Prisma } from '@prisma/client'
+import { findReachExit, meleeReach } from '@/lib/reactions'
+import { Position3D, ReactionPromptRecord, ReactionStatus } from '@/types'
+import { encounterService } from './encounter-service'
+import { spatialService } from './spatial-service'
+
+// A reaction a move would provoke, before it is raised
+export type ProvokedReaction = {
+  encounterId: string
+  round: number
+  combatantId: string // Who may react
+  name: string
+  triggeredById: string // Combatant who moves
+  position: Position3D // Last point of the path within reach
+}
+
+export interface ReactionFilter {
+  status?: ReactionStatus
+}
+
+const reactionInclude = {
+  encounter: { select: { sessionId: true } },
+  combatant: { select: { name: true, characterId: true } },
+  triggeredBy: { select: { name: true } },
+} satisfies Prisma.ReactionPromptInclude
+
+type StoredReaction = Prisma.ReactionPromptGetPayload<{ include: typeof reactionInclude }>
+
+export class ReactionService {
+  /**
+   * Opportunity attacks a character would provoke moving along a path
+   * Only during combat, from combatants on the other side (characters or NPC tokens)
+   * who are placed in the location, still standing, have their reaction and can
+   * see the mover leave their reach
+   */
+  async findOpportunityAttacks(
+    sessionId: string,
+    characterId: string,
+    locationId: string,
+    path: Position3D[]
+  ): Promise<ProvokedReaction[]> {
+    const encounter = await encounterService.getActiveEncounter(sessionId)
+    const mover = encounter?.combatants.find((c) => c.characterId === characterId)
+    if (!encounter || !mover || path.length < 2) {
+      return []
+    }
+
+    const foes = encounter.combatants.filter(
+      (c) =>
+        (c.characterId || c.npcId) &&
+        c.id !== mover.id &&
+        c.isHostile !== mover.isHostile &&
+        !c.isDefeated &&
+        !c.reactionUsed
+    )
+    if (foes.length === 0) {
+      return []
+    }
+
+    const [snapshot, meleeRules] = await Promise.all([
+      spatialService.loadLocationSnapshot(locationId),
+      prisma.movementRule.findMany({
+        where: { interactionType: 'MELEE', campaign: { sessions: { some: { id: sessionId } } } },
+        select: { maxDistance: true },
+      }),
+    ])
+
+    if (!snapshot) {
+      return []
+    }
+
+    // The shortest melee rule is everyone's reach; longer ones are for reach weapons
+    const reach = meleeReach(
+      meleeRules.length > 0 ? Math.min(...meleeRules.map((rule) => rule.maxDistance)) : null,
+      snapshot.grid
+    )
+    const measure = (a: Position3D, b: Position3D) => spatialService.calculateDistance(a, b, snapshot.grid)
+
+    const provoked: ProvokedReaction[] = []
+    for (const foe of foes) {
+      const placed = foe.characterId
+        ? snapshot.characters.find((c) => c.characterId === foe.characterId)
+        : snapshot.npcs.find((npc) => npc.id === foe.npcId)
+      if (!placed) continue
+
+      const foePosition = { x: placed.x, y: placed.y, z: placed.z }
+      const exit = findReachExit(path, foePosition, reach, measure)
+      if (!exit || !spatialService.hasLineOfSight(snapshot, foePosition, exit)) continue
+
+      provoked.push({
+        encounterId: encounter.id,
+        round: encounter.round,
+        combatantId: foe.id,
+        name: foe.name,
+        triggeredById: mover.id,
+        position: exit,
+      })
+    }
+
+    return provoked
+  }
+
+  /**
+   * Prompt the combatants whose reaction a move provoked
+   */
+  async raiseReactions(provoked: ProvokedReaction[], suggestionId?: string): Promise<ReactionPromptRecord[]> {
+    if (provoked.length === 0) {
+      return []
+    }
+
+    const created = await prisma.$transaction(
+      provoked.map((reaction) =>
+        prisma.reactionPrompt.create({
+          data: {
+            encounterId: reaction.encounterId,
+            combatantId: reaction.combatantId,
+            triggeredById: reaction.triggeredById,
+            suggestionId,
+            trigger: 'OPPORTUNITY_ATTACK',
+            round: reaction.round,
+            x: reaction.position.x,
+            y: reaction.position.y,
+            z: reaction.position.z,
+          },
+          include: reactionInclude,
+        })
+      )
+    )
+
+    return created.map((reaction) => this.toRecord(reaction))
+  }
+
+  /**
+   * Get the reaction prompts of the running encounter (newest first)
+   */
+  async getReactions(sessionId: string, filter: ReactionFilter = {}): Promise<ReactionPromptRecord[]> {
+    const reactions = await prisma.reactionPrompt.findMany({
+      where: {
+        encounter: { sessionId, status: 'ACTIVE' },
+        ...(filter.status && { status: filter.status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      include: reactionInclude,
+    })
+
+    return reactions.map((reaction) => this.toRecord(reaction))
+  }
+
+  /**
+   * Get a reaction prompt of a session
+   */
+  async getReaction(sessionId: string, reactionId: string): Promise<ReactionPromptRecord> {
+    return this.toRecord(await this.findReaction(sessionId, reactionId))
+  }
+
+  /**
+   * Record whether a combatant took a pending reaction
+   * Taking it spends the combatant's reaction until their next turn, so their
+   * other pending prompts lapse
+   */
+  async resolveReaction(sessionId: string, reactionId: string, used: boolean): Promise<ReactionPromptRecord> {
+    const stored = await this.findReaction(sessionId, reactionId)
+    if (stored.status !== 'PENDING') {
+      throw new Error(`Reaction already ${stored.status.toLowerCase()}`)
+    }
+
+    const resolvedAt = new Date()
+    const status = used ? 'USED' : 'DECLINED'
+    const { count } = await prisma.reactionPrompt.updateMany({
+      where: { id: stored.id, status: 'PENDING' },
+      data: { status, resolvedAt },
+    })
+    if (count === 0) {
+      throw new Error('Reaction already resolved')
+    }
+
+    if (used) {
+      const spent = await prisma.combatant.updateMany({
+        where: { id: stored.combatantId, reactionUsed: false },
+        data: { reactionUsed: true },
+      })
+      if (spent.count === 0) {
+        await prisma.reactionPrompt.update({ where: { id: stored.id }, data: { status: 'EXPIRED' } })
+        throw new Error(`Reaction already spent: ${stored.combatant.name} has reacted this round`)
+      }
+
+      await prisma.reactionPrompt.updateMany({
+        where: { combatantId: stored.combatantId, status: 'PENDING' },
+        data: { status: 'EXPIRED', resolvedAt },
+      })
+    }
+
+    return { ...this.toRecord(stored), status, resolvedAt }
+  }
+
+  private async findReaction(sessionId: string, reactionId: string): Promise<StoredReaction> {
+    const reaction = await prisma.reactionPrompt.findUnique({
+      where: { id: reactionId },
+      include: reactionInclude,
+    })
+
+    if (!reaction || reaction.encounter.sessionId !== sessionId) {
+      throw new Error('Reaction not found')
+    }
+
+    return reaction
+  }
+
+  private toRecord(reaction: StoredReaction): ReactionPromptRecord {
+    return {
+      id: reaction.id,
+      encounterId: reaction.encounterId,
+      round: reaction.round,
+      trigger: reaction.trigger,
+      combatantId: reaction.combatantId,
+      combatantName: reaction.combatant.name,
+      characterId: reaction.combatant.characterId || undefined,
+      triggeredById: reaction.triggeredById,
+      triggeredByName: reaction.triggeredBy.name,
+      suggestionId: reaction.suggestionId || undefined,
+      position: { x: reaction.x, y: reaction.y, z: reaction.z },
+      status: reaction.status,
+      createdAt: reaction.createdAt,
+      resolvedAt: reaction.resolvedAt || undefined,
+    }
+  }
+}
+
+export const reactionService = new ReactionService()
@@ -2,9 +2,29 @@ import { prisma } from '@/lib/db'
 import { SessionCreateInput, SessionUpdateInput } from '@/types'
 
 export class SessionService {
+  /**
+   * Create a session; the roster defaults to every character in the campaign
+   */
   async createSession(data: SessionCreateInput) {
+    const { characterIds, ...sessionData } = data
+
+    const characters = await prisma.character.findMany({
+      where: { campaignId: data.campaignId },
+      select: { id: true },
+    })
+    const campaignCharacterIds = characters.map((c) => c.id)
+
+    if (characterIds?.some((characterId) => !campaignCharacterIds.includes(characterId))) {
+      throw new Error('Character not found in this campaign')
+    }
+
     return prisma.session.create({
-      data,
+      data: {
+        ...sessionData,
+        participants: {
+          create: (characterIds || campaignCharacterIds).map((characterId) => ({ characterId })),
+        },
+      },
       include: {
         campaign: true,
       },
@@ -20,8 +40,25 @@ export class SessionService {
             characters: true,
           },
         },
+        participants: {
+          orderBy: { joinedAt: 'asc' },
+          include: {
+            character: {
+              select: { id: true, name: true, race: true, class: true, level: true },
+            },
+          },
+        },
+        state: {
+          select: { locationId: true },
+        },
         messages: {
+          where: { discardedAt: null },
           orderBy: { createdAt: 'asc' },
+          include: {
+            character: {
+              select: { id: true, name: true },
+            },
+          },
         },
       },
     })
@@ -54,12 +91,117 @@ export class SessionService {
         _count: {
           select: {
             messages: true,
+            participants: true,
+          },
+        },
+      },
+    })
+  }
+
+  /**
+   * Get the characters taking part in a session, in join order
+   * Sessions without a roster are open to every character in the campaign
+   */
+  async getRoster(sessionId: string) {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: {
+        participants: {
+          orderBy: { joinedAt: 'asc' },
+          include: { character: true },
+        },
+        campaign: {
+          include: {
+            characters: {
+              orderBy: { createdAt: 'asc' },
+            },
           },
         },
       },
     })
+
+    if (!session) {
+      throw new Error('Session not found')
+    }
+
+    return session.participants.length > 0
+      ? session.participants.map((p) => p.character)
+      : session.campaign.characters
+  }
+
+  /**
+   * Add a campaign character to the session roster
+   */
+  async addParticipant(sessionId: string, characterId: string) {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { campaignId: true },
+    })
+
+    if (!session) {
+      throw new Error('Session not found')
+    }
+
+    const character = await prisma.character.findUnique({
+      where: { id: characterId },
+      select: { campaignId: true },
+    })
+
+    if (!character || character.campaignId !== session.campaignId) {
+      throw new Error('Character not found in this campaign')
+    }
+
+    return prisma.sessionParticipant.upsert({
+      where: { sessionId_characterId: { sessionId, characterId } },
+      update: {},
+      create: { sessionId, characterId },
+      include: { character: true },
+    })
+  }
+
+  /**
+   * Remove a character from the session roster (their messages are kept)
+   * The last one stays: an empty roster would open the session to the whole campaign
+   */
+  async removeParticipant(sessionId: string, characterId: string) {
+    const participants = await prisma.sessionParticipant.findMany({
+      where: { sessionId },
+      select: { characterId: true },
+    })
+
+    if (!participants.some((p) => p.characterId === characterId)) {
+      throw new Error('Character is not in this session')
+    }
+    if (participants.length === 1) {
+      throw new Error('Cannot remove the last character from the session')
+    }
+
+    await prisma.sessionParticipant.deleteMany({
+      where: { sessionId, characterId },
+    })
+  }
+
+  /**
+   * Decide which character is acting for a player message
+   * A single-character roster acts implicitly; larger parties must say who acts
+   */
+  async resolveActingCharacter(sessionId: string, characterId?: string) {
+    const roster = await this.getRoster(sessionId)
+
+    if (characterId) {
+      const character = roster.find((c) => c.id === characterId)
+      if (!character) {
+        throw new Error('Character is not in this session')
+      }
+      return character
+    }
+
+    if (roster.length > 1) {
+      throw new Error('Several characters are in this session; choose which one is acting')
+    }
+
+    return roster[0]
   }
 }
 
 export const sessionService = new SessionService()
-
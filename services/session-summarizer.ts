@@ -24,7 +24,7 @@ export class SessionSummarizerService {
     })
 
     const totalMessages = await prisma.message.count({
-      where: { sessionId },
+      where: { sessionId, discardedAt: null },
     })
 
     if (!lastSummary) {
@@ -49,7 +49,7 @@ export class SessionSummarizerService {
 
     // Get messages to summarize
     const allMessages = await prisma.message.findMany({
-      where: { sessionId },
+      where: { sessionId, discardedAt: null },
       orderBy: { createdAt: 'asc' },
     })
 
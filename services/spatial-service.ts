@@ -1,4 +1,106 @@
 import { prisma } from '@/lib/db'
+import {
+  Character,
+  CharacterPosition,
+  Location,
+  LocationFeature,
+  MovementMode,
+  MovementRule,
+  Npc,
+  Prisma,
+} from '@prisma/client'
+import { findPath, isSegmentClear, PathObstacle, PathResult, PathTerrain } from '@/lib/pathfinding'
+import { GridSettings, gridDistance, gridFromLocation, snapToGrid } from '@/lib/grid'
+import { LightLevel, LightSource, lightLevelAt, perceive, Perception, Senses } from '@/lib/vision'
+import {
+  AreaTemplate,
+  DEFAULT_LINE_WIDTH,
+  describeArea,
+  isBoxInArea,
+  isInArea,
+  validateArea,
+} from '@/lib/area-of-effect'
+import { BoundingBox, SpatialIndex } from '@/lib/spatial-index'
+import { AreaOfEffectResult, FeatureState, NpcDisposition } from '@/types'
+
+const DEFAULT_MOVEMENT_RATE = 9.0 // Matches Character.baseMovementRate default
+
+// Dexterity save bonus granted by cover against area effects
+const COVER_SAVE_BONUS: Record<string, number> = {
+  NONE: 0,
+  HALF: 2,
+  THREE_QUARTERS: 5,
+}
+
+const COVER_LEVELS = ['NONE', 'HALF', 'THREE_QUARTERS', 'FULL']
+
+// Spatial index cells span two map cells, so each holds a handful of tokens or features
+const INDEX_CELLS_PER_GRID_CELL = 2
+
+// Features that affect movement: obstacles plus terrain with a cost or movement mode
+const MOVEMENT_FEATURES: Prisma.LocationFeatureWhereInput = {
+  OR: [{ blocksMovement: true }, { movementCost: { not: 1 } }, { movementMode: { not: 'WALK' } }],
+}
+
+// Speeds that decide what terrain costs a character
+type MoverSpeeds = {
+  baseMovementRate: number
+  swimSpeed: number | null
+  climbSpeed: number | null
+  flySpeed: number | null
+}
+
+// A character placed in a location
+type PlacedCharacter = CharacterPosition & { character: Character }
+
+// Anyone with a token in a location: a placed character or an NPC
+type PlacedToken = {
+  characterId?: string
+  npcId?: string
+  name: string
+  position: Position
+  disposition?: NpcDisposition
+  faction?: string
+}
+
+// Light and sight from where an observer stands
+type Viewpoint = {
+  lightAt: (point: Position, featureId?: string) => LightLevel
+  perceive: (target: Position, featureId?: string) => Perception
+}
+
+type VisibleCharacter = {
+  characterId?: string
+  npcId?: string // Set instead of characterId for NPC tokens
+  name: string
+  position: Position
+  distance: number
+  sense?: string
+  obscured: boolean
+  disposition?: NpcDisposition
+  faction?: string
+}
+
+type NearbyFeature = {
+  featureId: string
+  name: string
+  type: string
+  state?: FeatureState
+  position: Position
+  distance: number
+}
+
+type ValidAction = {
+  ruleName: string
+  interactionType: string
+  maxDistance: number
+  validTargets: Array<{
+    characterId?: string
+    npcId?: string
+    name: string
+    distance: number
+  }>
+}
 
 export interface Position {
   x: number
@@ -8,17 +110,24 @@ export interface Position {
 
 export interface SpatialContext {
   characterPositions: Array<{
-    characterId: string
+    characterId?: string
+    npcId?: string // Set instead of characterId for NPCs and creatures
     name: string
     position: Position
     distance: number
     canSee: boolean
     coverLevel: string
+    sense?: string // How the character is perceived: sight, darkvision or blindsight
+    obscured: boolean
+    disposition?: NpcDisposition
+    faction?: string
   }>
+  lightLevel: LightLevel // Light where the observer stands
   nearbyFeatures: Array<{
     featureId: string
     name: string
     type: string
+    state?: FeatureState
     position: Position
     distance: number
   }>
@@ -30,11 +139,31 @@ export interface SpatialContext {
   }>
 }
 
+/**
+ * A location as it stands this turn: bounds, features, placed characters and
+ * NPC tokens, indexed so line of sight, cover and range queries stay in memory
+ */
+export interface LocationSnapshot {
+  location: Location
+  grid: GridSettings
+  features: LocationFeature[]
+  characters: PlacedCharacter[]
+  npcs: Npc[]
+  featureIndex: SpatialIndex<LocationFeature> // Sight boxes, as line of sight and cover see them
+  characterIndex: SpatialIndex<PlacedCharacter>
+  npcIndex: SpatialIndex<Npc>
+}
+
 export class SpatialService {
   /**
    * Calculate 3D Euclidean distance between two positions
+   * On a square or hex grid the distance follows the grid's movement rules instead
    */
-  calculateDistance(pos1: Position, pos2: Position): number {
+  calculateDistance(pos1: Position, pos2: Position, grid?: GridSettings): number {
+    if (grid && grid.gridType !== 'NONE') {
+      return gridDistance(pos1, pos2, grid)
+    }
+
     const dx = pos2.x - pos1.x
     const dy = pos2.y - pos1.y
     const dz = pos2.z - pos1.z
@@ -50,6 +179,50 @@ export class SpatialService {
     return Math.sqrt(dx * dx + dy * dy)
   }
 
+  /**
+   * Load a location's bounds, features, placed characters and NPCs at once, indexed in memory
+   * Load it once per turn and run the spatial queries against it instead of going
+   * back to the database for every pair of tokens. Null when the location is gone
+   */
+  async loadLocationSnapshot(locationId: string): Promise<LocationSnapshot | null> {
+    const [location, features, characters, npcs] = await Promise.all([
+      prisma.location.findUnique({ where: { id: locationId } }),
+      prisma.locationFeature.findMany({ where: { locationId } }),
+      prisma.characterPosition.findMany({
+        where: { locationId },
+        include: { character: true },
+      }),
+      prisma.npc.findMany({ where: { locationId } }),
+    ])
+
+    if (!location) {
+      return null
+    }
+
+    const grid = gridFromLocation(location)
+    const cellSize = (grid.gridSize > 0 ? grid.gridSize : 1) * INDEX_CELLS_PER_GRID_CELL
+
+    return {
+      location,
+      grid,
+      features,
+      characters,
+      npcs,
+      featureIndex: new SpatialIndex(
+        features.map((feature) => ({ item: feature, box: sightBox(feature) })),
+        cellSize
+      ),
+      characterIndex: new SpatialIndex(
+        characters.map((character) => ({ item: character, box: pointBox(character) })),
+        cellSize
+      ),
+      npcIndex: new SpatialIndex(
+        npcs.map((npc) => ({ item: npc, box: pointBox(npc) })),
+        cellSize
+      ),
+    }
+  }
+
   /**
    * Check if there's a clear line of sight between two positions
    * considering obstacles that block vision
@@ -57,274 +230,252 @@ export class SpatialService {
   async checkLineOfSight(
     pos1: Position,
     pos2: Position,
-    locationId: string
+    locationId: string,
+    ignoreFeatureId?: string
   ): Promise<boolean> {
-    // Get all vision-blocking features in this location
-    const obstacles = await prisma.locationFeature.findMany({
-      where: {
-        locationId,
-        blocksVision: true,
-      },
-    })
+    const snapshot = await this.loadLocationSnapshot(locationId)
+    return !snapshot || this.hasLineOfSight(snapshot, pos1, pos2, [ignoreFeatureId])
+  }
 
-    // Simple raycasting - check if line intersects any obstacle
-    for (const obstacle of obstacles) {
-      if (this.lineIntersectsBox(pos1, pos2, obstacle)) {
-        return false
-      }
-    }
+  /**
+   * Line of sight within a loaded location
+   * Listed features are ignored, so a feature never blocks the view of itself
+   */
+  hasLineOfSight(
+    snapshot: LocationSnapshot,
+    from: Position,
+    to: Position,
+    ignoreFeatureIds: Array<string | undefined> = []
+  ): boolean {
+    return !snapshot.featureIndex
+      .alongSegment(from, to)
+      .some((feature) => feature.blocksVision && !ignoreFeatureIds.includes(feature.id))
+  }
 
-    return true
+  /**
+   * Calculate cover level provided by features between attacker and defender
+   * (a targeted feature can be ignored so it doesn't cover itself)
+   */
+  async getCoverLevel(
+    attackerPos: Position,
+    defenderPos: Position,
+    locationId: string,
+    ignoreFeatureId?: string
+  ): Promise<string> {
+    const snapshot = await this.loadLocationSnapshot(locationId)
+    if (!snapshot) return 'NONE'
+    return this.coverBetween(snapshot, attackerPos, defenderPos, ignoreFeatureId)
   }
 
   /**
-   * Check if a line segment intersects a 3D bounding box
+   * Cover level within a loaded location
    */
-  private lineIntersectsBox(
-    start: Position,
-    end: Position,
-    box: {
-      x: number
-      y: number
-      z: number
-      width: number | null
-      height: number | null
-      depth: number | null
+  coverBetween(
+    snapshot: LocationSnapshot,
+    attackerPos: Position,
+    defenderPos: Position,
+    ignoreFeatureId?: string
+  ): string {
+    let bestCover = 'NONE'
+
+    for (const feature of snapshot.featureIndex.alongSegment(attackerPos, defenderPos)) {
+      if (feature.id === ignoreFeatureId) continue
+      if (COVER_LEVELS.indexOf(feature.providesCover) > COVER_LEVELS.indexOf(bestCover)) {
+        bestCover = feature.providesCover
+      }
     }
-  ): boolean {
-    const width = box.width || 5
-    const height = box.height || 5
-    const depth = box.depth || 5
-
-    // Simplified box intersection check
-    // Check if line passes through the box volume
-    const minX = box.x
-    const maxX = box.x + width
-    const minY = box.y
-    const maxY = box.y + depth
-    const minZ = box.z
-    const maxZ = box.z + height
-
-    // Basic AABB line intersection
-    return this.lineIntersectsAABB(start, end, {
-      minX,
-      maxX,
-      minY,
-      maxY,
-      minZ,
-      maxZ,
-    })
+
+    return bestCover
   }
 
   /**
-   * Line-AABB intersection test
+   * Characters and features caught in an area of effect
+   * Effects spread in straight lines from the point of origin, so anything behind
+   * a vision-blocking feature or total cover is shielded; half and
+   * three-quarters cover still grant their Dexterity save bonus
    */
-  private lineIntersectsAABB(
-    start: Position,
-    end: Position,
-    box: {
-      minX: number
-      maxX: number
-      minY: number
-      maxY: number
-      minZ: number
-      maxZ: number
-    }
-  ): boolean {
-    const dir = {
-      x: end.x - start.x,
-      y: end.y - start.y,
-      z: end.z - start.z,
-    }
+  async resolveAreaOfEffect(locationId: string, template: AreaTemplate): Promise<AreaOfEffectResult> {
+    const snapshot = await this.loadLocationSnapshot(locationId)
 
-    let tmin = 0
-    let tmax = 1
+    if (!snapshot) {
+      throw new Error('Location not found')
+    }
 
-    // X axis
-    if (Math.abs(dir.x) < 0.0001) {
-      if (start.x < box.minX || start.x > box.maxX) return false
-    } else {
-      const tx1 = (box.minX - start.x) / dir.x
-      const tx2 = (box.maxX - start.x) / dir.x
-      tmin = Math.max(tmin, Math.min(tx1, tx2))
-      tmax = Math.min(tmax, Math.max(tx1, tx2))
+    const feet = snapshot.location.unitType === 'feet'
+    const area = {
+      ...template,
+      width: template.width ?? (template.shape === 'LINE' ? (feet ? 5 : DEFAULT_LINE_WIDTH) : undefined),
     }
+    validateArea(area)
 
-    // Y axis
-    if (Math.abs(dir.y) < 0.0001) {
-      if (start.y < box.minY || start.y > box.maxY) return false
-    } else {
-      const ty1 = (box.minY - start.y) / dir.y
-      const ty2 = (box.maxY - start.y) / dir.y
-      tmin = Math.max(tmin, Math.min(ty1, ty2))
-      tmax = Math.min(tmax, Math.max(ty1, ty2))
+    const result: AreaOfEffectResult = {
+      description: describeArea(area, feet ? 'ft' : 'm'),
+      characters: [],
+      features: [],
+      shielded: [],
     }
 
-    // Z axis
-    if (Math.abs(dir.z) < 0.0001) {
-      if (start.z < box.minZ || start.z > box.maxZ) return false
-    } else {
-      const tz1 = (box.minZ - start.z) / dir.z
-      const tz2 = (box.maxZ - start.z) / dir.z
-      tmin = Math.max(tmin, Math.min(tz1, tz2))
-      tmax = Math.min(tmax, Math.max(tz1, tz2))
+    for (const token of tokensOf(snapshot)) {
+      const { position } = token
+      if (!isInArea(position, area)) continue
+
+      const hasLOS = this.hasLineOfSight(snapshot, area.origin, position)
+      const coverLevel = hasLOS ? this.coverBetween(snapshot, area.origin, position) : 'FULL'
+
+      if (coverLevel === 'FULL') {
+        result.shielded.push({
+          characterId: token.characterId,
+          npcId: token.npcId,
+          name: token.name,
+          reason: hasLOS ? 'Total cover' : 'No line from the point of origin',
+        })
+        continue
+      }
+
+      result.characters.push({
+        characterId: token.characterId,
+        npcId: token.npcId,
+        name: token.name,
+        position,
+        distance: this.calculateDistance(area.origin, position, snapshot.grid),
+        coverLevel,
+        saveBonus: COVER_SAVE_BONUS[coverLevel] ?? 0,
+      })
     }
 
-    return tmax >= tmin && tmin <= 1 && tmax >= 0
-  }
+    for (const feature of snapshot.features) {
+      const box = {
+        minX: feature.x,
+        maxX: feature.x + (feature.width || 0),
+        minY: feature.y,
+        maxY: feature.y + (feature.depth || 0),
+        minZ: feature.z,
+        maxZ: feature.z + (feature.height || 0),
+      }
+      if (!isBoxInArea(box, area)) continue
 
-  /**
-   * Calculate cover level provided by features between attacker and defender
-   */
-  async getCoverLevel(
-    attackerPos: Position,
-    defenderPos: Position,
-    locationId: string
-  ): Promise<string> {
-    const features = await prisma.locationFeature.findMany({
-      where: {
-        locationId,
-        providesCover: { not: 'NONE' },
-      },
-    })
+      const centre = featureCentre(feature)
+      const reached =
+        this.hasLineOfSight(snapshot, area.origin, centre, [feature.id]) &&
+        this.coverBetween(snapshot, area.origin, centre, feature.id) !== 'FULL'
 
-    let bestCover = 'NONE'
-    const coverLevels = ['NONE', 'HALF', 'THREE_QUARTERS', 'FULL']
-
-    for (const feature of features) {
-      if (this.lineIntersectsBox(attackerPos, defenderPos, feature)) {
-        const coverIndex = coverLevels.indexOf(feature.providesCover)
-        const bestIndex = coverLevels.indexOf(bestCover)
-        if (coverIndex > bestIndex) {
-          bestCover = feature.providesCover
-        }
+      if (reached) {
+        result.features.push({ featureId: feature.id, name: feature.name, type: feature.type })
       }
     }
 
-    return bestCover
+    result.characters.sort((a, b) => a.distance - b.distance)
+    return result
   }
 
   /**
    * Find all valid actions a character can perform based on distance rules
    */
-  async findValidActions(
-    characterId: string,
-    campaignId: string
-  ): Promise<
-    Array<{
-      ruleName: string
-      interactionType: string
-      maxDistance: number
-      validTargets: Array<{
-        characterId: string
-        name: string
-        distance: number
-      }>
-    }>
-  > {
-    // Get character position
+  async findValidActions(characterId: string, campaignId: string): Promise<ValidAction[]> {
     const charPos = await prisma.characterPosition.findUnique({
       where: { characterId },
-      include: { character: true },
     })
 
-    if (!charPos) {
+    if (!charPos || !charPos.locationId) {
       return []
     }
 
-    // Get all movement rules for this campaign
-    const rules = await prisma.movementRule.findMany({
-      where: { campaignId },
-    })
+    const [snapshot, rules] = await Promise.all([
+      this.loadLocationSnapshot(charPos.locationId),
+      prisma.movementRule.findMany({ where: { campaignId } }),
+    ])
 
-    // Get all other characters in the same location
-    const otherChars = await prisma.characterPosition.findMany({
-      where: {
-        locationId: charPos.locationId,
-        characterId: { not: characterId },
-      },
-      include: { character: true },
-    })
+    if (!snapshot) {
+      return []
+    }
 
-    const validActions = []
+    const position = { x: charPos.x, y: charPos.y, z: charPos.z }
+    return this.validActionsIn(snapshot, characterId, position, rules)
+  }
 
-    for (const rule of rules) {
+  /**
+   * Targets each rule reaches from a position, within a loaded location
+   */
+  private validActionsIn(
+    snapshot: LocationSnapshot,
+    characterId: string,
+    position: Position,
+    rules: MovementRule[]
+  ): ValidAction[] {
+    return rules.map((rule) => {
       const validTargets = []
 
-      for (const otherChar of otherChars) {
-        const distance = this.calculateDistance(
-          { x: charPos.x, y: charPos.y, z: charPos.z },
-          { x: otherChar.x, y: otherChar.y, z: otherChar.z }
-        )
-
-        if (distance <= rule.maxDistance) {
-          // Check line of sight if required
-          if (rule.requiresLineOfSight && charPos.locationId) {
-            const hasLOS = await this.checkLineOfSight(
-              { x: charPos.x, y: charPos.y, z: charPos.z },
-              { x: otherChar.x, y: otherChar.y, z: otherChar.z },
-              charPos.locationId
-            )
-            if (!hasLOS) continue
-          }
-
-          validTargets.push({
-            characterId: otherChar.characterId,
-            name: otherChar.character.name,
-            distance,
-          })
-        }
+      // The indexes measure on the floor; a cell of slack covers grid snapping
+      const searchRadius = rule.maxDistance + snapshot.grid.gridSize
+      const inRange = [
+        ...snapshot.characterIndex.near(position, searchRadius).map(characterToken),
+        ...snapshot.npcIndex.near(position, searchRadius).map(npcToken),
+      ]
+      for (const other of inRange) {
+        if (other.characterId === characterId) continue
+
+        const distance = this.calculateDistance(position, other.position, snapshot.grid)
+        if (distance > rule.maxDistance) continue
+
+        // Check line of sight if required
+        if (rule.requiresLineOfSight && !this.hasLineOfSight(snapshot, position, other.position)) continue
+
+        validTargets.push({
+          characterId: other.characterId,
+          npcId: other.npcId,
+          name: other.name,
+          distance,
+        })
       }
 
-      validActions.push({
+      return {
         ruleName: rule.name,
         interactionType: rule.interactionType,
         maxDistance: rule.maxDistance,
         validTargets,
-      })
-    }
-
-    return validActions
+      }
+    })
   }
 
   /**
-   * Get all characters visible from a position
+   * Get all characters and NPCs perceived from a position
+   * The observer (excluded from the results) sees with their senses; without one,
+   * normal vision is assumed. Darkness hides characters that are not lit.
    */
   async getVisibleCharacters(
     position: Position,
     locationId: string,
-    excludeCharacterId?: string
-  ): Promise<
-    Array<{
-      characterId: string
-      name: string
-      position: Position
-      distance: number
-    }>
-  > {
-    const characters = await prisma.characterPosition.findMany({
-      where: {
-        locationId,
-        ...(excludeCharacterId ? { characterId: { not: excludeCharacterId } } : {}),
-      },
-      include: { character: true },
-    })
+    observerId?: string
+  ): Promise<VisibleCharacter[]> {
+    const snapshot = await this.loadLocationSnapshot(locationId)
+
+    if (!snapshot) {
+      return []
+    }
 
+    const viewpoint = this.viewpointIn(snapshot, position, await this.loadSenses(snapshot, observerId))
+    return this.visibleCharactersIn(snapshot, position, viewpoint, observerId)
+  }
+
+  private visibleCharactersIn(
+    snapshot: LocationSnapshot,
+    position: Position,
+    viewpoint: Viewpoint,
+    observerId?: string
+  ): VisibleCharacter[] {
     const visibleChars = []
 
-    for (const char of characters) {
-      const charPos = { x: char.x, y: char.y, z: char.z }
-      const distance = this.calculateDistance(position, charPos)
+    for (const token of tokensOf(snapshot)) {
+      if (token.characterId && token.characterId === observerId) continue
 
-      // Check line of sight
-      const hasLOS = await this.checkLineOfSight(position, charPos, locationId)
+      const perceived = viewpoint.perceive(token.position)
 
-      if (hasLOS) {
+      if (perceived.perceived) {
         visibleChars.push({
-          characterId: char.characterId,
-          name: char.character.name,
-          position: charPos,
-          distance,
+          ...token,
+          distance: this.calculateDistance(position, token.position, snapshot.grid),
+          sense: perceived.sense,
+          obscured: perceived.obscured,
         })
       }
     }
@@ -333,42 +484,107 @@ export class SpatialService {
   }
 
   /**
-   * Get nearby features within a certain radius
+   * Get nearby features within a certain radius that the observer perceives
+   * (lit light sources stand out even in the dark)
    */
   async getNearbyFeatures(
     position: Position,
     locationId: string,
-    maxDistance: number = 30
-  ): Promise<
-    Array<{
-      featureId: string
-      name: string
-      type: string
-      position: Position
-      distance: number
-    }>
-  > {
-    const features = await prisma.locationFeature.findMany({
-      where: { locationId },
-    })
+    maxDistance: number = 30,
+    observerId?: string
+  ): Promise<NearbyFeature[]> {
+    const snapshot = await this.loadLocationSnapshot(locationId)
 
-    return features
+    if (!snapshot) {
+      return []
+    }
+
+    const viewpoint = this.viewpointIn(snapshot, position, await this.loadSenses(snapshot, observerId))
+    return this.nearbyFeaturesIn(snapshot, position, maxDistance, viewpoint)
+  }
+
+  private nearbyFeaturesIn(
+    snapshot: LocationSnapshot,
+    position: Position,
+    maxDistance: number,
+    viewpoint: Viewpoint
+  ): NearbyFeature[] {
+    return snapshot.featureIndex
+      .near(position, maxDistance + snapshot.grid.gridSize)
       .map((feature) => {
         const featurePos = { x: feature.x, y: feature.y, z: feature.z }
-        const distance = this.calculateDistance(position, featurePos)
+        const distance = this.calculateDistance(position, featurePos, snapshot.grid)
 
         return {
-          featureId: feature.id,
-          name: feature.name,
-          type: feature.type,
-          position: featurePos,
-          distance,
+          feature,
+          nearby: {
+            featureId: feature.id,
+            name: feature.name,
+            type: feature.type,
+            state: feature.state ?? undefined,
+            position: featurePos,
+            distance,
+          },
         }
       })
-      .filter((f) => f.distance <= maxDistance)
+      .filter(({ nearby }) => nearby.distance <= maxDistance)
+      .filter(({ feature }) => viewpoint.perceive(featureCentre(feature), feature.id).perceived)
+      .map(({ nearby }) => nearby)
       .sort((a, b) => a.distance - b.distance)
   }
 
+  /**
+   * What a character perceives right now, plus the features they have revealed
+   * before (their fog of war). Currently perceived features are remembered.
+   */
+  async getCharacterVision(characterId: string) {
+    const charPos = await prisma.characterPosition.findUnique({
+      where: { characterId },
+      include: { character: true },
+    })
+
+    if (!charPos || !charPos.locationId) {
+      throw new Error('Character is not placed in a location')
+    }
+
+    const snapshot = await this.loadLocationSnapshot(charPos.locationId)
+    if (!snapshot) {
+      throw new Error('Character is not placed in a location')
+    }
+
+    const position = { x: charPos.x, y: charPos.y, z: charPos.z }
+    const viewpoint = this.viewpointIn(snapshot, position, sensesOf(charPos.character))
+    const characters = this.visibleCharactersIn(snapshot, position, viewpoint, characterId)
+    const features = this.nearbyFeaturesIn(snapshot, position, Infinity, viewpoint)
+    const visibleFeatureIds = features.map((f) => f.featureId)
+    await this.revealFeatures(characterId, visibleFeatureIds)
+
+    const revealed = await prisma.revealedFeature.findMany({
+      where: { characterId, feature: { locationId: charPos.locationId } },
+      select: { featureId: true },
+    })
+
+    return {
+      locationId: charPos.locationId,
+      lightLevel: viewpoint.lightAt(position),
+      visibleCharacters: characters,
+      visibleFeatureIds,
+      revealedFeatureIds: revealed.map((r) => r.featureId),
+    }
+  }
+
+  /**
+   * Remember features a character has perceived
+   */
+  async revealFeatures(characterId: string, featureIds: string[]) {
+    if (featureIds.length === 0) return
+
+    await prisma.revealedFeature.createMany({
+      data: featureIds.map((featureId) => ({ characterId, featureId })),
+      skipDuplicates: true,
+    })
+  }
+
   /**
    * Suggest a movement position based on action intent
    */
@@ -407,6 +623,8 @@ export class SpatialService {
 
   /**
    * Build spatial context for AI prompt
+   * The location is loaded once and every perception, cover and range query of
+   * the turn runs against that snapshot
    */
   async buildSpatialContext(
     characterId: string,
@@ -414,61 +632,54 @@ export class SpatialService {
   ): Promise<SpatialContext | null> {
     const charPos = await prisma.characterPosition.findUnique({
       where: { characterId },
-      include: { character: { include: { campaign: true } } },
+      include: { character: true },
     })
 
     if (!charPos || !charPos.locationId) {
       return null
     }
 
-    const position = { x: charPos.x, y: charPos.y, z: charPos.z }
-
-    // Get visible characters
-    const visibleChars = await this.getVisibleCharacters(
-      position,
-      charPos.locationId,
-      characterId
-    )
+    const [snapshot, rules] = await Promise.all([
+      this.loadLocationSnapshot(charPos.locationId),
+      prisma.movementRule.findMany({ where: { campaignId: charPos.character.campaignId } }),
+    ])
 
-    // Add cover and distance info
-    const characterPositions = await Promise.all(
-      visibleChars.map(async (char) => {
-        const canSee = true // Already filtered for visibility
-        const coverLevel = await this.getCoverLevel(
-          position,
-          char.position,
-          charPos.locationId!
-        )
+    if (!snapshot) {
+      return null
+    }
 
-        return {
-          characterId: char.characterId,
-          name: char.name,
-          position: char.position,
-          distance: char.distance,
-          canSee,
-          coverLevel,
-        }
+    const position = { x: charPos.x, y: charPos.y, z: charPos.z }
+    const viewpoint = this.viewpointIn(snapshot, position, sensesOf(charPos.character))
+
+    // Get the characters this character perceives, with cover and distance info
+    const characterPositions = this.visibleCharactersIn(snapshot, position, viewpoint, characterId).map(
+      (char) => ({
+        characterId: char.characterId,
+        npcId: char.npcId,
+        name: char.name,
+        position: char.position,
+        distance: char.distance,
+        canSee: char.sense !== 'blindsight', // Blindsight perceives without seeing
+        coverLevel: this.coverBetween(snapshot, position, char.position),
+        sense: char.sense,
+        obscured: char.obscured,
+        disposition: char.disposition,
+        faction: char.faction,
       })
     )
 
-    // Get nearby features
-    const nearbyFeatures = await this.getNearbyFeatures(
-      position,
-      charPos.locationId,
-      30
-    )
-
-    // Get valid actions
-    const validActions = await this.findValidActions(
+    // Get the nearby features this character perceives, and remember them
+    const nearbyFeatures = this.nearbyFeaturesIn(snapshot, position, 30, viewpoint)
+    await this.revealFeatures(
       characterId,
-      charPos.character.campaignId
+      nearbyFeatures.map((feature) => feature.featureId)
     )
 
     // Flatten valid actions
-    const availableActions = validActions.flatMap((rule) =>
+    const availableActions = this.validActionsIn(snapshot, characterId, position, rules).flatMap((rule) =>
       rule.validTargets.map((target) => ({
         action: `${rule.interactionType} (${rule.ruleName})`,
-        targetId: target.characterId,
+        targetId: (target.characterId ?? target.npcId)!,
         targetName: target.name,
         requiresMovement: false,
       }))
@@ -476,6 +687,7 @@ export class SpatialService {
 
     return {
       characterPositions,
+      lightLevel: viewpoint.lightAt(position),
       nearbyFeatures,
       availableActions,
     }
@@ -483,6 +695,7 @@ export class SpatialService {
 
   /**
    * Calculate turn-based movement info for a character
+   * `distance` is the movement spent, i.e. a path's terrain-priced `cost`
    * Optionally apply a movement modifier (e.g., 2.0 for running/dashing)
    */
   async calculateTurnMovement(
@@ -503,7 +716,7 @@ export class SpatialService {
       },
     })
 
-    const baseRate = character?.baseMovementRate || 9.0 // Default 9 meters
+    const baseRate = character?.baseMovementRate || DEFAULT_MOVEMENT_RATE
     const effectiveRate = baseRate * movementModifier
 
     // Calculate if reachable in one turn with current modifier
@@ -518,18 +731,51 @@ export class SpatialService {
     }
   }
 
+  /**
+   * Find the cheapest walkable route between two points in a location
+   * Terrain is priced for the given character's speeds (a plain walker without one)
+   * Returns null when the destination cannot be reached around the obstacles
+   */
+  async findPath(
+    from: Position,
+    to: Position,
+    locationId: string,
+    characterId?: string
+  ): Promise<PathResult | null> {
+    const location = await prisma.location.findUnique({
+      where: { id: locationId },
+      include: {
+        features: {
+          where: MOVEMENT_FEATURES,
+        },
+      },
+    })
+
+    if (!location) {
+      throw new Error('Location not found')
+    }
+
+    return this.planPath(from, to, location, await this.getMoverSpeeds(characterId))
+  }
+
   /**
    * Validate movement from one position to another
+   * On grid maps the target is snapped to its cell centre (`destination`);
+   * valid moves come with the route walked around obstacles (`path`), whose
+   * `cost` prices the terrain crossed for the moving character
    */
   async validateMovement(
     from: Position,
     to: Position,
-    locationId: string
+    locationId: string,
+    characterId?: string
   ): Promise<{
     isValid: boolean
     blockedBy?: string[]
     suggestedAlternative?: Position
     warnings?: string[]
+    destination?: Position
+    path?: PathResult
   }> {
     const warnings: string[] = []
     const blockedBy: string[] = []
@@ -539,9 +785,7 @@ export class SpatialService {
       where: { id: locationId },
       include: {
         features: {
-          where: {
-            blocksMovement: true,
-          },
+          where: MOVEMENT_FEATURES,
         },
       },
     })
@@ -553,6 +797,8 @@ export class SpatialService {
       }
     }
 
+    to = snapToGrid(to, gridFromLocation(location))
+
     // Check if target position is within bounds
     if (
       to.x < location.minX ||
@@ -570,9 +816,14 @@ export class SpatialService {
     }
 
     // Check if target position intersects with blocking features
+    const mover = await this.getMoverSpeeds(characterId)
+    const unreachable: string[] = []
     for (const feature of location.features) {
-      if (this.positionIntersectsFeature(to, feature)) {
+      if (!this.positionIntersectsFeature(to, feature)) continue
+      if (feature.blocksMovement) {
         blockedBy.push(feature.name)
+      } else if (this.terrainMultiplier(feature, mover) === Infinity) {
+        unreachable.push(feature.name)
       }
     }
 
@@ -584,63 +835,237 @@ export class SpatialService {
       }
     }
 
+    if (unreachable.length > 0) {
+      return {
+        isValid: false,
+        destination: to,
+        warnings: [`Cannot enter ${unreachable.join(', ')} without a fly speed`],
+      }
+    }
+
+    // Route around anything standing between the two points
+    const path = this.planPath(from, to, location, mover)
+    if (!path) {
+      return {
+        isValid: false,
+        destination: to,
+        warnings: ['No walkable path to the target position'],
+      }
+    }
+
     // Check if movement distance is reasonable (not teleporting)
-    const distance = this.calculateDistance(from, to)
     const maxReasonableDistance = 50 // meters - adjust based on your needs
-    if (distance > maxReasonableDistance) {
+    if (path.distance > maxReasonableDistance) {
       warnings.push(
-        `Movement distance (${distance.toFixed(1)}m) seems unusually large`
+        `Movement distance (${path.distance.toFixed(1)}m) seems unusually large`
       )
     }
 
     return {
       isValid: true,
       warnings: warnings.length > 0 ? warnings : undefined,
+      destination: to,
+      path,
     }
   }
 
   /**
-   * Validate movement path (check if straight line path is clear)
+   * Validate movement path
+   * A blocked straight line is fine as long as there is a way around;
+   * `blockedBy` lists what stands in the straight line and `path` is the detour
    */
   async validateMovementPath(
     from: Position,
     to: Position,
-    locationId: string
+    locationId: string,
+    characterId?: string
   ): Promise<{
     isValid: boolean
     blockedBy?: string[]
     suggestedAlternative?: Position
+    path?: PathResult
   }> {
-    // Get features that block movement
-    const features = await prisma.locationFeature.findMany({
-      where: {
-        locationId,
-        blocksMovement: true,
+    const location = await prisma.location.findUnique({
+      where: { id: locationId },
+      include: {
+        features: {
+          where: MOVEMENT_FEATURES,
+        },
       },
     })
 
-    const blockedBy: string[] = []
+    if (!location) {
+      return { isValid: false }
+    }
 
-    // Check if line path intersects any blocking features
-    for (const feature of features) {
-      if (this.lineIntersectsBox(from, to, feature)) {
-        blockedBy.push(feature.name)
-      }
+    const blockedBy = this.toPathObstacles(location.features, from.z)
+      .filter((obstacle) => !isSegmentClear(from, to, [obstacle]))
+      .map((obstacle) => obstacle.name)
+
+    const path = this.planPath(from, to, location, await this.getMoverSpeeds(characterId))
+
+    return {
+      isValid: path !== null,
+      blockedBy: blockedBy.length > 0 ? blockedBy : undefined,
+      path: path || undefined,
     }
+  }
 
-    if (blockedBy.length > 0) {
-      return {
-        isValid: false,
-        blockedBy,
-        // TODO: In Phase 3, calculate suggested alternative path around obstacles
-      }
+  /**
+   * Route around a location's movement-blocking features, measured by its grid
+   * and priced by the terrain the mover crosses
+   * Square grids search on the map's own cells
+   */
+  private planPath(
+    from: Position,
+    to: Position,
+    location: Location & { features: LocationFeature[] },
+    mover: MoverSpeeds
+  ): PathResult | null {
+    const grid = gridFromLocation(location)
+    return findPath(from, to, location, this.toPathObstacles(location.features, from.z), {
+      cellSize: grid.gridType === 'SQUARE' ? grid.gridSize : undefined,
+      terrain: this.toPathTerrain(location.features, from.z, mover),
+      measure: (a, b) => gridDistance(a, b, grid),
+    })
+  }
+
+  /**
+   * Cost multiplier of moving through a feature
+   * Swimming, climbing and flying use the matching speed relative to the walking speed;
+   * without one, swimming and climbing cost double (5e) and open air cannot be entered
+   */
+  private terrainMultiplier(
+    feature: { movementCost: number; movementMode: MovementMode },
+    mover: MoverSpeeds
+  ): number {
+    if (feature.movementMode === 'WALK') {
+      return feature.movementCost
+    }
+
+    const speed = {
+      SWIM: mover.swimSpeed,
+      CLIMB: mover.climbSpeed,
+      FLY: mover.flySpeed,
+    }[feature.movementMode]
+
+    if (speed) {
+      return feature.movementCost * (mover.baseMovementRate / speed)
     }
+    return feature.movementMode === 'FLY' ? Infinity : feature.movementCost * 2
+  }
+
+  private async getMoverSpeeds(characterId?: string): Promise<MoverSpeeds> {
+    const character = characterId
+      ? await prisma.character.findUnique({
+          where: { id: characterId },
+          select: { baseMovementRate: true, swimSpeed: true, climbSpeed: true, flySpeed: true },
+        })
+      : null
 
     return {
-      isValid: true,
+      baseMovementRate: character?.baseMovementRate || DEFAULT_MOVEMENT_RATE,
+      swimSpeed: character?.swimSpeed ?? null,
+      climbSpeed: character?.climbSpeed ?? null,
+      flySpeed: character?.flySpeed ?? null,
     }
   }
 
+  /**
+   * Senses of an observer, read from the snapshot when they stand in it
+   * Without an observer, normal vision without darkvision is assumed
+   */
+  private async loadSenses(snapshot: LocationSnapshot, observerId?: string): Promise<Senses> {
+    if (!observerId) {
+      return sensesOf(null)
+    }
+
+    const placed = snapshot.characters.find((char) => char.characterId === observerId)
+    if (placed) {
+      return sensesOf(placed.character)
+    }
+
+    return sensesOf(
+      await prisma.character.findUnique({
+        where: { id: observerId },
+        select: { visionRange: true, darkvision: true, blindsight: true },
+      })
+    )
+  }
+
+  /**
+   * Light and sight from a position within a loaded location
+   */
+  private viewpointIn(snapshot: LocationSnapshot, position: Position, senses: Senses): Viewpoint {
+    const lights = snapshot.features
+      .filter((feature) => feature.brightLight || feature.dimLight)
+      .map((feature) => {
+        const source: LightSource = {
+          position: featureCentre(feature),
+          brightRadius: feature.brightLight || 0,
+          dimRadius: Math.max(feature.dimLight || 0, feature.brightLight || 0),
+        }
+        return { featureId: feature.id, source }
+      })
+
+    // A feature never blocks the view of (or light reaching) itself
+    const lightAt = (point: Position, featureId?: string): LightLevel =>
+      lightLevelAt(
+        point,
+        snapshot.location.ambientLight,
+        lights
+          .filter((light) =>
+            this.hasLineOfSight(snapshot, light.source.position, point, [light.featureId, featureId])
+          )
+          .map((light) => light.source)
+      )
+
+    return {
+      lightAt,
+      perceive: (target: Position, featureId?: string): Perception =>
+        perceive(
+          position,
+          target,
+          senses,
+          lightAt(target, featureId),
+          this.hasLineOfSight(snapshot, position, target, [featureId])
+        ),
+    }
+  }
+
+  /**
+   * Floor footprints of the movement-blocking features at the mover's height
+   */
+  private toPathObstacles(features: LocationFeature[], z: number): PathObstacle[] {
+    return features
+      .filter((feature) => feature.blocksMovement)
+      .filter((feature) => z >= feature.z && z <= feature.z + (feature.height || 0))
+      .map((feature) => ({
+        name: feature.name,
+        minX: feature.x,
+        maxX: feature.x + (feature.width || 0),
+        minY: feature.y,
+        maxY: feature.y + (feature.depth || 0),
+      }))
+  }
+
+  /**
+   * Floor footprints of the passable terrain at the mover's height, priced for the mover
+   */
+  private toPathTerrain(features: LocationFeature[], z: number, mover: MoverSpeeds): PathTerrain[] {
+    return features
+      .filter((feature) => !feature.blocksMovement)
+      .filter((feature) => z >= feature.z && z <= feature.z + (feature.height || 0))
+      .map((feature) => ({
+        name: feature.name,
+        cost: this.terrainMultiplier(feature, mover),
+        minX: feature.x,
+        maxX: feature.x + (feature.width || 0),
+        minY: feature.y,
+        maxY: feature.y + (feature.depth || 0),
+      }))
+  }
+
   /**
    * Check if a position intersects with a feature's bounding box
    */
@@ -708,5 +1133,80 @@ export class SpatialService {
   }
 }
 
-export const spatialService = new SpatialService()
+/**
+ * Centre of a feature's bounding box on its floor
+ */
+function featureCentre(feature: {
+  x: number
+  y: number
+  z: number
+  width: number | null
+  depth: number | null
+}): Position {
+  return {
+    x: feature.x + (feature.width || 0) / 2,
+    y: feature.y + (feature.depth || 0) / 2,
+    z: feature.z,
+  }
+}
+
+/**
+ * Box a feature presents to line of sight and cover
+ * (unsized dimensions count as 5 units)
+ */
+function sightBox(feature: LocationFeature): BoundingBox {
+  return {
+    minX: feature.x,
+    maxX: feature.x + (feature.width || 5),
+    minY: feature.y,
+    maxY: feature.y + (feature.depth || 5),
+    minZ: feature.z,
+    maxZ: feature.z + (feature.height || 5),
+  }
+}
+
+function pointBox(point: Position): BoundingBox {
+  return {
+    minX: point.x,
+    maxX: point.x,
+    minY: point.y,
+    maxY: point.y,
+    minZ: point.z,
+    maxZ: point.z,
+  }
+}
+
+function characterToken(placed: PlacedCharacter): PlacedToken {
+  return {
+    characterId: placed.characterId,
+    name: placed.character.name,
+    position: { x: placed.x, y: placed.y, z: placed.z },
+  }
+}
 
+function npcToken(npc: Npc): PlacedToken {
+  return {
+    npcId: npc.id,
+    name: npc.name,
+    position: { x: npc.x, y: npc.y, z: npc.z },
+    disposition: npc.disposition,
+    faction: npc.faction || undefined,
+  }
+}
+
+/**
+ * Every token in a loaded location, characters first
+ */
+function tokensOf(snapshot: LocationSnapshot): PlacedToken[] {
+  return [...snapshot.characters.map(characterToken), ...snapshot.npcs.map(npcToken)]
+}
+
+function sensesOf(character: Senses | null): Senses {
+  return {
+    visionRange: character?.visionRange ?? null,
+    darkvision: character?.darkvision ?? null,
+    blindsight: character?.blindsight ?? null,
+  }
+}
+
+export const spatialService = new SpatialService()
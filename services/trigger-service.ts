@@ -0,0 +1,464 @@
+import { prisma } from '@/lib/db'
+import { Prisma } from '@prisma/client'
+import { parseDiceExpression } from '@/lib/dice'
+import {
+  abilityModifier,
+  damageAfterSave,
+  describeActivation,
+  findTriggerPoint,
+  passivePerception,
+  savingThrowExpression,
+  triggerArea,
+} from '@/lib/feature-triggers'
+import { Ability, Position3D, TriggerActivationRecord, TriggerEvent, TriggerOutcome } from '@/types'
+import { diceService } from './dice-service'
+import { vitalsService } from './vitals-service'
+
+export interface FeatureTriggerInput {
+  event: TriggerEvent
+  radius?: number | null
+  detectionDc?: number | null
+  saveAbility?: Ability | null
+  saveDc?: number | null
+  halfDamageOnSave?: boolean
+  damageDice?: string | null
+  damageType?: string | null
+  condition?: string | null
+  conditionRounds?: number | null
+  teleportLocationId?: string | null
+  teleportX?: number | null
+  teleportY?: number | null
+  teleportZ?: number | null
+  isArmed?: boolean
+  rearms?: boolean
+}
+
+// Max activations surfaced to the DM model per turn
+const MAX_UNNARRATED_ACTIVATIONS = 5
+
+const characterSelect = { id: true, name: true, stats: true } satisfies Prisma.CharacterSelect
+
+const featureSelect = {
+  id: true,
+  name: true,
+  locationId: true,
+  x: true,
+  y: true,
+  z: true,
+  width: true,
+  height: true,
+  depth: true,
+} satisfies Prisma.LocationFeatureSelect
+
+const triggerInclude = {
+  feature: { select: featureSelect },
+  teleportLocation: {
+    select: { id: true, name: true, minX: true, maxX: true, minY: true, maxY: true, minZ: true },
+  },
+} satisfies Prisma.FeatureTriggerInclude
+
+const activationInclude = {
+  trigger: { select: { featureId: true, feature: { select: { name: true } } } },
+  character: { select: { name: true } },
+} satisfies Prisma.TriggerActivationInclude
+
+type StoredTrigger = Prisma.FeatureTriggerGetPayload<{ include: typeof triggerInclude }>
+type StoredActivation = Prisma.TriggerActivationGetPayload<{ include: typeof activationInclude }>
+
+export type TriggeredCharacter = Prisma.CharacterGetPayload<{ select: typeof characterSelect }>
+
+type ActivationContext = {
+  sessionId: string
+  character: TriggeredCharacter
+  suggestionId?: string
+}
+
+export class TriggerService {
+  /**
+   * Get the triggers of a feature (GM view: traps are secret)
+   */
+  async getTriggers(locationId: string, featureId: string) {
+    await this.findFeature(locationId, featureId)
+
+    return await prisma.featureTrigger.findMany({
+      where: { featureId },
+      orderBy: { createdAt: 'asc' },
+    })
+  }
+
+  /**
+   * Attach a trigger to a feature
+   * Throws "Invalid dice expression: ..." for malformed damage dice
+   */
+  async createTrigger(locationId: string, featureId: string, input: FeatureTriggerInput) {
+    const feature = await this.findFeature(locationId, featureId)
+    await this.validateTrigger(feature.location.campaignId, input)
+
+    return await prisma.featureTrigger.create({
+      data: { featureId, ...input },
+    })
+  }
+
+  /**
+   * Update a trigger; setting isArmed re-arms a spent one
+   */
+  async updateTrigger(
+    locationId: string,
+    featureId: string,
+    triggerId: string,
+    input: Partial<FeatureTriggerInput>
+  ) {
+    const feature = await this.findFeature(locationId, featureId)
+    await this.findTrigger(featureId, triggerId)
+    await this.validateTrigger(feature.location.campaignId, input)
+
+    return await prisma.featureTrigger.update({
+      where: { id: triggerId },
+      data: input,
+    })
+  }
+
+  /**
+   * Remove a trigger from a feature
+   */
+  async deleteTrigger(locationId: string, featureId: string, triggerId: string) {
+    await this.findFeature(locationId, featureId)
+    await this.findTrigger(featureId, triggerId)
+
+    await prisma.featureTrigger.delete({ where: { id: triggerId } })
+  }
+
+  /**
+   * Set off the ENTER and PROXIMITY triggers a move walked into, in the order
+   * they were reached. A teleport ends the walk: later triggers stay armed
+   */
+  async resolveMovement(
+    sessionId: string,
+    characterId: string,
+    locationId: string,
+    path: Position3D[],
+    suggestionId?: string
+  ): Promise<TriggerActivationRecord[]> {
+    const triggers = await prisma.featureTrigger.findMany({
+      where: { isArmed: true, event: { in: ['ENTER', 'PROXIMITY'] }, feature: { locationId } },
+      include: triggerInclude,
+    })
+    if (triggers.length === 0 || path.length < 2) {
+      return []
+    }
+
+    const [location, character] = await Promise.all([
+      prisma.location.findUnique({ where: { id: locationId }, select: { gridSize: true } }),
+      prisma.character.findUnique({ where: { id: characterId }, select: characterSelect }),
+    ])
+    if (!location || !character) {
+      return []
+    }
+
+    const reached = triggers
+      .map((trigger) => {
+        const range = trigger.event === 'PROXIMITY' ? (trigger.radius ?? location.gridSize) : 0
+        const hit = findTriggerPoint(path, triggerArea(trigger.feature, location.gridSize), range)
+        return { trigger, hit }
+      })
+      .filter((entry) => entry.hit !== null)
+      .sort((a, b) => a.hit!.travelled - b.hit!.travelled)
+
+    const activations: TriggerActivationRecord[] = []
+    for (const { trigger } of reached) {
+      const activation = await this.activate(trigger, { sessionId, character, suggestionId })
+      if (!activation) continue
+
+      activations.push(activation)
+      if (activation.teleportLocationId) break
+    }
+
+    return activations
+  }
+
+  /**
+   * Set off a feature's INTERACT triggers; whether the character can reach it
+   * is checked by the caller
+   */
+  async resolveInteraction(
+    sessionId: string,
+    featureId: string,
+    character: TriggeredCharacter
+  ): Promise<TriggerActivationRecord[]> {
+    const triggers = await prisma.featureTrigger.findMany({
+      where: { featureId, event: 'INTERACT', isArmed: true },
+      orderBy: { createdAt: 'asc' },
+      include: triggerInclude,
+    })
+
+    const activations: TriggerActivationRecord[] = []
+    for (const trigger of triggers) {
+      const activation = await this.activate(trigger, { sessionId, character })
+      if (!activation) continue
+
+      activations.push(activation)
+      if (activation.teleportLocationId) break
+    }
+
+    return activations
+  }
+
+  /**
+   * Get trigger activations since the last DM reply, oldest first
+   * Like unnarrated dice rolls, these are outcomes the next narration has to respect
+   */
+  async getUnnarratedActivations(sessionId: string): Promise<TriggerActivationRecord[]> {
+    const lastReply = await prisma.message.findFirst({
+      where: { sessionId, role: 'ASSISTANT', discardedAt: null },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    })
+
+    const activations = await prisma.triggerActivation.findMany({
+      where: {
+        sessionId,
+        ...(lastReply && { createdAt: { gt: lastReply.createdAt } }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_UNNARRATED_ACTIVATIONS,
+      include: activationInclude,
+    })
+
+    return activations.reverse().map((activation) => this.toRecord(activation))
+  }
+
+  /**
+   * Resolve one trigger against a character: detection, saving throw, then the effect
+   * Dice go through the session roll log. Returns null when a one-shot trigger
+   * was already spent by someone else
+   */
+  private async activate(
+    trigger: StoredTrigger,
+    context: ActivationContext
+  ): Promise<TriggerActivationRecord | null> {
+    const { sessionId, character } = context
+    const featureName = trigger.feature.name
+
+    // Only traps set off by walking into them can be spotted in time
+    const perception = passivePerception(character.stats)
+    const spotted = trigger.detectionDc !== null && perception >= trigger.detectionDc
+    if (trigger.event !== 'INTERACT' && spotted) {
+      return this.recordActivation(trigger, context, {
+        outcome: 'DETECTED',
+        summary: describeActivation({
+          characterName: character.name,
+          featureName,
+          outcome: 'DETECTED',
+          perception,
+          detectionDc: trigger.detectionDc ?? undefined,
+        }),
+      })
+    }
+
+    // Only one of two simultaneous moves gets to set off a one-shot trigger
+    if (!trigger.rearms) {
+      const { count } = await prisma.featureTrigger.updateMany({
+        where: { id: trigger.id, isArmed: true },
+        data: { isArmed: false },
+      })
+      if (count === 0) {
+        return null
+      }
+    }
+
+    let outcome: TriggerOutcome = 'TRIGGERED'
+    let saveTotal: number | undefined
+    if (trigger.saveAbility && trigger.saveDc !== null) {
+      const save = await diceService.rollForSession({
+        sessionId,
+        characterId: character.id,
+        expression: savingThrowExpression(abilityModifier(character.stats, trigger.saveAbility)),
+        reason: `${trigger.saveAbility} save vs ${featureName} (DC ${trigger.saveDc})`,
+      })
+      saveTotal = save.total
+      outcome = save.total >= trigger.saveDc ? 'SAVED' : 'FAILED'
+    }
+    const saved = outcome === 'SAVED'
+
+    let damage: number | undefined
+    let events: string[] = []
+    if (trigger.damageDice) {
+      const roll = await diceService.rollForSession({
+        sessionId,
+        characterId: character.id,
+        expression: trigger.damageDice,
+        reason: `${featureName} damage`,
+      })
+      damage = damageAfterSave(roll.total, saved, trigger.halfDamageOnSave)
+      if (damage > 0) {
+        events = (await vitalsService.damage(character.id, damage)).events
+      }
+    }
+
+    const condition = !saved && trigger.condition ? trigger.condition : undefined
+    if (condition) {
+      await vitalsService.applyCondition(character.id, {
+        name: condition,
+        source: featureName,
+        durationRounds: trigger.conditionRounds ?? undefined,
+      })
+    }
+
+    const teleport = !saved ? trigger.teleportLocation : null
+    if (teleport) {
+      await this.teleport(trigger, context, teleport)
+    }
+
+    return this.recordActivation(trigger, context, {
+      outcome,
+      saveTotal,
+      damage,
+      condition,
+      teleportLocationId: teleport?.id,
+      summary: describeActivation({
+        characterName: character.name,
+        featureName,
+        outcome,
+        saveAbility: trigger.saveAbility ?? undefined,
+        saveTotal,
+        saveDc: trigger.saveDc ?? undefined,
+        damage,
+        damageType: trigger.damageType ?? undefined,
+        condition,
+        teleportedTo: teleport?.name,
+        events,
+      }),
+    })
+  }
+
+  /**
+   * Move the character to the trigger's destination (the centre of the target location by default)
+   */
+  private async teleport(
+    trigger: StoredTrigger,
+    context: ActivationContext,
+    target: NonNullable<StoredTrigger['teleportLocation']>
+  ) {
+    const destination = {
+      x: trigger.teleportX ?? (target.minX + target.maxX) / 2,
+      y: trigger.teleportY ?? (target.minY + target.maxY) / 2,
+      z: trigger.teleportZ ?? target.minZ,
+    }
+    const previous = await prisma.characterPosition.findUnique({
+      where: { characterId: context.character.id },
+    })
+
+    await prisma.$transaction([
+      prisma.characterPosition.upsert({
+        where: { characterId: context.character.id },
+        update: { locationId: target.id, ...destination },
+        create: { characterId: context.character.id, locationId: target.id, ...destination },
+      }),
+      prisma.movementEvent.create({
+        data: {
+          sessionId: context.sessionId,
+          characterId: context.character.id,
+          suggestionId: context.suggestionId,
+          source: 'TELEPORT',
+          fromLocationId: previous?.locationId,
+          fromX: previous?.x,
+          fromY: previous?.y,
+          fromZ: previous?.z,
+          toLocationId: target.id,
+          toX: destination.x,
+          toY: destination.y,
+          toZ: destination.z,
+          reason: `Teleported by ${trigger.feature.name}`,
+        },
+      }),
+    ])
+  }
+
+  private async recordActivation(
+    trigger: StoredTrigger,
+    context: ActivationContext,
+    result: {
+      outcome: TriggerOutcome
+      saveTotal?: number
+      damage?: number
+      condition?: string
+      teleportLocationId?: string
+      summary: string
+    }
+  ): Promise<TriggerActivationRecord> {
+    const activation = await prisma.triggerActivation.create({
+      data: {
+        triggerId: trigger.id,
+        sessionId: context.sessionId,
+        characterId: context.character.id,
+        suggestionId: context.suggestionId,
+        event: trigger.event,
+        ...result,
+      },
+      include: activationInclude,
+    })
+
+    return this.toRecord(activation)
+  }
+
+  private async findFeature(locationId: string, featureId: string) {
+    const feature = await prisma.locationFeature.findUnique({
+      where: { id: featureId },
+      include: { location: { select: { campaignId: true } } },
+    })
+
+    if (!feature || feature.locationId !== locationId) {
+      throw new Error('Feature not found')
+    }
+
+    return feature
+  }
+
+  private async findTrigger(featureId: string, triggerId: string) {
+    const trigger = await prisma.featureTrigger.findUnique({ where: { id: triggerId } })
+
+    if (!trigger || trigger.featureId !== featureId) {
+      throw new Error('Trigger not found')
+    }
+
+    return trigger
+  }
+
+  private async validateTrigger(campaignId: string, input: Partial<FeatureTriggerInput>) {
+    if (input.damageDice) {
+      parseDiceExpression(input.damageDice)
+    }
+
+    if (input.teleportLocationId) {
+      const target = await prisma.location.findUnique({
+        where: { id: input.teleportLocationId },
+        select: { campaignId: true },
+      })
+      if (!target || target.campaignId !== campaignId) {
+        throw new Error('Teleport location not found')
+      }
+    }
+  }
+
+  private toRecord(activation: StoredActivation): TriggerActivationRecord {
+    return {
+      id: activation.id,
+      triggerId: activation.triggerId,
+      featureId: activation.trigger.featureId,
+      featureName: activation.trigger.feature.name,
+      characterId: activation.characterId,
+      characterName: activation.character.name,
+      suggestionId: activation.suggestionId || undefined,
+      event: activation.event,
+      outcome: activation.outcome,
+      saveTotal: activation.saveTotal ?? undefined,
+      damage: activation.damage ?? undefined,
+      condition: activation.condition || undefined,
+      teleportLocationId: activation.teleportLocationId || undefined,
+      summary: activation.summary,
+      createdAt: activation.createdAt,
+    }
+  }
+}
+
+export const triggerService = new TriggerService()
@@ -0,0 +1,586 @@
+import { prisma } from '@/lib/db'
+import {
+  Combatant,
+  CoverLevel,
+  DiceRoll,
+  Encounter,
+  FeatureState,
+  Item,
+  Prisma,
+  ReactionPrompt,
+  RevealedFeature,
+  SessionSummary,
+  TriggerActivation,
+} from '@prisma/client'
+import { MovementEventInput, movementService } from './movement-service'
+
+type SnapshotState = {
+  currentLocation: string | null
+  locationId: string | null
+  activeNPCs: Prisma.JsonValue
+  ongoingQuests: Prisma.JsonValue
+  partyConditions: Prisma.JsonValue
+  recentEvents: Prisma.JsonValue
+}
+
+type SnapshotPosition = {
+  characterId: string
+  locationId: string | null
+  x: number
+  y: number
+  z: number
+  facing: number | null
+}
+
+type SnapshotVitals = {
+  characterId: string
+  currentHp: number
+  tempHp: number
+  deathSaveSuccesses: number
+  deathSaveFailures: number
+}
+
+type SnapshotCondition = {
+  characterId: string
+  name: string
+  source: string | null
+  remainingRounds: number | null
+}
+
+type SnapshotEncounter = {
+  id: string
+  round: number
+  turnIndex: number
+  combatants: Array<{
+    id: string
+    order: number
+    movementUsed: number
+    reactionUsed: boolean
+    isDefeated: boolean
+  }>
+}
+
+type SnapshotCombat = {
+  vitals: SnapshotVitals[]
+  conditions: SnapshotCondition[]
+  npcs: Array<{ npcId: string; currentHp: number }>
+  encounter: SnapshotEncounter | null // The session's active encounter
+}
+
+type SnapshotWorld = {
+  features: Array<{
+    featureId: string
+    state: FeatureState | null
+    blocksMovement: boolean
+    blocksVision: boolean
+    providesCover: CoverLevel
+  }>
+  items: Array<{
+    itemId: string
+    featureId: string | null
+    characterId: string | null
+    quantity: number
+  }>
+  triggers: Array<{ triggerId: string; isArmed: boolean }>
+}
+
+type TurnState = {
+  sessionState: SnapshotState | null
+  positions: SnapshotPosition[]
+  combat: SnapshotCombat | null // Null for turns recorded before combat was kept
+  world: SnapshotWorld | null // Null for turns recorded before features and items were kept
+}
+
+// Rows a rewind discards or deletes, kept in memory while a turn is replayed
+type RemovedRows = {
+  messages: Array<{ id: string }>
+  diceRolls: DiceRoll[]
+  summaries: SessionSummary[]
+  encounters: Encounter[]
+  combatants: Combatant[]
+  reactionPrompts: ReactionPrompt[]
+  items: Item[]
+  triggerActivations: TriggerActivation[]
+  revealedFeatures: RevealedFeature[]
+}
+
+const toJson = (value: Prisma.JsonValue) => (value === null ? Prisma.DbNull : value)
+
+/**
+ * Snapshots and rollback for DM turns
+ * Each player message records the session state, character positions, HP,
+ * conditions, the running encounter, door and container states, who holds
+ * which item and which traps are armed from before its turn; rewinding to it
+ * restores them and discards the messages, dice rolls and summaries that came
+ * after (the position changes are logged as movement events). Discarded
+ * messages stay in the database so their cost is still tracked, and rate
+ * limits are not refunded.
+ */
+export class TurnHistoryService {
+  /**
+   * Record the state a turn starts from
+   * Call right after saving the player message, before the turn changes anything
+   */
+  async captureSnapshot(sessionId: string, messageId: string): Promise<void> {
+    const { sessionState, positions, combat, world } = await this.readState(sessionId)
+
+    await prisma.turnSnapshot.create({
+      data: {
+        sessionId,
+        messageId,
+        sessionState: sessionState ?? Prisma.DbNull,
+        positions,
+        combat: combat ?? Prisma.DbNull,
+        world: world ?? Prisma.DbNull,
+      },
+    })
+  }
+
+  /**
+   * Get the player message that started the latest turn
+   */
+  async getLastTurn(sessionId: string) {
+    const message = await prisma.message.findFirst({
+      where: { sessionId, role: 'USER', discardedAt: null },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    if (!message) {
+      throw new Error('No turn to undo in this session')
+    }
+
+    return message
+  }
+
+  /**
+   * Undo a player message and everything after it
+   * Restores the session state, character positions, HP, conditions, encounter,
+   * features, items and traps from before that turn, and drops the dice rolls
+   * and summaries that covered the discarded messages.
+   * Returns the discarded player message so it can be re-run
+   */
+  async rewind(sessionId: string, messageId: string) {
+    const message = await prisma.message.findUnique({
+      where: { id: messageId },
+      include: { turnSnapshot: true },
+    })
+
+    if (!message || message.sessionId !== sessionId || message.discardedAt) {
+      throw new Error('Message not found')
+    }
+
+    if (message.role !== 'USER') {
+      throw new Error('Only player messages can be rewound to')
+    }
+
+    if (!message.turnSnapshot) {
+      throw new Error('This turn was played before turn history was kept and cannot be undone')
+    }
+
+    const later = await this.laterRecords(sessionId, message.createdAt)
+    const restore = await this.restoreOperations(
+      sessionId,
+      {
+        sessionState: message.turnSnapshot.sessionState as SnapshotState | null,
+        positions: message.turnSnapshot.positions as SnapshotPosition[],
+        combat: (message.turnSnapshot.combat as SnapshotCombat | null) ?? null,
+        world: (message.turnSnapshot.world as SnapshotWorld | null) ?? null,
+      },
+      message.createdAt,
+      { messageId, reason: 'Turn undone' }
+    )
+
+    const [discarded] = await prisma.$transaction([
+      prisma.message.updateMany({
+        where: later.messages,
+        data: { discardedAt: new Date() },
+      }),
+      prisma.diceRoll.deleteMany({ where: later.diceRolls }),
+      prisma.sessionSummary.deleteMany({ where: later.summaries }),
+      ...restore,
+    ])
+
+    return { message, discardedCount: discarded.count }
+  }
+
+  /**
+   * Rewind to a player message and play its turn again with `play`
+   * If the new turn fails, the old one is put back as it was before the rewind
+   */
+  async replay<T>(sessionId: string, messageId: string, play: () => Promise<T>): Promise<T> {
+    const message = await prisma.message.findUnique({
+      where: { id: messageId },
+      select: { createdAt: true },
+    })
+    const rewoundAt = new Date()
+    const current = await this.readState(sessionId)
+
+    // What the rewind throws away, to bring back if the new turn fails
+    const removed = message ? await this.readRemovable(sessionId, message.createdAt) : null
+
+    await this.rewind(sessionId, messageId)
+
+    try {
+      return await play()
+    } catch (error) {
+      const since = { gte: rewoundAt }
+      const restore = await this.restoreOperations(sessionId, current, rewoundAt, {
+        messageId,
+        reason: 'Turn restored after a failed replay',
+      })
+
+      await prisma.$transaction([
+        // Drop what the failed turn saved, then bring the old turn back
+        prisma.message.updateMany({
+          where: { sessionId, discardedAt: null, createdAt: since },
+          data: { discardedAt: new Date() },
+        }),
+        prisma.diceRoll.deleteMany({ where: { sessionId, createdAt: since } }),
+        prisma.sessionSummary.deleteMany({ where: { sessionId, createdAt: since } }),
+        ...(removed ? this.recreateOperations(removed) : []),
+        ...restore,
+      ])
+      throw error
+    }
+  }
+
+  /**
+   * Read the rows a rewind to `since` may discard or delete
+   * Encounters, items and the like are read whether or not the snapshot kept
+   * them; re-creating skips those the rewind left in place
+   */
+  private async readRemovable(sessionId: string, since: Date): Promise<RemovedRows> {
+    const after = { gte: since }
+    const later = await this.laterRecords(sessionId, since)
+    const inSession = { sessionId }
+    const inCampaign = { campaign: { sessions: { some: { id: sessionId } } } }
+    const inLaterEncounter = {
+      OR: [{ createdAt: after }, { encounter: { ...inSession, createdAt: after } }],
+    }
+
+    const [
+      messages,
+      diceRolls,
+      summaries,
+      encounters,
+      combatants,
+      reactionPrompts,
+      items,
+      triggerActivations,
+      revealedFeatures,
+    ] = await Promise.all([
+      prisma.message.findMany({ where: later.messages, select: { id: true } }),
+      prisma.diceRoll.findMany({ where: later.diceRolls }),
+      prisma.sessionSummary.findMany({ where: later.summaries }),
+      prisma.encounter.findMany({ where: { ...inSession, createdAt: after } }),
+      prisma.combatant.findMany({ where: { encounter: inSession, ...inLaterEncounter } }),
+      prisma.reactionPrompt.findMany({ where: { encounter: inSession, ...inLaterEncounter } }),
+      prisma.item.findMany({ where: { ...inCampaign, createdAt: after } }),
+      prisma.triggerActivation.findMany({ where: { ...inSession, createdAt: after } }),
+      prisma.revealedFeature.findMany({ where: { character: inCampaign, revealedAt: after } }),
+    ])
+
+    return {
+      messages,
+      diceRolls,
+      summaries,
+      encounters,
+      combatants,
+      reactionPrompts,
+      items,
+      triggerActivations,
+      revealedFeatures,
+    }
+  }
+
+  /**
+   * Writes that bring rows read by readRemovable back, in dependency order
+   */
+  private recreateOperations(removed: RemovedRows) {
+    return [
+      prisma.message.updateMany({
+        where: { id: { in: removed.messages.map((m) => m.id) } },
+        data: { discardedAt: null },
+      }),
+      prisma.diceRoll.createMany({
+        data: removed.diceRolls.map((roll) => ({
+          ...roll,
+          result: roll.result as Prisma.InputJsonValue,
+        })),
+      }),
+      prisma.sessionSummary.createMany({
+        data: removed.summaries.map((summary) => ({
+          ...summary,
+          keyEvents: toJson(summary.keyEvents),
+        })),
+      }),
+      prisma.encounter.createMany({ data: removed.encounters, skipDuplicates: true }),
+      prisma.combatant.createMany({ data: removed.combatants, skipDuplicates: true }),
+      prisma.reactionPrompt.createMany({ data: removed.reactionPrompts, skipDuplicates: true }),
+      prisma.item.createMany({ data: removed.items, skipDuplicates: true }),
+      prisma.triggerActivation.createMany({
+        data: removed.triggerActivations,
+        skipDuplicates: true,
+      }),
+      prisma.revealedFeature.createMany({ data: removed.revealedFeatures, skipDuplicates: true }),
+    ]
+  }
+
+  /**
+   * Read the state a snapshot keeps
+   */
+  private async readState(sessionId: string): Promise<TurnState> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { campaignId: true, state: true },
+    })
+
+    if (!session) {
+      throw new Error('Session not found')
+    }
+
+    const inCampaign = { character: { campaignId: session.campaignId } }
+    const onMaps = { location: { campaignId: session.campaignId } }
+    const [positions, characters, conditions, npcs, encounter, features, items, triggers] =
+      await Promise.all([
+        prisma.characterPosition.findMany({ where: inCampaign }),
+        prisma.character.findMany({
+          where: { campaignId: session.campaignId },
+          select: {
+            id: true,
+            currentHp: true,
+            tempHp: true,
+            deathSaveSuccesses: true,
+            deathSaveFailures: true,
+          },
+        }),
+        prisma.characterCondition.findMany({ where: inCampaign }),
+        prisma.npc.findMany({
+          where: { campaignId: session.campaignId },
+          select: { id: true, currentHp: true },
+        }),
+        prisma.encounter.findFirst({
+          where: { sessionId, status: 'ACTIVE' },
+          include: { combatants: true },
+        }),
+        prisma.locationFeature.findMany({
+          where: onMaps,
+          select: {
+            id: true,
+            state: true,
+            blocksMovement: true,
+            blocksVision: true,
+            providesCover: true,
+          },
+        }),
+        prisma.item.findMany({
+          where: { campaignId: session.campaignId },
+          select: { id: true, featureId: true, characterId: true, quantity: true },
+        }),
+        prisma.featureTrigger.findMany({
+          where: { feature: onMaps },
+          select: { id: true, isArmed: true },
+        }),
+      ])
+
+    return {
+      sessionState: session.state && {
+        currentLocation: session.state.currentLocation,
+        locationId: session.state.locationId,
+        activeNPCs: session.state.activeNPCs,
+        ongoingQuests: session.state.ongoingQuests,
+        partyConditions: session.state.partyConditions,
+        recentEvents: session.state.recentEvents,
+      },
+      positions: positions.map((p) => ({
+        characterId: p.characterId,
+        locationId: p.locationId,
+        x: p.x,
+        y: p.y,
+        z: p.z,
+        facing: p.facing,
+      })),
+      combat: {
+        vitals: characters.map(({ id, ...vitals }) => ({ characterId: id, ...vitals })),
+        conditions: conditions.map((c) => ({
+          characterId: c.characterId,
+          name: c.name,
+          source: c.source,
+          remainingRounds: c.remainingRounds,
+        })),
+        npcs: npcs.map((npc) => ({ npcId: npc.id, currentHp: npc.currentHp })),
+        encounter: encounter && {
+          id: encounter.id,
+          round: encounter.round,
+          turnIndex: encounter.turnIndex,
+          combatants: encounter.combatants.map((c) => ({
+            id: c.id,
+            order: c.order,
+            movementUsed: c.movementUsed,
+            reactionUsed: c.reactionUsed,
+            isDefeated: c.isDefeated,
+          })),
+        },
+      },
+      world: {
+        features: features.map(({ id, ...feature }) => ({ featureId: id, ...feature })),
+        items: items.map(({ id, ...item }) => ({ itemId: id, ...item })),
+        triggers: triggers.map((t) => ({ triggerId: t.id, isArmed: t.isArmed })),
+      },
+    }
+  }
+
+  /**
+   * Filters for the messages, dice rolls and summaries from `since` on
+   */
+  private async laterRecords(sessionId: string, since: Date) {
+    const after = { gte: since }
+    const keptMessages = await prisma.message.count({
+      where: { sessionId, discardedAt: null, createdAt: { lt: since } },
+    })
+
+    return {
+      messages: { sessionId, discardedAt: null, createdAt: after },
+      // Tool rolls are made before their reply is saved, so also match by message
+      diceRolls: { sessionId, OR: [{ createdAt: after }, { message: { createdAt: after } }] },
+      // Summaries number messages by position among the kept ones
+      summaries: { sessionId, messageRangeEnd: { gt: keptMessages } },
+    }
+  }
+
+  /**
+   * Writes that put a recorded state back, for one transaction
+   * Encounters and combatants added from `since` on are removed
+   */
+  private async restoreOperations(
+    sessionId: string,
+    { sessionState, positions, combat, world }: TurnState,
+    since: Date,
+    movement: { messageId: string; reason: string }
+  ): Promise<Prisma.PrismaPromise<unknown>[]> {
+    // Log the characters jumping back, so position replays follow the rewind
+    const current = await prisma.characterPosition.findMany({
+      where: { characterId: { in: positions.map((p) => p.characterId) } },
+    })
+    const moves = positions.flatMap(({ characterId, locationId, x, y, z }): MovementEventInput[] => {
+      const from = current.find((p) => p.characterId === characterId)
+      if (from && from.locationId === locationId && from.x === x && from.y === y && from.z === z) {
+        return []
+      }
+      return [
+        {
+          sessionId,
+          characterId,
+          messageId: movement.messageId,
+          source: 'REWIND',
+          from: from ? { locationId: from.locationId, x: from.x, y: from.y, z: from.z } : null,
+          to: { locationId, x, y, z },
+          reason: movement.reason,
+        },
+      ]
+    })
+
+    return [
+      sessionState
+        ? prisma.sessionState.upsert({
+            where: { sessionId },
+            update: this.toStateData(sessionState),
+            create: { sessionId, ...this.toStateData(sessionState) },
+          })
+        : prisma.sessionState.deleteMany({ where: { sessionId } }),
+      ...positions.map(({ characterId, ...position }) =>
+        prisma.characterPosition.upsert({
+          where: { characterId },
+          update: position,
+          create: { characterId, ...position },
+        })
+      ),
+      ...(moves.length > 0 ? [movementService.recordMovements(moves)] : []),
+      ...(combat ? this.combatOperations(sessionId, combat, since) : []),
+      ...(world ? this.worldOperations(sessionId, world, since) : []),
+    ]
+  }
+
+  /**
+   * Put HP, conditions and the running encounter back
+   * Characters and NPCs deleted since are skipped
+   */
+  private combatOperations(sessionId: string, combat: SnapshotCombat, since: Date) {
+    const after = { gte: since }
+    const { encounter } = combat
+
+    return [
+      ...combat.vitals.map(({ characterId, ...vitals }) =>
+        prisma.character.updateMany({ where: { id: characterId }, data: vitals })
+      ),
+      prisma.characterCondition.deleteMany({
+        where: { characterId: { in: combat.vitals.map((v) => v.characterId) } },
+      }),
+      prisma.characterCondition.createMany({ data: combat.conditions }),
+      ...combat.npcs.map(({ npcId, currentHp }) =>
+        prisma.npc.updateMany({ where: { id: npcId }, data: { currentHp } })
+      ),
+      // Encounters started since never happened
+      prisma.encounter.deleteMany({ where: { sessionId, createdAt: after } }),
+      ...(encounter
+        ? [
+            prisma.encounter.updateMany({
+              where: { id: encounter.id },
+              data: {
+                status: 'ACTIVE' as const,
+                round: encounter.round,
+                turnIndex: encounter.turnIndex,
+                endedAt: null,
+                summary: null,
+              },
+            }),
+            prisma.combatant.deleteMany({ where: { encounterId: encounter.id, createdAt: after } }),
+            prisma.reactionPrompt.deleteMany({
+              where: { encounterId: encounter.id, createdAt: after },
+            }),
+            ...encounter.combatants.map(({ id, ...budget }) =>
+              prisma.combatant.updateMany({ where: { id }, data: budget })
+            ),
+          ]
+        : []),
+    ]
+  }
+
+  /**
+   * Put doors, containers, items and traps back
+   * Items made since (such as stacks split by taking part of one) are removed
+   */
+  private worldOperations(sessionId: string, world: SnapshotWorld, since: Date) {
+    const after = { gte: since }
+    const inCampaign = { campaign: { sessions: { some: { id: sessionId } } } }
+
+    return [
+      ...world.features.map(({ featureId, ...feature }) =>
+        prisma.locationFeature.updateMany({ where: { id: featureId }, data: feature })
+      ),
+      prisma.item.deleteMany({ where: { ...inCampaign, createdAt: after } }),
+      ...world.items.map(({ itemId, ...item }) =>
+        prisma.item.updateMany({ where: { id: itemId }, data: item })
+      ),
+      ...world.triggers.map(({ triggerId, isArmed }) =>
+        prisma.featureTrigger.updateMany({ where: { id: triggerId }, data: { isArmed } })
+      ),
+      // Traps that went off or were spotted in the undone turns did not
+      prisma.triggerActivation.deleteMany({ where: { sessionId, createdAt: after } }),
+      prisma.revealedFeature.deleteMany({ where: { character: inCampaign, revealedAt: after } }),
+    ]
+  }
+
+  private toStateData(state: SnapshotState) {
+    return {
+      currentLocation: state.currentLocation,
+      locationId: state.locationId,
+      activeNPCs: toJson(state.activeNPCs),
+      ongoingQuests: toJson(state.ongoingQuests),
+      partyConditions: toJson(state.partyConditions),
+      recentEvents: toJson(state.recentEvents),
+    }
+  }
+}
+
+export const turnHistoryService = new TurnHistoryService()
@@ -0,0 +1,373 @@
+import { prisma } from '@/lib/db'
+import { rollDice } from '@/lib/dice'
+import { CharacterVitals, LifeState, PartyMemberStatus } from '@/types'
+
+export interface ConditionApplyInput {
+  name: string
+  source?: string
+  durationRounds?: number // Omit both durations for "until removed"
+  durationMinutes?: number
+}
+
+export type VitalsChange = {
+  vitals: CharacterVitals
+  events: string[] // Human readable, e.g. "drops to 0 HP"
+}
+
+const ROUNDS_PER_MINUTE = 10 // 6-second rounds
+const UNCONSCIOUS = 'unconscious'
+
+const VITALS_SELECT = {
+  id: true,
+  name: true,
+  maxHp: true,
+  currentHp: true,
+  tempHp: true,
+  armorClass: true,
+  deathSaveSuccesses: true,
+  deathSaveFailures: true,
+} as const
+
+/**
+ * Derive whether a character is up, down or dead from their vitals
+ */
+export function lifeState(vitals: CharacterVitals): LifeState {
+  if (vitals.deathSaveFailures >= 3) return 'dead'
+  if (vitals.currentHp <= 0) return vitals.deathSaveSuccesses >= 3 ? 'stable' : 'dying'
+  if (vitals.currentHp <= vitals.maxHp / 2) return 'bloodied'
+  return 'healthy'
+}
+
+/**
+ * Apply damage: temporary HP absorbs first, damage at 0 HP costs death saves
+ * and overflow of at least max HP kills outright
+ */
+export function applyDamage(
+  vitals: CharacterVitals,
+  amount: number,
+  critical: boolean = false
+): VitalsChange {
+  const next = { ...vitals }
+  const events: string[] = []
+
+  if (lifeState(vitals) === 'dead') {
+    return { vitals: next, events: ['is already dead'] }
+  }
+
+  if (vitals.currentHp <= 0) {
+    next.deathSaveSuccesses = 0
+    next.deathSaveFailures = amount >= vitals.maxHp ? 3 : Math.min(3, vitals.deathSaveFailures + (critical ? 2 : 1))
+    events.push(next.deathSaveFailures >= 3 ? 'dies' : `fails a death save (${next.deathSaveFailures}/3)`)
+    return { vitals: next, events }
+  }
+
+  const absorbed = Math.min(next.tempHp, amount)
+  next.tempHp -= absorbed
+  const remaining = amount - absorbed
+
+  if (remaining >= next.currentHp) {
+    const overflow = remaining - next.currentHp
+    next.currentHp = 0
+    next.deathSaveSuccesses = 0
+    next.deathSaveFailures = overflow >= vitals.maxHp ? 3 : 0
+    events.push(next.deathSaveFailures >= 3 ? 'is killed outright' : 'drops to 0 HP and falls unconscious')
+  } else {
+    next.currentHp -= remaining
+    events.push(`takes ${amount} damage`)
+  }
+
+  return { vitals: next, events }
+}
+
+/**
+ * Restore hit points up to the maximum; any healing brings a dying character back
+ */
+export function applyHealing(vitals: CharacterVitals, amount: number): VitalsChange {
+  if (lifeState(vitals) === 'dead') {
+    throw new Error('Cannot heal a dead character')
+  }
+
+  const next = { ...vitals }
+  const events: string[] = []
+
+  if (vitals.currentHp <= 0 && amount > 0) {
+    next.deathSaveSuccesses = 0
+    next.deathSaveFailures = 0
+    events.push('regains consciousness')
+  }
+
+  next.currentHp = Math.min(vitals.maxHp, Math.max(0, vitals.currentHp) + amount)
+  events.push(`heals to ${next.currentHp}/${vitals.maxHp} HP`)
+
+  return { vitals: next, events }
+}
+
+/**
+ * Resolve a death saving throw from a d20 result (20 = back to 1 HP, 1 = two failures)
+ */
+export function applyDeathSave(vitals: CharacterVitals, roll: number): VitalsChange {
+  const state = lifeState(vitals)
+  if (state !== 'dying') {
+    throw new Error(`Death saves only apply to dying characters (currently ${state})`)
+  }
+
+  const next = { ...vitals }
+
+  if (roll >= 20) {
+    next.currentHp = 1
+    next.deathSaveSuccesses = 0
+    next.deathSaveFailures = 0
+    return { vitals: next, events: ['rolls a natural 20 and regains 1 HP'] }
+  }
+
+  if (roll >= 10) {
+    next.deathSaveSuccesses = Math.min(3, vitals.deathSaveSuccesses + 1)
+    return {
+      vitals: next,
+      events: [next.deathSaveSuccesses >= 3 ? 'is stable' : `succeeds a death save (${next.deathSaveSuccesses}/3)`],
+    }
+  }
+
+  next.deathSaveFailures = Math.min(3, vitals.deathSaveFailures + (roll <= 1 ? 2 : 1))
+  return {
+    vitals: next,
+    events: [next.deathSaveFailures >= 3 ? 'dies' : `fails a death save (${next.deathSaveFailures}/3)`],
+  }
+}
+
+/**
+ * Prompt-friendly duration, e.g. "3 rounds" or "10 minutes"
+ */
+export function formatConditionDuration(remainingRounds: number | null): string | undefined {
+  if (remainingRounds === null) return undefined
+  if (remainingRounds >= ROUNDS_PER_MINUTE && remainingRounds % ROUNDS_PER_MINUTE === 0) {
+    const minutes = remainingRounds / ROUNDS_PER_MINUTE
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`
+  }
+  return `${remainingRounds} round${remainingRounds === 1 ? '' : 's'}`
+}
+
+/**
+ * Build the party status entry shown to the DM model
+ */
+export function toPartyMemberStatus(
+  character: CharacterVitals & {
+    name: string
+    armorClass: number
+    conditions: Array<{ name: string; remainingRounds: number | null }>
+  }
+): PartyMemberStatus {
+  const state = lifeState(character)
+
+  return {
+    name: character.name,
+    currentHp: character.currentHp,
+    maxHp: character.maxHp,
+    tempHp: character.tempHp,
+    armorClass: character.armorClass,
+    state,
+    conditions: character.conditions.map((condition) => ({
+      name: condition.name,
+      duration: formatConditionDuration(condition.remainingRounds),
+    })),
+    ...(state === 'dying'
+      ? {
+          deathSaves: {
+            successes: character.deathSaveSuccesses,
+            failures: character.deathSaveFailures,
+          },
+        }
+      : {}),
+  }
+}
+
+export class VitalsService {
+  /**
+   * Apply damage to a character
+   */
+  async damage(characterId: string, amount: number, critical: boolean = false) {
+    const character = await this.getVitals(characterId)
+    const change = applyDamage(character, amount, critical)
+    return this.saveChange(character, change)
+  }
+
+  /**
+   * Heal a character
+   */
+  async heal(characterId: string, amount: number) {
+    const character = await this.getVitals(characterId)
+    const change = applyHealing(character, amount)
+    return this.saveChange(character, change)
+  }
+
+  /**
+   * Grant temporary hit points (the higher value wins, they do not stack)
+   */
+  async setTempHp(characterId: string, amount: number) {
+    const character = await this.getVitals(characterId)
+    const tempHp = Math.max(character.tempHp, amount)
+    return this.saveChange(character, {
+      vitals: { ...character, tempHp },
+      events: [`has ${tempHp} temporary HP`],
+    })
+  }
+
+  /**
+   * Roll (or record a table roll for) a death saving throw
+   */
+  async deathSave(characterId: string, roll?: number) {
+    const character = await this.getVitals(characterId)
+    const d20 = roll ?? rollDice('1d20').total
+    const change = applyDeathSave(character, d20)
+    return { ...(await this.saveChange(character, change)), roll: d20 }
+  }
+
+  /**
+   * Apply a condition, refreshing the duration if it is already present
+   */
+  async applyCondition(characterId: string, input: ConditionApplyInput) {
+    await this.getVitals(characterId)
+
+    const name = input.name.trim().toLowerCase()
+    const remainingRounds =
+      input.durationRounds !== undefined || input.durationMinutes !== undefined
+        ? (input.durationRounds || 0) + (input.durationMinutes || 0) * ROUNDS_PER_MINUTE
+        : null
+
+    return await prisma.characterCondition.upsert({
+      where: { characterId_name: { characterId, name } },
+      update: { source: input.source, remainingRounds },
+      create: { characterId, name, source: input.source, remainingRounds },
+    })
+  }
+
+  /**
+   * Remove a condition from a character
+   */
+  async removeCondition(characterId: string, conditionId: string) {
+    const { count } = await prisma.characterCondition.deleteMany({
+      where: { id: conditionId, characterId },
+    })
+    if (count === 0) {
+      throw new Error('Condition not found')
+    }
+  }
+
+  /**
+   * Get a character's active conditions
+   */
+  async getConditions(characterId: string) {
+    return await prisma.characterCondition.findMany({
+      where: { characterId },
+      orderBy: { createdAt: 'asc' },
+    })
+  }
+
+  /**
+   * Advance timed conditions for every character in a campaign
+   * Returns the conditions that wore off
+   */
+  async tickConditions(campaignId: string, rounds: number) {
+    const timed = await prisma.characterCondition.findMany({
+      where: {
+        character: { campaignId },
+        remainingRounds: { not: null },
+      },
+      include: {
+        character: { select: { name: true } },
+      },
+    })
+
+    const expired = timed.filter((c) => (c.remainingRounds ?? 0) <= rounds)
+    const ongoing = timed.filter((c) => (c.remainingRounds ?? 0) > rounds)
+
+    if (expired.length > 0) {
+      await prisma.characterCondition.deleteMany({
+        where: { id: { in: expired.map((c) => c.id) } },
+      })
+    }
+    if (ongoing.length > 0) {
+      await prisma.characterCondition.updateMany({
+        where: { id: { in: ongoing.map((c) => c.id) } },
+        data: { remainingRounds: { decrement: rounds } },
+      })
+    }
+
+    return {
+      expired: expired.map((c) => ({ characterName: c.character.name, name: c.name })),
+      ongoing: ongoing.length,
+    }
+  }
+
+  /**
+   * Party vitals and conditions for the DM prompt
+   */
+  async getPartyStatus(campaignId: string): Promise<PartyMemberStatus[]> {
+    const characters = await prisma.character.findMany({
+      where: { campaignId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        ...VITALS_SELECT,
+        conditions: {
+          select: { name: true, remainingRounds: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    })
+
+    return characters.map((character) => toPartyMemberStatus(character))
+  }
+
+  private async getVitals(characterId: string) {
+    const character = await prisma.character.findUnique({
+      where: { id: characterId },
+      select: VITALS_SELECT,
+    })
+
+    if (!character) {
+      throw new Error('Character not found')
+    }
+
+    return character
+  }
+
+  /**
+   * Persist new vitals and keep the "unconscious" condition in sync with 0 HP
+   */
+  private async saveChange(
+    character: CharacterVitals & { id: string; name: string },
+    change: VitalsChange
+  ) {
+    const { vitals } = change
+
+    const updated = await prisma.character.update({
+      where: { id: character.id },
+      data: {
+        currentHp: vitals.currentHp,
+        tempHp: vitals.tempHp,
+        deathSaveSuccesses: vitals.deathSaveSuccesses,
+        deathSaveFailures: vitals.deathSaveFailures,
+      },
+      select: VITALS_SELECT,
+    })
+
+    const wasDown = character.currentHp <= 0
+    const isDown = vitals.currentHp <= 0
+
+    if (isDown && !wasDown) {
+      await this.applyCondition(character.id, { name: UNCONSCIOUS, source: '0 hit points' })
+    } else if (!isDown && wasDown) {
+      await prisma.characterCondition.deleteMany({
+        where: { characterId: character.id, name: UNCONSCIOUS },
+      })
+    }
+
+    return {
+      character: updated,
+      state: lifeState(updated),
+      events: change.events.map((event) => `${character.name} ${event}`),
+    }
+  }
+}
+
+export const vitalsService = new VitalsService()
@@ -0,0 +1,362 @@
+import { prisma } from '@/lib/db'
+import { Location, LocationConnection } from '@prisma/client'
+import { gridFromLocation, snapToGrid } from '@/lib/grid'
+import { LocationConnectionCreateInput, LocationExit, Position3D, TravelResult } from '@/types'
+import { encounterService } from './encounter-service'
+import { movementService } from './movement-service'
+import { sessionService } from './session-service'
+
+const ARRIVAL_SPACING = 1 // Meters between characters arriving together (gridless maps)
+const ARRIVAL_RINGS = 5 // How far from the arrival point to look for free spots
+
+type ConnectionWithEnds = LocationConnection & {
+  fromLocation: { id: string; name: string }
+  toLocation: { id: string; name: string }
+}
+
+/**
+ * The campaign's world graph: connections between locations, the exits they
+ * open in each location, and travel through them
+ */
+export class WorldService {
+  /**
+   * Connect two locations of the same campaign
+   * The exit defaults to the centre of its feature and the arrival point to
+   * the centre of the destination floor
+   */
+  async createConnection(input: LocationConnectionCreateInput) {
+    const [from, to] = await Promise.all([
+      prisma.location.findUnique({ where: { id: input.fromLocationId } }),
+      prisma.location.findUnique({ where: { id: input.toLocationId } }),
+    ])
+
+    if (!from || !to) {
+      throw new Error('Location not found')
+    }
+
+    if (from.campaignId !== to.campaignId) {
+      throw new Error('Locations must belong to the same campaign')
+    }
+
+    let exitPosition = input.exitPosition
+    if (input.featureId) {
+      const feature = await prisma.locationFeature.findUnique({ where: { id: input.featureId } })
+      if (!feature || feature.locationId !== from.id) {
+        throw new Error('Exit feature not found in this location')
+      }
+      exitPosition = exitPosition ?? {
+        x: feature.x + (feature.width || 0) / 2,
+        y: feature.y + (feature.depth || 0) / 2,
+        z: feature.z,
+      }
+    }
+
+    if (!exitPosition) {
+      throw new Error('An exit needs a position or a feature')
+    }
+
+    const arrivalPosition = input.arrivalPosition ?? {
+      x: (to.minX + to.maxX) / 2,
+      y: (to.minY + to.maxY) / 2,
+      z: to.minZ,
+    }
+
+    return await prisma.locationConnection.create({
+      data: {
+        fromLocationId: from.id,
+        toLocationId: to.id,
+        featureId: input.featureId,
+        type: input.type,
+        name: input.name,
+        description: input.description,
+        fromX: exitPosition.x,
+        fromY: exitPosition.y,
+        fromZ: exitPosition.z,
+        toX: arrivalPosition.x,
+        toY: arrivalPosition.y,
+        toZ: arrivalPosition.z,
+        bidirectional: input.bidirectional ?? true,
+        travelDistance: input.travelDistance,
+        travelTime: input.travelTime,
+      },
+    })
+  }
+
+  /**
+   * Remove a connection touching the given location
+   */
+  async deleteConnection(connectionId: string, locationId: string) {
+    const connection = await prisma.locationConnection.findUnique({
+      where: { id: connectionId },
+    })
+
+    if (
+      !connection ||
+      (connection.fromLocationId !== locationId && connection.toLocationId !== locationId)
+    ) {
+      throw new Error('Connection not found')
+    }
+
+    return await prisma.locationConnection.delete({
+      where: { id: connectionId },
+    })
+  }
+
+  /**
+   * Exits that can be taken from a location: its own connections plus
+   * bidirectional connections leading into it
+   */
+  async getExits(locationId: string): Promise<LocationExit[]> {
+    const connections = await prisma.locationConnection.findMany({
+      where: {
+        OR: [{ fromLocationId: locationId }, { toLocationId: locationId, bidirectional: true }],
+      },
+      include: {
+        fromLocation: { select: { id: true, name: true } },
+        toLocation: { select: { id: true, name: true } },
+      },
+      orderBy: { name: 'asc' },
+    })
+
+    return connections.map((connection) => toExit(connection, locationId))
+  }
+
+  /**
+   * Every location of a campaign and the connections between them
+   */
+  async getWorldGraph(campaignId: string) {
+    const [locations, connections] = await Promise.all([
+      prisma.location.findMany({
+        where: { campaignId },
+        select: { id: true, name: true },
+        orderBy: { name: 'asc' },
+      }),
+      prisma.locationConnection.findMany({
+        where: { fromLocation: { campaignId } },
+        orderBy: { name: 'asc' },
+      }),
+    ])
+
+    return {
+      locations,
+      connections: connections.map((connection) => ({
+        id: connection.id,
+        name: connection.name,
+        type: connection.type,
+        fromLocationId: connection.fromLocationId,
+        toLocationId: connection.toLocationId,
+        bidirectional: connection.bidirectional,
+        travelDistance: connection.travelDistance ?? undefined,
+        travelTime: connection.travelTime ?? undefined,
+      })),
+    }
+  }
+
+  /**
+   * Move a character, or the whole party when none is given, through a connection
+   * Travellers must stand in a location the connection can be taken from; they
+   * arrive spread around the arrival point. Once no placed party member is left
+   * behind, the session's current location follows them.
+   */
+  async travel(sessionId: string, connectionId: string, characterId?: string): Promise<TravelResult> {
+    if (await encounterService.getActiveEncounter(sessionId)) {
+      throw new Error('Cannot travel while combat is running')
+    }
+
+    const connection = await prisma.locationConnection.findUnique({
+      where: { id: connectionId },
+      include: { fromLocation: true, toLocation: true },
+    })
+
+    if (!connection) {
+      throw new Error('Connection not found')
+    }
+
+    const roster = await sessionService.getRoster(sessionId)
+    if (characterId && !roster.some((c) => c.id === characterId)) {
+      throw new Error('Character is not in this session')
+    }
+
+    const positions = await prisma.characterPosition.findMany({
+      where: { characterId: { in: roster.map((c) => c.id) } },
+    })
+    const locationOf = (id: string) => positions.find((p) => p.characterId === id)?.locationId
+
+    // Take the connection from whichever end the travellers stand at
+    const ends = connection.bidirectional
+      ? [connection.fromLocationId, connection.toLocationId]
+      : [connection.fromLocationId]
+    const originId = characterId
+      ? locationOf(characterId)
+      : ends.find((end) => roster.some((c) => locationOf(c.id) === end))
+
+    if (characterId && (!originId || !ends.includes(originId))) {
+      const name = roster.find((c) => c.id === characterId)?.name
+      throw new Error(
+        originId === connection.toLocationId
+          ? `${connection.name} is one-way`
+          : `${name} is not at ${connection.fromLocation.name}`
+      )
+    }
+    if (!originId) {
+      throw new Error(`No one in the party is at ${connection.fromLocation.name}`)
+    }
+
+    const travellers = roster.filter((c) =>
+      characterId ? c.id === characterId : locationOf(c.id) === originId
+    )
+    const exit = toExit(connection, originId)
+    const destination =
+      originId === connection.fromLocationId ? connection.toLocation : connection.fromLocation
+
+    const spots = await this.findArrivalSpots(
+      destination,
+      exit.arrivalPosition,
+      travellers.map((c) => c.id)
+    )
+
+    await prisma.$transaction([
+      ...travellers.map((character, i) =>
+        prisma.characterPosition.update({
+          where: { characterId: character.id },
+          data: { locationId: destination.id, ...spots[i] },
+        })
+      ),
+      movementService.recordMovements(
+        travellers.map((character, i) => {
+          const from = positions.find((p) => p.characterId === character.id)
+          return {
+            sessionId,
+            characterId: character.id,
+            source: 'TRAVEL' as const,
+            from: from ? { locationId: from.locationId, x: from.x, y: from.y, z: from.z } : null,
+            to: { locationId: destination.id, ...spots[i] },
+            reason: `Travelled through ${exit.name}`,
+          }
+        })
+      ),
+    ])
+
+    // Characters who were never placed don't hold the scene back
+    const leftBehind = await prisma.characterPosition.count({
+      where: {
+        characterId: { in: roster.map((c) => c.id) },
+        locationId: { not: destination.id },
+      },
+    })
+    const sessionLocationChanged = leftBehind === 0
+
+    const state = await prisma.sessionState.findUnique({ where: { sessionId } })
+    const event = `${travellers.map((c) => c.name).join(', ')} travelled through ${exit.name} to ${destination.name}`
+    const recentEvents = [event, ...((state?.recentEvents as string[]) || [])].slice(0, 5)
+    const scene = sessionLocationChanged
+      ? { locationId: destination.id, currentLocation: destination.name }
+      : {}
+
+    await prisma.sessionState.upsert({
+      where: { sessionId },
+      update: { recentEvents, ...scene },
+      create: { sessionId, recentEvents, ...scene },
+    })
+
+    return {
+      exit,
+      arrivals: travellers.map((character, i) => ({
+        characterId: character.id,
+        name: character.name,
+        position: spots[i],
+      })),
+      sessionLocationChanged,
+    }
+  }
+
+  /**
+   * Free spots around an arrival point, one per traveller, in rings one cell
+   * (or ARRIVAL_SPACING) apart; crowded rooms stack the rest on the arrival point
+   */
+  private async findArrivalSpots(
+    location: Location,
+    arrival: Position3D,
+    travellerIds: string[]
+  ): Promise<Position3D[]> {
+    const [features, occupants] = await Promise.all([
+      prisma.locationFeature.findMany({
+        where: { locationId: location.id, blocksMovement: true },
+      }),
+      prisma.characterPosition.findMany({
+        where: { locationId: location.id, characterId: { notIn: travellerIds } },
+      }),
+    ])
+
+    const grid = gridFromLocation(location)
+    const spacing = grid.gridType === 'NONE' ? ARRIVAL_SPACING : grid.gridSize
+    const taken: Position3D[] = occupants.map((p) => ({ x: p.x, y: p.y, z: p.z }))
+
+    const isFree = (spot: Position3D) =>
+      spot.x >= location.minX &&
+      spot.x <= location.maxX &&
+      spot.y >= location.minY &&
+      spot.y <= location.maxY &&
+      !features.some(
+        (f) =>
+          spot.x >= f.x &&
+          spot.x <= f.x + (f.width || 0) &&
+          spot.y >= f.y &&
+          spot.y <= f.y + (f.depth || 0) &&
+          spot.z >= f.z &&
+          spot.z <= f.z + (f.height || 0)
+      ) &&
+      !taken.some((t) => Math.hypot(t.x - spot.x, t.y - spot.y) < spacing / 2)
+
+    const spots: Position3D[] = []
+    for (let ring = 0; ring <= ARRIVAL_RINGS && spots.length < travellerIds.length; ring++) {
+      const steps = ring === 0 ? 1 : ring * 8
+      for (let i = 0; i < steps && spots.length < travellerIds.length; i++) {
+        const angle = (i / steps) * 2 * Math.PI
+        const spot = snapToGrid(
+          {
+            x: arrival.x + Math.cos(angle) * ring * spacing,
+            y: arrival.y + Math.sin(angle) * ring * spacing,
+            z: arrival.z,
+          },
+          grid
+        )
+        if (isFree(spot)) {
+          spots.push(spot)
+          taken.push(spot)
+        }
+      }
+    }
+
+    while (spots.length < travellerIds.length) {
+      spots.push(snapToGrid(arrival, grid))
+    }
+
+    return spots
+  }
+}
+
+/**
+ * A connection as seen from one of its ends
+ */
+function toExit(connection: ConnectionWithEnds, locationId: string): LocationExit {
+  const forward = connection.fromLocationId === locationId
+  const origin = { x: connection.fromX, y: connection.fromY, z: connection.fromZ }
+  const arrival = { x: connection.toX, y: connection.toY, z: connection.toZ }
+  const destination = forward ? connection.toLocation : connection.fromLocation
+
+  return {
+    connectionId: connection.id,
+    name: connection.name,
+    type: connection.type,
+    description: connection.description ?? undefined,
+    position: forward ? origin : arrival,
+    destinationId: destination.id,
+    destinationName: destination.name,
+    arrivalPosition: forward ? arrival : origin,
+    travelDistance: connection.travelDistance ?? undefined,
+    travelTime: connection.travelTime ?? undefined,
+  }
+}
+
+export const worldService = new WorldService()
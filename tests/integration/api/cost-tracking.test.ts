@@ -1,6 +1,8 @@
 import { GET as getSessionCosts } from '@/app/api/sessions/[id]/costs/route'
 import { GET as getCampaignCosts } from '@/app/api/campaigns/[id]/costs/route'
 import { costTrackingService } from '@/services/cost-tracking'
+import { authService } from '@/services/auth-service'
+import { accessService } from '@/services/access-service'
 import { NextRequest } from 'next/server'
 
 // Mock the cost tracking service
@@ -13,9 +15,60 @@ jest.mock('@/services/cost-tracking', () => ({
   },
 }))
 
+jest.mock('@/services/auth-service', () => ({
+  authService: {
+    requireUser: jest.fn(),
+  },
+}))
+
+jest.mock('@/services/access-service', () => ({
+  accessService: {
+    requireSessionAccess: jest.fn(),
+    requireCampaignAccess: jest.fn(),
+  },
+}))
+
 describe('Cost Tracking API Integration Tests', () => {
   beforeEach(() => {
     jest.clearAllMocks()
+    ;(authService.requireUser as jest.Mock).mockResolvedValue({ id: 'user-1' })
+    ;(accessService.requireSessionAccess as jest.Mock).mockResolvedValue({ campaignId: 'campaign-123', role: 'GM' })
+    ;(accessService.requireCampaignAccess as jest.Mock).mockResolvedValue({ campaignId: 'campaign-123', role: 'GM' })
+  })
+
+  describe('authorization', () => {
+    it('Given no login, When fetching session costs, Then returns 401', async () => {
+      // Given
+      ;(authService.requireUser as jest.Mock).mockRejectedValue(new Error('Authentication required'))
+
+      const request = new NextRequest('http://localhost/api/sessions/session-123/costs')
+      const params = Promise.resolve({ id: 'session-123' })
+
+      // When
+      const response = await getSessionCosts(request, { params })
+
+      // Then
+      expect(response.status).toBe(401)
+      expect(costTrackingService.getSessionCostSummary).not.toHaveBeenCalled()
+    })
+
+    it('Given a non-member, When fetching campaign costs, Then returns 403', async () => {
+      // Given
+      ;(accessService.requireCampaignAccess as jest.Mock).mockRejectedValue(
+        new Error('Access denied: you are not a member of this campaign')
+      )
+
+      const request = new NextRequest('http://localhost/api/campaigns/campaign-123/costs')
+      const params = Promise.resolve({ id: 'campaign-123' })
+
+      // When
+      const response = await getCampaignCosts(request, { params })
+
+      // Then
+      expect(response.status).toBe(403)
+      expect(accessService.requireCampaignAccess).toHaveBeenCalledWith('user-1', 'campaign-123')
+      expect(costTrackingService.getCampaignCostSummary).not.toHaveBeenCalled()
+    })
   })
 
   describe('GET /api/sessions/:id/costs', () => {
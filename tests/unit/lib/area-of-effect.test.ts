@@ -0,0 +1,88 @@
+import { AreaTemplate, describeArea, isBoxInArea, isInArea, validateArea } from '@/lib/area-of-effect'
+
+describe('area of effect', () => {
+  const at = (x: number, y: number, z = 0) => ({ x, y, z })
+
+  describe('isInArea', () => {
+    it('should include everything within a sphere radius', () => {
+      const fireball: AreaTemplate = { shape: 'SPHERE', origin: at(10, 10), size: 6 }
+
+      expect(isInArea(at(10, 10), fireball)).toBe(true)
+      expect(isInArea(at(16, 10), fireball)).toBe(true)
+      expect(isInArea(at(14, 14, 1), fireball)).toBe(true)
+      expect(isInArea(at(15, 15), fireball)).toBe(false)
+    })
+
+    it('should widen a cone to its length at the far end', () => {
+      const cone: AreaTemplate = { shape: 'CONE', origin: at(0, 0), size: 4.5, towards: at(10, 0) }
+
+      expect(isInArea(at(4, 1.9), cone)).toBe(true)
+      expect(isInArea(at(2, 1.5), cone)).toBe(false)
+      expect(isInArea(at(5, 0), cone)).toBe(false)
+      expect(isInArea(at(-1, 0), cone)).toBe(false)
+    })
+
+    it('should not catch the caster at the point of origin', () => {
+      const cone: AreaTemplate = { shape: 'CONE', origin: at(0, 0), size: 4.5, towards: at(0, 10) }
+      const line: AreaTemplate = { shape: 'LINE', origin: at(0, 0), size: 30, towards: at(0, 10) }
+
+      expect(isInArea(at(0, 0), cone)).toBe(false)
+      expect(isInArea(at(0, 0), line)).toBe(false)
+    })
+
+    it('should keep a line within half its width of its axis', () => {
+      // Lightning bolt: 100ft long, 5ft wide, aimed diagonally
+      const bolt: AreaTemplate = { shape: 'LINE', origin: at(0, 0), size: 30, towards: at(10, 10) }
+
+      expect(isInArea(at(15, 15), bolt)).toBe(true)
+      expect(isInArea(at(15.5, 14.5), bolt)).toBe(true)
+      expect(isInArea(at(16, 14), bolt)).toBe(false)
+      expect(isInArea(at(22, 22), bolt)).toBe(false)
+    })
+
+    it('should extend an aimed cube away from the origin and centre an unaimed one', () => {
+      const aimed: AreaTemplate = { shape: 'CUBE', origin: at(0, 0), size: 4.5, towards: at(0, 10, 5) }
+      const centred: AreaTemplate = { shape: 'CUBE', origin: at(0, 0), size: 4.5 }
+
+      expect(isInArea(at(2, 4), aimed)).toBe(true)
+      expect(isInArea(at(0, -1), aimed)).toBe(false)
+      expect(isInArea(at(0, -1), centred)).toBe(true)
+      expect(isInArea(at(2.3, 0), centred)).toBe(false)
+    })
+
+    it('should raise a cylinder from its base', () => {
+      const pillar: AreaTemplate = { shape: 'CYLINDER', origin: at(0, 0), size: 3, height: 12 }
+
+      expect(isInArea(at(2, 2, 10), pillar)).toBe(true)
+      expect(isInArea(at(0, 0, -1), pillar)).toBe(false)
+      expect(isInArea(at(0, 0, 13), pillar)).toBe(false)
+    })
+  })
+
+  describe('isBoxInArea', () => {
+    it('should catch boxes that only reach into the area', () => {
+      const fireball: AreaTemplate = { shape: 'SPHERE', origin: at(0, 0), size: 6 }
+      const longTable = { minX: 5, maxX: 20, minY: -1, maxY: 1, minZ: 0, maxZ: 1 }
+
+      expect(isBoxInArea(longTable, fireball)).toBe(true)
+      expect(isBoxInArea({ ...longTable, minX: 7 }, fireball)).toBe(false)
+    })
+  })
+
+  describe('validateArea', () => {
+    it('should require a direction for cones and lines', () => {
+      expect(() => validateArea({ shape: 'CONE', origin: at(0, 0), size: 4.5 })).toThrow('A cone needs a direction')
+      expect(() => validateArea({ shape: 'LINE', origin: at(0, 0), size: 30, towards: at(0, 0) })).toThrow(
+        'A line needs a direction'
+      )
+      expect(() => validateArea({ shape: 'SPHERE', origin: at(0, 0), size: 6 })).not.toThrow()
+    })
+  })
+
+  describe('describeArea', () => {
+    it('should describe the shape and its size', () => {
+      expect(describeArea({ shape: 'SPHERE', origin: at(0, 0), size: 20 }, 'ft')).toBe('20ft radius sphere')
+      expect(describeArea({ shape: 'CONE', origin: at(0, 0), size: 4.5, towards: at(1, 0) })).toBe('4.5m cone')
+    })
+  })
+})
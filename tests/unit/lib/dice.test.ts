@@ -0,0 +1,109 @@
+import { createSeededRng, parseDiceExpression, rollDice } from '@/lib/dice'
+
+describe('dice engine', () => {
+  describe('parseDiceExpression', () => {
+    it('should parse dice and constant terms', () => {
+      // When
+      const parsed = parseDiceExpression('1d20 + 5 - 1d4')
+
+      // Then
+      expect(parsed.expression).toBe('1d20+5-1d4')
+      expect(parsed.terms).toEqual([
+        { type: 'dice', sign: 1, count: 1, sides: 20, explode: false },
+        { type: 'constant', sign: 1, value: 5 },
+        { type: 'dice', sign: -1, count: 1, sides: 4, explode: false },
+      ])
+    })
+
+    it('should normalize drop notation to keep notation', () => {
+      expect(parseDiceExpression('4d6dl1').expression).toBe('4d6kh3')
+      expect(parseDiceExpression('2d20k').expression).toBe('2d20kh1')
+      expect(parseDiceExpression('d%').expression).toBe('1d100')
+    })
+
+    it('should turn advantage into 2d20 keep highest', () => {
+      // When
+      const parsed = parseDiceExpression('1d20+3 adv')
+
+      // Then
+      expect(parsed.mode).toBe('advantage')
+      expect(parsed.expression).toBe('2d20kh1+3')
+    })
+
+    it.each([
+      ['', /empty/],
+      ['1d20+', /unexpected/],
+      ['1d20 5', /unexpected/],
+      ['fireball', /unexpected/],
+      ['1000d6', /dice count/],
+      ['1d0', /dice sides/],
+      ['1d4+99999999999', /constants/],
+      ['2d6kh3', /cannot keep/],
+      ['2d6 adv', /single d20/],
+    ])('should reject "%s"', (input, message) => {
+      expect(() => parseDiceExpression(input)).toThrow(message)
+      expect(() => parseDiceExpression(input)).toThrow(/^Invalid dice expression/)
+    })
+  })
+
+  describe('rollDice', () => {
+    it('should be deterministic for a given seed', () => {
+      // When
+      const first = rollDice('4d6kh3+2', { seed: 42 })
+      const second = rollDice('4d6kh3+2', { seed: 42 })
+
+      // Then
+      expect(second).toEqual(first)
+      expect(first.seed).toBe(42)
+    })
+
+    it('should keep the highest dice and total the kept values', () => {
+      // When
+      const result = rollDice('4d6kh3+2', { seed: 7 })
+
+      // Then
+      const term = result.terms[0]
+      if (term.type !== 'dice') throw new Error('Expected dice term')
+
+      const values = term.rolls.map((r) => r.value)
+      const kept = term.rolls.filter((r) => r.kept).map((r) => r.value)
+      const expected = [...values].sort((a, b) => b - a).slice(0, 3)
+
+      expect(kept.sort()).toEqual(expected.sort())
+      expect(result.total).toBe(expected.reduce((a, b) => a + b, 0) + 2)
+      expect(result.breakdown).toMatch(/^4d6kh3 \[.*\(\d\).*\] \+ 2 = \d+$/)
+    })
+
+    it('should keep the lower d20 with disadvantage', () => {
+      for (let seed = 0; seed < 20; seed++) {
+        const result = rollDice('1d20 dis', { seed })
+        const term = result.terms[0]
+        if (term.type !== 'dice') throw new Error('Expected dice term')
+
+        expect(term.rolls).toHaveLength(2)
+        expect(result.total).toBe(Math.min(...term.rolls.map((r) => r.value)))
+      }
+    })
+
+    it('should add an extra die for every maximum roll when exploding', () => {
+      for (let seed = 0; seed < 50; seed++) {
+        const result = rollDice('2d2!', { seed })
+        const term = result.terms[0]
+        if (term.type !== 'dice') throw new Error('Expected dice term')
+
+        const explosions = term.rolls.filter((r) => r.exploded).length
+        expect(term.rolls).toHaveLength(2 + explosions)
+        term.rolls.filter((r) => r.exploded).forEach((r) => expect(r.value).toBe(2))
+      }
+    })
+
+    it('should produce seeded floats in [0, 1)', () => {
+      const rng = createSeededRng(123)
+      for (let i = 0; i < 1000; i++) {
+        const value = rng()
+        expect(value).toBeGreaterThanOrEqual(0)
+        expect(value).toBeLessThan(1)
+      }
+    })
+  })
+})
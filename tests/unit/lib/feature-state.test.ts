@@ -0,0 +1,69 @@
+import { blockingForState, defaultFeatureState, isReachable, planFeatureAction } from '@/lib/feature-state'
+
+describe('feature-state', () => {
+  const door = { name: 'Iron door', state: 'LOCKED' as const, lockDc: 15, keyItemId: 'item-key' }
+
+  describe('blockingForState', () => {
+    it('should block movement and sight only while a door is shut', () => {
+      expect(blockingForState('DOOR', 'LOCKED')).toEqual({
+        blocksMovement: true,
+        blocksVision: true,
+        providesCover: 'FULL',
+      })
+      expect(blockingForState('DOOR', 'BROKEN')).toEqual({
+        blocksMovement: false,
+        blocksVision: false,
+        providesCover: 'NONE',
+      })
+      expect(blockingForState('OBJECT', 'CLOSED')).toBeUndefined()
+    })
+  })
+
+  describe('defaultFeatureState', () => {
+    it('should start blocking doors closed and leave other features stateless', () => {
+      expect(defaultFeatureState('DOOR', true, false)).toBe('CLOSED')
+      expect(defaultFeatureState('DOOR', false, false)).toBe('OPEN')
+      expect(defaultFeatureState('WALL', true, true)).toBeUndefined()
+    })
+  })
+
+  describe('isReachable', () => {
+    it('should only reach into open, broken or stateless containers', () => {
+      expect(isReachable('OPEN')).toBe(true)
+      expect(isReachable('BROKEN')).toBe(true)
+      expect(isReachable(null)).toBe(true)
+      expect(isReachable('CLOSED')).toBe(false)
+      expect(isReachable('LOCKED')).toBe(false)
+    })
+  })
+
+  describe('planFeatureAction', () => {
+    it('should unlock with the key without a roll', () => {
+      expect(planFeatureAction(door, 'unlock', true)).toEqual({ next: 'CLOSED' })
+    })
+
+    it('should ask for a DEX check to pick the lock and a STR check to force it', () => {
+      expect(planFeatureAction(door, 'unlock', false)).toEqual({
+        next: 'CLOSED',
+        check: { ability: 'DEX', dc: 15 },
+      })
+      expect(planFeatureAction(door, 'force', false)).toEqual({
+        next: 'BROKEN',
+        check: { ability: 'STR', dc: 15 },
+      })
+    })
+
+    it('should refuse actions that make no sense in the current state', () => {
+      expect(() => planFeatureAction(door, 'open', false)).toThrow('Cannot open Iron door: it is locked')
+      expect(() => planFeatureAction({ ...door, state: 'CLOSED' }, 'lock', false)).toThrow(
+        'Cannot lock Iron door: it only locks with its key'
+      )
+      expect(() => planFeatureAction({ ...door, state: 'BROKEN' }, 'close', false)).toThrow(
+        'Cannot close Iron door: it is broken'
+      )
+      expect(() => planFeatureAction({ ...door, state: null }, 'open', false)).toThrow(
+        'Cannot open Iron door: it does not open or close'
+      )
+    })
+  })
+})
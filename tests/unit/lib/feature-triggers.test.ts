@@ -0,0 +1,134 @@
+import {
+  abilityModifier,
+  damageAfterSave,
+  describeActivation,
+  findTriggerPoint,
+  passivePerception,
+  savingThrowExpression,
+  triggerArea,
+} from '@/lib/feature-triggers'
+
+describe('feature-triggers', () => {
+  // A 1.5m pressure plate on the floor, from (6, 0) to (7.5, 1.5)
+  const plate = triggerArea({ x: 6, y: 0, z: 0, width: 1.5, height: null, depth: 1.5 }, 1.524)
+
+  describe('triggerArea', () => {
+    it('should give unsized features one cell on the floor', () => {
+      expect(triggerArea({ x: 2, y: 3, z: 0, width: null, height: null, depth: null }, 1.5)).toEqual({
+        minX: 2,
+        maxX: 3.5,
+        minY: 3,
+        maxY: 4.5,
+        minZ: 0,
+        maxZ: 0,
+      })
+    })
+  })
+
+  describe('findTriggerPoint', () => {
+    it('should find where a path steps onto the plate and how far it walked', () => {
+      // When
+      const hit = findTriggerPoint(
+        [
+          { x: 0, y: 0.5, z: 0 },
+          { x: 12, y: 0.5, z: 0 },
+        ],
+        plate,
+        0
+      )
+
+      // Then
+      expect(hit).not.toBeNull()
+      expect(hit!.point.x).toBeGreaterThanOrEqual(5.99)
+      expect(hit!.point.x).toBeLessThanOrEqual(7.5)
+      expect(hit!.travelled).toBeCloseTo(hit!.point.x)
+    })
+
+    it('should ignore paths that pass beside, fly over or start on the plate', () => {
+      const beside = [
+        { x: 0, y: 3, z: 0 },
+        { x: 12, y: 3, z: 0 },
+      ]
+      const over = [
+        { x: 0, y: 0.5, z: 3 },
+        { x: 12, y: 0.5, z: 3 },
+      ]
+      const leaving = [
+        { x: 6.5, y: 0.5, z: 0 },
+        { x: 12, y: 0.5, z: 0 },
+      ]
+
+      expect(findTriggerPoint(beside, plate, 0)).toBeNull()
+      expect(findTriggerPoint(over, plate, 0)).toBeNull()
+      expect(findTriggerPoint(leaving, plate, 0)).toBeNull()
+    })
+
+    it('should go off when a path comes within the proximity radius', () => {
+      // Given: passing 1.5m to the side of the plate
+      const beside = [
+        { x: 0, y: 3, z: 0 },
+        { x: 12, y: 3, z: 0 },
+      ]
+
+      // When / Then
+      expect(findTriggerPoint(beside, plate, 1)).toBeNull()
+      expect(findTriggerPoint(beside, plate, 2)).not.toBeNull()
+    })
+  })
+
+  describe('saving throws', () => {
+    it('should read ability scores under any of their stored names', () => {
+      expect(abilityModifier({ dexterity: 16 }, 'DEX')).toBe(3)
+      expect(abilityModifier({ DEX: 8 }, 'DEX')).toBe(-1)
+      expect(abilityModifier({ wis: 14 }, 'WIS')).toBe(2)
+      expect(abilityModifier(null, 'CON')).toBe(0)
+      expect(passivePerception({ wisdom: 14 })).toBe(12)
+    })
+
+    it('should build the d20 expression for a modifier', () => {
+      expect(savingThrowExpression(3)).toBe('1d20+3')
+      expect(savingThrowExpression(0)).toBe('1d20')
+      expect(savingThrowExpression(-1)).toBe('1d20-1')
+    })
+
+    it('should halve or avoid damage on a successful save', () => {
+      expect(damageAfterSave(9, false, true)).toBe(9)
+      expect(damageAfterSave(9, true, true)).toBe(4)
+      expect(damageAfterSave(9, true, false)).toBe(0)
+    })
+  })
+
+  describe('describeActivation', () => {
+    it('should narrate the save and every effect applied', () => {
+      expect(
+        describeActivation({
+          characterName: 'Aria',
+          featureName: 'Pressure plate',
+          outcome: 'FAILED',
+          saveAbility: 'DEX',
+          saveTotal: 9,
+          saveDc: 13,
+          damage: 7,
+          damageType: 'piercing',
+          condition: 'restrained',
+          events: ['Aria drops to 0 HP'],
+        })
+      ).toBe(
+        'Aria sets off Pressure plate and fails a DEX save (9 vs DC 13); takes 7 piercing damage; ' +
+          'is restrained; Aria drops to 0 HP'
+      )
+    })
+
+    it('should narrate a trap spotted in time', () => {
+      expect(
+        describeActivation({
+          characterName: 'Borin',
+          featureName: 'Tripwire',
+          outcome: 'DETECTED',
+          perception: 14,
+          detectionDc: 12,
+        })
+      ).toBe('Borin spots Tripwire (passive Perception 14 vs DC 12) and avoids setting it off')
+    })
+  })
+})
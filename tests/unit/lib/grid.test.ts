@@ -0,0 +1,89 @@
+import { describeGrid, gridDistance, GridSettings, measurePath, snapToGrid } from '@/lib/grid'
+
+describe('map grids', () => {
+  // 5ft squares measured in feet keep the arithmetic readable
+  const square = (diagonalRule: GridSettings['diagonalRule']): GridSettings => ({
+    gridType: 'SQUARE',
+    gridSize: 5,
+    diagonalRule,
+    originX: 0,
+    originY: 0,
+  })
+  const hex: GridSettings = { gridType: 'HEX', gridSize: 5, diagonalRule: 'UNIFORM', originX: 0, originY: 0 }
+
+  // Centre of square (col, row)
+  const at = (col: number, row: number, z = 0) => ({ x: col * 5 + 2.5, y: row * 5 + 2.5, z })
+
+  describe('gridDistance', () => {
+    it('should count every diagonal as one square under 5-5-5', () => {
+      expect(gridDistance(at(0, 0), at(3, 3), square('UNIFORM'))).toBe(15)
+      expect(gridDistance(at(0, 0), at(4, 1), square('UNIFORM'))).toBe(20)
+    })
+
+    it('should make every second diagonal cost double under 5-10-5', () => {
+      expect(gridDistance(at(0, 0), at(1, 1), square('ALTERNATING'))).toBe(5)
+      expect(gridDistance(at(0, 0), at(2, 2), square('ALTERNATING'))).toBe(15)
+      expect(gridDistance(at(0, 0), at(3, 3), square('ALTERNATING'))).toBe(20)
+      expect(gridDistance(at(0, 0), at(4, 1), square('ALTERNATING'))).toBe(20)
+    })
+
+    it('should measure true length in squares under the euclidean rule', () => {
+      expect(gridDistance(at(0, 0), at(3, 4), square('EUCLIDEAN'))).toBeCloseTo(25)
+    })
+
+    it('should measure from the squares positions fall in', () => {
+      expect(gridDistance({ x: 0.1, y: 0.1, z: 0 }, { x: 14.9, y: 4.9, z: 0 }, square('UNIFORM'))).toBe(10)
+    })
+
+    it('should treat height as another axis', () => {
+      expect(gridDistance(at(0, 0), at(2, 0, 10), square('UNIFORM'))).toBe(10)
+      expect(gridDistance(at(0, 0), at(2, 0, 10), square('ALTERNATING'))).toBe(15)
+    })
+
+    it('should count hex steps on a hex grid', () => {
+      // Three hexes east, then one row down and to the right
+      const east = { x: 15, y: 0, z: 0 }
+      const downRight = { x: 2.5, y: 5 * (Math.sqrt(3) / 2), z: 0 }
+
+      expect(gridDistance({ x: 0, y: 0, z: 0 }, east, hex)).toBe(15)
+      expect(gridDistance({ x: 0, y: 0, z: 0 }, downRight, hex)).toBe(5)
+      expect(gridDistance(downRight, east, hex)).toBe(15)
+    })
+
+    it('should use straight-line distance without a grid', () => {
+      const none: GridSettings = { ...square('UNIFORM'), gridType: 'NONE' }
+      expect(gridDistance({ x: 0, y: 0, z: 0 }, { x: 3, y: 4, z: 0 }, none)).toBe(5)
+    })
+  })
+
+  describe('snapToGrid', () => {
+    it('should move positions to the centre of their square', () => {
+      expect(snapToGrid({ x: 15.37, y: 14.02, z: 1 }, square('UNIFORM'))).toEqual({ x: 17.5, y: 12.5, z: 1 })
+    })
+
+    it('should move positions to the centre of their hex', () => {
+      const snapped = snapToGrid({ x: 4.1, y: 0.6, z: 0 }, hex)
+      expect(snapped.x).toBeCloseTo(5)
+      expect(snapped.y).toBeCloseTo(0)
+    })
+
+    it('should respect the grid origin', () => {
+      const offset = { ...square('UNIFORM'), originX: -10, originY: 3 }
+      expect(snapToGrid({ x: -9, y: 4, z: 0 }, offset)).toEqual({ x: -7.5, y: 5.5, z: 0 })
+    })
+  })
+
+  describe('measurePath', () => {
+    it('should add up the grid distance of every leg', () => {
+      expect(measurePath([at(0, 0), at(2, 2), at(2, 5)], square('UNIFORM'))).toBe(25)
+    })
+  })
+
+  describe('describeGrid', () => {
+    it('should describe square and hex grids', () => {
+      expect(describeGrid(square('ALTERNATING'), 'ft')).toBe('square grid, 5ft cells, 5-10-5 diagonals')
+      expect(describeGrid(hex, 'ft')).toBe('hex grid, 5ft cells')
+      expect(describeGrid({ ...hex, gridType: 'NONE' })).toBeUndefined()
+    })
+  })
+})
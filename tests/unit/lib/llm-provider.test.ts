@@ -0,0 +1,102 @@
+import {
+  FixtureLLMProvider,
+  OpenAICompatibleProvider,
+  createLLMProvider,
+} from '@/lib/llm-provider'
+
+describe('LLM providers', () => {
+  describe('FixtureLLMProvider', () => {
+    it('should replay sequential fixtures in order and wrap around', async () => {
+      // Given
+      const provider = new FixtureLLMProvider([
+        { response: 'first' },
+        { response: 'second' },
+      ])
+      const request = { messages: [{ role: 'user' as const, content: 'hello' }] }
+
+      // When
+      const results = [
+        await provider.complete(request),
+        await provider.complete(request),
+        await provider.complete(request),
+      ]
+
+      // Then
+      expect(results.map((r) => r.content)).toEqual(['first', 'second', 'first'])
+    })
+
+    it('should prefer a fixture whose pattern matches the last user message', async () => {
+      // Given
+      const provider = new FixtureLLMProvider([
+        { response: 'default' },
+        { match: 'charge', response: { narrative: 'You charge!' } },
+      ])
+
+      // When
+      const result = await provider.complete({
+        messages: [
+          { role: 'system', content: 'You are a DM' },
+          { role: 'user', content: 'I CHARGE the orc' },
+        ],
+      })
+
+      // Then
+      expect(JSON.parse(result.content)).toEqual({ narrative: 'You charge!' })
+      expect(result.usage.totalTokens).toBe(
+        result.usage.promptTokens + result.usage.completionTokens
+      )
+    })
+
+    it('should stream the same content it would complete', async () => {
+      // Given
+      const provider = new FixtureLLMProvider([{ response: 'The door creaks open.' }])
+
+      // When
+      const chunks: string[] = []
+      let usage
+      for await (const chunk of provider.stream({
+        messages: [{ role: 'user', content: 'open door' }],
+      })) {
+        chunks.push(chunk.delta)
+        usage = chunk.usage ?? usage
+      }
+
+      // Then
+      expect(chunks.filter(Boolean).length).toBeGreaterThan(1)
+      expect(chunks.join('')).toBe('The door creaks open.')
+      expect(usage?.completionTokens).toBeGreaterThan(0)
+    })
+  })
+
+  describe('createLLMProvider', () => {
+    it('should create the fixture provider when LLM_PROVIDER is fixture', () => {
+      // When
+      const provider = createLLMProvider({ LLM_PROVIDER: 'fixture' })
+
+      // Then
+      expect(provider).toBeInstanceOf(FixtureLLMProvider)
+      expect(provider.name).toBe('fixture')
+    })
+
+    it('should create an OpenAI-compatible provider for a local server', () => {
+      // When
+      const provider = createLLMProvider({
+        LLM_PROVIDER: 'local',
+        LLM_MODEL: 'mistral',
+        LLM_BASE_URL: 'http://localhost:8080/v1',
+      })
+
+      // Then
+      expect(provider).toBeInstanceOf(OpenAICompatibleProvider)
+      expect(provider.name).toBe('local')
+      expect(provider.defaultModel).toBe('mistral')
+    })
+
+    it('should throw for an unknown provider', () => {
+      // When / Then
+      expect(() => createLLMProvider({ LLM_PROVIDER: 'mystery' })).toThrow(
+        'Unknown LLM provider: mystery'
+      )
+    })
+  })
+})
@@ -0,0 +1,209 @@
+import { parseTiledMap, parseUniversalVtt, toTiledMap, toUniversalVtt } from '@/lib/map-formats'
+
+describe('map formats', () => {
+  // A 10x8 cell room with a straight wall, a diagonal wall, a door and a torch
+  const uvtt = {
+    format: 0.3,
+    resolution: { map_origin: { x: 0, y: 0 }, map_size: { x: 10, y: 8 }, pixels_per_grid: 70 },
+    line_of_sight: [
+      [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+      ],
+      [
+        { x: 2, y: 2 },
+        { x: 4, y: 4 },
+      ],
+    ],
+    portals: [
+      {
+        position: { x: 5, y: 8 },
+        bounds: [
+          { x: 4.5, y: 8 },
+          { x: 5.5, y: 8 },
+        ],
+        rotation: 0,
+        closed: true,
+        freestanding: false,
+      },
+    ],
+    lights: [{ position: { x: 1, y: 1 }, range: 8, intensity: 1, color: 'ffeecc88', shadows: true }],
+    environment: { baked_lighting: true, ambient_light: 'ff101018' },
+    image: 'iVBORw0KGgo=',
+  }
+
+  describe('parseUniversalVtt', () => {
+    it('should size the location from the grid in feet', () => {
+      // Given / When
+      const map = parseUniversalVtt(uvtt, { unitType: 'feet' })
+
+      // Then
+      expect(map).toMatchObject({
+        minX: 0,
+        maxX: 50,
+        maxY: 40,
+        maxZ: 10,
+        unitType: 'feet',
+        gridType: 'SQUARE',
+        gridSize: 5,
+        ambientLight: 'DARK',
+      })
+    })
+
+    it('should turn walls into blocking boxes, diagonal ones into a staircase', () => {
+      // Given / When
+      const walls = parseUniversalVtt(uvtt, { unitType: 'feet' }).features.filter((f) => f.name === 'Wall')
+
+      // Then
+      const [straight, ...diagonal] = walls
+      expect(straight.blocksVision).toBe(true)
+      expect(straight.x).toBeCloseTo(-5 / 6)
+      expect(straight.y).toBeCloseTo(-5 / 6)
+      expect(straight.width).toBeCloseTo(50 + 5 / 3)
+      expect(straight.depth).toBeCloseTo(5 / 3)
+      // 14.1ft of diagonal in pieces no longer than the wall is thick
+      expect(diagonal).toHaveLength(9)
+      expect(diagonal.every((w) => w.blocksMovement && w.providesCover === 'FULL')).toBe(true)
+      expect(diagonal[0].x).toBeCloseTo(10 - 5 / 6)
+      expect(diagonal[8].x + diagonal[8].width).toBeCloseTo(20 + 5 / 6)
+    })
+
+    it('should turn portals into doors and lights into light sources', () => {
+      // Given / When
+      const map = parseUniversalVtt(uvtt)
+
+      // Then
+      const door = map.features.find((f) => f.type === 'DOOR')
+      expect(door).toMatchObject({ blocksMovement: false, blocksVision: true, metadata: { closed: true } })
+      expect(door?.width).toBeCloseTo(1.524)
+
+      const light = map.features.find((f) => f.name === 'Light 1')
+      expect(light?.dimLight).toBeCloseTo(8 * 1.524)
+      expect(light?.brightLight).toBeCloseTo(4 * 1.524)
+    })
+
+    it('should reject files without a map size', () => {
+      expect(() => parseUniversalVtt({ resolution: {} })).toThrow(
+        'Invalid Universal VTT map: resolution.map_size'
+      )
+    })
+  })
+
+  describe('toUniversalVtt', () => {
+    it('should write doors, lights and the ambient light back', () => {
+      // Given
+      const map = parseUniversalVtt(uvtt, { unitType: 'feet' })
+
+      // When
+      const file = toUniversalVtt(map) as {
+        resolution: { map_size: { x: number; y: number } }
+        portals: Array<{ bounds: Array<{ x: number; y: number }>; closed: boolean }>
+        lights: unknown[]
+        environment: { ambient_light: string }
+        line_of_sight: unknown[]
+      }
+
+      // Then
+      expect(file.resolution.map_size).toEqual({ x: 10, y: 8 })
+      expect(file.portals[0].bounds[0].x).toBeCloseTo(4.5)
+      expect(file.portals[0].bounds[1].x).toBeCloseTo(5.5)
+      expect(file.portals[0].closed).toBe(true)
+      expect(file.lights[0]).toMatchObject({ position: { x: 1, y: 1 }, range: 8, color: 'ffeecc88' })
+      expect(file.environment.ambient_light).toBe('ff202020')
+      expect(file.line_of_sight).toHaveLength(10)
+    })
+  })
+
+  describe('parseTiledMap', () => {
+    const tiled = {
+      orientation: 'orthogonal',
+      width: 20,
+      height: 10,
+      tilewidth: 70,
+      tileheight: 70,
+      properties: [
+        { name: 'name', type: 'string', value: 'Crypt' },
+        { name: 'ambientLight', type: 'string', value: 'dim' },
+      ],
+      layers: [
+        { type: 'tilelayer', name: 'Floor', data: [] },
+        {
+          type: 'group',
+          name: 'Props',
+          layers: [
+            {
+              type: 'objectgroup',
+              name: 'Walls',
+              objects: [{ id: 1, name: '', x: 0, y: 0, width: 1400, height: 35 }],
+            },
+          ],
+        },
+        {
+          type: 'objectgroup',
+          name: 'Objects',
+          objects: [
+            {
+              id: 2,
+              name: 'Sarcophagus',
+              class: 'furniture',
+              x: 140,
+              y: 140,
+              width: 140,
+              height: 70,
+              properties: [
+                { name: 'providesCover', type: 'string', value: 'HALF' },
+                { name: 'height', type: 'float', value: 1 },
+              ],
+            },
+            {
+              id: 3,
+              name: 'Pool',
+              type: 'TERRAIN',
+              x: 700,
+              y: 350,
+              polygon: [
+                { x: 0, y: 0 },
+                { x: 140, y: 70 },
+                { x: -70, y: 140 },
+              ],
+              properties: [{ name: 'movementMode', type: 'string', value: 'swim' }],
+            },
+          ],
+        },
+      ],
+    }
+
+    it('should turn objects into features typed by class or layer', () => {
+      // Given / When
+      const map = parseTiledMap(tiled)
+
+      // Then
+      expect(map).toMatchObject({ name: 'Crypt', ambientLight: 'DIM', gridType: 'SQUARE' })
+      expect(map.maxX).toBeCloseTo(30.48)
+      const [wall, sarcophagus, pool] = map.features
+      expect(wall).toMatchObject({ type: 'OBSTACLE', name: 'Walls', blocksMovement: true })
+      expect(sarcophagus).toMatchObject({ type: 'FURNITURE', providesCover: 'HALF', height: 1 })
+      expect(sarcophagus.x).toBeCloseTo(3.048)
+      expect(sarcophagus.width).toBeCloseTo(3.048)
+      expect(pool).toMatchObject({ type: 'TERRAIN', movementMode: 'SWIM' })
+      expect(pool.x).toBeCloseTo(630 * (1.524 / 70))
+      expect(pool.depth).toBeCloseTo(3.048)
+    })
+
+    it('should read back what toTiledMap writes', () => {
+      // Given
+      const map = parseTiledMap(tiled)
+
+      // When
+      const roundTrip = parseTiledMap(toTiledMap(map))
+
+      // Then
+      expect(roundTrip.name).toBe('Crypt')
+      expect(roundTrip.ambientLight).toBe('DIM')
+      expect(roundTrip.features.map((f) => f.type)).toEqual(['OBSTACLE', 'FURNITURE', 'TERRAIN'])
+      expect(roundTrip.features[1].x).toBeCloseTo(map.features[1].x)
+      expect(roundTrip.features[1].providesCover).toBe('HALF')
+      expect(roundTrip.features[2].movementMode).toBe('SWIM')
+    })
+  })
+})
@@ -0,0 +1,43 @@
+import { NarrativeStreamExtractor } from '@/lib/narrative-stream'
+
+describe('NarrativeStreamExtractor', () => {
+  const feed = (extractor: NarrativeStreamExtractor, chunks: string[]) =>
+    chunks.map((chunk) => extractor.push(chunk)).join('')
+
+  it('should extract the narrative field across chunk boundaries', () => {
+    // Given
+    const extractor = new NarrativeStreamExtractor()
+    const chunks = ['{"narr', 'ative": "You ', 'enter the ', 'tavern.", "movement": {"detected": false}}']
+
+    // When
+    const text = feed(extractor, chunks)
+
+    // Then
+    expect(text).toBe('You enter the tavern.')
+    expect(extractor.isComplete).toBe(true)
+  })
+
+  it('should decode escape sequences split between chunks', () => {
+    // Given
+    const extractor = new NarrativeStreamExtractor()
+    const chunks = ['{"narrative":"\\"Halt!\\', '" cries the guard.\\', 'nA chill: \\u00', 'e9"}']
+
+    // When
+    const text = feed(extractor, chunks)
+
+    // Then
+    expect(text).toBe('"Halt!" cries the guard.\nA chill: é')
+  })
+
+  it('should emit nothing when the field never appears', () => {
+    // Given
+    const extractor = new NarrativeStreamExtractor()
+
+    // When
+    const text = feed(extractor, ['Plain text response', ' without JSON'])
+
+    // Then
+    expect(text).toBe('')
+    expect(extractor.isComplete).toBe(false)
+  })
+})
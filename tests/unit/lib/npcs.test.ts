@@ -0,0 +1,30 @@
+import { packNames, packPositions } from '@/lib/npcs'
+
+describe('npcs', () => {
+  describe('packNames', () => {
+    it('should keep the name of a lone NPC', () => {
+      expect(packNames('Old Tom', 1)).toEqual(['Old Tom'])
+    })
+
+    it('should number a pack after the ones already in the campaign', () => {
+      expect(packNames('Goblin', 3)).toEqual(['Goblin 1', 'Goblin 2', 'Goblin 3'])
+      expect(packNames('Goblin', 2, ['Goblin 1', 'Goblin 2', 'Goblin Boss'])).toEqual(['Goblin 3', 'Goblin 4'])
+      expect(packNames('Goblin', 1, ['Goblin'])).toEqual(['Goblin 2'])
+    })
+
+    it('should read names with special characters literally', () => {
+      expect(packNames('Orc (scout)', 1, ['Orc (scout) 4'])).toEqual(['Orc (scout) 5'])
+    })
+  })
+
+  describe('packPositions', () => {
+    it('should stand a pack in rows one cell apart from the first token', () => {
+      expect(packPositions({ x: 3, y: 3, z: 0 }, 4, 1.5)).toEqual([
+        { x: 3, y: 3, z: 0 },
+        { x: 4.5, y: 3, z: 0 },
+        { x: 3, y: 4.5, z: 0 },
+        { x: 4.5, y: 4.5, z: 0 },
+      ])
+    })
+  })
+})
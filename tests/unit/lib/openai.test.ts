@@ -0,0 +1,170 @@
+import { DMToolbox, OpenAIService } from '@/lib/openai'
+import { FixtureLLMProvider } from '@/lib/llm-provider'
+import { parseDMResponse } from '@/lib/dm-response-schema'
+import { EnhancedAIContext } from '@/types'
+
+describe('OpenAIService structured DM output', () => {
+  const context: EnhancedAIContext = {
+    campaignName: 'Test Campaign',
+    characterId: 'char-1',
+    currentState: { locationId: 'loc-1' },
+    spatialContext: { characterPosition: { x: 0, y: 0, z: 0 } },
+    recentMessages: [],
+    relevantKnowledge: [],
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should build a typed movement suggestion from a valid reply', async () => {
+    // Given
+    const service = new OpenAIService(
+      new FixtureLLMProvider([
+        {
+          response: {
+            narrative: 'You charge the orc!',
+            movement: {
+              detected: true,
+              targetName: 'orc',
+              targetPosition: { x: 3, y: 4, z: 0 },
+              actionType: 'MELEE',
+            },
+          },
+        },
+      ])
+    )
+
+    // When
+    const result = await service.generateEnhancedStoryResponse('I charge', context)
+
+    // Then
+    expect(result.content).toBe('You charge the orc!')
+    expect(result.metadata?.movementSuggestion).toMatchObject({
+      characterId: 'char-1',
+      actionType: 'MELEE',
+      distance: 5,
+      locationId: 'loc-1',
+    })
+    expect(result.metadata?.outputValidation).toEqual({ valid: true, attempts: 1 })
+  })
+
+  it('should repair malformed output with a retry', async () => {
+    // Given
+    const service = new OpenAIService(
+      new FixtureLLMProvider([
+        { response: 'The goblin snarls {not json' },
+        { response: { narrative: 'The goblin snarls.', movement: { detected: false } } },
+      ])
+    )
+
+    // When
+    const result = await service.generateEnhancedStoryResponse('I wave', context)
+
+    // Then
+    expect(result.content).toBe('The goblin snarls.')
+    expect(result.metadata?.outputValidation?.valid).toBe(true)
+    expect(result.metadata?.outputValidation?.attempts).toBe(2)
+    expect(result.metadata?.outputValidation?.repairedErrors?.[0]).toMatch(/Invalid JSON/)
+  })
+
+  it('should fall back to the narrative and record the failure when repair fails', async () => {
+    // Given
+    const invalid = { narrative: 'You step forward.', movement: { detected: true } }
+    const service = new OpenAIService(new FixtureLLMProvider([{ response: invalid }]))
+
+    // When
+    const result = await service.generateEnhancedStoryResponse('I step forward', context)
+
+    // Then
+    expect(result.content).toBe('You step forward.')
+    expect(result.metadata?.movementSuggestion).toBeUndefined()
+    expect(result.metadata?.outputValidation?.valid).toBe(false)
+    expect(result.metadata?.outputValidation?.failureReason).toMatch(/targetPosition/)
+  })
+
+  it('should default movement when the model omits it', () => {
+    // When
+    const result = parseDMResponse('{"narrative": "Quiet night."}')
+
+    // Then
+    expect(result).toEqual({
+      success: true,
+      data: { narrative: 'Quiet night.', movement: { detected: false } },
+    })
+  })
+
+  describe('tool calling', () => {
+    const createToolbox = (): DMToolbox & { execute: jest.Mock } => ({
+      definitions: [
+        { name: 'roll_dice', description: 'Roll dice', parameters: { type: 'object' } },
+      ],
+      execute: jest.fn(async (call) => ({
+        name: call.name,
+        arguments: JSON.parse(call.arguments),
+        result: { total: 17, breakdown: '1d20 [14] + 3 = 17' },
+      })),
+    })
+
+    const toolFixtures = () =>
+      new FixtureLLMProvider([
+        { toolCalls: [{ name: 'roll_dice', arguments: { expression: '1d20+3' } }] },
+        { response: { narrative: 'The orc swings and hits with a 17.' } },
+      ])
+
+    it('should run tool calls and log them in the metadata', async () => {
+      // Given
+      const toolbox = createToolbox()
+      const service = new OpenAIService(toolFixtures())
+
+      // When
+      const result = await service.generateEnhancedStoryResponse('I block', context, toolbox)
+
+      // Then
+      expect(toolbox.execute).toHaveBeenCalledTimes(1)
+      expect(result.content).toBe('The orc swings and hits with a 17.')
+      expect(result.metadata?.toolCalls).toEqual([
+        {
+          name: 'roll_dice',
+          arguments: { expression: '1d20+3' },
+          result: { total: 17, breakdown: '1d20 [14] + 3 = 17' },
+        },
+      ])
+    })
+
+    it('should stream the narrative after the tool round', async () => {
+      // Given
+      const toolbox = createToolbox()
+      const service = new OpenAIService(toolFixtures())
+
+      // When
+      let streamed = ''
+      let final
+      for await (const event of service.generateEnhancedStoryStream('I block', context, toolbox)) {
+        if (event.type === 'narrative') streamed += event.delta
+        else final = event.response
+      }
+
+      // Then
+      expect(streamed).toBe('The orc swings and hits with a 17.')
+      expect(final?.metadata?.toolCalls).toHaveLength(1)
+    })
+
+    it('should not offer tools when no toolbox is given', async () => {
+      // Given
+      const service = new OpenAIService(toolFixtures())
+
+      // When
+      const result = await service.generateEnhancedStoryResponse('I block', context)
+
+      // Then
+      expect(result.content).toBe('The orc swings and hits with a 17.')
+      expect(result.metadata?.toolCalls).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,126 @@
+import { findPath, isSegmentClear, PathObstacle, PathTerrain } from '@/lib/pathfinding'
+
+describe('pathfinding', () => {
+  const tavern = { minX: 0, maxX: 20, minY: 0, maxY: 20 }
+  const barCounter: PathObstacle = { name: 'Bar counter', minX: 4, maxX: 16, minY: 9, maxY: 11 }
+
+  describe('findPath', () => {
+    it('should walk straight when nothing is in the way', () => {
+      // When
+      const path = findPath({ x: 1, y: 1, z: 0 }, { x: 4, y: 5, z: 0 }, tavern, [barCounter])
+
+      // Then
+      expect(path?.waypoints).toEqual([
+        { x: 1, y: 1, z: 0 },
+        { x: 4, y: 5, z: 0 },
+      ])
+      expect(path?.distance).toBeCloseTo(5)
+    })
+
+    it('should walk around the bar counter instead of through it', () => {
+      // Given
+      const start = { x: 10, y: 5, z: 0 }
+      const goal = { x: 10, y: 15, z: 0 }
+
+      // When
+      const path = findPath(start, goal, tavern, [barCounter])
+
+      // Then
+      expect(path).not.toBeNull()
+      expect(path!.waypoints[0]).toEqual(start)
+      expect(path!.waypoints[path!.waypoints.length - 1]).toEqual(goal)
+      expect(path!.waypoints.length).toBeGreaterThan(2)
+      for (let i = 1; i < path!.waypoints.length; i++) {
+        expect(isSegmentClear(path!.waypoints[i - 1], path!.waypoints[i], [barCounter])).toBe(true)
+      }
+      // Hugging an end of the counter is 2 x sqrt(6^2 + 4^2) + 2 = 16.4; cells add a little clearance
+      expect(path!.distance).toBeGreaterThan(16.4)
+      expect(path!.distance).toBeLessThan(18)
+    })
+
+    it('should return null when the goal is walled off', () => {
+      // Given
+      const walls: PathObstacle[] = [
+        { name: 'North wall', minX: 12, maxX: 20, minY: 12, maxY: 13 },
+        { name: 'West wall', minX: 12, maxX: 13, minY: 12, maxY: 20 },
+      ]
+
+      // When / Then
+      expect(findPath({ x: 2, y: 2, z: 0 }, { x: 16, y: 16, z: 0 }, tavern, walls)).toBeNull()
+    })
+
+    it('should return null for goals inside an obstacle or outside the location', () => {
+      expect(findPath({ x: 2, y: 2, z: 0 }, { x: 10, y: 10, z: 0 }, tavern, [barCounter])).toBeNull()
+      expect(findPath({ x: 2, y: 2, z: 0 }, { x: 25, y: 2, z: 0 }, tavern, [barCounter])).toBeNull()
+    })
+
+    it('should let a character step out of an obstacle they stand in', () => {
+      // When
+      const path = findPath({ x: 10, y: 10, z: 0 }, { x: 10, y: 15, z: 0 }, tavern, [barCounter])
+
+      // Then
+      expect(path?.distance).toBeCloseTo(5)
+    })
+
+    it('should carry the height change on the final leg', () => {
+      // When
+      const path = findPath({ x: 10, y: 5, z: 0 }, { x: 10, y: 15, z: 2 }, tavern, [barCounter])
+
+      // Then
+      const waypoints = path!.waypoints
+      expect(waypoints.slice(0, -1).every((point) => point.z === 0)).toBe(true)
+      expect(waypoints[waypoints.length - 1].z).toBe(2)
+    })
+  })
+
+  describe('terrain', () => {
+    const mud = (cost: number): PathTerrain => ({ name: 'Mud', cost, minX: 0, maxX: 20, minY: 9, maxY: 11 })
+
+    it('should price movement through terrain that cannot be avoided', () => {
+      // When
+      const path = findPath({ x: 10, y: 5, z: 0 }, { x: 10, y: 15, z: 0 }, tavern, [], { terrain: [mud(2)] })
+
+      // Then
+      expect(path?.waypoints).toHaveLength(2)
+      expect(path?.distance).toBeCloseTo(10)
+      // 2m of mud at double cost
+      expect(path?.cost).toBeCloseTo(12)
+    })
+
+    it('should walk around difficult terrain when the detour is cheaper', () => {
+      // Given
+      const puddle: PathTerrain = { name: 'Puddle', cost: 6, minX: 9, maxX: 11, minY: 4, maxY: 16 }
+      const start = { x: 6, y: 10, z: 0 }
+      const goal = { x: 14, y: 10, z: 0 }
+
+      // When
+      const path = findPath(start, goal, tavern, [], { terrain: [puddle] })
+
+      // Then
+      // Straight through costs 6 + 2 x 6 = 18; around the end is about 2 x sqrt(3^2 + 6^2) = 13.4
+      expect(path!.waypoints.length).toBeGreaterThan(2)
+      expect(path!.cost).toBeLessThan(18)
+      expect(path!.cost).toBe(path!.distance)
+    })
+
+    it('should treat impassable terrain as an obstacle', () => {
+      // Given
+      const chasm: PathTerrain = { name: 'Chasm', cost: Infinity, minX: 0, maxX: 20, minY: 9, maxY: 11 }
+
+      // When / Then
+      expect(findPath({ x: 10, y: 5, z: 0 }, { x: 10, y: 15, z: 0 }, tavern, [], { terrain: [chasm] })).toBeNull()
+      expect(findPath({ x: 10, y: 5, z: 0 }, { x: 10, y: 10, z: 0 }, tavern, [], { terrain: [chasm] })).toBeNull()
+    })
+
+    it('should measure legs with the given measure', () => {
+      // When
+      const path = findPath({ x: 1, y: 1, z: 0 }, { x: 4, y: 5, z: 0 }, tavern, [], {
+        measure: (a, b) => Math.max(Math.abs(b.x - a.x), Math.abs(b.y - a.y)),
+      })
+
+      // Then
+      expect(path?.distance).toBe(4)
+      expect(path?.cost).toBe(4)
+    })
+  })
+})
@@ -0,0 +1,101 @@
+import { findReachExit, meleeReach, opportunityAttackWarning } from '@/lib/reactions'
+import { GridSettings, gridDistance } from '@/lib/grid'
+import { Position3D } from '@/types'
+
+describe('reactions', () => {
+  const open: GridSettings = { gridType: 'NONE', gridSize: 1.524, diagonalRule: 'UNIFORM', originX: 0, originY: 0 }
+  const squares: GridSettings = { ...open, gridType: 'SQUARE' }
+  const straight = (a: Position3D, b: Position3D) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z)
+  const orc = { x: 5, y: 5, z: 0 }
+
+  describe('meleeReach', () => {
+    it('should round reach to whole cells on grid maps', () => {
+      expect(meleeReach(1.5, squares)).toBeCloseTo(1.524)
+      expect(meleeReach(3, squares)).toBeCloseTo(3.048)
+      expect(meleeReach(0.5, squares)).toBeCloseTo(1.524)
+    })
+
+    it('should use the rule as is on open maps and one cell without a rule', () => {
+      expect(meleeReach(1.5, open)).toBe(1.5)
+      expect(meleeReach(null, open)).toBe(1.524)
+    })
+  })
+
+  describe('findReachExit', () => {
+    it('should return the last point within reach when the path leaves it', () => {
+      // Given: starting next to the orc and walking away east
+      const path = [
+        { x: 6, y: 5, z: 0 },
+        { x: 12, y: 5, z: 0 },
+      ]
+
+      // When
+      const exit = findReachExit(path, orc, 1.5, straight)
+
+      // Then
+      expect(exit).not.toBeNull()
+      expect(straight(exit!, orc)).toBeLessThanOrEqual(1.5)
+      expect(exit!.x).toBeGreaterThan(6)
+    })
+
+    it('should catch a path that runs past the combatant', () => {
+      // Given: never stopping in reach, but crossing it
+      const path = [
+        { x: 0, y: 6, z: 0 },
+        { x: 10, y: 6, z: 0 },
+      ]
+
+      // When / Then
+      expect(findReachExit(path, orc, 1.5, straight)).not.toBeNull()
+    })
+
+    it('should not provoke when the move ends in reach or never comes close', () => {
+      expect(
+        findReachExit(
+          [
+            { x: 0, y: 5, z: 0 },
+            { x: 4, y: 5, z: 0 },
+          ],
+          orc,
+          1.5,
+          straight
+        )
+      ).toBeNull()
+      expect(
+        findReachExit(
+          [
+            { x: 0, y: 0, z: 0 },
+            { x: 10, y: 0, z: 0 },
+          ],
+          orc,
+          1.5,
+          straight
+        )
+      ).toBeNull()
+    })
+
+    it('should measure reach in cells on a square grid', () => {
+      // Given: diagonally adjacent cells, then two cells away
+      const grid = { ...squares, gridSize: 1 }
+      const goblin = { x: 5.5, y: 5.5, z: 0 }
+      const path = [
+        { x: 6.5, y: 6.5, z: 0 },
+        { x: 8.5, y: 6.5, z: 0 },
+      ]
+
+      // When
+      const exit = findReachExit(path, goblin, meleeReach(1, grid), (a, b) => gridDistance(a, b, grid))
+
+      // Then
+      expect(exit).not.toBeNull()
+      expect(gridDistance(exit!, goblin, grid)).toBe(1)
+    })
+  })
+
+  describe('opportunityAttackWarning', () => {
+    it('should name the combatants, or say nothing without any', () => {
+      expect(opportunityAttackWarning(['Orc', 'Goblin'])).toBe('Provokes opportunity attacks from Orc, Goblin')
+      expect(opportunityAttackWarning([])).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import { boxesOverlap, BoundingBox, segmentIntersectsBox, SpatialIndex } from '@/lib/spatial-index'
+
+describe('spatial-index', () => {
+  const pillar: BoundingBox = { minX: 4, maxX: 6, minY: 4, maxY: 6, minZ: 0, maxZ: 10 }
+
+  // A deterministic scatter of boxes over a 60 x 60 floor, some spanning several cells
+  const scatter = Array.from({ length: 80 }, (_, i) => {
+    const x = (i * 37) % 60
+    const y = (i * 23) % 60
+    const size = 1 + (i % 7)
+    return {
+      item: `box-${i}`,
+      box: { minX: x, maxX: x + size, minY: y, maxY: y + size / 2, minZ: 0, maxZ: 1 + (i % 3) },
+    }
+  })
+
+  describe('segmentIntersectsBox', () => {
+    it('should hit a box the segment passes through', () => {
+      expect(segmentIntersectsBox({ x: 0, y: 5, z: 1 }, { x: 10, y: 5, z: 1 }, pillar)).toBe(true)
+    })
+
+    it('should miss a box the segment stops short of or passes over', () => {
+      expect(segmentIntersectsBox({ x: 0, y: 5, z: 1 }, { x: 3, y: 5, z: 1 }, pillar)).toBe(false)
+      expect(segmentIntersectsBox({ x: 0, y: 5, z: 12 }, { x: 10, y: 5, z: 12 }, pillar)).toBe(false)
+    })
+  })
+
+  describe('boxesOverlap', () => {
+    it('should count touching boxes as overlapping', () => {
+      const neighbour = { ...pillar, minX: 6, maxX: 8 }
+      expect(boxesOverlap(pillar, neighbour)).toBe(true)
+      expect(boxesOverlap(pillar, { ...neighbour, minX: 6.5 })).toBe(false)
+    })
+  })
+
+  describe('SpatialIndex', () => {
+    it('should reject a cell size that is not positive', () => {
+      expect(() => new SpatialIndex([], 0)).toThrow('Spatial index cell size must be positive')
+    })
+
+    it('should find the same boxes along a segment as testing every box', () => {
+      // Given
+      const index = new SpatialIndex(scatter, 3)
+      const segments = [
+        [{ x: 0, y: 0, z: 0.5 }, { x: 59, y: 59, z: 0.5 }],
+        [{ x: 59, y: 2, z: 1.5 }, { x: 1, y: 40, z: 0 }],
+        [{ x: 30, y: -5, z: 1 }, { x: 30, y: 70, z: 1 }],
+        [{ x: 12.5, y: 12.5, z: 0 }, { x: 12.5, y: 12.5, z: 3 }],
+        [{ x: -10, y: 21, z: 0.2 }, { x: 80, y: 24, z: 0.2 }],
+      ]
+
+      for (const [start, end] of segments) {
+        // When
+        const found = index.alongSegment(start, end)
+
+        // Then
+        const expected = scatter
+          .filter((entry) => segmentIntersectsBox(start, end, entry.box))
+          .map((entry) => entry.item)
+        expect(found).toEqual(expected)
+      }
+    })
+
+    it('should find the same boxes overlapping an area as testing every box', () => {
+      // Given
+      const index = new SpatialIndex(scatter, 4)
+      const area: BoundingBox = { minX: 10, maxX: 25, minY: 30, maxY: 45, minZ: 0, maxZ: 1.5 }
+
+      // When
+      const found = index.overlapping(area)
+
+      // Then
+      const expected = scatter.filter((entry) => boxesOverlap(area, entry.box)).map((entry) => entry.item)
+      expect(found.length).toBeGreaterThan(0)
+      expect(found).toEqual(expected)
+    })
+
+    it('should list entries near a point whatever their height', () => {
+      // Given
+      const index = new SpatialIndex(
+        [
+          { item: 'pillar', box: pillar },
+          { item: 'balcony', box: { minX: 8, maxX: 9, minY: 5, maxY: 6, minZ: 20, maxZ: 22 } },
+          { item: 'far wall', box: { minX: 40, maxX: 41, minY: 0, maxY: 10, minZ: 0, maxZ: 5 } },
+        ],
+        2
+      )
+
+      // When / Then
+      expect(index.near({ x: 10, y: 5, z: 0 }, 3)).toEqual(['balcony'])
+      expect(index.near({ x: 10, y: 5, z: 0 }, 5)).toEqual(['pillar', 'balcony'])
+      expect(index.near({ x: 10, y: 5, z: 0 }, Infinity)).toEqual(['pillar', 'balcony', 'far wall'])
+    })
+  })
+})
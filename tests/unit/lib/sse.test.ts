@@ -0,0 +1,61 @@
+import { readSSE, toSSEStream } from '@/lib/sse'
+
+describe('toSSEStream', () => {
+  it('should encode each event with its type as the event name', async () => {
+    // Given
+    async function* events() {
+      yield { type: 'narrative', delta: 'You enter ' }
+      yield { type: 'complete', content: 'You enter the tavern.' }
+    }
+
+    // When
+    const received = []
+    for await (const event of readSSE(toSSEStream(events()))) {
+      received.push(event)
+    }
+
+    // Then
+    expect(received).toEqual([
+      { event: 'narrative', data: '{"delta":"You enter "}' },
+      { event: 'complete', data: '{"content":"You enter the tavern."}' },
+    ])
+  })
+
+  it('should keep reading the events after the client disconnects', async () => {
+    // Given: the turn is saved after the last event is produced
+    let saved = false
+    let finish = () => {}
+    const finished = new Promise<void>((resolve) => (finish = resolve))
+    async function* events() {
+      yield { type: 'narrative', delta: 'You enter ' }
+      yield { type: 'narrative', delta: 'the tavern.' }
+      saved = true
+      finish()
+    }
+    const reader = toSSEStream(events()).getReader()
+
+    // When: the client leaves after the first event
+    await reader.read()
+    await reader.cancel()
+    await finished
+
+    // Then
+    expect(saved).toBe(true)
+  })
+
+  it('should send an error event when the events fail', async () => {
+    // Given
+    async function* events(): AsyncGenerator<{ type: string }> {
+      throw new Error('AI provider unavailable')
+    }
+
+    // When
+    const received = []
+    for await (const event of readSSE(toSSEStream(events(), () => ({ error: 'Failed' })))) {
+      received.push(event)
+    }
+
+    // Then
+    expect(received).toEqual([{ event: 'error', data: '{"error":"Failed"}' }])
+  })
+})
@@ -0,0 +1,63 @@
+import { lightLevelAt, perceive, Senses } from '@/lib/vision'
+
+describe('vision', () => {
+  const torch = { position: { x: 0, y: 0, z: 0 }, brightRadius: 6, dimRadius: 12 }
+  const human: Senses = { visionRange: null, darkvision: null, blindsight: null }
+  const elf: Senses = { ...human, darkvision: 18 }
+  const at = (x: number) => ({ x, y: 0, z: 0 })
+
+  describe('lightLevelAt', () => {
+    it('should shed bright then dim light around a source', () => {
+      expect(lightLevelAt(at(4), 'DARK', [torch])).toBe('BRIGHT')
+      expect(lightLevelAt(at(10), 'DARK', [torch])).toBe('DIM')
+      expect(lightLevelAt(at(15), 'DARK', [torch])).toBe('DARK')
+    })
+
+    it('should never darken the ambient light', () => {
+      expect(lightLevelAt(at(10), 'BRIGHT', [torch])).toBe('BRIGHT')
+      expect(lightLevelAt(at(15), 'DIM', [])).toBe('DIM')
+    })
+  })
+
+  describe('perceive', () => {
+    it('should see lit targets and not dark ones without darkvision', () => {
+      expect(perceive(at(0), at(10), human, 'BRIGHT', true)).toEqual({
+        perceived: true,
+        sense: 'sight',
+        obscured: false,
+      })
+      expect(perceive(at(0), at(10), human, 'DIM', true)).toEqual({
+        perceived: true,
+        sense: 'sight',
+        obscured: true,
+      })
+      expect(perceive(at(0), at(10), human, 'DARK', true).perceived).toBe(false)
+    })
+
+    it('should see darkness as dim light and dim light as bright within darkvision', () => {
+      expect(perceive(at(0), at(10), elf, 'DARK', true)).toEqual({
+        perceived: true,
+        sense: 'darkvision',
+        obscured: true,
+      })
+      expect(perceive(at(0), at(10), elf, 'DIM', true).obscured).toBe(false)
+      expect(perceive(at(0), at(20), elf, 'DARK', true).perceived).toBe(false)
+    })
+
+    it('should perceive with blindsight regardless of light', () => {
+      const bat: Senses = { ...human, blindsight: 9 }
+
+      expect(perceive(at(0), at(5), bat, 'DARK', true)).toEqual({
+        perceived: true,
+        sense: 'blindsight',
+        obscured: false,
+      })
+      expect(perceive(at(0), at(12), bat, 'DARK', true).perceived).toBe(false)
+    })
+
+    it('should not see through walls or beyond vision range', () => {
+      expect(perceive(at(0), at(5), { ...human, blindsight: 9 }, 'BRIGHT', false).perceived).toBe(false)
+      expect(perceive(at(0), at(40), { ...human, visionRange: 30 }, 'BRIGHT', true).perceived).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,154 @@
+import { accessService } from '@/services/access-service'
+import { prisma } from '@/lib/db'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    campaignMember: {
+      findUnique: jest.fn(),
+    },
+    session: {
+      findUnique: jest.fn(),
+    },
+    character: {
+      findUnique: jest.fn(),
+    },
+    sessionParticipant: {
+      findMany: jest.fn(),
+    },
+  },
+}))
+
+const asRole = (role: 'GM' | 'PLAYER' | null) =>
+  (prisma.campaignMember.findUnique as jest.Mock).mockResolvedValue(role ? { role } : null)
+
+describe('AccessService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(prisma.session.findUnique as jest.Mock).mockResolvedValue({ campaignId: 'campaign-1' })
+  })
+
+  describe('requireCampaignAccess', () => {
+    it('should deny users who are not members', async () => {
+      // Given
+      asRole(null)
+
+      // When / Then
+      await expect(accessService.requireCampaignAccess('user-1', 'campaign-1')).rejects.toThrow(
+        'Access denied: you are not a member of this campaign'
+      )
+    })
+
+    it('should let players view but not act as GM', async () => {
+      // Given
+      asRole('PLAYER')
+
+      // When / Then
+      await expect(accessService.requireCampaignAccess('user-1', 'campaign-1')).resolves.toEqual({
+        campaignId: 'campaign-1',
+        role: 'PLAYER',
+      })
+      await expect(accessService.requireCampaignAccess('user-1', 'campaign-1', 'gm')).rejects.toThrow(
+        'Access denied: only the GM can do this'
+      )
+    })
+  })
+
+  describe('requireCharacterAccess', () => {
+    it('should let a player control their own character only', async () => {
+      // Given
+      asRole('PLAYER')
+      ;(prisma.character.findUnique as jest.Mock)
+        .mockResolvedValueOnce({ campaignId: 'campaign-1', ownerId: 'user-1' })
+        .mockResolvedValueOnce({ campaignId: 'campaign-1', ownerId: 'user-2' })
+
+      // When / Then
+      await expect(accessService.requireCharacterAccess('user-1', 'char-1', 'control')).resolves.toBeDefined()
+      await expect(accessService.requireCharacterAccess('user-1', 'char-2', 'control')).rejects.toThrow(
+        'Access denied: you do not control this character'
+      )
+    })
+
+    it('should let the GM control any character', async () => {
+      // Given
+      asRole('GM')
+      ;(prisma.character.findUnique as jest.Mock).mockResolvedValue({ campaignId: 'campaign-1', ownerId: 'user-2' })
+
+      // When / Then
+      await expect(accessService.requireCharacterAccess('user-1', 'char-2', 'control')).resolves.toEqual({
+        campaignId: 'campaign-1',
+        role: 'GM',
+      })
+    })
+
+    it('should throw when the character does not exist', async () => {
+      // Given
+      ;(prisma.character.findUnique as jest.Mock).mockResolvedValue(null)
+
+      // When / Then
+      await expect(accessService.requireCharacterAccess('user-1', 'missing')).rejects.toThrow('Character not found')
+    })
+  })
+
+  describe('resolveCharacterOwner', () => {
+    it('should make players own the characters they create', async () => {
+      // Given
+      asRole('PLAYER')
+
+      // When / Then
+      await expect(accessService.resolveCharacterOwner('user-1', 'campaign-1')).resolves.toBe('user-1')
+      await expect(accessService.resolveCharacterOwner('user-1', 'campaign-1', 'user-2')).rejects.toThrow(
+        'Access denied: only the GM can assign characters to other players'
+      )
+    })
+
+    it('should let the GM assign a character to another member or to nobody', async () => {
+      // Given
+      asRole('GM')
+
+      // When / Then
+      await expect(accessService.resolveCharacterOwner('user-1', 'campaign-1', 'user-2')).resolves.toBe('user-2')
+      await expect(accessService.resolveCharacterOwner('user-1', 'campaign-1', null)).resolves.toBeNull()
+    })
+  })
+
+  describe('authorizeActingCharacter', () => {
+    it('should pick a player\'s only character in the session', async () => {
+      // Given
+      asRole('PLAYER')
+      ;(prisma.sessionParticipant.findMany as jest.Mock).mockResolvedValue([{ characterId: 'char-1' }])
+
+      // When
+      const result = await accessService.authorizeActingCharacter('user-1', 'session-1')
+
+      // Then
+      expect(result).toBe('char-1')
+      expect(prisma.sessionParticipant.findMany).toHaveBeenCalledWith({
+        where: { sessionId: 'session-1', character: { ownerId: 'user-1' } },
+        select: { characterId: true },
+      })
+    })
+
+    it('should deny players without a character in the session', async () => {
+      // Given
+      asRole('PLAYER')
+      ;(prisma.sessionParticipant.findMany as jest.Mock).mockResolvedValue([])
+
+      // When / Then
+      await expect(accessService.authorizeActingCharacter('user-1', 'session-1')).rejects.toThrow(
+        'Access denied: you have no character in this session'
+      )
+    })
+
+    it('should let the GM speak for any character without an ownership check', async () => {
+      // Given
+      asRole('GM')
+
+      // When
+      const result = await accessService.authorizeActingCharacter('user-1', 'session-1', 'char-9')
+
+      // Then
+      expect(result).toBe('char-9')
+      expect(prisma.character.findUnique).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -1,4 +1,8 @@
 import { aiDungeonMasterService } from '@/services/ai-dungeon-master'
+import { contextBuilderService } from '@/services/context-builder'
+import { costTrackingService } from '@/services/cost-tracking'
+import { sessionSummarizerService } from '@/services/session-summarizer'
+import { turnHistoryService } from '@/services/turn-history-service'
 import { openaiService } from '@/lib/openai'
 import { rateLimitService } from '@/lib/rate-limit'
 import { prisma } from '@/lib/db'
@@ -16,6 +20,28 @@ jest.mock('@/lib/db', () => ({
     },
   },
 }))
+jest.mock('@/services/context-builder', () => ({
+  contextBuilderService: {
+    buildContext: jest.fn(),
+    updateStateFromResponse: jest.fn(),
+  },
+}))
+jest.mock('@/services/cost-tracking', () => ({
+  costTrackingService: {
+    checkSessionBudget: jest.fn(),
+  },
+}))
+jest.mock('@/services/session-summarizer', () => ({
+  sessionSummarizerService: {
+    autoSummarizeIfNeeded: jest.fn(),
+  },
+}))
+jest.mock('@/services/turn-history-service', () => ({
+  turnHistoryService: {
+    captureSnapshot: jest.fn(),
+    rewind: jest.fn(),
+  },
+}))
 
 describe('AIDungeonMasterService', () => {
   beforeEach(() => {
@@ -23,63 +49,99 @@ describe('AIDungeonMasterService', () => {
   })
 
   describe('generateResponse', () => {
+    const sessionId = 'session-1'
+    const hero = { id: 'char-1', name: 'Hero' }
+    // The session as the status check and the roster lookup both read it
+    const mockSession = {
+      id: sessionId,
+      status: 'ACTIVE',
+      participants: [{ character: hero }],
+      campaign: { characters: [hero] },
+    }
+    const mockContext = { campaignName: 'Test Campaign', characterId: 'char-1' }
+    const mockAIResponse = {
+      content: 'You open the door and see a dragon!',
+      tokenCount: 20,
+      metadata: { model: 'gpt-4o-mini', promptTokens: 10, completionTokens: 10 },
+    }
+
+    const givenTurnCanRun = () => {
+      ;(rateLimitService.checkRateLimit as jest.Mock).mockResolvedValue({ allowed: true })
+      ;(prisma.session.findUnique as jest.Mock).mockResolvedValue(mockSession)
+      ;(costTrackingService.checkSessionBudget as jest.Mock).mockResolvedValue({
+        warningLevel: 'none',
+      })
+      ;(contextBuilderService.buildContext as jest.Mock).mockResolvedValue(mockContext)
+      ;(prisma.message.create as jest.Mock)
+        .mockResolvedValueOnce({ id: 'msg-user' })
+        .mockResolvedValueOnce({ id: 'msg-dm' })
+      ;(sessionSummarizerService.autoSummarizeIfNeeded as jest.Mock).mockResolvedValue(undefined)
+    }
+
     it('should generate an AI response when given valid input', async () => {
       // Given
-      const sessionId = 'session-1'
       const userInput = 'I open the door'
-      const mockRateLimitStatus = {
-        allowed: true,
-        requestCount: 5,
-        tokenCount: 1000,
-        remainingRequests: 15,
-        remainingTokens: 9000,
-        resetAt: new Date(),
-      }
-      const mockSession = {
-        id: sessionId,
-        status: 'ACTIVE',
-        campaign: {
-          name: 'Test Campaign',
-          description: 'A test',
-          worldSettings: null,
-          aiGuidelines: null,
-          characters: [{ name: 'Hero' }],
-        },
-        messages: [
-          { role: 'USER', content: 'Previous message' },
-          { role: 'ASSISTANT', content: 'Previous response' },
-        ],
-      }
-      const mockAIResponse = {
-        content: 'You open the door and see a dragon!',
-        tokenCount: 20,
-        metadata: { model: 'gpt-4o-mini', promptTokens: 10, completionTokens: 10 },
-      }
-
-      ;(rateLimitService.checkRateLimit as jest.Mock).mockResolvedValue(mockRateLimitStatus)
-      ;(prisma.session.findUnique as jest.Mock).mockResolvedValue(mockSession)
-      ;(openaiService.generateStoryResponse as jest.Mock).mockResolvedValue(mockAIResponse)
-      ;(prisma.message.create as jest.Mock).mockResolvedValue({})
-      ;(rateLimitService.incrementRateLimit as jest.Mock).mockResolvedValue(undefined)
+      givenTurnCanRun()
+      ;(openaiService.generateEnhancedStoryResponse as jest.Mock).mockResolvedValue(mockAIResponse)
 
       // When
       const result = await aiDungeonMasterService.generateResponse(sessionId, userInput)
 
       // Then
       expect(rateLimitService.checkRateLimit).toHaveBeenCalledWith(sessionId)
-      expect(prisma.session.findUnique).toHaveBeenCalled()
-      expect(openaiService.generateStoryResponse).toHaveBeenCalledWith(
+      expect(contextBuilderService.buildContext).toHaveBeenCalledWith(
+        sessionId,
         userInput,
-        expect.objectContaining({
-          campaignName: 'Test Campaign',
-          characterNames: ['Hero'],
-        })
+        'char-1'
+      )
+      expect(openaiService.generateEnhancedStoryResponse).toHaveBeenCalledWith(
+        userInput,
+        mockContext,
+        expect.anything()
       )
       expect(prisma.message.create).toHaveBeenCalledTimes(2) // User message and AI response
+      expect(prisma.message.create).toHaveBeenNthCalledWith(1, {
+        data: { sessionId, role: 'USER', characterId: 'char-1', content: userInput },
+      })
       expect(rateLimitService.incrementRateLimit).toHaveBeenCalledWith(sessionId, 20)
       expect(result).toEqual(mockAIResponse)
     })
 
+    it('should save the player message and snapshot before the DM tools run', async () => {
+      // Given: the DM opens a door through a tool while generating
+      givenTurnCanRun()
+      const seenByTools: { messages: number; snapshots: unknown[][] }[] = []
+      ;(openaiService.generateEnhancedStoryResponse as jest.Mock).mockImplementation(async () => {
+        seenByTools.push({
+          messages: (prisma.message.create as jest.Mock).mock.calls.length,
+          snapshots: [...(turnHistoryService.captureSnapshot as jest.Mock).mock.calls],
+        })
+        return mockAIResponse
+      })
+
+      // When
+      await aiDungeonMasterService.generateResponse(sessionId, 'I pick the lock')
+
+      // Then: undoing the turn goes back to before the door opened
+      expect(seenByTools).toEqual([{ messages: 1, snapshots: [[sessionId, 'msg-user']] }])
+      expect(turnHistoryService.captureSnapshot).toHaveBeenCalledTimes(1)
+    })
+
+    it('should undo a turn that fails after its tools ran', async () => {
+      // Given
+      givenTurnCanRun()
+      ;(openaiService.generateEnhancedStoryResponse as jest.Mock).mockRejectedValue(
+        new Error('AI provider unavailable')
+      )
+
+      // When / Then
+      await expect(
+        aiDungeonMasterService.generateResponse(sessionId, 'I pick the lock')
+      ).rejects.toThrow('AI provider unavailable')
+      expect(turnHistoryService.rewind).toHaveBeenCalledWith(sessionId, 'msg-user')
+      expect(rateLimitService.incrementRateLimit).not.toHaveBeenCalled()
+    })
+
     it('should throw an error when rate limit is exceeded', async () => {
       // Given
       const sessionId = 'session-1'
@@ -148,9 +210,14 @@ describe('AIDungeonMasterService', () => {
 
       // Then
       expect(prisma.message.findMany).toHaveBeenCalledWith({
-        where: { sessionId },
+        where: { sessionId, discardedAt: null },
         orderBy: { createdAt: 'asc' },
         take: 50,
+        include: {
+          character: {
+            select: { id: true, name: true },
+          },
+        },
       })
       expect(result).toEqual(mockMessages)
     })
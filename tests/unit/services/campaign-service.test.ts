@@ -31,10 +31,15 @@ describe('CampaignService', () => {
       ;(prisma.campaign.create as jest.Mock).mockResolvedValue(mockCampaign)
 
       // When
-      const result = await campaignService.createCampaign(campaignData)
+      const result = await campaignService.createCampaign(campaignData, 'user-1')
 
       // Then
-      expect(prisma.campaign.create).toHaveBeenCalledWith({ data: campaignData })
+      expect(prisma.campaign.create).toHaveBeenCalledWith({
+        data: {
+          ...campaignData,
+          members: { create: { userId: 'user-1', role: 'GM' } },
+        },
+      })
       expect(result).toEqual(mockCampaign)
     })
   })
@@ -49,10 +54,12 @@ describe('CampaignService', () => {
       ;(prisma.campaign.findMany as jest.Mock).mockResolvedValue(mockCampaigns)
 
       // When
-      const result = await campaignService.getCampaigns()
+      const result = await campaignService.getCampaigns('user-1')
 
       // Then
-      expect(prisma.campaign.findMany).toHaveBeenCalled()
+      expect(prisma.campaign.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { members: { some: { userId: 'user-1' } } } })
+      )
       expect(result).toEqual(mockCampaigns)
     })
   })
@@ -0,0 +1,284 @@
+import {
+  dexterityModifier,
+  encounterService,
+  nextTurnPosition,
+  orderByInitiative,
+} from '@/services/encounter-service'
+import { sessionService } from '@/services/session-service'
+import { prisma } from '@/lib/db'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    encounter: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    combatant: {
+      update: jest.fn(),
+    },
+    reactionPrompt: {
+      updateMany: jest.fn(),
+    },
+    session: {
+      findUnique: jest.fn(),
+    },
+    characterCondition: {
+      findMany: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/services/session-service', () => ({
+  sessionService: {
+    getRoster: jest.fn(),
+  },
+}))
+
+describe('EncounterService', () => {
+  const combatants = [
+    { id: 'c1', characterId: 'char-1', name: 'Aria', initiative: 18, isNPC: false, isDefeated: false, movementRate: 9, movementUsed: 0 },
+    { id: 'c2', characterId: null, name: 'Orc', initiative: 12, isNPC: true, isDefeated: false, movementRate: 9, movementUsed: 0 },
+    { id: 'c3', characterId: 'char-2', name: 'Borin', initiative: 7, isNPC: false, isDefeated: false, movementRate: 7.5, movementUsed: 6 },
+  ]
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('orderByInitiative', () => {
+    it('should sort by initiative, then bonus, then insertion order', () => {
+      // Given
+      const entries = [
+        { name: 'A', initiative: 10, initiativeBonus: 1 },
+        { name: 'B', initiative: 15, initiativeBonus: 0 },
+        { name: 'C', initiative: 10, initiativeBonus: 3 },
+        { name: 'D', initiative: 10, initiativeBonus: 1 },
+      ]
+
+      // When
+      const ordered = orderByInitiative(entries)
+
+      // Then
+      expect(ordered.map((e) => e.name)).toEqual(['B', 'C', 'A', 'D'])
+    })
+  })
+
+  describe('nextTurnPosition', () => {
+    it('should skip defeated combatants and wrap into the next round', () => {
+      // Given
+      const order = [{ isDefeated: false }, { isDefeated: true }, { isDefeated: false }]
+
+      // Then
+      expect(nextTurnPosition(order, 0, 1)).toEqual({ turnIndex: 2, round: 1 })
+      expect(nextTurnPosition(order, 2, 1)).toEqual({ turnIndex: 0, round: 2 })
+    })
+
+    it('should return null when everyone is defeated', () => {
+      expect(nextTurnPosition([{ isDefeated: true }], 0, 3)).toBeNull()
+    })
+  })
+
+  describe('dexterityModifier', () => {
+    it('should derive the modifier from stored stats', () => {
+      expect(dexterityModifier({ dexterity: 14 })).toBe(2)
+      expect(dexterityModifier({ dexterity: 9 })).toBe(-1)
+      expect(dexterityModifier(null)).toBe(0)
+    })
+  })
+
+  describe('checkMovementBudget', () => {
+    it('should allow movement when no encounter is running', async () => {
+      // Given
+      ;(prisma.encounter.findFirst as jest.Mock).mockResolvedValue(null)
+
+      // When
+      const result = await encounterService.checkMovementBudget('session-1', 'char-1', 30)
+
+      // Then
+      expect(result).toEqual({ allowed: true })
+    })
+
+    it('should reject movement outside the character turn', async () => {
+      // Given
+      ;(prisma.encounter.findFirst as jest.Mock).mockResolvedValue({ id: 'e1', turnIndex: 0, round: 1, combatants })
+
+      // When
+      const result = await encounterService.checkMovementBudget('session-1', 'char-2', 1)
+
+      // Then
+      expect(result.allowed).toBe(false)
+      expect(result.reason).toMatch(/Aria's turn/)
+    })
+
+    it('should enforce the remaining movement budget', async () => {
+      // Given
+      ;(prisma.encounter.findFirst as jest.Mock).mockResolvedValue({ id: 'e1', turnIndex: 2, round: 1, combatants })
+
+      // When
+      const blocked = await encounterService.checkMovementBudget('session-1', 'char-2', 3)
+      const allowed = await encounterService.checkMovementBudget('session-1', 'char-2', 1.5)
+
+      // Then
+      expect(blocked.allowed).toBe(false)
+      expect(blocked.reason).toMatch(/1\.5m of movement left/)
+      expect(allowed).toEqual({ allowed: true, combatantId: 'c3', remaining: 0 })
+    })
+  })
+
+  describe('nextTurn', () => {
+    it('should advance the turn and reset movement and reaction of the next combatant', async () => {
+      // Given
+      ;(prisma.encounter.findFirst as jest.Mock).mockResolvedValue({ id: 'e1', turnIndex: 2, round: 3, combatants })
+      ;(prisma.encounter.update as jest.Mock).mockResolvedValue({ id: 'e1' })
+      ;(prisma.session.findUnique as jest.Mock).mockResolvedValue({ campaignId: 'campaign-1' })
+      ;(prisma.characterCondition.findMany as jest.Mock).mockResolvedValue([])
+
+      // When
+      await encounterService.nextTurn('session-1')
+
+      // Then
+      expect(prisma.combatant.update).toHaveBeenCalledWith({
+        where: { id: 'c1' },
+        data: { movementUsed: 0, reactionUsed: false },
+      })
+      expect(prisma.reactionPrompt.updateMany).toHaveBeenCalledWith({
+        where: { encounterId: 'e1', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'EXPIRED' }),
+      })
+      expect(prisma.encounter.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { turnIndex: 0, round: 4 } })
+      )
+    })
+
+    it('should tick timed conditions only when a new round starts', async () => {
+      // Given
+      ;(prisma.encounter.findFirst as jest.Mock).mockResolvedValue({ id: 'e1', turnIndex: 0, round: 1, combatants })
+      ;(prisma.encounter.update as jest.Mock).mockResolvedValue({ id: 'e1' })
+
+      // When
+      await encounterService.nextTurn('session-1')
+
+      // Then
+      expect(prisma.session.findUnique).not.toHaveBeenCalled()
+      expect(prisma.characterCondition.findMany).not.toHaveBeenCalled()
+    })
+
+    it('should throw when no encounter is running', async () => {
+      // Given
+      ;(prisma.encounter.findFirst as jest.Mock).mockResolvedValue(null)
+
+      // When / Then
+      await expect(encounterService.nextTurn('session-1')).rejects.toThrow('No active encounter')
+    })
+  })
+
+  describe('startEncounter', () => {
+    it('should bring in NPC tokens with their name, speed, DEX and disposition', async () => {
+      // Given
+      ;(prisma.session.findUnique as jest.Mock).mockResolvedValue({
+        id: 'session-1',
+        campaign: {
+          characters: [],
+          npcs: [
+            { id: 'npc-1', name: 'Goblin 1', statBlock: { dexterity: 14 }, baseMovementRate: 9, disposition: 'HOSTILE' },
+            { id: 'npc-2', name: 'Old Tom', statBlock: null, baseMovementRate: 7.5, disposition: 'FRIENDLY' },
+          ],
+        },
+      })
+      ;(prisma.encounter.findFirst as jest.Mock).mockResolvedValue(null)
+
+      // When
+      await encounterService.startEncounter({
+        sessionId: 'session-1',
+        includeParty: false,
+        combatants: [
+          { npcId: 'npc-1', initiative: 15 },
+          { npcId: 'npc-2', initiative: 8 },
+        ],
+      })
+
+      // Then
+      expect(prisma.encounter.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            sessionId: 'session-1',
+            combatants: {
+              create: [
+                expect.objectContaining({
+                  npcId: 'npc-1',
+                  name: 'Goblin 1',
+                  isNPC: true,
+                  initiativeBonus: 2,
+                  movementRate: 9,
+                  isHostile: true,
+                  order: 0,
+                }),
+                expect.objectContaining({ npcId: 'npc-2', name: 'Old Tom', movementRate: 7.5, isHostile: false }),
+              ],
+            },
+          },
+        })
+      )
+    })
+
+    it('should roll the session roster in, not every campaign character', async () => {
+      // Given: Borin belongs to the campaign but sits this session out
+      const aria = { id: 'char-1', name: 'Aria', ownerId: 'user-1', stats: null, baseMovementRate: 9 }
+      const borin = { id: 'char-2', name: 'Borin', ownerId: 'user-2', stats: null, baseMovementRate: 7.5 }
+      ;(prisma.session.findUnique as jest.Mock).mockResolvedValue({
+        id: 'session-1',
+        campaign: { characters: [aria, borin], npcs: [] },
+      })
+      ;(prisma.encounter.findFirst as jest.Mock).mockResolvedValue(null)
+      ;(sessionService.getRoster as jest.Mock).mockResolvedValue([aria])
+
+      // When
+      await encounterService.startEncounter({
+        sessionId: 'session-1',
+        combatants: [{ characterId: 'char-1', initiative: 12 }, { name: 'Orc', initiative: 10 }],
+      })
+
+      // Then
+      const created = (prisma.encounter.create as jest.Mock).mock.calls[0][0].data.combatants.create
+      expect(created.map((c: { name: string }) => c.name)).toEqual(['Aria', 'Orc'])
+    })
+
+    it('should refuse the same character twice', async () => {
+      // Given
+      ;(prisma.session.findUnique as jest.Mock).mockResolvedValue({
+        id: 'session-1',
+        campaign: { characters: [], npcs: [] },
+      })
+      ;(prisma.encounter.findFirst as jest.Mock).mockResolvedValue(null)
+
+      // When / Then
+      await expect(
+        encounterService.startEncounter({
+          sessionId: 'session-1',
+          includeParty: false,
+          combatants: [{ characterId: 'char-1' }, { characterId: 'char-1' }],
+        })
+      ).rejects.toThrow('Character is already in the encounter')
+      expect(prisma.encounter.create).not.toHaveBeenCalled()
+    })
+
+    it('should refuse an NPC from another campaign', async () => {
+      // Given
+      ;(prisma.session.findUnique as jest.Mock).mockResolvedValue({
+        id: 'session-1',
+        campaign: { characters: [], npcs: [] },
+      })
+      ;(prisma.encounter.findFirst as jest.Mock).mockResolvedValue(null)
+
+      // When / Then
+      await expect(
+        encounterService.startEncounter({
+          sessionId: 'session-1',
+          includeParty: false,
+          combatants: [{ npcId: 'npc-elsewhere', initiative: 10 }],
+        })
+      ).rejects.toThrow('NPC not found in this campaign')
+    })
+  })
+})
@@ -0,0 +1,181 @@
+import { featureService } from '@/services/feature-service'
+import { diceService } from '@/services/dice-service'
+import { triggerService } from '@/services/trigger-service'
+import { prisma } from '@/lib/db'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    session: {
+      findUnique: jest.fn(),
+    },
+    locationFeature: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    characterPosition: {
+      findUnique: jest.fn(),
+    },
+    item: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+      create: jest.fn(),
+    },
+  },
+}))
+jest.mock('@/services/dice-service', () => ({
+  diceService: {
+    rollForSession: jest.fn(),
+  },
+}))
+jest.mock('@/services/trigger-service', () => ({
+  triggerService: {
+    resolveInteraction: jest.fn(),
+  },
+}))
+
+describe('FeatureService', () => {
+  const door = {
+    id: 'feat-door',
+    name: 'Iron door',
+    type: 'DOOR',
+    locationId: 'loc-1',
+    x: 3,
+    y: 0,
+    z: 0,
+    width: 1.5,
+    height: 3,
+    depth: 0.3,
+    state: 'LOCKED',
+    lockDc: 15,
+    keyItemId: 'item-key',
+    location: { campaignId: 'camp-1', gridSize: 1.524 },
+  }
+  const aria = { id: 'char-aria', name: 'Aria', stats: { dexterity: 14, strength: 10 } }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(prisma.session.findUnique as jest.Mock).mockResolvedValue({ campaignId: 'camp-1' })
+    ;(prisma.locationFeature.findUnique as jest.Mock).mockResolvedValue(door)
+    ;(prisma.characterPosition.findUnique as jest.Mock).mockResolvedValue({
+      locationId: 'loc-1',
+      x: 3.5,
+      y: -1,
+      z: 0,
+      character: aria,
+    })
+    ;(prisma.item.findFirst as jest.Mock).mockResolvedValue(null)
+    ;(triggerService.resolveInteraction as jest.Mock).mockResolvedValue([])
+  })
+
+  describe('interact', () => {
+    it('should pick the lock on a DEX check and stop the door blocking once it is open', async () => {
+      // Given
+      ;(diceService.rollForSession as jest.Mock).mockResolvedValue({ total: 16 })
+
+      // When
+      const result = await featureService.interact('session-1', 'feat-door', 'char-aria', 'unlock')
+
+      // Then
+      expect(diceService.rollForSession).toHaveBeenCalledWith(
+        expect.objectContaining({ expression: '1d20+2', reason: 'Pick the lock of Iron door (DC 15)' })
+      )
+      expect(prisma.locationFeature.update).toHaveBeenCalledWith({
+        where: { id: 'feat-door' },
+        data: { state: 'CLOSED', blocksMovement: true, blocksVision: true, providesCover: 'FULL' },
+      })
+      expect(result).toMatchObject({
+        state: 'CLOSED',
+        check: { ability: 'DEX', dc: 15, total: 16, success: true },
+      })
+      expect(triggerService.resolveInteraction).toHaveBeenCalledWith('session-1', 'feat-door', aria)
+    })
+
+    it('should leave the door locked when the check fails', async () => {
+      // Given
+      ;(diceService.rollForSession as jest.Mock).mockResolvedValue({ total: 9 })
+
+      // When
+      const result = await featureService.interact('session-1', 'feat-door', 'char-aria', 'force')
+
+      // Then
+      expect(prisma.locationFeature.update).not.toHaveBeenCalled()
+      expect(result).toMatchObject({ state: 'LOCKED', check: { ability: 'STR', success: false } })
+    })
+
+    it('should open with the key the character carries without a roll', async () => {
+      // Given
+      ;(prisma.item.findFirst as jest.Mock).mockResolvedValue({ id: 'item-key' })
+
+      // When
+      const result = await featureService.interact('session-1', 'feat-door', 'char-aria', 'unlock')
+
+      // Then
+      expect(diceService.rollForSession).not.toHaveBeenCalled()
+      expect(result.state).toBe('CLOSED')
+    })
+
+    it('should refuse a character standing too far away', async () => {
+      // Given
+      ;(prisma.characterPosition.findUnique as jest.Mock).mockResolvedValue({
+        locationId: 'loc-1',
+        x: 12,
+        y: 8,
+        z: 0,
+        character: aria,
+      })
+
+      // When / Then
+      await expect(featureService.interact('session-1', 'feat-door', 'char-aria', 'open')).rejects.toThrow(
+        'Out of reach: Aria is too far from Iron door'
+      )
+    })
+  })
+
+  describe('takeItem', () => {
+    const chest = { ...door, id: 'feat-chest', name: 'Chest', type: 'OBJECT', state: 'OPEN' }
+    const coins = {
+      id: 'item-coins',
+      campaignId: 'camp-1',
+      name: 'Gold coins',
+      description: null,
+      quantity: 30,
+      featureId: 'feat-chest',
+      characterId: null,
+    }
+
+    beforeEach(() => {
+      ;(prisma.locationFeature.findUnique as jest.Mock).mockResolvedValue(chest)
+      ;(prisma.item.findUnique as jest.Mock).mockResolvedValue(coins)
+      ;(prisma.item.updateMany as jest.Mock).mockResolvedValue({ count: 1 })
+    })
+
+    it('should split off part of a stack for the character', async () => {
+      // Given
+      ;(prisma.item.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'item-split', featureId: null, ...data })
+      )
+
+      // When
+      const item = await featureService.takeItem('session-1', 'feat-chest', 'item-coins', 'char-aria', 10)
+
+      // Then
+      expect(prisma.item.updateMany).toHaveBeenCalledWith({
+        where: { id: 'item-coins', featureId: 'feat-chest', quantity: { gte: 10 } },
+        data: { quantity: { decrement: 10 } },
+      })
+      expect(item).toMatchObject({ id: 'item-split', name: 'Gold coins', quantity: 10, characterId: 'char-aria' })
+    })
+
+    it('should not reach into a closed container', async () => {
+      // Given
+      ;(prisma.locationFeature.findUnique as jest.Mock).mockResolvedValue({ ...chest, state: 'CLOSED' })
+
+      // When / Then
+      await expect(
+        featureService.takeItem('session-1', 'feat-chest', 'item-coins', 'char-aria')
+      ).rejects.toThrow('Cannot take from Chest: it is closed')
+      expect(prisma.item.updateMany).not.toHaveBeenCalled()
+    })
+  })
+})
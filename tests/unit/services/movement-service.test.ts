@@ -0,0 +1,436 @@
+import { movementService } from '@/services/movement-service'
+import { encounterService } from '@/services/encounter-service'
+import { reactionService } from '@/services/reaction-service'
+import { sessionService } from '@/services/session-service'
+import { spatialService } from '@/services/spatial-service'
+import { triggerService } from '@/services/trigger-service'
+import { prisma } from '@/lib/db'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    session: {
+      findUnique: jest.fn(),
+    },
+    message: {
+      count: jest.fn(),
+      findFirst: jest.fn(),
+    },
+    movementEvent: {
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+    movementSuggestion: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    characterPosition: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}))
+jest.mock('@/services/spatial-service', () => ({
+  spatialService: {
+    validateMovement: jest.fn(),
+    calculateDistance: jest.fn(),
+  },
+}))
+jest.mock('@/services/encounter-service', () => ({
+  encounterService: {
+    checkMovementBudget: jest.fn(),
+    spendMovement: jest.fn(),
+  },
+}))
+jest.mock('@/services/reaction-service', () => ({
+  reactionService: {
+    findOpportunityAttacks: jest.fn(),
+    raiseReactions: jest.fn(),
+  },
+}))
+jest.mock('@/services/session-service', () => ({
+  sessionService: {
+    resolveActingCharacter: jest.fn(),
+  },
+}))
+jest.mock('@/services/trigger-service', () => ({
+  triggerService: {
+    resolveMovement: jest.fn(),
+  },
+}))
+
+describe('MovementService', () => {
+  const stored = {
+    id: 'sug-1',
+    sessionId: 'session-1',
+    characterId: 'char-1',
+    locationId: 'loc-1',
+    messageId: 'msg-1',
+    fromX: 0,
+    fromY: 0,
+    fromZ: 0,
+    toX: 6,
+    toY: 0,
+    toZ: 0,
+    path: null,
+    distance: 6,
+    movementCost: 6,
+    actionType: 'MELEE',
+    targetName: 'Orc',
+    reason: 'To attack the orc',
+    isValid: true,
+    validationIssues: [],
+    status: 'PENDING',
+    resolutionNote: null,
+    resolvedAt: null,
+    createdAt: new Date('2026-03-15T12:00:00Z'),
+    character: { name: 'Aria' },
+    proposedBy: null,
+    resolvedBy: null,
+  }
+  const position = { characterId: 'char-1', locationId: 'loc-1', x: 0, y: 0, z: 0, facing: null }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(spatialService.calculateDistance as jest.Mock).mockImplementation(
+      (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y)
+    )
+    ;(spatialService.validateMovement as jest.Mock).mockResolvedValue({ isValid: true, warnings: [] })
+    ;(encounterService.checkMovementBudget as jest.Mock).mockResolvedValue({ allowed: true })
+    ;(reactionService.findOpportunityAttacks as jest.Mock).mockResolvedValue([])
+    ;(reactionService.raiseReactions as jest.Mock).mockResolvedValue([])
+    ;(triggerService.resolveMovement as jest.Mock).mockResolvedValue([])
+    ;(prisma.movementSuggestion.updateMany as jest.Mock).mockResolvedValue({ count: 1 })
+    ;(prisma.characterPosition.findUnique as jest.Mock).mockResolvedValue(position)
+    ;(prisma.characterPosition.update as jest.Mock).mockResolvedValue({ ...position, x: 6 })
+    ;(prisma.$transaction as jest.Mock).mockImplementation(
+      (operations: Promise<unknown>[] | ((tx: typeof prisma) => Promise<unknown>)) =>
+        typeof operations === 'function' ? operations(prisma) : Promise.all(operations)
+    )
+  })
+
+  describe('suggestMovement', () => {
+    it('should refuse a character from outside the session', async () => {
+      // Given: the player also controls a character in another campaign
+      ;(sessionService.resolveActingCharacter as jest.Mock).mockRejectedValue(
+        new Error('Character is not in this session')
+      )
+
+      // When / Then
+      await expect(
+        movementService.suggestMovement('session-1', {
+          characterId: 'char-9',
+          targetPosition: { x: 6, y: 0, z: 0 },
+        })
+      ).rejects.toThrow('Character is not in this session')
+      expect(sessionService.resolveActingCharacter).toHaveBeenCalledWith('session-1', 'char-9')
+      expect(prisma.characterPosition.findUnique).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('recordSuggestion', () => {
+    it('should expire older pending suggestions for the character and return the stored id', async () => {
+      // Given
+      ;(prisma.movementSuggestion.create as jest.Mock).mockResolvedValue({ id: 'sug-2' })
+
+      // When
+      const suggestion = await movementService.recordSuggestion('session-1', {
+        id: 'mov_1',
+        characterId: 'char-1',
+        characterName: 'Aria',
+        from: { x: 0, y: 0, z: 0 },
+        to: { x: 6, y: 0, z: 0 },
+        reason: 'To attack the orc',
+        actionType: 'MELEE',
+        distance: 6,
+        locationId: 'loc-1',
+        isValid: true,
+      })
+
+      // Then
+      expect(prisma.movementSuggestion.updateMany).toHaveBeenCalledWith({
+        where: { sessionId: 'session-1', characterId: 'char-1', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'EXPIRED' }),
+      })
+      expect(prisma.movementSuggestion.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ fromX: 0, toX: 6, locationId: 'loc-1', isValid: true }),
+      })
+      expect(suggestion.id).toBe('sug-2')
+    })
+  })
+
+  describe('applySuggestion', () => {
+    it('should move the character and mark the suggestion applied', async () => {
+      // Given
+      ;(prisma.movementSuggestion.findUnique as jest.Mock).mockResolvedValue(stored)
+
+      // When
+      const result = await movementService.applySuggestion('session-1', 'sug-1', 'user-1')
+
+      // Then
+      expect(prisma.movementSuggestion.updateMany).toHaveBeenCalledWith({
+        where: { id: 'sug-1', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'APPLIED', resolvedById: 'user-1' }),
+      })
+      expect(prisma.characterPosition.update).toHaveBeenCalledWith({
+        where: { characterId: 'char-1' },
+        data: { locationId: 'loc-1', x: 6, y: 0, z: 0, facing: undefined },
+      })
+      expect(prisma.movementEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            sessionId: 'session-1',
+            characterId: 'char-1',
+            messageId: 'msg-1',
+            suggestionId: 'sug-1',
+            source: 'MOVE',
+            fromX: 0,
+            toX: 6,
+            toLocationId: 'loc-1',
+          }),
+        ],
+      })
+      expect(result.suggestion.status).toBe('APPLIED')
+      expect(result.position).toMatchObject({ x: 6 })
+    })
+
+    it('should prompt the foes whose reach the move leaves', async () => {
+      // Given
+      const provoked = [
+        {
+          encounterId: 'enc-1',
+          round: 2,
+          combatantId: 'c-orc',
+          name: 'Orc',
+          triggeredById: 'c-aria',
+          position: { x: 1.5, y: 0, z: 0 },
+        },
+      ]
+      ;(prisma.movementSuggestion.findUnique as jest.Mock).mockResolvedValue(stored)
+      ;(reactionService.findOpportunityAttacks as jest.Mock).mockResolvedValue(provoked)
+      ;(reactionService.raiseReactions as jest.Mock).mockResolvedValue([{ id: 'reaction-1' }])
+
+      // When
+      const result = await movementService.applySuggestion('session-1', 'sug-1', 'user-1')
+
+      // Then
+      expect(reactionService.findOpportunityAttacks).toHaveBeenCalledWith('session-1', 'char-1', 'loc-1', [
+        { x: 0, y: 0, z: 0 },
+        { x: 6, y: 0, z: 0 },
+      ])
+      expect(reactionService.raiseReactions).toHaveBeenCalledWith(provoked, 'sug-1')
+      expect(result.reactions).toEqual([{ id: 'reaction-1' }])
+    })
+
+    it('should set off the traps along the route walked', async () => {
+      // Given
+      ;(prisma.movementSuggestion.findUnique as jest.Mock).mockResolvedValue(stored)
+      ;(triggerService.resolveMovement as jest.Mock).mockResolvedValue([{ id: 'activation-1' }])
+
+      // When
+      const result = await movementService.applySuggestion('session-1', 'sug-1', 'user-1')
+
+      // Then
+      expect(triggerService.resolveMovement).toHaveBeenCalledWith(
+        'session-1',
+        'char-1',
+        'loc-1',
+        [
+          { x: 0, y: 0, z: 0 },
+          { x: 6, y: 0, z: 0 },
+        ],
+        'sug-1'
+      )
+      expect(result.triggers).toEqual([{ id: 'activation-1' }])
+    })
+
+    it('should refuse a suggestion that was already applied', async () => {
+      // Given
+      ;(prisma.movementSuggestion.findUnique as jest.Mock).mockResolvedValue({ ...stored, status: 'APPLIED' })
+
+      // When / Then
+      await expect(movementService.applySuggestion('session-1', 'sug-1', 'user-1')).rejects.toThrow(
+        'Movement suggestion already applied'
+      )
+      expect(prisma.characterPosition.update).not.toHaveBeenCalled()
+    })
+
+    it('should not move twice when another apply claims the suggestion first', async () => {
+      // Given: both clicks read it pending, the other one resolves it first
+      ;(prisma.movementSuggestion.findUnique as jest.Mock)
+        .mockResolvedValueOnce(stored)
+        .mockResolvedValueOnce({ status: 'APPLIED' })
+      ;(prisma.movementSuggestion.updateMany as jest.Mock).mockResolvedValue({ count: 0 })
+
+      // When / Then
+      await expect(movementService.applySuggestion('session-1', 'sug-1', 'user-2')).rejects.toThrow(
+        'Movement suggestion already applied'
+      )
+      expect(prisma.characterPosition.update).not.toHaveBeenCalled()
+    })
+
+    it('should claim the suggestion in the transaction that moves the character', async () => {
+      // Given: the move fails after the claim, so the transaction rolls both back
+      ;(prisma.movementSuggestion.findUnique as jest.Mock).mockResolvedValue(stored)
+      ;(prisma.characterPosition.update as jest.Mock).mockRejectedValue(new Error('Connection lost'))
+      const claimed: boolean[] = []
+      ;(prisma.$transaction as jest.Mock).mockImplementation(
+        async (run: (tx: typeof prisma) => Promise<unknown>) => {
+          try {
+            return await run(prisma)
+          } finally {
+            claimed.push((prisma.movementSuggestion.updateMany as jest.Mock).mock.calls.length > 0)
+          }
+        }
+      )
+
+      // When / Then
+      await expect(movementService.applySuggestion('session-1', 'sug-1', 'user-1')).rejects.toThrow(
+        'Connection lost'
+      )
+      expect(claimed).toEqual([true])
+      expect(prisma.movementEvent.createMany).not.toHaveBeenCalled()
+    })
+
+    it('should expire the suggestion when the character moved since it was proposed', async () => {
+      // Given
+      ;(prisma.movementSuggestion.findUnique as jest.Mock).mockResolvedValue(stored)
+      ;(prisma.characterPosition.findUnique as jest.Mock).mockResolvedValue({ ...position, x: 3 })
+
+      // When / Then
+      await expect(movementService.applySuggestion('session-1', 'sug-1', 'user-1')).rejects.toThrow(
+        'Movement suggestion is stale: Aria has moved since it was proposed'
+      )
+      expect(prisma.movementSuggestion.updateMany).toHaveBeenCalledWith({
+        where: { id: 'sug-1', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'EXPIRED' }),
+      })
+      expect(prisma.characterPosition.update).not.toHaveBeenCalled()
+    })
+
+    it('should leave the suggestion pending when it is not the character\'s turn', async () => {
+      // Given
+      ;(prisma.movementSuggestion.findUnique as jest.Mock).mockResolvedValue(stored)
+      ;(encounterService.checkMovementBudget as jest.Mock).mockResolvedValue({
+        allowed: false,
+        reason: "It is not Aria's turn",
+      })
+
+      // When / Then
+      await expect(movementService.applySuggestion('session-1', 'sug-1', 'user-1')).rejects.toThrow(
+        "Invalid movement: It is not Aria's turn"
+      )
+      expect(prisma.movementSuggestion.updateMany).not.toHaveBeenCalled()
+      expect(reactionService.raiseReactions).not.toHaveBeenCalled()
+      expect(triggerService.resolveMovement).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('rejectSuggestion', () => {
+    it('should record who rejected the suggestion and why', async () => {
+      // Given
+      ;(prisma.movementSuggestion.findUnique as jest.Mock).mockResolvedValue(stored)
+
+      // When
+      const rejected = await movementService.rejectSuggestion('session-1', 'sug-1', 'user-1', 'Aria stays put')
+
+      // Then
+      expect(prisma.movementSuggestion.updateMany).toHaveBeenCalledWith({
+        where: { id: 'sug-1', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'REJECTED', resolvedById: 'user-1', resolutionNote: 'Aria stays put' }),
+      })
+      expect(rejected).toMatchObject({ status: 'REJECTED', resolutionNote: 'Aria stays put' })
+    })
+
+    it('should not find suggestions of another session', async () => {
+      // Given
+      ;(prisma.movementSuggestion.findUnique as jest.Mock).mockResolvedValue(stored)
+
+      // When / Then
+      await expect(movementService.rejectSuggestion('session-2', 'sug-1', 'user-1')).rejects.toThrow(
+        'Movement suggestion not found'
+      )
+    })
+  })
+
+  describe('getStats', () => {
+    it('should count outcomes and the share of decided suggestions that were applied', async () => {
+      // Given
+      ;(prisma.movementSuggestion.groupBy as jest.Mock).mockResolvedValue([
+        { status: 'APPLIED', _count: { _all: 3 }, _avg: { distance: 4.5 } },
+        { status: 'REJECTED', _count: { _all: 1 }, _avg: { distance: 12 } },
+        { status: 'EXPIRED', _count: { _all: 2 }, _avg: { distance: 6 } },
+      ])
+
+      // When
+      const stats = await movementService.getStats('session-1')
+
+      // Then
+      expect(stats).toEqual({
+        total: 6,
+        byStatus: { PENDING: 0, APPLIED: 3, REJECTED: 1, EXPIRED: 2 },
+        acceptanceRate: 0.75,
+        averageDistance: 4.5,
+      })
+    })
+  })
+  describe('replayPositions', () => {
+    const message = {
+      id: 'msg-3',
+      role: 'ASSISTANT',
+      content: 'The trap goes off!',
+      createdAt: new Date('2026-03-15T12:05:00Z'),
+    }
+
+    beforeEach(() => {
+      ;(prisma.session.findUnique as jest.Mock).mockResolvedValue({ campaignId: 'campaign-1' })
+      ;(prisma.message.count as jest.Mock).mockResolvedValue(8)
+      ;(prisma.message.findFirst as jest.Mock).mockResolvedValue(message)
+      ;(prisma.characterPosition.findMany as jest.Mock).mockResolvedValue([
+        { characterId: 'char-1', locationId: 'loc-2', x: 9, y: 9, z: 0, character: { name: 'Aria' } },
+        { characterId: 'char-2', locationId: 'loc-1', x: 4, y: 1, z: 0, character: { name: 'Borin' } },
+        { characterId: 'char-3', locationId: 'loc-1', x: 2, y: 2, z: 0, character: { name: 'Cade' } },
+      ])
+    })
+
+    it('should walk the moves made after the message back from the current positions', async () => {
+      // Given: newest first, Aria travelled on and moved twice, Cade was placed later
+      ;(prisma.movementEvent.findMany as jest.Mock).mockResolvedValue([
+        { characterId: 'char-1', fromLocationId: 'loc-1', fromX: 6, fromY: 0, fromZ: 0 },
+        { characterId: 'char-3', fromLocationId: null, fromX: null, fromY: null, fromZ: null },
+        { characterId: 'char-1', fromLocationId: 'loc-1', fromX: 3, fromY: 0, fromZ: 0 },
+      ])
+
+      // When
+      const replay = await movementService.replayPositions('session-1', 2)
+
+      // Then
+      expect(prisma.message.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { sessionId: 'session-1', discardedAt: null }, skip: 2 })
+      )
+      expect(prisma.movementEvent.findMany).toHaveBeenCalledWith({
+        where: { characterId: { in: ['char-1', 'char-2', 'char-3'] }, createdAt: { gt: message.createdAt } },
+        orderBy: { createdAt: 'desc' },
+      })
+      expect(replay.message).toMatchObject({ id: 'msg-3', index: 2 })
+      expect(replay.messageCount).toBe(8)
+      expect(replay.positions).toEqual([
+        { characterId: 'char-1', characterName: 'Aria', locationId: 'loc-1', position: { x: 3, y: 0, z: 0 } },
+        { characterId: 'char-2', characterName: 'Borin', locationId: 'loc-1', position: { x: 4, y: 1, z: 0 } },
+      ])
+    })
+
+    it('should reject message indexes past the end of the conversation', async () => {
+      // Given
+      ;(prisma.message.findFirst as jest.Mock).mockResolvedValue(null)
+
+      // When / Then
+      await expect(movementService.replayPositions('session-1', 8)).rejects.toThrow(
+        'Message index out of range: the session has 8 messages'
+      )
+    })
+  })
+})
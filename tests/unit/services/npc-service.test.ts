@@ -0,0 +1,154 @@
+import { npcService } from '@/services/npc-service'
+import { prisma } from '@/lib/db'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    npc: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    location: {
+      findUnique: jest.fn(),
+    },
+    campaignKnowledge: {
+      findUnique: jest.fn(),
+    },
+  },
+}))
+
+describe('NpcService', () => {
+  const cave = { id: 'loc-cave', campaignId: 'camp-1', minX: 0, minY: 0, minZ: 0, gridSize: 1.5 }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(prisma.npc.findMany as jest.Mock).mockResolvedValue([])
+    ;(prisma.location.findUnique as jest.Mock).mockResolvedValue(cave)
+    ;(prisma.npc.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({
+        id: `npc-${data.name}`,
+        kind: null,
+        statBlock: null,
+        disposition: 'NEUTRAL',
+        faction: null,
+        knowledgeId: null,
+        maxHp: 10,
+        currentHp: 10,
+        armorClass: 10,
+        baseMovementRate: 9,
+        locationId: null,
+        x: 0,
+        y: 0,
+        z: 0,
+        facing: null,
+        ...data,
+      })
+    )
+    ;(prisma.$transaction as jest.Mock).mockImplementation((operations: Promise<unknown>[]) =>
+      Promise.all(operations)
+    )
+  })
+
+  describe('createNpcs', () => {
+    it('should spawn a numbered pack standing together in the location', async () => {
+      // Given
+      ;(prisma.npc.findMany as jest.Mock).mockResolvedValue([{ name: 'Goblin 1' }])
+
+      // When
+      const npcs = await npcService.createNpcs('camp-1', {
+        name: 'Goblin',
+        kind: 'goblin',
+        disposition: 'HOSTILE',
+        maxHp: 7,
+        count: 3,
+        locationId: 'loc-cave',
+        position: { x: 6, y: 6, z: 0 },
+      })
+
+      // Then
+      expect(npcs.map((npc) => npc.name)).toEqual(['Goblin 2', 'Goblin 3', 'Goblin 4'])
+      expect(npcs.map((npc) => npc.position)).toEqual([
+        { x: 6, y: 6, z: 0 },
+        { x: 7.5, y: 6, z: 0 },
+        { x: 6, y: 7.5, z: 0 },
+      ])
+      expect(npcs[0]).toMatchObject({
+        campaignId: 'camp-1',
+        locationId: 'loc-cave',
+        disposition: 'HOSTILE',
+        maxHp: 7,
+        currentHp: 7,
+      })
+    })
+
+    it('should only link NPC entries of the same campaign', async () => {
+      // Given
+      ;(prisma.campaignKnowledge.findUnique as jest.Mock).mockResolvedValue({
+        campaignId: 'camp-1',
+        category: 'LOCATION',
+      })
+
+      // When / Then
+      await expect(
+        npcService.createNpcs('camp-1', { name: 'Old Tom', knowledgeId: 'know-tavern' })
+      ).rejects.toThrow('Knowledge entry is not an NPC')
+      expect(prisma.npc.create).not.toHaveBeenCalled()
+    })
+
+    it('should refuse a location of another campaign', async () => {
+      // Given
+      ;(prisma.location.findUnique as jest.Mock).mockResolvedValue({ ...cave, campaignId: 'camp-2' })
+
+      // When / Then
+      await expect(
+        npcService.createNpcs('camp-1', { name: 'Goblin', locationId: 'loc-cave' })
+      ).rejects.toThrow('Location not found')
+    })
+  })
+
+  describe('updateNpc', () => {
+    it('should take a token off the map', async () => {
+      // Given
+      ;(prisma.npc.findUnique as jest.Mock).mockResolvedValue({ id: 'npc-1', campaignId: 'camp-1' })
+      ;(prisma.npc.update as jest.Mock).mockResolvedValue({
+        id: 'npc-1',
+        campaignId: 'camp-1',
+        name: 'Goblin 1',
+        disposition: 'HOSTILE',
+        locationId: null,
+        x: 6,
+        y: 6,
+        z: 0,
+      })
+
+      // When
+      const npc = await npcService.updateNpc('camp-1', 'npc-1', { locationId: null })
+
+      // Then
+      expect(prisma.npc.update).toHaveBeenCalledWith({ where: { id: 'npc-1' }, data: { locationId: null } })
+      expect(npc.position).toBeUndefined()
+    })
+
+    it('should keep HP between 0 and the maximum', async () => {
+      // Given
+      ;(prisma.npc.findUnique as jest.Mock).mockResolvedValue({
+        id: 'npc-1',
+        campaignId: 'camp-1',
+        maxHp: 7,
+        currentHp: 7,
+      })
+      ;(prisma.npc.update as jest.Mock).mockResolvedValue({ id: 'npc-1', campaignId: 'camp-1' })
+
+      // When
+      await npcService.updateNpc('camp-1', 'npc-1', { currentHp: 12 })
+      await npcService.updateNpc('camp-1', 'npc-1', { currentHp: -3 })
+      await npcService.updateNpc('camp-1', 'npc-1', { maxHp: 5 })
+
+      // Then
+      const updates = (prisma.npc.update as jest.Mock).mock.calls.map(([call]) => call.data)
+      expect(updates).toEqual([{ currentHp: 7 }, { currentHp: 0 }, { maxHp: 5, currentHp: 5 }])
+    })
+  })
+})
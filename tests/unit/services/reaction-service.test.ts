@@ -0,0 +1,206 @@
+import { reactionService } from '@/services/reaction-service'
+import { encounterService } from '@/services/encounter-service'
+import { spatialService } from '@/services/spatial-service'
+import { prisma } from '@/lib/db'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    movementRule: {
+      findMany: jest.fn(),
+    },
+    combatant: {
+      updateMany: jest.fn(),
+    },
+    reactionPrompt: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}))
+jest.mock('@/services/encounter-service', () => ({
+  encounterService: {
+    getActiveEncounter: jest.fn(),
+  },
+}))
+jest.mock('@/services/spatial-service', () => ({
+  spatialService: {
+    loadLocationSnapshot: jest.fn(),
+    calculateDistance: jest.fn(),
+    hasLineOfSight: jest.fn(),
+  },
+}))
+
+describe('ReactionService', () => {
+  const combatant = {
+    isDefeated: false,
+    reactionUsed: false,
+    isNPC: false,
+  }
+  const encounter = {
+    id: 'enc-1',
+    round: 2,
+    combatants: [
+      { ...combatant, id: 'c-aria', characterId: 'char-aria', name: 'Aria', isHostile: false },
+      { ...combatant, id: 'c-orc', characterId: 'char-orc', name: 'Orc', isHostile: true },
+      { ...combatant, id: 'c-goblin', characterId: 'char-goblin', name: 'Goblin', isHostile: true },
+      { ...combatant, id: 'c-borin', characterId: 'char-borin', name: 'Borin', isHostile: false },
+    ],
+  }
+  const snapshot = {
+    grid: { gridType: 'NONE', gridSize: 1.524, diagonalRule: 'UNIFORM', originX: 0, originY: 0 },
+    characters: [
+      { characterId: 'char-aria', x: 6, y: 5, z: 0 },
+      { characterId: 'char-orc', x: 5, y: 5, z: 0 },
+      { characterId: 'char-goblin', x: 20, y: 20, z: 0 },
+      { characterId: 'char-borin', x: 7, y: 5, z: 0 },
+    ],
+  }
+  const path = [
+    { x: 6, y: 5, z: 0 },
+    { x: 12, y: 5, z: 0 },
+  ]
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(encounterService.getActiveEncounter as jest.Mock).mockResolvedValue(encounter)
+    ;(spatialService.loadLocationSnapshot as jest.Mock).mockResolvedValue(snapshot)
+    ;(spatialService.calculateDistance as jest.Mock).mockImplementation(
+      (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y)
+    )
+    ;(spatialService.hasLineOfSight as jest.Mock).mockReturnValue(true)
+    ;(prisma.movementRule.findMany as jest.Mock).mockResolvedValue([{ maxDistance: 1.5 }, { maxDistance: 3 }])
+  })
+
+  describe('findOpportunityAttacks', () => {
+    it('should find the foes whose reach the path leaves, using the shortest melee rule', async () => {
+      // When
+      const provoked = await reactionService.findOpportunityAttacks('session-1', 'char-aria', 'loc-1', path)
+
+      // Then: Borin is an ally and the goblin is too far away
+      expect(provoked).toEqual([
+        expect.objectContaining({
+          encounterId: 'enc-1',
+          round: 2,
+          combatantId: 'c-orc',
+          name: 'Orc',
+          triggeredById: 'c-aria',
+        }),
+      ])
+      expect(Math.hypot(provoked[0].position.x - 5, provoked[0].position.y - 5)).toBeLessThanOrEqual(1.51)
+    })
+
+    it('should skip foes who spent their reaction or cannot see the mover leave', async () => {
+      // Given
+      ;(encounterService.getActiveEncounter as jest.Mock).mockResolvedValue({
+        ...encounter,
+        combatants: encounter.combatants.map((c) => (c.id === 'c-orc' ? { ...c, reactionUsed: true } : c)),
+      })
+
+      // When / Then
+      expect(await reactionService.findOpportunityAttacks('session-1', 'char-aria', 'loc-1', path)).toEqual([])
+
+      // Given
+      ;(encounterService.getActiveEncounter as jest.Mock).mockResolvedValue(encounter)
+      ;(spatialService.hasLineOfSight as jest.Mock).mockReturnValue(false)
+
+      // When / Then
+      expect(await reactionService.findOpportunityAttacks('session-1', 'char-aria', 'loc-1', path)).toEqual([])
+    })
+
+    it('should not look for reactions outside combat', async () => {
+      // Given
+      ;(encounterService.getActiveEncounter as jest.Mock).mockResolvedValue(null)
+
+      // When
+      const provoked = await reactionService.findOpportunityAttacks('session-1', 'char-aria', 'loc-1', path)
+
+      // Then
+      expect(provoked).toEqual([])
+      expect(spatialService.loadLocationSnapshot).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('resolveReaction', () => {
+    const stored = {
+      id: 'reaction-1',
+      encounterId: 'enc-1',
+      combatantId: 'c-orc',
+      triggeredById: 'c-aria',
+      suggestionId: 'sug-1',
+      trigger: 'OPPORTUNITY_ATTACK',
+      round: 2,
+      x: 6.5,
+      y: 5,
+      z: 0,
+      status: 'PENDING',
+      resolvedAt: null,
+      createdAt: new Date('2026-03-29T12:00:00Z'),
+      encounter: { sessionId: 'session-1' },
+      combatant: { name: 'Orc', characterId: 'char-orc' },
+      triggeredBy: { name: 'Aria' },
+    }
+
+    beforeEach(() => {
+      ;(prisma.reactionPrompt.findUnique as jest.Mock).mockResolvedValue(stored)
+      ;(prisma.reactionPrompt.updateMany as jest.Mock).mockResolvedValue({ count: 1 })
+      ;(prisma.combatant.updateMany as jest.Mock).mockResolvedValue({ count: 1 })
+    })
+
+    it('should spend the reaction and let the combatant\'s other prompts lapse', async () => {
+      // When
+      const resolved = await reactionService.resolveReaction('session-1', 'reaction-1', true)
+
+      // Then
+      expect(prisma.reactionPrompt.updateMany).toHaveBeenCalledWith({
+        where: { id: 'reaction-1', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'USED' }),
+      })
+      expect(prisma.combatant.updateMany).toHaveBeenCalledWith({
+        where: { id: 'c-orc', reactionUsed: false },
+        data: { reactionUsed: true },
+      })
+      expect(prisma.reactionPrompt.updateMany).toHaveBeenCalledWith({
+        where: { combatantId: 'c-orc', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'EXPIRED' }),
+      })
+      expect(resolved).toMatchObject({ status: 'USED', combatantName: 'Orc', triggeredByName: 'Aria' })
+    })
+
+    it('should record a declined reaction without spending it', async () => {
+      // When
+      const resolved = await reactionService.resolveReaction('session-1', 'reaction-1', false)
+
+      // Then
+      expect(resolved.status).toBe('DECLINED')
+      expect(prisma.combatant.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should expire the prompt when the combatant already reacted this round', async () => {
+      // Given
+      ;(prisma.combatant.updateMany as jest.Mock).mockResolvedValue({ count: 0 })
+
+      // When / Then
+      await expect(reactionService.resolveReaction('session-1', 'reaction-1', true)).rejects.toThrow(
+        'Reaction already spent: Orc has reacted this round'
+      )
+      expect(prisma.reactionPrompt.update).toHaveBeenCalledWith({
+        where: { id: 'reaction-1' },
+        data: { status: 'EXPIRED' },
+      })
+    })
+
+    it('should refuse prompts that were already resolved or belong to another session', async () => {
+      // Given
+      ;(prisma.reactionPrompt.findUnique as jest.Mock).mockResolvedValue({ ...stored, status: 'DECLINED' })
+
+      // When / Then
+      await expect(reactionService.resolveReaction('session-1', 'reaction-1', true)).rejects.toThrow(
+        'Reaction already declined'
+      )
+      await expect(reactionService.resolveReaction('session-2', 'reaction-1', true)).rejects.toThrow(
+        'Reaction not found'
+      )
+    })
+  })
+})
@@ -0,0 +1,141 @@
+import { sessionService } from '@/services/session-service'
+import { prisma } from '@/lib/db'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    session: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    character: {
+      findMany: jest.fn(),
+    },
+    sessionParticipant: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}))
+
+describe('SessionService', () => {
+  const aria = { id: 'char-1', name: 'Aria' }
+  const borin = { id: 'char-2', name: 'Borin' }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('createSession', () => {
+    it('should seat every campaign character when no roster is given', async () => {
+      // Given
+      ;(prisma.character.findMany as jest.Mock).mockResolvedValue([aria, borin])
+      ;(prisma.session.create as jest.Mock).mockResolvedValue({ id: 'session-1' })
+
+      // When
+      await sessionService.createSession({ campaignId: 'campaign-1', name: 'Session 1' })
+
+      // Then
+      expect(prisma.session.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            campaignId: 'campaign-1',
+            name: 'Session 1',
+            participants: { create: [{ characterId: 'char-1' }, { characterId: 'char-2' }] },
+          },
+        })
+      )
+    })
+
+    it('should reject characters from another campaign', async () => {
+      // Given
+      ;(prisma.character.findMany as jest.Mock).mockResolvedValue([aria])
+
+      // When / Then
+      await expect(
+        sessionService.createSession({ campaignId: 'campaign-1', name: 'Session 1', characterIds: ['char-9'] })
+      ).rejects.toThrow('Character not found in this campaign')
+      expect(prisma.session.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('resolveActingCharacter', () => {
+    const withRoster = (characters: Array<{ id: string; name: string }>) =>
+      (prisma.session.findUnique as jest.Mock).mockResolvedValue({
+        participants: characters.map((character) => ({ character })),
+        campaign: { characters: [aria, borin] },
+      })
+
+    it('should return the requested roster member', async () => {
+      // Given
+      withRoster([aria, borin])
+
+      // When
+      const character = await sessionService.resolveActingCharacter('session-1', 'char-2')
+
+      // Then
+      expect(character).toEqual(borin)
+    })
+
+    it('should act implicitly for a single-character roster', async () => {
+      // Given
+      withRoster([aria])
+
+      // When
+      const character = await sessionService.resolveActingCharacter('session-1')
+
+      // Then
+      expect(character).toEqual(aria)
+    })
+
+    it('should require a choice when several characters are seated', async () => {
+      // Given
+      withRoster([aria, borin])
+
+      // When / Then
+      await expect(sessionService.resolveActingCharacter('session-1')).rejects.toThrow(
+        /choose which one is acting/
+      )
+    })
+
+    it('should reject characters outside the roster', async () => {
+      // Given
+      withRoster([aria])
+
+      // When / Then
+      await expect(sessionService.resolveActingCharacter('session-1', 'char-2')).rejects.toThrow(
+        'Character is not in this session'
+      )
+    })
+  })
+
+  describe('removeParticipant', () => {
+    it('should remove a seated character', async () => {
+      // Given
+      ;(prisma.sessionParticipant.findMany as jest.Mock).mockResolvedValue([
+        { characterId: 'char-1' },
+        { characterId: 'char-2' },
+      ])
+
+      // When
+      await sessionService.removeParticipant('session-1', 'char-2')
+
+      // Then
+      expect(prisma.sessionParticipant.deleteMany).toHaveBeenCalledWith({
+        where: { sessionId: 'session-1', characterId: 'char-2' },
+      })
+    })
+
+    it('should keep the last character so the roster never falls back to the campaign', async () => {
+      // Given
+      ;(prisma.sessionParticipant.findMany as jest.Mock).mockResolvedValue([
+        { characterId: 'char-1' },
+      ])
+
+      // When / Then
+      await expect(sessionService.removeParticipant('session-1', 'char-1')).rejects.toThrow(
+        'Cannot remove the last character from the session'
+      )
+      expect(prisma.sessionParticipant.deleteMany).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,211 @@
+import { triggerService } from '@/services/trigger-service'
+import { diceService } from '@/services/dice-service'
+import { vitalsService } from '@/services/vitals-service'
+import { prisma } from '@/lib/db'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    location: {
+      findUnique: jest.fn(),
+    },
+    character: {
+      findUnique: jest.fn(),
+    },
+    characterPosition: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+    movementEvent: {
+      create: jest.fn(),
+    },
+    featureTrigger: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    triggerActivation: {
+      create: jest.fn(),
+    },
+  },
+}))
+jest.mock('@/services/dice-service', () => ({
+  diceService: {
+    rollForSession: jest.fn(),
+  },
+}))
+jest.mock('@/services/vitals-service', () => ({
+  vitalsService: {
+    damage: jest.fn(),
+    applyCondition: jest.fn(),
+  },
+}))
+
+describe('TriggerService', () => {
+  const feature = { id: 'feat-plate', name: 'Pressure plate', locationId: 'loc-1', x: 6, y: 0, z: 0 }
+  const plate = {
+    id: 'trig-plate',
+    featureId: 'feat-plate',
+    event: 'ENTER',
+    radius: null,
+    detectionDc: 15,
+    saveAbility: 'DEX',
+    saveDc: 13,
+    halfDamageOnSave: true,
+    damageDice: '2d10',
+    damageType: 'piercing',
+    condition: 'restrained',
+    conditionRounds: 1,
+    teleportX: null,
+    teleportY: null,
+    teleportZ: null,
+    isArmed: true,
+    rearms: false,
+    feature: { ...feature, width: 1.5, height: null, depth: 1.5 },
+    teleportLocation: null,
+  }
+  const aria = { id: 'char-aria', name: 'Aria', stats: { dexterity: 14, wisdom: 12 } }
+  const path = [
+    { x: 0, y: 0.5, z: 0 },
+    { x: 12, y: 0.5, z: 0 },
+  ]
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(prisma.featureTrigger.findMany as jest.Mock).mockResolvedValue([plate])
+    ;(prisma.featureTrigger.updateMany as jest.Mock).mockResolvedValue({ count: 1 })
+    ;(prisma.location.findUnique as jest.Mock).mockResolvedValue({ gridSize: 1.524 })
+    ;(prisma.character.findUnique as jest.Mock).mockResolvedValue(aria)
+    ;(prisma.triggerActivation.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({
+        id: 'activation-1',
+        ...data,
+        createdAt: new Date('2026-04-05T12:00:00Z'),
+        trigger: { featureId: 'feat-plate', feature: { name: 'Pressure plate' } },
+        character: { name: 'Aria' },
+      })
+    )
+    ;(diceService.rollForSession as jest.Mock).mockImplementation(({ expression }) =>
+      Promise.resolve({ total: expression.startsWith('1d20') ? 8 : 11 })
+    )
+    ;(vitalsService.damage as jest.Mock).mockResolvedValue({ events: [] })
+    ;(prisma.$transaction as jest.Mock).mockImplementation((operations: Promise<unknown>[]) =>
+      Promise.all(operations)
+    )
+  })
+
+  describe('resolveMovement', () => {
+    it('should spend the trap and apply its effects when the save fails', async () => {
+      // When
+      const activations = await triggerService.resolveMovement('session-1', 'char-aria', 'loc-1', path, 'sug-1')
+
+      // Then
+      expect(prisma.featureTrigger.updateMany).toHaveBeenCalledWith({
+        where: { id: 'trig-plate', isArmed: true },
+        data: { isArmed: false },
+      })
+      expect(diceService.rollForSession).toHaveBeenCalledWith(
+        expect.objectContaining({ characterId: 'char-aria', expression: '1d20+2' })
+      )
+      expect(vitalsService.damage).toHaveBeenCalledWith('char-aria', 11)
+      expect(vitalsService.applyCondition).toHaveBeenCalledWith('char-aria', {
+        name: 'restrained',
+        source: 'Pressure plate',
+        durationRounds: 1,
+      })
+      expect(activations).toEqual([
+        expect.objectContaining({
+          featureName: 'Pressure plate',
+          suggestionId: 'sug-1',
+          outcome: 'FAILED',
+          saveTotal: 8,
+          damage: 11,
+          summary:
+            'Aria sets off Pressure plate and fails a DEX save (8 vs DC 13); ' +
+            'takes 11 piercing damage; is restrained',
+        }),
+      ])
+    })
+
+    it('should halve the damage and skip the condition on a successful save', async () => {
+      // Given
+      ;(diceService.rollForSession as jest.Mock).mockImplementation(({ expression }) =>
+        Promise.resolve({ total: expression.startsWith('1d20') ? 15 : 11 })
+      )
+
+      // When
+      const [activation] = await triggerService.resolveMovement('session-1', 'char-aria', 'loc-1', path)
+
+      // Then
+      expect(vitalsService.damage).toHaveBeenCalledWith('char-aria', 5)
+      expect(vitalsService.applyCondition).not.toHaveBeenCalled()
+      expect(activation).toMatchObject({ outcome: 'SAVED', damage: 5 })
+    })
+
+    it('should let a character who spots the trap walk past it, leaving it armed', async () => {
+      // Given
+      ;(prisma.character.findUnique as jest.Mock).mockResolvedValue({ ...aria, stats: { wisdom: 20 } })
+
+      // When
+      const [activation] = await triggerService.resolveMovement('session-1', 'char-aria', 'loc-1', path)
+
+      // Then
+      expect(activation.outcome).toBe('DETECTED')
+      expect(prisma.featureTrigger.updateMany).not.toHaveBeenCalled()
+      expect(diceService.rollForSession).not.toHaveBeenCalled()
+    })
+
+    it('should not go off twice when another move spent it first', async () => {
+      // Given
+      ;(prisma.featureTrigger.updateMany as jest.Mock).mockResolvedValue({ count: 0 })
+
+      // When
+      const activations = await triggerService.resolveMovement('session-1', 'char-aria', 'loc-1', path)
+
+      // Then
+      expect(activations).toEqual([])
+      expect(vitalsService.damage).not.toHaveBeenCalled()
+    })
+
+    it('should teleport the character and leave the later traps on the route alone', async () => {
+      // Given: a glyph before the plate sends whoever steps on it to the pit
+      const glyph = {
+        ...plate,
+        id: 'trig-glyph',
+        detectionDc: null,
+        saveAbility: null,
+        saveDc: null,
+        damageDice: null,
+        condition: null,
+        feature: { ...plate.feature, id: 'feat-glyph', name: 'Glyph', x: 3 },
+        teleportLocation: { id: 'loc-pit', name: 'The Pit', minX: 0, maxX: 10, minY: 0, maxY: 4, minZ: -5 },
+      }
+      ;(prisma.featureTrigger.findMany as jest.Mock).mockResolvedValue([plate, glyph])
+      ;(prisma.characterPosition.findUnique as jest.Mock).mockResolvedValue({
+        locationId: 'loc-1',
+        x: 12,
+        y: 0.5,
+        z: 0,
+      })
+
+      // When
+      const activations = await triggerService.resolveMovement('session-1', 'char-aria', 'loc-1', path, 'sug-1')
+
+      // Then
+      expect(activations).toEqual([
+        expect.objectContaining({
+          triggerId: 'trig-glyph',
+          outcome: 'TRIGGERED',
+          teleportLocationId: 'loc-pit',
+          summary: 'Aria sets off Glyph; is teleported to The Pit',
+        }),
+      ])
+      expect(prisma.characterPosition.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ update: { locationId: 'loc-pit', x: 5, y: 2, z: -5 } })
+      )
+      expect(prisma.movementEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ source: 'TELEPORT', fromLocationId: 'loc-1', toLocationId: 'loc-pit' }),
+      })
+      expect(prisma.featureTrigger.updateMany).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -0,0 +1,540 @@
+import { turnHistoryService } from '@/services/turn-history-service'
+import { prisma } from '@/lib/db'
+import { Prisma } from '@prisma/client'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    session: {
+      findUnique: jest.fn(),
+    },
+    message: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    diceRoll: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    sessionSummary: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    sessionState: {
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    characterPosition: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+    character: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    characterCondition: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    npc: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    encounter: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      updateMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    combatant: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      updateMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    reactionPrompt: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    locationFeature: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    item: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      updateMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    featureTrigger: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    triggerActivation: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    revealedFeature: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    turnSnapshot: {
+      create: jest.fn(),
+    },
+    movementEvent: {
+      createMany: jest.fn(),
+    },
+  },
+}))
+
+describe('TurnHistoryService', () => {
+  const sentAt = new Date('2026-02-01T12:00:00Z')
+  const state = {
+    currentLocation: 'the tavern',
+    locationId: 'loc-1',
+    activeNPCs: ['Barkeep'],
+    ongoingQuests: null,
+    partyConditions: null,
+    recentEvents: ['I enter the tavern'],
+  }
+  const position = { characterId: 'char-1', locationId: 'loc-1', x: 1, y: 2, z: 0, facing: null }
+  const vitals = { currentHp: 12, tempHp: 0, deathSaveSuccesses: 0, deathSaveFailures: 0 }
+  const condition = { characterId: 'char-1', name: 'poisoned', source: 'Spider bite', remainingRounds: 3 }
+  const combat = {
+    vitals: [{ characterId: 'char-1', ...vitals }],
+    conditions: [condition],
+    npcs: [{ npcId: 'npc-1', currentHp: 7 }],
+    encounter: {
+      id: 'enc-1',
+      round: 2,
+      turnIndex: 1,
+      combatants: [{ id: 'cmb-1', order: 0, movementUsed: 4.5, reactionUsed: true, isDefeated: false }],
+    },
+  }
+
+  const chest = {
+    featureId: 'feat-1',
+    state: 'OPEN',
+    blocksMovement: false,
+    blocksVision: false,
+    providesCover: 'NONE',
+  }
+  const world = {
+    features: [chest],
+    items: [{ itemId: 'item-1', featureId: 'feat-1', characterId: null, quantity: 30 }],
+    triggers: [{ triggerId: 'trap-1', isArmed: true }],
+  }
+
+  const givenCurrentState = () => {
+    ;(prisma.session.findUnique as jest.Mock).mockResolvedValue({
+      campaignId: 'campaign-1',
+      state: { id: 'state-1', sessionId: 'session-1', ...state },
+    })
+    ;(prisma.characterPosition.findMany as jest.Mock).mockResolvedValue([
+      { id: 'pos-1', lastUpdated: new Date(), createdAt: new Date(), ...position },
+    ])
+    ;(prisma.character.findMany as jest.Mock).mockResolvedValue([{ id: 'char-1', ...vitals }])
+    ;(prisma.characterCondition.findMany as jest.Mock).mockResolvedValue([
+      { id: 'cond-1', createdAt: new Date(), updatedAt: new Date(), ...condition },
+    ])
+    ;(prisma.npc.findMany as jest.Mock).mockResolvedValue([{ id: 'npc-1', currentHp: 7 }])
+    ;(prisma.encounter.findFirst as jest.Mock).mockResolvedValue({
+      id: 'enc-1',
+      status: 'ACTIVE',
+      round: 2,
+      turnIndex: 1,
+      combatants: [
+        {
+          id: 'cmb-1',
+          name: 'Aria',
+          order: 0,
+          initiative: 15,
+          movementUsed: 4.5,
+          reactionUsed: true,
+          isDefeated: false,
+        },
+      ],
+    })
+    ;(prisma.locationFeature.findMany as jest.Mock).mockResolvedValue([
+      { id: 'feat-1', state: 'OPEN', blocksMovement: false, blocksVision: false, providesCover: 'NONE' },
+    ])
+    ;(prisma.item.findMany as jest.Mock).mockResolvedValue([
+      { id: 'item-1', featureId: 'feat-1', characterId: null, quantity: 30 },
+    ])
+    ;(prisma.featureTrigger.findMany as jest.Mock).mockResolvedValue([{ id: 'trap-1', isArmed: true }])
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(prisma.$transaction as jest.Mock).mockImplementation(async (operations: unknown[]) =>
+      operations.map(() => ({ count: 3 }))
+    )
+  })
+
+  describe('captureSnapshot', () => {
+    it('should store everything the turn may change from before it', async () => {
+      // Given
+      givenCurrentState()
+
+      // When
+      await turnHistoryService.captureSnapshot('session-1', 'msg-1')
+
+      // Then
+      expect(prisma.characterPosition.findMany).toHaveBeenCalledWith({
+        where: { character: { campaignId: 'campaign-1' } },
+      })
+      expect(prisma.turnSnapshot.create).toHaveBeenCalledWith({
+        data: {
+          sessionId: 'session-1',
+          messageId: 'msg-1',
+          sessionState: state,
+          positions: [position],
+          combat,
+          world,
+        },
+      })
+    })
+  })
+
+  describe('rewind', () => {
+    const userMessage = {
+      id: 'msg-5',
+      sessionId: 'session-1',
+      role: 'USER',
+      content: 'I attack the barkeep',
+      characterId: 'char-1',
+      discardedAt: null,
+      createdAt: sentAt,
+      turnSnapshot: { sessionState: state, positions: [position] },
+    }
+
+    beforeEach(() => {
+      ;(prisma.characterPosition.findMany as jest.Mock).mockResolvedValue([])
+    })
+
+    it('should discard later messages and restore the snapshot', async () => {
+      // Given
+      ;(prisma.message.findUnique as jest.Mock).mockResolvedValue(userMessage)
+      ;(prisma.message.count as jest.Mock).mockResolvedValue(4)
+      ;(prisma.characterPosition.findMany as jest.Mock).mockResolvedValue([{ ...position, x: 7 }])
+
+      // When
+      const result = await turnHistoryService.rewind('session-1', 'msg-5')
+
+      // Then
+      expect(prisma.message.updateMany).toHaveBeenCalledWith({
+        where: { sessionId: 'session-1', discardedAt: null, createdAt: { gte: sentAt } },
+        data: { discardedAt: expect.any(Date) },
+      })
+      expect(prisma.diceRoll.deleteMany).toHaveBeenCalledWith({
+        where: {
+          sessionId: 'session-1',
+          OR: [{ createdAt: { gte: sentAt } }, { message: { createdAt: { gte: sentAt } } }],
+        },
+      })
+      expect(prisma.sessionSummary.deleteMany).toHaveBeenCalledWith({
+        where: { sessionId: 'session-1', messageRangeEnd: { gt: 4 } },
+      })
+      expect(prisma.sessionState.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { sessionId: 'session-1' },
+          update: expect.objectContaining({ currentLocation: 'the tavern', ongoingQuests: Prisma.DbNull }),
+        })
+      )
+      expect(prisma.characterPosition.upsert).toHaveBeenCalledWith({
+        where: { characterId: 'char-1' },
+        update: { locationId: 'loc-1', x: 1, y: 2, z: 0, facing: null },
+        create: position,
+      })
+      expect(prisma.movementEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            characterId: 'char-1',
+            messageId: 'msg-5',
+            source: 'REWIND',
+            fromX: 7,
+            toX: 1,
+            toLocationId: 'loc-1',
+          }),
+        ],
+      })
+      expect(result).toEqual({ message: userMessage, discardedCount: 3 })
+    })
+
+    it('should close the door a tool opened and return the item it took', async () => {
+      // Given: the turn started with the door closed and the key in the chest;
+      // its tools opened the door and took the key
+      const door = {
+        featureId: 'door-1',
+        state: 'CLOSED',
+        blocksMovement: true,
+        blocksVision: true,
+        providesCover: 'FULL',
+      }
+      const key = { itemId: 'key-1', featureId: 'feat-1', characterId: null, quantity: 1 }
+      ;(prisma.message.findUnique as jest.Mock).mockResolvedValue({
+        ...userMessage,
+        turnSnapshot: {
+          ...userMessage.turnSnapshot,
+          world: { features: [chest, door], items: [key], triggers: [] },
+        },
+      })
+      ;(prisma.message.count as jest.Mock).mockResolvedValue(4)
+
+      // When
+      await turnHistoryService.rewind('session-1', 'msg-5')
+
+      // Then
+      expect(prisma.locationFeature.updateMany).toHaveBeenCalledWith({
+        where: { id: 'door-1' },
+        data: { state: 'CLOSED', blocksMovement: true, blocksVision: true, providesCover: 'FULL' },
+      })
+      expect(prisma.item.updateMany).toHaveBeenCalledWith({
+        where: { id: 'key-1' },
+        data: { featureId: 'feat-1', characterId: null, quantity: 1 },
+      })
+      // Rolls the tools made to pick the lock go with the turn
+      expect(prisma.diceRoll.deleteMany).toHaveBeenCalledWith({
+        where: {
+          sessionId: 'session-1',
+          OR: [{ createdAt: { gte: sentAt } }, { message: { createdAt: { gte: sentAt } } }],
+        },
+      })
+    })
+
+    it('should put HP, conditions and the encounter back', async () => {
+      // Given
+      ;(prisma.message.findUnique as jest.Mock).mockResolvedValue({
+        ...userMessage,
+        turnSnapshot: { ...userMessage.turnSnapshot, combat },
+      })
+      ;(prisma.message.count as jest.Mock).mockResolvedValue(4)
+
+      // When
+      await turnHistoryService.rewind('session-1', 'msg-5')
+
+      // Then
+      expect(prisma.character.updateMany).toHaveBeenCalledWith({ where: { id: 'char-1' }, data: vitals })
+      expect(prisma.characterCondition.deleteMany).toHaveBeenCalledWith({
+        where: { characterId: { in: ['char-1'] } },
+      })
+      expect(prisma.characterCondition.createMany).toHaveBeenCalledWith({ data: [condition] })
+      expect(prisma.npc.updateMany).toHaveBeenCalledWith({ where: { id: 'npc-1' }, data: { currentHp: 7 } })
+      expect(prisma.encounter.deleteMany).toHaveBeenCalledWith({
+        where: { sessionId: 'session-1', createdAt: { gte: sentAt } },
+      })
+      expect(prisma.encounter.updateMany).toHaveBeenCalledWith({
+        where: { id: 'enc-1' },
+        data: { status: 'ACTIVE', round: 2, turnIndex: 1, endedAt: null, summary: null },
+      })
+      expect(prisma.combatant.deleteMany).toHaveBeenCalledWith({
+        where: { encounterId: 'enc-1', createdAt: { gte: sentAt } },
+      })
+      expect(prisma.combatant.updateMany).toHaveBeenCalledWith({
+        where: { id: 'cmb-1' },
+        data: { order: 0, movementUsed: 4.5, reactionUsed: true, isDefeated: false },
+      })
+    })
+
+    it('should leave HP and encounters alone for turns recorded without them', async () => {
+      // Given
+      ;(prisma.message.findUnique as jest.Mock).mockResolvedValue(userMessage)
+      ;(prisma.message.count as jest.Mock).mockResolvedValue(4)
+
+      // When
+      await turnHistoryService.rewind('session-1', 'msg-5')
+
+      // Then
+      expect(prisma.character.updateMany).not.toHaveBeenCalled()
+      expect(prisma.encounter.deleteMany).not.toHaveBeenCalled()
+    })
+
+    it('should clear the session state when the turn started without one', async () => {
+      // Given
+      ;(prisma.message.findUnique as jest.Mock).mockResolvedValue({
+        ...userMessage,
+        turnSnapshot: { sessionState: null, positions: [] },
+      })
+      ;(prisma.message.count as jest.Mock).mockResolvedValue(0)
+
+      // When
+      await turnHistoryService.rewind('session-1', 'msg-5')
+
+      // Then
+      expect(prisma.sessionState.deleteMany).toHaveBeenCalledWith({ where: { sessionId: 'session-1' } })
+      expect(prisma.sessionState.upsert).not.toHaveBeenCalled()
+    })
+
+    it('should only rewind to player messages', async () => {
+      // Given
+      ;(prisma.message.findUnique as jest.Mock).mockResolvedValue({ ...userMessage, role: 'ASSISTANT' })
+
+      // When / Then
+      await expect(turnHistoryService.rewind('session-1', 'msg-5')).rejects.toThrow(
+        'Only player messages can be rewound to'
+      )
+      expect(prisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should refuse turns without a snapshot', async () => {
+      // Given
+      ;(prisma.message.findUnique as jest.Mock).mockResolvedValue({ ...userMessage, turnSnapshot: null })
+
+      // When / Then
+      await expect(turnHistoryService.rewind('session-1', 'msg-5')).rejects.toThrow('cannot be undone')
+    })
+
+    it('should treat discarded messages and other sessions as not found', async () => {
+      // Given
+      ;(prisma.message.findUnique as jest.Mock)
+        .mockResolvedValueOnce({ ...userMessage, discardedAt: new Date() })
+        .mockResolvedValueOnce({ ...userMessage, sessionId: 'session-2' })
+
+      // When / Then
+      await expect(turnHistoryService.rewind('session-1', 'msg-5')).rejects.toThrow('Message not found')
+      await expect(turnHistoryService.rewind('session-1', 'msg-5')).rejects.toThrow('Message not found')
+    })
+  })
+
+  describe('replay', () => {
+    const userMessage = {
+      id: 'msg-5',
+      sessionId: 'session-1',
+      role: 'USER',
+      discardedAt: null,
+      createdAt: sentAt,
+      turnSnapshot: { sessionState: state, positions: [position], combat },
+    }
+    const roll = { id: 'roll-1', sessionId: 'session-1', total: 14, result: { terms: [] } }
+
+    beforeEach(() => {
+      givenCurrentState()
+      ;(prisma.message.findUnique as jest.Mock).mockResolvedValue(userMessage)
+      ;(prisma.message.count as jest.Mock).mockResolvedValue(4)
+      ;(prisma.message.findMany as jest.Mock).mockResolvedValue([{ id: 'msg-5' }, { id: 'msg-6' }])
+      ;(prisma.diceRoll.findMany as jest.Mock).mockResolvedValue([roll])
+      ;(prisma.sessionSummary.findMany as jest.Mock).mockResolvedValue([])
+      ;(prisma.encounter.findMany as jest.Mock).mockResolvedValue([])
+      ;(prisma.combatant.findMany as jest.Mock).mockResolvedValue([])
+      ;(prisma.reactionPrompt.findMany as jest.Mock).mockResolvedValue([])
+      ;(prisma.triggerActivation.findMany as jest.Mock).mockResolvedValue([])
+      ;(prisma.revealedFeature.findMany as jest.Mock).mockResolvedValue([])
+    })
+
+    it('should rewind and play the turn again', async () => {
+      // Given
+      const play = jest.fn().mockResolvedValue('new reply')
+
+      // When
+      const result = await turnHistoryService.replay('session-1', 'msg-5', play)
+
+      // Then
+      expect(result).toBe('new reply')
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1)
+      expect(prisma.diceRoll.createMany).not.toHaveBeenCalled()
+    })
+
+    it('should give back an item taken in the regenerated turn', async () => {
+      // Given: the turn took 10 of the chest's 30 arrows and set off its trap
+      ;(prisma.message.findUnique as jest.Mock).mockResolvedValue({
+        ...userMessage,
+        turnSnapshot: { ...userMessage.turnSnapshot, world },
+      })
+      const play = jest.fn().mockResolvedValue('new reply')
+
+      // When
+      await turnHistoryService.replay('session-1', 'msg-5', play)
+
+      // Then: the split stack goes, the chest is full again and the trap re-armed
+      expect(prisma.item.deleteMany).toHaveBeenCalledWith({
+        where: {
+          campaign: { sessions: { some: { id: 'session-1' } } },
+          createdAt: { gte: sentAt },
+        },
+      })
+      expect(prisma.item.updateMany).toHaveBeenCalledWith({
+        where: { id: 'item-1' },
+        data: { featureId: 'feat-1', characterId: null, quantity: 30 },
+      })
+      expect(prisma.locationFeature.updateMany).toHaveBeenCalledWith({
+        where: { id: 'feat-1' },
+        data: { state: 'OPEN', blocksMovement: false, blocksVision: false, providesCover: 'NONE' },
+      })
+      expect(prisma.featureTrigger.updateMany).toHaveBeenCalledWith({
+        where: { id: 'trap-1' },
+        data: { isArmed: true },
+      })
+      expect(prisma.triggerActivation.deleteMany).toHaveBeenCalledWith({
+        where: { sessionId: 'session-1', createdAt: { gte: sentAt } },
+      })
+      expect(play).toHaveBeenCalled()
+    })
+
+    it('should put the old turn back when the new one fails', async () => {
+      // Given
+      const play = jest.fn().mockRejectedValue(new Error('AI provider unavailable'))
+
+      // When / Then
+      await expect(turnHistoryService.replay('session-1', 'msg-5', play)).rejects.toThrow(
+        'AI provider unavailable'
+      )
+      expect(prisma.$transaction).toHaveBeenCalledTimes(2)
+      expect(prisma.message.updateMany).toHaveBeenLastCalledWith({
+        where: { id: { in: ['msg-5', 'msg-6'] } },
+        data: { discardedAt: null },
+      })
+      expect(prisma.diceRoll.createMany).toHaveBeenCalledWith({ data: [roll] })
+      expect(prisma.encounter.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'enc-1' },
+        data: { status: 'ACTIVE', round: 2, turnIndex: 1, endedAt: null, summary: null },
+      })
+    })
+
+    it('should bring back the encounter the old turn started when the new one fails', async () => {
+      // Given: combat started during the turn being regenerated
+      const encounter = { id: 'enc-2', sessionId: 'session-1', status: 'ACTIVE', createdAt: sentAt }
+      const combatant = { id: 'cmb-2', encounterId: 'enc-2', name: 'Goblin 1', createdAt: sentAt }
+      const activation = { id: 'act-1', sessionId: 'session-1', triggerId: 'trap-1', createdAt: sentAt }
+      ;(prisma.encounter.findMany as jest.Mock).mockResolvedValue([encounter])
+      ;(prisma.combatant.findMany as jest.Mock).mockResolvedValue([combatant])
+      ;(prisma.triggerActivation.findMany as jest.Mock).mockResolvedValue([activation])
+      const play = jest.fn().mockRejectedValue(new Error('AI provider unavailable'))
+
+      // When
+      await expect(turnHistoryService.replay('session-1', 'msg-5', play)).rejects.toThrow()
+
+      // Then: the rows the rewind deleted are created again
+      expect(prisma.encounter.findMany).toHaveBeenCalledWith({
+        where: { sessionId: 'session-1', createdAt: { gte: sentAt } },
+      })
+      expect(prisma.encounter.createMany).toHaveBeenCalledWith({ data: [encounter], skipDuplicates: true })
+      expect(prisma.combatant.createMany).toHaveBeenCalledWith({ data: [combatant], skipDuplicates: true })
+      expect(prisma.triggerActivation.createMany).toHaveBeenCalledWith({
+        data: [activation],
+        skipDuplicates: true,
+      })
+    })
+  })
+
+  describe('getLastTurn', () => {
+    it('should throw when no player message is left', async () => {
+      // Given
+      ;(prisma.message.findFirst as jest.Mock).mockResolvedValue(null)
+
+      // When / Then
+      await expect(turnHistoryService.getLastTurn('session-1')).rejects.toThrow(
+        'No turn to undo in this session'
+      )
+    })
+  })
+})
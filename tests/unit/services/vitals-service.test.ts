@@ -0,0 +1,139 @@
+import {
+  applyDamage,
+  applyDeathSave,
+  applyHealing,
+  formatConditionDuration,
+  lifeState,
+  toPartyMemberStatus,
+} from '@/services/vitals-service'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {},
+}))
+
+describe('VitalsService', () => {
+  const healthy = {
+    maxHp: 20,
+    currentHp: 20,
+    tempHp: 0,
+    deathSaveSuccesses: 0,
+    deathSaveFailures: 0,
+  }
+  const dying = { ...healthy, currentHp: 0 }
+
+  describe('applyDamage', () => {
+    it('should let temporary HP absorb damage first', () => {
+      // Given
+      const vitals = { ...healthy, tempHp: 5 }
+
+      // When
+      const { vitals: next } = applyDamage(vitals, 8)
+
+      // Then
+      expect(next.tempHp).toBe(0)
+      expect(next.currentHp).toBe(17)
+    })
+
+    it('should drop to 0 HP without going negative', () => {
+      // When
+      const { vitals: next, events } = applyDamage(healthy, 25)
+
+      // Then
+      expect(next.currentHp).toBe(0)
+      expect(lifeState(next)).toBe('dying')
+      expect(events[0]).toMatch(/drops to 0 HP/)
+    })
+
+    it('should kill outright when the overflow reaches max HP', () => {
+      // When
+      const { vitals: next } = applyDamage(healthy, 40)
+
+      // Then
+      expect(lifeState(next)).toBe('dead')
+    })
+
+    it('should cost death saves when hit at 0 HP', () => {
+      // When
+      const hit = applyDamage(dying, 3).vitals
+      const crit = applyDamage(dying, 3, true).vitals
+
+      // Then
+      expect(hit.deathSaveFailures).toBe(1)
+      expect(crit.deathSaveFailures).toBe(2)
+    })
+  })
+
+  describe('applyHealing', () => {
+    it('should cap at max HP and wake a dying character', () => {
+      // Given
+      const vitals = { ...dying, deathSaveFailures: 2 }
+
+      // When
+      const { vitals: next, events } = applyHealing(vitals, 50)
+
+      // Then
+      expect(next.currentHp).toBe(20)
+      expect(next.deathSaveFailures).toBe(0)
+      expect(events).toContain('regains consciousness')
+    })
+
+    it('should refuse to heal the dead', () => {
+      expect(() => applyHealing({ ...dying, deathSaveFailures: 3 }, 5)).toThrow('Cannot heal a dead character')
+    })
+  })
+
+  describe('applyDeathSave', () => {
+    it('should count successes until stable', () => {
+      // Given
+      const vitals = { ...dying, deathSaveSuccesses: 2 }
+
+      // When
+      const { vitals: next } = applyDeathSave(vitals, 12)
+
+      // Then
+      expect(lifeState(next)).toBe('stable')
+    })
+
+    it('should restore 1 HP on a natural 20 and count a natural 1 twice', () => {
+      // Then
+      expect(applyDeathSave(dying, 20).vitals.currentHp).toBe(1)
+      expect(applyDeathSave(dying, 1).vitals.deathSaveFailures).toBe(2)
+    })
+
+    it('should reject death saves for conscious characters', () => {
+      expect(() => applyDeathSave(healthy, 15)).toThrow(/only apply to dying characters/)
+    })
+  })
+
+  describe('formatConditionDuration', () => {
+    it('should describe rounds, minutes and open-ended conditions', () => {
+      expect(formatConditionDuration(1)).toBe('1 round')
+      expect(formatConditionDuration(7)).toBe('7 rounds')
+      expect(formatConditionDuration(100)).toBe('10 minutes')
+      expect(formatConditionDuration(null)).toBeUndefined()
+    })
+  })
+
+  describe('toPartyMemberStatus', () => {
+    it('should include death saves only while dying', () => {
+      // Given
+      const character = {
+        ...dying,
+        deathSaveFailures: 1,
+        name: 'Aria',
+        armorClass: 15,
+        conditions: [{ name: 'poisoned', remainingRounds: 3 }],
+      }
+
+      // When
+      const status = toPartyMemberStatus(character)
+      const recovered = toPartyMemberStatus({ ...character, currentHp: 9 })
+
+      // Then
+      expect(status.deathSaves).toEqual({ successes: 0, failures: 1 })
+      expect(status.conditions).toEqual([{ name: 'poisoned', duration: '3 rounds' }])
+      expect(recovered.state).toBe('bloodied')
+      expect(recovered.deathSaves).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,301 @@
+import { worldService } from '@/services/world-service'
+import { encounterService } from '@/services/encounter-service'
+import { sessionService } from '@/services/session-service'
+import { prisma } from '@/lib/db'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    location: {
+      findUnique: jest.fn(),
+    },
+    locationFeature: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    locationConnection: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    characterPosition: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+      count: jest.fn(),
+    },
+    movementEvent: {
+      createMany: jest.fn(),
+    },
+    sessionState: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/services/encounter-service', () => ({
+  encounterService: {
+    getActiveEncounter: jest.fn(),
+  },
+}))
+
+jest.mock('@/services/session-service', () => ({
+  sessionService: {
+    getRoster: jest.fn(),
+  },
+}))
+
+describe('WorldService', () => {
+  const room = (id: string, name: string) => ({
+    id,
+    name,
+    campaignId: 'campaign-1',
+    minX: 0,
+    maxX: 10,
+    minY: 0,
+    maxY: 10,
+    minZ: 0,
+    maxZ: 3,
+    gridType: 'NONE',
+    gridSize: 1.524,
+    diagonalRule: 'UNIFORM',
+  })
+  const tavern = room('tavern', 'The Tavern')
+  const cellar = room('cellar', 'The Cellar')
+
+  const stairs = {
+    id: 'conn-1',
+    fromLocationId: 'tavern',
+    toLocationId: 'cellar',
+    featureId: null,
+    type: 'STAIRS',
+    name: 'Cellar stairs',
+    description: null,
+    fromX: 9,
+    fromY: 9,
+    fromZ: 0,
+    toX: 2,
+    toY: 2,
+    toZ: 0,
+    bidirectional: true,
+    travelDistance: null,
+    travelTime: null,
+    fromLocation: tavern,
+    toLocation: cellar,
+  }
+
+  const roster = [
+    { id: 'char-1', name: 'Aria' },
+    { id: 'char-2', name: 'Borin' },
+  ]
+  const standingIn = (locationId: string) =>
+    roster.map((c) => ({ characterId: c.id, locationId, x: 5, y: 5, z: 0 }))
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(encounterService.getActiveEncounter as jest.Mock).mockResolvedValue(null)
+    ;(sessionService.getRoster as jest.Mock).mockResolvedValue(roster)
+    ;(prisma.locationConnection.findUnique as jest.Mock).mockResolvedValue(stairs)
+    ;(prisma.locationFeature.findMany as jest.Mock).mockResolvedValue([])
+    ;(prisma.characterPosition.update as jest.Mock).mockImplementation((args) => args)
+    ;(prisma.$transaction as jest.Mock).mockResolvedValue([])
+    ;(prisma.sessionState.findUnique as jest.Mock).mockResolvedValue({ recentEvents: ['Earlier'] })
+  })
+
+  describe('travel', () => {
+    it('should move the party to free spots around the arrival point and follow them with the scene', async () => {
+      // Given
+      ;(prisma.characterPosition.findMany as jest.Mock)
+        .mockResolvedValueOnce(standingIn('tavern'))
+        .mockResolvedValueOnce([{ characterId: 'npc-1', locationId: 'cellar', x: 2, y: 2, z: 0 }])
+      ;(prisma.characterPosition.count as jest.Mock).mockResolvedValue(0)
+
+      // When
+      const result = await worldService.travel('session-1', 'conn-1')
+
+      // Then
+      expect(result.exit.destinationName).toBe('The Cellar')
+      expect(result.arrivals.map((a) => a.characterId)).toEqual(['char-1', 'char-2'])
+      const [first, second] = result.arrivals.map((a) => a.position)
+      // The arrival point itself is taken, so both land one meter out
+      expect(Math.hypot(first.x - 2, first.y - 2)).toBeCloseTo(1)
+      expect(Math.hypot(second.x - 2, second.y - 2)).toBeCloseTo(1)
+      expect(Math.hypot(first.x - second.x, first.y - second.y)).toBeGreaterThan(0.5)
+
+      expect(prisma.characterPosition.update).toHaveBeenCalledWith({
+        where: { characterId: 'char-1' },
+        data: { locationId: 'cellar', ...first },
+      })
+      expect(prisma.movementEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            sessionId: 'session-1',
+            characterId: 'char-1',
+            source: 'TRAVEL',
+            fromLocationId: 'tavern',
+            fromX: 5,
+            toLocationId: 'cellar',
+            toX: first.x,
+          }),
+          expect.objectContaining({ characterId: 'char-2', source: 'TRAVEL' }),
+        ],
+      })
+      expect(result.sessionLocationChanged).toBe(true)
+      expect(prisma.sessionState.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: {
+            recentEvents: ['Aria, Borin travelled through Cellar stairs to The Cellar', 'Earlier'],
+            locationId: 'cellar',
+            currentLocation: 'The Cellar',
+          },
+        })
+      )
+    })
+
+    it('should take a bidirectional connection back from its destination', async () => {
+      // Given
+      ;(prisma.characterPosition.findMany as jest.Mock)
+        .mockResolvedValueOnce(standingIn('cellar'))
+        .mockResolvedValueOnce([])
+      ;(prisma.characterPosition.count as jest.Mock).mockResolvedValue(0)
+
+      // When
+      const result = await worldService.travel('session-1', 'conn-1', 'char-1')
+
+      // Then
+      expect(result.exit.destinationId).toBe('tavern')
+      expect(result.arrivals).toEqual([{ characterId: 'char-1', name: 'Aria', position: { x: 9, y: 9, z: 0 } }])
+    })
+
+    it('should keep the scene where it is while party members are left behind', async () => {
+      // Given
+      ;(prisma.characterPosition.findMany as jest.Mock)
+        .mockResolvedValueOnce(standingIn('tavern'))
+        .mockResolvedValueOnce([])
+      ;(prisma.characterPosition.count as jest.Mock).mockResolvedValue(1)
+
+      // When
+      const result = await worldService.travel('session-1', 'conn-1', 'char-1')
+
+      // Then
+      expect(result.sessionLocationChanged).toBe(false)
+      expect(prisma.sessionState.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: { recentEvents: ['Aria travelled through Cellar stairs to The Cellar', 'Earlier'] },
+        })
+      )
+    })
+
+    it('should refuse one-way connections from their destination', async () => {
+      // Given
+      ;(prisma.locationConnection.findUnique as jest.Mock).mockResolvedValue({ ...stairs, bidirectional: false })
+      ;(prisma.characterPosition.findMany as jest.Mock).mockResolvedValue(standingIn('cellar'))
+
+      // When / Then
+      await expect(worldService.travel('session-1', 'conn-1', 'char-1')).rejects.toThrow(
+        'Cellar stairs is one-way'
+      )
+      expect(prisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should refuse characters who are elsewhere', async () => {
+      // Given
+      ;(prisma.characterPosition.findMany as jest.Mock).mockResolvedValue(standingIn('stables'))
+
+      // When / Then
+      await expect(worldService.travel('session-1', 'conn-1', 'char-1')).rejects.toThrow(
+        'Aria is not at The Tavern'
+      )
+      await expect(worldService.travel('session-1', 'conn-1')).rejects.toThrow(
+        'No one in the party is at The Tavern'
+      )
+    })
+
+    it('should not travel during combat', async () => {
+      // Given
+      ;(encounterService.getActiveEncounter as jest.Mock).mockResolvedValue({ id: 'enc-1' })
+
+      // When / Then
+      await expect(worldService.travel('session-1', 'conn-1')).rejects.toThrow(
+        'Cannot travel while combat is running'
+      )
+    })
+  })
+
+  describe('getExits', () => {
+    it('should show a bidirectional connection from both ends', async () => {
+      // Given
+      ;(prisma.locationConnection.findMany as jest.Mock).mockResolvedValue([stairs])
+
+      // When
+      const [exit] = await worldService.getExits('cellar')
+
+      // Then
+      expect(prisma.locationConnection.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { OR: [{ fromLocationId: 'cellar' }, { toLocationId: 'cellar', bidirectional: true }] },
+        })
+      )
+      expect(exit).toMatchObject({
+        name: 'Cellar stairs',
+        position: { x: 2, y: 2, z: 0 },
+        destinationId: 'tavern',
+        arrivalPosition: { x: 9, y: 9, z: 0 },
+      })
+    })
+  })
+
+  describe('createConnection', () => {
+    it('should place the exit at the centre of its door', async () => {
+      // Given
+      ;(prisma.location.findUnique as jest.Mock).mockResolvedValueOnce(tavern).mockResolvedValueOnce(cellar)
+      ;(prisma.locationFeature.findUnique as jest.Mock).mockResolvedValue({
+        id: 'door-1',
+        locationId: 'tavern',
+        x: 4,
+        y: 10,
+        z: 0,
+        width: 2,
+        depth: 0,
+      })
+
+      // When
+      await worldService.createConnection({
+        fromLocationId: 'tavern',
+        toLocationId: 'cellar',
+        name: 'Trapdoor',
+        featureId: 'door-1',
+      })
+
+      // Then
+      expect(prisma.locationConnection.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          fromX: 5,
+          fromY: 10,
+          fromZ: 0,
+          toX: 5,
+          toY: 5,
+          toZ: 0,
+          bidirectional: true,
+        }),
+      })
+    })
+
+    it('should not connect locations of different campaigns', async () => {
+      // Given
+      ;(prisma.location.findUnique as jest.Mock)
+        .mockResolvedValueOnce(tavern)
+        .mockResolvedValueOnce({ ...cellar, campaignId: 'campaign-2' })
+
+      // When / Then
+      await expect(
+        worldService.createConnection({
+          fromLocationId: 'tavern',
+          toLocationId: 'cellar',
+          name: 'Portal',
+          exitPosition: { x: 1, y: 1, z: 0 },
+        })
+      ).rejects.toThrow('Locations must belong to the same campaign')
+    })
+  })
+})
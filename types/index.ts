@@ -1,8 +1,28 @@
+export type CampaignRole = 'GM' | 'PLAYER'
+
+export type AuthUser = {
+  id: string
+  email: string
+  displayName: string
+}
+
+export type UserRegisterInput = {
+  email: string
+  password: string
+  displayName: string
+}
+
+export type CampaignMemberInput = {
+  email: string // Must belong to a registered user
+  role?: CampaignRole // Defaults to PLAYER
+}
+
 export type CampaignCreateInput = {
   name: string
   description?: string
   worldSettings?: string
   aiGuidelines?: string
+  aiModel?: string
 }
 
 export type CampaignUpdateInput = Partial<CampaignCreateInput>
@@ -11,6 +31,7 @@ export type SessionCreateInput = {
   campaignId: string
   name: string
   notes?: string
+  characterIds?: string[] // Roster; defaults to every character in the campaign
 }
 
 export type SessionUpdateInput = {
@@ -32,6 +53,14 @@ export type CharacterCreateInput = {
   flySpeed?: number
   swimSpeed?: number
   climbSpeed?: number
+  visionRange?: number | null // Meters; null = unlimited
+  darkvision?: number | null
+  blindsight?: number | null
+  maxHp?: number
+  currentHp?: number // Defaults to maxHp
+  tempHp?: number
+  armorClass?: number
+  ownerId?: string | null // Controlling player; null = GM-controlled
 }
 
 export type CharacterStats = {
@@ -45,6 +74,31 @@ export type CharacterStats = {
 
 export type CharacterUpdateInput = Partial<CharacterCreateInput>
 
+export type CharacterVitals = {
+  maxHp: number
+  currentHp: number
+  tempHp: number
+  deathSaveSuccesses: number
+  deathSaveFailures: number
+}
+
+export type LifeState = 'healthy' | 'bloodied' | 'dying' | 'stable' | 'dead'
+
+// Vitals and conditions of a party member, as shown to the DM model
+export type PartyMemberStatus = {
+  name: string
+  currentHp: number
+  maxHp: number
+  tempHp: number
+  armorClass: number
+  state: LifeState
+  conditions: Array<{
+    name: string
+    duration?: string // e.g. "3 rounds"; omitted when it lasts until removed
+  }>
+  deathSaves?: { successes: number; failures: number } // Only while dying
+}
+
 export type MessageCreateInput = {
   sessionId: string
   role: 'USER' | 'ASSISTANT' | 'SYSTEM'
@@ -61,9 +115,55 @@ export type AIResponse = {
     promptTokens: number
     completionTokens: number
     movementSuggestion?: MovementSuggestion
+    outputValidation?: DMOutputValidation
+    diceRoll?: DiceRollSummary
+    toolCalls?: DMToolCallLog[]
   }
 }
 
+// A tool the DM model called during a turn (stored in Message.metadata)
+export type DMToolCallLog = {
+  name: string
+  arguments: Record<string, unknown> | string // Raw string when the model sent invalid JSON
+  result?: Record<string, unknown> | Array<Record<string, unknown>>
+  error?: string
+}
+
+// Server-rolled dice result, as shown to players and the DM model
+export type DiceRollSummary = {
+  id: string
+  characterName?: string
+  expression: string
+  total: number
+  breakdown: string
+  reason?: string
+}
+
+// Result of validating structured DM output (stored in Message.metadata)
+export type DMOutputValidation = {
+  valid: boolean
+  attempts: number // 1 = first reply was used, >1 = repair prompts were needed
+  failureReason?: string // Set when every attempt failed and a fallback was used
+  repairedErrors?: string[] // Validation errors of the rejected attempts
+}
+
+// Events emitted by the streaming DM endpoint (Server-Sent Events)
+export type DMStreamEvent =
+  | { type: 'narrative'; delta: string }
+  | {
+      type: 'complete'
+      content: string
+      movementSuggestion?: MovementSuggestion
+      diceRoll?: DiceRollSummary // Set when the turn was a "/roll" command
+      usage: {
+        promptTokens: number
+        completionTokens: number
+        totalTokens: number
+      }
+      userMessageId: string
+      assistantMessageId: string
+    }
+
 export type RateLimitStatus = {
   allowed: boolean
   requestCount: number
@@ -88,13 +188,17 @@ export type AIPromptContext = {
 // Enhanced AI Context for optimized prompts
 export type EnhancedAIContext = {
   campaignName: string
-  characterId?: string // Character ID for movement calculations
+  campaignId?: string
+  model?: string // Per-campaign LLM model override
+  characterId?: string // Acting character (movement and spatial context)
+  characterName?: string // Acting character's name, used to label the player input
   currentState?: SessionStateContext
   spatialContext?: SpatialAIContext
   recentSummary?: string
   recentMessages: Array<{
     role: 'USER' | 'ASSISTANT'
     content: string
+    speaker?: string // Acting character of a USER message
   }>
   relevantKnowledge: Array<{
     title: string
@@ -102,6 +206,162 @@ export type EnhancedAIContext = {
   }>
   toneGuidelines?: string
   mechanicsRules?: string[]
+  diceRolls?: DiceRollSummary[] // Rolls made since the last DM reply
+  triggeredEffects?: TriggerActivationRecord[] // Feature triggers resolved since the last DM reply
+  encounter?: EncounterContext // Set while combat is running
+  party?: PartyMemberStatus[]
+}
+
+// Turn order and round of the running combat encounter
+export type EncounterContext = {
+  round: number
+  currentTurn: string // Name of the combatant whose turn it is
+  order: Array<{
+    name: string
+    initiative: number
+    isNPC: boolean
+    isDefeated: boolean
+    isCurrent: boolean
+    movementRemaining: number // Meters left this turn
+    isHostile: boolean
+    reactionUsed: boolean // Spent until the start of their next turn
+  }>
+  pendingReactions: Array<{
+    combatant: string // Who may react
+    trigger: ReactionTrigger
+    triggeredBy: string // Whose action provoked it
+  }>
+}
+
+export type ReactionTrigger = 'OPPORTUNITY_ATTACK'
+
+export type ReactionStatus = 'PENDING' | 'USED' | 'DECLINED' | 'EXPIRED'
+
+// A reaction a combatant may take, and whether they took it
+export type ReactionPromptRecord = {
+  id: string
+  encounterId: string
+  round: number
+  trigger: ReactionTrigger
+  combatantId: string // Who may react
+  combatantName: string
+  characterId?: string // The reacting combatant's character; undefined = NPC
+  triggeredById: string // Combatant whose action provoked it
+  triggeredByName: string
+  suggestionId?: string // Movement suggestion whose move provoked it
+  position: Position3D // Where it was provoked (last point within reach)
+  status: ReactionStatus
+  createdAt: Date
+  resolvedAt?: Date
+}
+
+export type TriggerEvent = 'ENTER' | 'PROXIMITY' | 'INTERACT'
+
+export type TriggerOutcome = 'DETECTED' | 'TRIGGERED' | 'SAVED' | 'FAILED'
+
+export type Ability = 'STR' | 'DEX' | 'CON' | 'INT' | 'WIS' | 'CHA'
+
+// A feature trigger going off (or being spotted in time) and what it did
+export type TriggerActivationRecord = {
+  id: string
+  triggerId: string
+  featureId: string
+  featureName: string
+  characterId: string
+  characterName: string
+  suggestionId?: string // Movement suggestion whose move set it off
+  event: TriggerEvent
+  outcome: TriggerOutcome
+  saveTotal?: number
+  damage?: number
+  condition?: string
+  teleportLocationId?: string // Where the character was sent
+  summary: string
+  createdAt: Date
+}
+
+export type FeatureState = 'OPEN' | 'CLOSED' | 'LOCKED' | 'BROKEN'
+
+// What a character does to a feature: 'use' only sets off its INTERACT triggers
+export type FeatureAction = 'use' | 'open' | 'close' | 'lock' | 'unlock' | 'force'
+
+// Something a character carries or a container holds
+export type ItemRecord = {
+  id: string
+  name: string
+  description?: string
+  quantity: number
+  featureId?: string // Container holding it
+  characterId?: string // Character carrying it
+}
+
+// What came of a character acting on a feature
+export type FeatureInteractionResult = {
+  featureId: string
+  featureName: string
+  action: FeatureAction
+  state?: FeatureState // After the action
+  check?: {
+    ability: Ability
+    total: number
+    dc: number
+    success: boolean
+  }
+  triggers: TriggerActivationRecord[]
+}
+
+export type NpcDisposition = 'FRIENDLY' | 'NEUTRAL' | 'HOSTILE'
+
+// An NPC or creature the GM runs, kept apart from the player characters
+export type NpcRecord = {
+  id: string
+  campaignId: string
+  name: string
+  kind?: string // Creature type, e.g. "goblin"
+  statBlock?: Record<string, unknown>
+  disposition: NpcDisposition
+  faction?: string
+  knowledgeId?: string // Their NPC entry in the campaign knowledge
+  maxHp: number
+  currentHp: number
+  armorClass: number
+  baseMovementRate: number
+  locationId?: string // Unset while the token is off the map
+  position?: Position3D
+  facing?: number
+}
+
+export type NpcCreateInput = {
+  name: string
+  kind?: string
+  statBlock?: Record<string, unknown> // Ability scores as in CharacterStats, plus anything else
+  disposition?: NpcDisposition // Default: NEUTRAL
+  faction?: string
+  knowledgeId?: string // Must be an NPC entry of the campaign
+  maxHp?: number
+  armorClass?: number
+  baseMovementRate?: number
+  count?: number // Spawn a numbered pack ("Goblin 1", "Goblin 2", ...); default 1
+  locationId?: string
+  position?: Position3D // First token; the rest of a pack fill the cells around it
+}
+
+export type NpcUpdateInput = {
+  name?: string
+  kind?: string | null
+  statBlock?: Record<string, unknown> | null
+  disposition?: NpcDisposition
+  faction?: string | null
+  knowledgeId?: string | null
+  maxHp?: number
+  currentHp?: number
+  armorClass?: number
+  baseMovementRate?: number
+  locationId?: string | null // null takes the token off the map
+  x?: number
+  y?: number
+  z?: number
+  facing?: number | null
 }
 
 export type SessionStateContext = {
@@ -109,7 +369,6 @@ export type SessionStateContext = {
   locationId?: string
   activeNPCs?: string[]
   ongoingQuests?: string[]
-  partyConditions?: Record<string, any>
   recentEvents?: string[]
 }
 
@@ -132,6 +391,10 @@ export type LocationCreateInput = {
   minZ: number
   maxZ: number
   unitType?: string
+  gridType?: 'NONE' | 'SQUARE' | 'HEX'
+  gridSize?: number // Cell width in location units (defaults to 5ft)
+  diagonalRule?: 'UNIFORM' | 'ALTERNATING' | 'EUCLIDEAN'
+  ambientLight?: 'DARK' | 'DIM' | 'BRIGHT'
 }
 
 export type LocationFeatureCreateInput = {
@@ -149,9 +412,77 @@ export type LocationFeatureCreateInput = {
   blocksVision?: boolean
   providesCover?: 'NONE' | 'HALF' | 'THREE_QUARTERS' | 'FULL'
   elevation?: number
+  movementCost?: number // Multiplier for moving through (2 = difficult terrain)
+  movementMode?: 'WALK' | 'SWIM' | 'CLIMB' | 'FLY'
+  brightLight?: number // Light source: bright light radius
+  dimLight?: number // Light source: dim light out to this radius
   metadata?: Record<string, any>
 }
 
+export type ConnectionType = 'DOOR' | 'STAIRS' | 'PASSAGE' | 'PATH' | 'PORTAL'
+
+export type LocationConnectionCreateInput = {
+  fromLocationId: string
+  toLocationId: string
+  name: string
+  type?: ConnectionType
+  description?: string
+  featureId?: string // Exit feature in the origin location
+  exitPosition?: Position3D // Defaults to the centre of the exit feature
+  arrivalPosition?: Position3D // Defaults to the centre of the destination floor
+  bidirectional?: boolean
+  travelDistance?: number // Meters
+  travelTime?: number // Minutes
+}
+
+// A connection as seen from the location it is taken from
+export type LocationExit = {
+  connectionId: string
+  name: string
+  type: ConnectionType
+  description?: string
+  position: Position3D // Where the exit is in this location
+  destinationId: string
+  destinationName: string
+  arrivalPosition: Position3D
+  travelDistance?: number
+  travelTime?: number
+}
+
+export type TravelResult = {
+  exit: LocationExit
+  arrivals: Array<{
+    characterId: string
+    name: string
+    position: Position3D
+  }>
+  sessionLocationChanged: boolean // Whole party arrived, so the scene moved with them
+}
+
+export type AreaOfEffectResult = {
+  description: string // e.g. "6m radius sphere"
+  characters: Array<{
+    characterId?: string
+    npcId?: string // Set instead of characterId for NPC tokens
+    name: string
+    position: Position3D
+    distance: number // From the point of origin
+    coverLevel: string // HALF or THREE_QUARTERS cover still applies to saves
+    saveBonus: number // Dexterity save bonus from cover
+  }>
+  features: Array<{
+    featureId: string
+    name: string
+    type: string
+  }>
+  shielded: Array<{
+    characterId?: string
+    npcId?: string
+    name: string
+    reason: string // Total cover, or no line from the origin
+  }>
+}
+
 export type MovementRuleCreateInput = {
   campaignId: string
   name: string
@@ -172,17 +503,25 @@ export type CharacterPositionUpdate = {
 
 export type SpatialAIContext = {
   locationName?: string
+  grid?: string // e.g. "square grid, 1.52m cells, 5-5-5 diagonals"
   characterPosition?: Position3D
+  lightLevel?: string // Light where the character stands: DARK, DIM or BRIGHT
+  // Only what the character currently perceives
   nearbyCharacters?: Array<{
     name: string
     position: Position3D
     distance: number
     canSee: boolean
     coverLevel: string
+    perception?: string // e.g. "seen with darkvision"; unset when plainly visible
+    npcId?: string // Set for NPCs and creatures
+    disposition?: NpcDisposition
+    faction?: string
   }>
   nearbyFeatures?: Array<{
     name: string
     type: string
+    state?: FeatureState // Doors and containers
     position: Position3D
     distance: number
   }>
@@ -191,10 +530,17 @@ export type SpatialAIContext = {
     targetName: string
     requiresMovement: boolean
   }>
+  exits?: Array<{
+    name: string
+    type: string
+    destination: string
+    distance: number
+    travelTime?: number // Minutes
+  }>
 }
 
 export type MovementSuggestion = {
-  id: string // Unique ID for this suggestion
+  id: string // Stored suggestion id once recorded
   characterId: string
   characterName: string
   from: Position3D
@@ -202,7 +548,9 @@ export type MovementSuggestion = {
   reason: string // "To attack orc" or "To investigate altar"
   targetName?: string
   actionType: 'MELEE' | 'RANGED' | 'SPELL' | 'CONVERSATION' | 'PERCEPTION' | 'CUSTOM' | 'MOVEMENT'
-  distance: number
+  distance: number // Walking distance along `path` (straight line until validated)
+  movementCost?: number // Movement spent along `path` once terrain is priced
+  path?: Position3D[] // Waypoints from `from` to `to` around obstacles
   locationId: string
   isValid: boolean
   validationIssues?: string[]
@@ -213,6 +561,26 @@ export type MovementSuggestion = {
   movementModifier?: number // Modifier applied (e.g., 2.0 for running/dashing)
 }
 
+export type MovementSuggestionStatus = 'PENDING' | 'APPLIED' | 'REJECTED' | 'EXPIRED'
+
+// A stored movement suggestion and what became of it
+export type MovementSuggestionRecord = MovementSuggestion & {
+  status: MovementSuggestionStatus
+  messageId?: string // DM reply that proposed the move
+  proposedBy?: string // Display name of the player who asked; undefined = the DM
+  resolvedBy?: string // Display name of whoever applied or rejected it
+  resolutionNote?: string // Rejection reason, or why it expired
+  createdAt: Date
+  resolvedAt?: Date
+}
+
+export type MovementSuggestionStats = {
+  total: number
+  byStatus: Record<MovementSuggestionStatus, number>
+  acceptanceRate: number | null // Applied out of those the table decided on; null = none decided yet
+  averageDistance: number | null // Over applied moves
+}
+
 export type MovementIntent = {
   detected: boolean
   actionType?: 'MELEE' | 'RANGED' | 'SPELL' | 'CONVERSATION' | 'PERCEPTION' | 'CUSTOM' | 'MOVEMENT'
@@ -226,15 +594,47 @@ export type MovementValidationResult = {
   blockedBy?: string[]
   suggestedAlternative?: Position3D
   warnings?: string[]
+  path?: {
+    waypoints: Position3D[]
+    distance: number
+    cost: number
+  }
 }
 
+export type MovementSource = 'MOVE' | 'TRAVEL' | 'PLACE' | 'REWIND' | 'TELEPORT'
+
+// A recorded change of character position
 export type MovementEvent = {
-  type: 'movement'
+  id: string
+  sessionId?: string
   characterId: string
   characterName: string
-  from: Position3D
+  messageId?: string // Message that led to the move
+  suggestionId?: string // Movement suggestion that was applied
+  source: MovementSource
+  fromLocationId?: string
+  from?: Position3D // Undefined = not placed before
+  toLocationId?: string
   to: Position3D
-  reason: string
-  timestamp: string
+  reason?: string
+  createdAt: Date
+}
+
+// Where everyone stood when a message of the session was posted
+export type PositionReplay = {
+  message: {
+    id: string
+    index: number // Among the messages still in the conversation
+    role: 'USER' | 'ASSISTANT' | 'SYSTEM'
+    content: string
+    createdAt: Date
+  }
+  messageCount: number
+  positions: Array<{
+    characterId: string
+    characterName: string
+    locationId?: string
+    position: Position3D
+  }>
 }
 